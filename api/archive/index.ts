@@ -0,0 +1,49 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getArchivedLaunch, listArchivedLaunches, listSightingReports } from './store';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * Launch archive: predictions frozen at T-0 together with sighting reports
+ * GET ?launchId=...  - a single archived launch
+ * GET ?limit=50      - most recent launches that have already lifted off
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const launchId = Array.isArray(req.query.launchId) ? req.query.launchId[0] : req.query.launchId;
+  const requestedLimit = Number(Array.isArray(req.query.limit) ? req.query.limit[0] : req.query.limit);
+  const limit = Number.isInteger(requestedLimit) && requestedLimit > 0
+    ? Math.min(requestedLimit, MAX_LIMIT)
+    : DEFAULT_LIMIT;
+
+  try {
+    if (launchId) {
+      const launch = await getArchivedLaunch(launchId);
+      if (!launch) {
+        return res.status(404).json({ error: 'Launch not found in archive' });
+      }
+      return res.status(200).json({ launch: { ...launch, reports: await listSightingReports(launchId) } });
+    }
+
+    const now = Date.now();
+    const past = (await listArchivedLaunches())
+      .filter(launch => Date.parse(launch.net) <= now)
+      .sort((a, b) => Date.parse(b.net) - Date.parse(a.net))
+      .slice(0, limit);
+
+    const launches = await Promise.all(past.map(async launch => ({
+      ...launch,
+      reports: await listSightingReports(launch.launchId)
+    })));
+
+    res.setHeader('Cache-Control', 'public, max-age=60, s-maxage=60');
+    return res.status(200).json({ launches });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return res.status(500).json({ error: message });
+  }
+}
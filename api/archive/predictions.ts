@@ -0,0 +1,113 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { loadLaunchFeed } from '../v1/feed';
+import { TRAJECTORY_SOURCES, type TrajectorySource } from '../../src/services/trajectoryMappingService';
+import {
+  getArchivedLaunch,
+  saveArchivedLaunch,
+  type ArchivedPrediction,
+  type ArchiveLikelihood
+} from './store';
+
+const LIKELIHOODS: ArchiveLikelihood[] = ['high', 'medium', 'low', 'none'];
+const DATA_SOURCES = ['flightclub', 'calculated', 'estimated'];
+const MAX_SNAPSHOT_BYTES = 32 * 1024;
+
+const allowedOrigins = [
+  'https://bermuda-rocket-tracker.vercel.app',
+  'http://localhost:3000',
+  'http://localhost:3001',
+  'http://localhost:3002'
+];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parsePrediction(value: any, now: number): ArchivedPrediction | null {
+  if (!isPlainObject(value) || !LIKELIHOODS.includes(value.likelihood as ArchiveLikelihood) || !isPlainObject(value.visibility)) {
+    return null;
+  }
+
+  const snapshotSize = JSON.stringify({ visibility: value.visibility, match: value.flightClubMatch ?? null }).length;
+  if (snapshotSize > MAX_SNAPSHOT_BYTES) {
+    return null;
+  }
+
+  const firstVisible = Number(value.firstVisibleSeconds);
+  return {
+    capturedAt: now,
+    likelihood: value.likelihood as ArchiveLikelihood,
+    dataSource: DATA_SOURCES.includes(value.dataSource as string)
+      ? value.dataSource as ArchivedPrediction['dataSource']
+      : undefined,
+    trajectorySource: TRAJECTORY_SOURCES.includes(value.trajectorySource as TrajectorySource)
+      ? value.trajectorySource as TrajectorySource
+      : undefined,
+    bearing: typeof value.bearing === 'number' && Number.isFinite(value.bearing) ? value.bearing : undefined,
+    firstVisibleSeconds: value.firstVisibleSeconds != null && Number.isFinite(firstVisible) && firstVisible >= 0
+      ? firstVisible
+      : null,
+    visibility: value.visibility,
+    flightClubMatch: isPlainObject(value.flightClubMatch) ? value.flightClubMatch : null
+  };
+}
+
+/**
+ * Record the app's prediction for an upcoming launch
+ * POST - { launchId, prediction: { likelihood, dataSource, trajectorySource, bearing, firstVisibleSeconds, visibility, flightClubMatch } }
+ *
+ * Each capture replaces the previous one until T-0; after liftoff the
+ * prediction is frozen so it can be scored against sighting reports.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const origin = req.headers.origin || '';
+  if (allowedOrigins.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  }
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const launchId = req.body?.launchId;
+  const now = Date.now();
+  const prediction = parsePrediction(req.body?.prediction, now);
+  if (typeof launchId !== 'string' || !prediction) {
+    return res.status(400).json({ error: 'launchId and a valid prediction are required' });
+  }
+
+  try {
+    const source = (await loadLaunchFeed()).entry.launches.find(launch => launch.id === launchId);
+    if (!source) {
+      return res.status(404).json({ error: 'Launch is not in the upcoming schedule' });
+    }
+    // A scrub moves the NET forward, which reopens the prediction for the next attempt
+    if (now >= Date.parse(source.net)) {
+      return res.status(409).json({ error: 'Prediction is frozen at T-0' });
+    }
+
+    const existing = await getArchivedLaunch(launchId);
+
+    await saveArchivedLaunch({
+      launchId,
+      name: source.name,
+      net: source.net,
+      vehicle: source.rocket?.configuration?.name,
+      provider: source.launch_service_provider?.name,
+      prediction,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    });
+
+    return res.status(200).json({ ok: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return res.status(503).json({ error: message });
+  }
+}
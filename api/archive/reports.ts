@@ -0,0 +1,100 @@
+import { createHash } from 'crypto';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getArchivedLaunch, saveSightingReport, type SightingReport } from './store';
+
+const COMPASS_POINTS = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+
+// Reports are accepted from shortly before liftoff until a week after
+const REPORT_OPEN_BEFORE_MS = 10 * 60 * 1000;
+const REPORT_CLOSE_AFTER_MS = 7 * 24 * 60 * 60 * 1000;
+// First sighting has to fall within the flight's first hour
+const MAX_FIRST_SEEN_OFFSET_MS = 60 * 60 * 1000;
+
+const allowedOrigins = [
+  'https://bermuda-rocket-tracker.vercel.app',
+  'http://localhost:3000',
+  'http://localhost:3001',
+  'http://localhost:3002'
+];
+
+function parsePhotoUrl(value: unknown): string | undefined {
+  if (typeof value !== 'string' || value.length > 500) {
+    return undefined;
+  }
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' ? url.toString() : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Submit a sighting report for an archived launch
+ * POST - { launchId, reporterId, seen, firstSeenAt?, direction?, photoUrl? }
+ *
+ * reporterId is a random per-device id; it is hashed before storage and
+ * only used so a later report from the same device replaces the earlier one.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const origin = req.headers.origin || '';
+  if (allowedOrigins.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  }
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { launchId, reporterId, seen } = req.body ?? {};
+  if (typeof launchId !== 'string' || typeof reporterId !== 'string' || reporterId.length < 8 || typeof seen !== 'boolean') {
+    return res.status(400).json({ error: 'launchId, reporterId and seen are required' });
+  }
+
+  try {
+    const archived = await getArchivedLaunch(launchId);
+    if (!archived) {
+      return res.status(404).json({ error: 'No archived prediction for this launch' });
+    }
+
+    const now = Date.now();
+    const launchTime = Date.parse(archived.net);
+    if (now < launchTime - REPORT_OPEN_BEFORE_MS || now > launchTime + REPORT_CLOSE_AFTER_MS) {
+      return res.status(409).json({ error: 'Sighting reports are not open for this launch' });
+    }
+
+    const report: SightingReport = {
+      launchId,
+      seen,
+      submittedAt: now
+    };
+
+    if (seen) {
+      const firstSeen = Date.parse(req.body.firstSeenAt);
+      if (!Number.isNaN(firstSeen)) {
+        if (firstSeen < launchTime || firstSeen > launchTime + MAX_FIRST_SEEN_OFFSET_MS) {
+          return res.status(400).json({ error: 'First-seen time must be within an hour after liftoff' });
+        }
+        report.firstSeenAt = new Date(firstSeen).toISOString();
+      }
+      if (COMPASS_POINTS.includes(req.body.direction)) {
+        report.direction = req.body.direction;
+      }
+      report.photoUrl = parsePhotoUrl(req.body.photoUrl);
+    }
+
+    const reporterKey = createHash('sha256').update(reporterId).digest('hex').slice(0, 32);
+    await saveSightingReport(reporterKey, report);
+
+    return res.status(200).json({ ok: true, report });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return res.status(500).json({ error: message });
+  }
+}
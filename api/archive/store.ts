@@ -0,0 +1,127 @@
+import { Redis } from '@upstash/redis';
+
+export type ArchiveLikelihood = 'high' | 'medium' | 'low' | 'none';
+
+export interface ArchivedPrediction {
+  capturedAt: number;                  // last update before T-0
+  likelihood: ArchiveLikelihood;
+  dataSource?: 'flightclub' | 'calculated' | 'estimated';
+  trajectorySource?: string;           // TrajectoryMapping.source
+  bearing?: number;
+  firstVisibleSeconds?: number | null; // predicted T+ of first sighting
+  visibility: Record<string, unknown>; // EnhancedVisibilityData as the app computed it
+  flightClubMatch?: Record<string, unknown> | null;
+}
+
+export interface ArchivedLaunch {
+  launchId: string;
+  name: string;
+  net: string;
+  vehicle?: string;
+  provider?: string;
+  prediction: ArchivedPrediction;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SightingReport {
+  launchId: string;
+  seen: boolean;
+  firstSeenAt?: string;  // ISO time the observer first spotted the vehicle
+  direction?: string;    // 16-point compass abbreviation
+  photoUrl?: string;
+  submittedAt: number;
+}
+
+const redis = (() => {
+  try {
+    return Redis.fromEnv();
+  } catch (error) {
+    console.warn('[ArchiveStore] Redis not configured, falling back to in-memory store');
+    return null;
+  }
+})();
+
+const memoryStore = {
+  launches: new Map<string, ArchivedLaunch>(),
+  reports: new Map<string, Map<string, SightingReport>>()
+};
+
+// The archive is kept indefinitely - it is the record predictions are scored against
+const LAUNCH_PREFIX = 'archive:launch:';
+const REPORTS_PREFIX = 'archive:reports:';
+
+export async function getArchivedLaunch(launchId: string): Promise<ArchivedLaunch | null> {
+  if (redis) {
+    try {
+      const cached = await redis.get<ArchivedLaunch>(LAUNCH_PREFIX + launchId);
+      if (cached) {
+        return cached;
+      }
+    } catch (error) {
+      console.warn('[ArchiveStore] Redis get failed, using memory store:', error);
+    }
+  }
+
+  return memoryStore.launches.get(launchId) ?? null;
+}
+
+export async function saveArchivedLaunch(launch: ArchivedLaunch): Promise<void> {
+  if (redis) {
+    try {
+      await redis.set(LAUNCH_PREFIX + launch.launchId, launch);
+    } catch (error) {
+      console.warn('[ArchiveStore] Redis set failed, using memory store only:', error);
+    }
+  }
+
+  memoryStore.launches.set(launch.launchId, launch);
+}
+
+export async function listArchivedLaunches(): Promise<ArchivedLaunch[]> {
+  if (redis) {
+    try {
+      const keys = await redis.keys(LAUNCH_PREFIX + '*');
+      if (Array.isArray(keys) && keys.length > 0) {
+        const results = await redis.mget<(ArchivedLaunch | null)[]>(...keys);
+        return results.filter((entry): entry is ArchivedLaunch => Boolean(entry));
+      }
+    } catch (error) {
+      console.warn('[ArchiveStore] Unable to list Redis archive:', error);
+    }
+  }
+
+  return Array.from(memoryStore.launches.values());
+}
+
+/**
+ * Store a sighting report; a reporter's later report replaces their earlier one
+ */
+export async function saveSightingReport(reporterId: string, report: SightingReport): Promise<void> {
+  if (redis) {
+    try {
+      await redis.hset(REPORTS_PREFIX + report.launchId, { [reporterId]: report });
+    } catch (error) {
+      console.warn('[ArchiveStore] Redis hset failed, using memory store only:', error);
+    }
+  }
+
+  const reports = memoryStore.reports.get(report.launchId) ?? new Map<string, SightingReport>();
+  reports.set(reporterId, report);
+  memoryStore.reports.set(report.launchId, reports);
+}
+
+export async function listSightingReports(launchId: string): Promise<SightingReport[]> {
+  if (redis) {
+    try {
+      const reports = await redis.hgetall<Record<string, SightingReport>>(REPORTS_PREFIX + launchId);
+      if (reports) {
+        return Object.values(reports);
+      }
+    } catch (error) {
+      console.warn('[ArchiveStore] Unable to read Redis reports:', error);
+    }
+  }
+
+  return Array.from(memoryStore.reports.get(launchId)?.values() ?? []);
+}
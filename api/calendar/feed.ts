@@ -0,0 +1,46 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { buildCalendar, isLikelihood } from './ics';
+import { listCalendarEvents } from './store';
+import { syncCalendarEvents } from './sync';
+import { loadLaunchFeed } from '../v1/feed';
+import { DEFAULT_OBSERVER_LOCATION } from '../../src/services/observerLocationService';
+
+const DEFAULT_APP_URL = 'https://bermuda-rocket-tracker.vercel.app';
+
+/**
+ * Subscribable iCalendar feed of visible launches (served as /calendar.ics)
+ * GET ?min=high|medium|low - lowest visibility likelihood to include (default medium)
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const min = Array.isArray(req.query.min) ? req.query.min[0] : req.query.min;
+  const minLikelihood = isLikelihood(min) ? min : 'medium';
+
+  try {
+    let events;
+    try {
+      const { entry } = await loadLaunchFeed();
+      // The calendar is shared, so only default-observer visibility may reach it
+      events = await syncCalendarEvents(entry.launches, entry.observerId === DEFAULT_OBSERVER_LOCATION.id);
+    } catch (error) {
+      console.warn('[CalendarFeed] Launch time sync failed, serving stored events:', error);
+      events = await listCalendarEvents();
+    }
+
+    const calendar = buildCalendar(events, {
+      minLikelihood,
+      appUrl: process.env.PUBLIC_APP_URL || DEFAULT_APP_URL
+    });
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="bermuda-launches.ics"');
+    res.setHeader('Cache-Control', 'public, max-age=300, s-maxage=300');
+    return res.status(200).send(calendar);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return res.status(500).json({ error: message });
+  }
+}
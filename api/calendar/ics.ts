@@ -0,0 +1,273 @@
+export type CalendarLikelihood = 'high' | 'medium' | 'low' | 'none';
+
+export interface CalendarEventInput {
+  launchId: string;
+  name: string;
+  net: string;
+  status?: string;               // Launch Library status abbreviation (Go, TBD, Hold, ...)
+  likelihood?: CalendarLikelihood;
+  bearing?: number;              // look direction from Bermuda, degrees
+  trajectoryDirection?: string;
+  estimatedTimeVisible?: string; // e.g. "Visible from T+3 to T+8 minutes. Look WSW ..."
+}
+
+export interface CalendarEvent extends CalendarEventInput {
+  likelihood: CalendarLikelihood;
+  sequence: number;  // bumped on every change so subscribed calendars update in place
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CalendarBuildOptions {
+  minLikelihood: CalendarLikelihood;
+  appUrl: string;
+  now?: number;
+}
+
+const TIMEZONE = 'Atlantic/Bermuda';
+const UID_DOMAIN = 'bermuda-rocket-tracker';
+
+// Keep tonight's event in the feed for a day after liftoff
+const EVENT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Typical second-stage window from Bermuda when no estimate is available
+const DEFAULT_WINDOW_MINUTES = { start: 2, end: 10 };
+
+const LIKELIHOOD_RANK: Record<CalendarLikelihood, number> = { none: 0, low: 1, medium: 2, high: 3 };
+
+const COMPASS_POINTS = [
+  'North', 'North-northeast', 'Northeast', 'East-northeast',
+  'East', 'East-southeast', 'Southeast', 'South-southeast',
+  'South', 'South-southwest', 'Southwest', 'West-southwest',
+  'West', 'West-northwest', 'Northwest', 'North-northwest'
+];
+
+// Atlantic/Bermuda follows the US daylight saving rules
+const VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${TIMEZONE}`,
+  'BEGIN:DAYLIGHT',
+  'TZOFFSETFROM:-0400',
+  'TZOFFSETTO:-0300',
+  'TZNAME:ADT',
+  'DTSTART:19700308T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:-0300',
+  'TZOFFSETTO:-0400',
+  'TZNAME:AST',
+  'DTSTART:19701101T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE'
+];
+
+export function isLikelihood(value: unknown): value is CalendarLikelihood {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LIKELIHOOD_RANK, value);
+}
+
+export function eventUid(launchId: string): string {
+  return `${launchId}@${UID_DOMAIN}`;
+}
+
+/**
+ * Apply new launch data to a stored event. Anything a subscriber would see
+ * changing bumps SEQUENCE; the UID never changes.
+ */
+export function mergeCalendarEvent(
+  existing: CalendarEvent | null,
+  update: CalendarEventInput,
+  now: number = Date.now()
+): CalendarEvent {
+  const merged: CalendarEvent = {
+    launchId: update.launchId,
+    name: update.name,
+    net: update.net,
+    status: update.status ?? existing?.status,
+    likelihood: update.likelihood ?? existing?.likelihood ?? 'none',
+    bearing: update.bearing ?? existing?.bearing,
+    trajectoryDirection: update.trajectoryDirection ?? existing?.trajectoryDirection,
+    estimatedTimeVisible: update.estimatedTimeVisible ?? existing?.estimatedTimeVisible,
+    sequence: existing?.sequence ?? 0,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: existing?.updatedAt ?? now
+  };
+
+  if (!existing) {
+    return merged;
+  }
+
+  const changed =
+    existing.name !== merged.name ||
+    Date.parse(existing.net) !== Date.parse(merged.net) ||
+    existing.status !== merged.status ||
+    existing.likelihood !== merged.likelihood ||
+    existing.bearing !== merged.bearing ||
+    existing.trajectoryDirection !== merged.trajectoryDirection ||
+    existing.estimatedTimeVisible !== merged.estimatedTimeVisible;
+
+  return changed ? { ...merged, sequence: existing.sequence + 1, updatedAt: now } : merged;
+}
+
+/**
+ * Viewing window in absolute time, read from the "T+3 to T+8 minutes" estimate
+ */
+export function viewingWindow(event: Pick<CalendarEvent, 'net' | 'estimatedTimeVisible'>): { start: Date; end: Date } {
+  const launchTime = Date.parse(event.net);
+  const match = /T\+\s*(\d+(?:\.\d+)?)\s*(?:to|-|–)\s*T?\+?\s*(\d+(?:\.\d+)?)\s*min/i.exec(event.estimatedTimeVisible ?? '');
+
+  let startMinutes = DEFAULT_WINDOW_MINUTES.start;
+  let endMinutes = DEFAULT_WINDOW_MINUTES.end;
+  if (match) {
+    const start = Number(match[1]);
+    const end = Number(match[2]);
+    if (end > start) {
+      startMinutes = start;
+      endMinutes = end;
+    }
+  }
+
+  return {
+    start: new Date(launchTime + startMinutes * 60000),
+    end: new Date(launchTime + endMinutes * 60000)
+  };
+}
+
+export function compassDirection(bearing: number): string {
+  const index = Math.round((((bearing % 360) + 360) % 360) / 22.5) % 16;
+  return COMPASS_POINTS[index];
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatBermudaLocal(date: Date): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '00';
+  return `${part('year')}${part('month')}${part('day')}T${part('hour')}${part('minute')}${part('second')}`;
+}
+
+function formatBermudaReadable(date: Date): string {
+  return date.toLocaleString('en-US', {
+    timeZone: TIMEZONE,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold content lines at 75 octets (RFC 5545 §3.1) without splitting characters
+ */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf8') <= 75) {
+    return line;
+  }
+
+  const segments: string[] = [];
+  let current = '';
+  let limit = 75;
+  for (const char of line) {
+    if (Buffer.byteLength(current + char, 'utf8') > limit) {
+      segments.push(current);
+      current = '';
+      limit = 74; // continuation lines start with a space
+    }
+    current += char;
+  }
+  segments.push(current);
+  return segments.join('\r\n ');
+}
+
+function launchUrl(appUrl: string, launchId: string): string {
+  return `${appUrl.replace(/\/$/, '')}/?launch=${encodeURIComponent(launchId)}`;
+}
+
+function buildEvent(event: CalendarEvent, appUrl: string, now: number): string[] {
+  const { start, end } = viewingWindow(event);
+  const url = launchUrl(appUrl, event.launchId);
+  const look = typeof event.bearing === 'number'
+    ? `${compassDirection(event.bearing)} (${Math.round(event.bearing)}°)`
+    : event.trajectoryDirection && event.trajectoryDirection !== 'Unknown'
+      ? `Toward the ${event.trajectoryDirection.toLowerCase()} trajectory`
+      : 'Southwest toward Florida';
+
+  const description = [
+    `Launch time: ${formatBermudaReadable(new Date(event.net))} (Bermuda time)`,
+    `Look: ${look}`,
+    event.estimatedTimeVisible ? `Viewing: ${event.estimatedTimeVisible}` : null,
+    `Visibility: ${event.likelihood.charAt(0).toUpperCase()}${event.likelihood.slice(1)}`,
+    `Details: ${url}`
+  ].filter((line): line is string => Boolean(line)).join('\n');
+
+  const tentative = event.status && event.status !== 'Go' && event.status !== 'Success';
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${eventUid(event.launchId)}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatUtc(new Date(now))}`,
+    `CREATED:${formatUtc(new Date(event.createdAt))}`,
+    `LAST-MODIFIED:${formatUtc(new Date(event.updatedAt))}`,
+    `DTSTART;TZID=${TIMEZONE}:${formatBermudaLocal(start)}`,
+    `DTEND;TZID=${TIMEZONE}:${formatBermudaLocal(end)}`,
+    `SUMMARY:${escapeText(`🚀 ${event.name} - look ${look.split(' (')[0]}`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    'LOCATION:Bermuda',
+    `URL:${url}`,
+    `STATUS:${tentative ? 'TENTATIVE' : 'CONFIRMED'}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT'
+  ];
+}
+
+/**
+ * Serialize the upcoming events at or above the requested likelihood
+ */
+export function buildCalendar(events: CalendarEvent[], options: CalendarBuildOptions): string {
+  const now = options.now ?? Date.now();
+  const minimumRank = LIKELIHOOD_RANK[options.minLikelihood];
+
+  const included = events
+    .filter(event => LIKELIHOOD_RANK[event.likelihood] >= minimumRank)
+    .filter(event => Date.parse(event.net) + EVENT_RETENTION_MS > now)
+    .sort((a, b) => Date.parse(a.net) - Date.parse(b.net));
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Bermuda Rocket Tracker//Visible Launches//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Visible Rocket Launches from Bermuda',
+    `X-WR-TIMEZONE:${TIMEZONE}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...VTIMEZONE,
+    ...included.flatMap(event => buildEvent(event, options.appUrl, now)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
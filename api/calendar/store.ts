@@ -0,0 +1,61 @@
+import { Redis } from '@upstash/redis';
+import type { CalendarEvent } from './ics';
+
+const redis = (() => {
+  try {
+    return Redis.fromEnv();
+  } catch (error) {
+    console.warn('[CalendarStore] Redis not configured, falling back to in-memory store');
+    return null;
+  }
+})();
+
+const memoryStore = {
+  events: new Map<string, CalendarEvent>()
+};
+
+const EVENT_PREFIX = 'calendar:event:';
+const THIRTY_DAYS_SECONDS = 30 * 24 * 60 * 60;
+
+export async function getCalendarEvent(launchId: string): Promise<CalendarEvent | null> {
+  if (redis) {
+    try {
+      const cached = await redis.get<CalendarEvent>(EVENT_PREFIX + launchId);
+      if (cached) {
+        return cached;
+      }
+    } catch (error) {
+      console.warn('[CalendarStore] Redis get failed, using memory store:', error);
+    }
+  }
+
+  return memoryStore.events.get(launchId) ?? null;
+}
+
+export async function saveCalendarEvent(event: CalendarEvent): Promise<void> {
+  if (redis) {
+    try {
+      await redis.set(EVENT_PREFIX + event.launchId, event, { ex: THIRTY_DAYS_SECONDS });
+    } catch (error) {
+      console.warn('[CalendarStore] Redis set failed, using memory store only:', error);
+    }
+  }
+
+  memoryStore.events.set(event.launchId, event);
+}
+
+export async function listCalendarEvents(): Promise<CalendarEvent[]> {
+  if (redis) {
+    try {
+      const keys = await redis.keys(EVENT_PREFIX + '*');
+      if (Array.isArray(keys) && keys.length > 0) {
+        const results = await redis.mget<(CalendarEvent | null)[]>(...keys);
+        return results.filter((entry): entry is CalendarEvent => Boolean(entry));
+      }
+    } catch (error) {
+      console.warn('[CalendarStore] Unable to list Redis events:', error);
+    }
+  }
+
+  return Array.from(memoryStore.events.values());
+}
@@ -0,0 +1,42 @@
+import type { LaunchFeedEntry } from '../../src/types';
+import { mergeCalendarEvent, type CalendarEvent } from './ics';
+import { listCalendarEvents, saveCalendarEvent } from './store';
+
+/**
+ * Bring stored events up to date from the server's launch feed: names, NETs
+ * and statuses so subscribed calendars follow scrubs, and visibility when the
+ * feed was calculated for the default Bermuda observer. Launches the feed
+ * rates for the first time get a new event.
+ */
+export async function syncCalendarEvents(
+  feed: LaunchFeedEntry[],
+  includeVisibility: boolean = true
+): Promise<CalendarEvent[]> {
+  const events = new Map((await listCalendarEvents()).map(event => [event.launchId, event]));
+
+  await Promise.all(feed.map(async launch => {
+    const existing = events.get(launch.id) ?? null;
+    if (!existing && !includeVisibility) {
+      return;
+    }
+
+    const merged = mergeCalendarEvent(existing, {
+      launchId: launch.id,
+      name: launch.name,
+      net: launch.net,
+      status: launch.status?.abbrev,
+      ...(includeVisibility ? {
+        likelihood: launch.visibility.likelihood,
+        bearing: launch.visibility.bearing,
+        trajectoryDirection: launch.visibility.trajectoryDirection,
+        estimatedTimeVisible: launch.visibility.estimatedTimeVisible
+      } : {})
+    });
+    if (!existing || merged.sequence !== existing.sequence) {
+      await saveCalendarEvent(merged);
+    }
+    events.set(launch.id, merged);
+  }));
+
+  return Array.from(events.values());
+}
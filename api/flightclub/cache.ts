@@ -1,6 +1,7 @@
 import { Redis } from '@upstash/redis';
 import type { ProcessedSimulationData } from './simulation/[missionId]';
 import type { FlightClubMission } from './missions';
+import type { LaunchFeedEntry, MatchConfidence } from '../../src/types';
 
 export interface MissionCacheEntry {
   missions: FlightClubMission[];
@@ -13,17 +14,35 @@ export interface SimulationCacheEntry {
   cachedAt: number;
 }
 
+// A user's match decision waiting for review before it applies to everyone
+export interface PinSuggestion {
+  missionId: string | null;
+  count: number;           // times this decision was suggested
+  lastSuggestedAt: number;
+}
+
 export interface LaunchCacheMetadata {
   launchId: string;
-  missionId: string;
+  missionId?: string; // absent until the refresh job has matched the launch
   simulationId?: string;
   launchName: string;
   launchTime: string;
+  matchConfidence?: MatchConfidence;
+  pinnedMissionId?: string | null; // mission chosen by a user, null when they rejected every mission
+  pinnedAt?: number;
+  pinSuggestions?: PinSuggestion[];
   stage?: string;
   lastRefreshedAt?: number;
   lastResult?: 'success' | 'failed';
 }
 
+export interface LaunchFeedCacheEntry {
+  launches: LaunchFeedEntry[];
+  observerId: string;
+  cachedAt: number;
+  warning?: string;
+}
+
 const redis = (() => {
   try {
     return Redis.fromEnv();
@@ -36,12 +55,14 @@ const redis = (() => {
 const memoryCache = {
   missions: null as MissionCacheEntry | null,
   simulations: new Map<string, SimulationCacheEntry>(),
-  meta: new Map<string, LaunchCacheMetadata>()
+  meta: new Map<string, LaunchCacheMetadata>(),
+  launchFeed: null as LaunchFeedCacheEntry | null
 };
 
 const MISSION_CACHE_KEY = 'flightclub:missions';
 const SIMULATION_CACHE_PREFIX = 'flightclub:simulation:';
 const METADATA_CACHE_PREFIX = 'flightclub:launchmeta:';
+const LAUNCH_FEED_CACHE_KEY = 'launches:feed';
 
 const SIX_HOURS_SECONDS = 6 * 60 * 60;
 const THIRTY_DAYS_SECONDS = 30 * 24 * 60 * 60;
@@ -148,10 +169,8 @@ export async function listCachedLaunchMetadata(): Promise<LaunchCacheMetadata[]>
       if (Array.isArray(keys) && keys.length > 0) {
         const pipeline = redis.pipeline();
         keys.forEach(key => pipeline.get<LaunchCacheMetadata>(key as string));
-        const results = await pipeline.exec<LaunchCacheMetadata | null>();
-        return results
-          .map(result => result[1])
-          .filter((entry): entry is LaunchCacheMetadata => Boolean(entry));
+        const results = await pipeline.exec<Array<LaunchCacheMetadata | null>>();
+        return results.filter((entry): entry is LaunchCacheMetadata => Boolean(entry));
       }
     } catch (error) {
       console.warn('[FlightClubCache] Unable to list Redis metadata keys:', error);
@@ -160,3 +179,31 @@ export async function listCachedLaunchMetadata(): Promise<LaunchCacheMetadata[]>
 
   return Array.from(memoryCache.meta.values());
 }
+
+export async function getCachedLaunchFeed(): Promise<LaunchFeedCacheEntry | null> {
+  if (redis) {
+    try {
+      const cached = await redis.get<LaunchFeedCacheEntry>(LAUNCH_FEED_CACHE_KEY);
+      if (cached) {
+        return cached;
+      }
+    } catch (error) {
+      console.warn('[FlightClubCache] Redis get failed for launch feed, using memory cache:', error);
+    }
+  }
+
+  return memoryCache.launchFeed;
+}
+
+// Kept well past its freshness window so a stale feed can be served when Launch Library is down
+export async function setCachedLaunchFeed(entry: LaunchFeedCacheEntry): Promise<void> {
+  if (redis) {
+    try {
+      await redis.set(LAUNCH_FEED_CACHE_KEY, entry, { ex: SIX_HOURS_SECONDS });
+    } catch (error) {
+      console.warn('[FlightClubCache] Redis set failed for launch feed, using memory cache only:', error);
+    }
+  }
+
+  memoryCache.launchFeed = entry;
+}
@@ -0,0 +1,258 @@
+/**
+ * Vercel Serverless Function: Flight Club Match Pins
+ *
+ * Shares users' decisions on which Flight Club mission belongs to a launch.
+ * Anyone may suggest a decision; it applies to everyone once a reviewer
+ * posts it with MATCH_PIN_SECRET. Pins are kept on the launch cache metadata,
+ * where the refresh job, the launch feed and every client pick them up in
+ * place of the automatic match.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { MatchPin } from '../../src/types';
+import {
+  getCachedLaunchFeed,
+  getCachedMissions,
+  getLaunchMetadata,
+  listCachedLaunchMetadata,
+  setCachedLaunchFeed,
+  setLaunchMetadata,
+  type LaunchCacheMetadata,
+  type PinSuggestion
+} from './cache';
+import { calculateFeedEntry, matchFeedLaunch } from '../launches/aggregate';
+import { createRateLimiter, type RateLimiter } from '../v1/auth';
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const MAX_NAME_LENGTH = 200;
+
+// Suggestions per client address per hour, and distinct suggestions kept per launch
+const SUGGESTION_RATE_LIMIT = 10;
+const SUGGESTION_WINDOW_MS = 60 * 60 * 1000;
+const MAX_SUGGESTIONS = 5;
+
+let suggestionLimiter: RateLimiter | null = null;
+
+interface PinRequestBody {
+  launchId?: unknown;
+  missionId?: unknown;
+  launchName?: unknown;
+  launchTime?: unknown;
+}
+
+function toPin(meta: LaunchCacheMetadata): MatchPin {
+  return {
+    launchId: meta.launchId,
+    missionId: meta.pinnedMissionId ?? null,
+    pinnedAt: meta.pinnedAt ?? 0
+  };
+}
+
+/**
+ * Reviewers send `Authorization: Bearer <MATCH_PIN_SECRET>`; without the
+ * secret configured nobody can change pins for everyone. Digests are compared
+ * so the buffers have equal length and the check runs in constant time.
+ */
+function isReviewer(req: VercelRequest): boolean {
+  const secret = process.env.MATCH_PIN_SECRET;
+  const authorization = req.headers['authorization'];
+  if (!secret || typeof authorization !== 'string') {
+    return false;
+  }
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(authorization), digest(`Bearer ${secret}`));
+}
+
+function parseBody(req: VercelRequest): PinRequestBody | null {
+  if (typeof req.body !== 'string') {
+    return req.body ?? {};
+  }
+  try {
+    return JSON.parse(req.body);
+  } catch {
+    return null;
+  }
+}
+
+function clientAddress(req: VercelRequest): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim();
+  return first || req.socket?.remoteAddress || 'unknown';
+}
+
+function addSuggestion(existing: PinSuggestion[] = [], missionId: string | null, now: number): PinSuggestion[] {
+  const current = existing.find(suggestion => suggestion.missionId === missionId);
+  const suggestions = current
+    ? existing.map(suggestion => suggestion === current
+      ? { ...suggestion, count: suggestion.count + 1, lastSuggestedAt: now }
+      : suggestion)
+    : [...existing, { missionId, count: 1, lastSuggestedAt: now }];
+  return suggestions.sort((a, b) => b.lastSuggestedAt - a.lastSuggestedAt).slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Re-match and recalculate only the pinned launch in the cached feed, rather
+ * than making the next request rebuild the whole feed
+ */
+async function updateFeedLaunch(meta: LaunchCacheMetadata): Promise<void> {
+  const feed = await getCachedLaunchFeed();
+  const index = feed ? feed.launches.findIndex(launch => launch.id === meta.launchId) : -1;
+  if (!feed || index < 0) {
+    return;
+  }
+
+  const missions = (await getCachedMissions())?.missions ?? [];
+  const launches = [...feed.launches];
+  launches[index] = await calculateFeedEntry(matchFeedLaunch(feed.launches[index], missions, meta));
+  await setCachedLaunchFeed({ ...feed, launches });
+}
+
+function validatePinRequest(body: PinRequestBody): string | null {
+  if (typeof body.launchId !== 'string' || !ID_PATTERN.test(body.launchId)) {
+    return 'launchId is required';
+  }
+  if (body.missionId !== null && (typeof body.missionId !== 'string' || !ID_PATTERN.test(body.missionId))) {
+    return 'missionId must be a Flight Club mission ID or null';
+  }
+  if (typeof body.launchName !== 'string' || !body.launchName || body.launchName.length > MAX_NAME_LENGTH) {
+    return 'launchName is required';
+  }
+  if (typeof body.launchTime !== 'string' || Number.isNaN(Date.parse(body.launchTime))) {
+    return 'launchTime must be an ISO date';
+  }
+  return null;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Set CORS headers with origin allowlist for security
+  const allowedOrigins = [
+    'https://bermuda-rocket-tracker.vercel.app',
+    'http://localhost:3000',
+    'http://localhost:3001',
+    'http://localhost:3002'
+  ];
+
+  const origin = req.headers.origin || '';
+  if (allowedOrigins.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  }
+
+  // Handle preflight requests
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    if (req.method === 'GET' && req.query.pending !== undefined) {
+      if (!isReviewer(req)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+      const pending = (await listCachedLaunchMetadata())
+        .filter(meta => meta.pinSuggestions && meta.pinSuggestions.length > 0)
+        .map(meta => ({
+          launchId: meta.launchId,
+          launchName: meta.launchName,
+          launchTime: meta.launchTime,
+          pinnedMissionId: meta.pinnedMissionId,
+          suggestions: meta.pinSuggestions
+        }));
+      return res.status(200).json({ pending });
+    }
+
+    if (req.method === 'GET') {
+      const pins = (await listCachedLaunchMetadata())
+        .filter(meta => meta.pinnedMissionId !== undefined)
+        .map(toPin);
+
+      res.setHeader('Cache-Control', 's-maxage=60, stale-while-revalidate=60');
+      return res.status(200).json({ pins });
+    }
+
+    const body = parseBody(req);
+    if (!body || typeof body !== 'object') {
+      return res.status(400).json({ error: 'Request body must be a JSON object' });
+    }
+    const invalid = validatePinRequest(body);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    const reviewer = isReviewer(req);
+    if (!reviewer) {
+      if (!suggestionLimiter) {
+        suggestionLimiter = createRateLimiter('ratelimit:match-pins', SUGGESTION_RATE_LIMIT, SUGGESTION_WINDOW_MS);
+      }
+      const limit = await suggestionLimiter.limit(clientAddress(req));
+      if (!limit.success) {
+        res.setHeader('Retry-After', String(Math.max(1, Math.ceil((limit.reset - Date.now()) / 1000))));
+        return res.status(429).json({ error: 'Too many suggestions, try again later' });
+      }
+    }
+
+    const launchId = body.launchId as string;
+    const missionId = body.missionId as string | null;
+
+    // Missions are checked when the shared cache has them; the refresh job ignores unknown pins either way
+    const cachedMissions = await getCachedMissions();
+    if (missionId && cachedMissions && !cachedMissions.missions.some(mission => mission.id === missionId)) {
+      return res.status(400).json({ error: `Unknown Flight Club mission ${missionId}` });
+    }
+
+    const existing = await getLaunchMetadata(launchId);
+
+    if (!reviewer) {
+      // Only launches we already track can collect suggestions
+      const feed = existing ? null : await getCachedLaunchFeed();
+      if (!existing && !feed?.launches.some(launch => launch.id === launchId)) {
+        return res.status(404).json({ error: `Unknown launch ${launchId}` });
+      }
+
+      await setLaunchMetadata({
+        ...(existing ?? {
+          launchId,
+          launchName: body.launchName as string,
+          launchTime: new Date(body.launchTime as string).toISOString()
+        }),
+        pinSuggestions: addSuggestion(existing?.pinSuggestions, missionId, Date.now())
+      });
+
+      console.log(`[FlightClub] Suggested ${missionId ?? 'no mission'} for ${launchId}, awaiting review`);
+      return res.status(202).json({ status: 'pending' });
+    }
+
+    const meta: LaunchCacheMetadata = {
+      ...(existing ?? {
+        launchId,
+        launchName: body.launchName as string,
+        launchTime: new Date(body.launchTime as string).toISOString()
+      }),
+      pinnedMissionId: missionId,
+      pinnedAt: Date.now(),
+      pinSuggestions: undefined
+    };
+    await setLaunchMetadata(meta);
+
+    // The feed carries matches; a failed update only delays the pin until the next rebuild
+    await updateFeedLaunch(meta).catch(error => {
+      console.warn(`[FlightClub] Feed update for pin on ${launchId} failed:`, error);
+    });
+
+    console.log(`[FlightClub] Pinned ${launchId} to ${missionId ?? 'no mission'}`);
+    return res.status(200).json({ pin: toPin(meta) });
+
+  } catch (error) {
+    console.error('Flight Club pins API error:', error);
+
+    return res.status(500).json({
+      error: 'Unable to update match pins',
+      details: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.message : String(error)) : undefined
+    });
+  }
+}
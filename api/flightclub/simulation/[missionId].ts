@@ -6,6 +6,7 @@
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getCachedSimulation, setCachedSimulation } from '../cache';
 
 // Types for Flight Club telemetry
 interface FlightClubTelemetryFrame {
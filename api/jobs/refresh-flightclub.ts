@@ -15,11 +15,18 @@ import {
   processSimulationData,
   type ProcessedSimulationData
 } from '../flightclub/simulation/[missionId]';
+import { matchLaunchToMission } from '../../src/utils/launchMatching';
+import { listWebhooks, type WebhookRecord } from '../webhooks/store';
+import { buildSimulationRefreshedEvent, type WebhookEvent } from '../webhooks/events';
+import { dispatchEvents } from '../webhooks/deliver';
 
-interface LaunchLibraryLaunch {
+export interface LaunchLibraryLaunch {
   id: string;
   name: string;
   net: string;
+  status?: {
+    abbrev?: string;
+  };
   window_start?: string;
   window_end?: string;
   mission?: {
@@ -56,10 +63,11 @@ interface RefreshSummary {
   refreshed: number;
   skipped: number;
   upcoming: number;
+  webhooksDelivered: number;
   errors: Array<{ launchId: string; message: string }>;
 }
 
-function authorize(request: VercelRequest): boolean {
+export function authorize(request: VercelRequest): boolean {
   const secret = process.env.CRON_SECRET;
   if (!secret) {
     // Fail closed: if CRON_SECRET is not configured, reject all requests
@@ -70,7 +78,7 @@ function authorize(request: VercelRequest): boolean {
   return provided === `Bearer ${secret}`;
 }
 
-async function fetchUpcomingLaunches(): Promise<LaunchLibraryLaunch[]> {
+export async function fetchUpcomingLaunches(): Promise<LaunchLibraryLaunch[]> {
   const response = await fetch(LAUNCH_LIBRARY_ENDPOINT, {
     headers: {
       'User-Agent': 'Bermuda-Rocket-Tracker/CacheJob'
@@ -86,84 +94,7 @@ async function fetchUpcomingLaunches(): Promise<LaunchLibraryLaunch[]> {
   return Array.isArray(payload?.results) ? payload.results : [];
 }
 
-function normalizeName(value?: string): string {
-  return value?.toLowerCase().replace(/\s+/g, ' ').trim() ?? '';
-}
-
-function isSpaceXMatch(launchName: string, missionDescription: string): boolean {
-  const launch = normalizeName(launchName);
-  const mission = normalizeName(missionDescription);
-
-  if (!launch || !mission) {
-    return false;
-  }
-
-  if (launch.includes('starlink') && mission.includes('starlink')) {
-    return true;
-  }
-
-  const crewMatch = launch.match(/crew[-\s]*(\d+)/i);
-  if (crewMatch) {
-    const crewNumber = crewMatch[1];
-    return mission.includes(`crew ${crewNumber}`) || mission.includes(`crew-${crewNumber}`);
-  }
-
-  if ((launch.includes('falcon') || launch.includes('dragon')) && mission.includes('falcon')) {
-    return true;
-  }
-
-  return false;
-}
-
-function matchMissionForLaunch(launch: LaunchLibraryLaunch, missions: FlightClubMission[]): FlightClubMission | null {
-  const launchId = launch.id;
-  const launchName = launch.name || '';
-
-  if (!missions.length) {
-    return null;
-  }
-
-  const byId = missions.find(m => m.launchLibraryId === launchId);
-  if (byId) {
-    return byId;
-  }
-
-  const launchNameLower = normalizeName(launchName);
-  if (launchNameLower) {
-    const exact = missions.find(m => normalizeName(m.description) === launchNameLower);
-    if (exact) {
-      return exact;
-    }
-
-    const partial = missions.find(m => {
-      const missionName = normalizeName(m.description);
-      return missionName.includes(launchNameLower) || launchNameLower.includes(missionName);
-    });
-    if (partial) {
-      return partial;
-    }
-  }
-
-  const spaceX = missions.find(m => isSpaceXMatch(launchName, m.description));
-  if (spaceX) {
-    return spaceX;
-  }
-
-  if (launchNameLower) {
-    const launchWords = launchNameLower.split(/[\s\-_]+/).filter(word => word.length > 2);
-    const wordMatch = missions.find(m => {
-      const missionWords = normalizeName(m.description).split(/[\s\-_]+/).filter(word => word.length > 2);
-      return launchWords.some(lw => missionWords.some(mw => lw.includes(mw) || mw.includes(lw)));
-    });
-    if (wordMatch) {
-      return wordMatch;
-    }
-  }
-
-  return null;
-}
-
-function getSimulationId(mission: FlightClubMission): string | null {
+export function getSimulationId(mission: FlightClubMission): string | null {
   const guidPattern = /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/;
   if (mission.flightClubSimId && guidPattern.test(mission.flightClubSimId)) {
     return mission.flightClubSimId;
@@ -174,7 +105,7 @@ function getSimulationId(mission: FlightClubMission): string | null {
   return mission.flightClubSimId || mission.id || null;
 }
 
-function determineLaunchTime(launch: LaunchLibraryLaunch): number | null {
+export function determineLaunchTime(launch: LaunchLibraryLaunch): number | null {
   const candidates = [launch.net, launch.window_start, launch.window_end].filter(Boolean);
   for (const value of candidates) {
     const timestamp = Date.parse(value as string);
@@ -235,6 +166,7 @@ export default async function handler(request: VercelRequest, response: VercelRe
     refreshed: 0,
     skipped: 0,
     upcoming: 0,
+    webhooksDelivered: 0,
     errors: []
   };
 
@@ -245,6 +177,9 @@ export default async function handler(request: VercelRequest, response: VercelRe
     const missions = await fetchMissionsFromFlightClub();
     await setCachedMissions(buildMissionCacheEntry(missions));
 
+    const webhooks: WebhookRecord[] = await listWebhooks();
+    const events: WebhookEvent[] = [];
+
     const activeLaunchIds = new Set<string>();
 
     for (const launch of launches) {
@@ -254,11 +189,27 @@ export default async function handler(request: VercelRequest, response: VercelRe
         continue;
       }
 
-      const mission = matchMissionForLaunch(launch, missions);
-      if (!mission) {
+      const existingMeta = await getLaunchMetadata(launch.id);
+
+      // A user rejected every mission for this launch; keep the pin but cache nothing
+      if (existingMeta?.pinnedMissionId === null) {
+        activeLaunchIds.add(launch.id);
+        summary.skipped += 1;
+        continue;
+      }
+
+      // A user's pin wins; otherwise the same engine as the app, so the cached simulation is the one the UI shows
+      const pinnedMission = existingMeta?.pinnedMissionId
+        ? missions.find(candidate => candidate.id === existingMeta.pinnedMissionId)
+        : undefined;
+      const match = pinnedMission
+        ? { mission: pinnedMission, confidence: 'exact' as const }
+        : matchLaunchToMission(launch, missions);
+      if (!match) {
         summary.skipped += 1;
         continue;
       }
+      const mission = match.mission;
 
       const simulationId = getSimulationId(mission);
       if (!simulationId) {
@@ -268,7 +219,6 @@ export default async function handler(request: VercelRequest, response: VercelRe
 
       activeLaunchIds.add(launch.id);
 
-      const existingMeta = await getLaunchMetadata(launch.id);
       const launchIso = new Date(launchTime).toISOString();
 
       let meta: LaunchCacheMetadata | null = existingMeta ?? null;
@@ -278,11 +228,14 @@ export default async function handler(request: VercelRequest, response: VercelRe
           missionId: mission.id,
           simulationId,
           launchName: launch.name,
-          launchTime: launchIso
+          launchTime: launchIso,
+          matchConfidence: match.confidence
         };
-      } else if (meta.launchTime !== launchIso) {
+      } else if (meta.launchTime !== launchIso || meta.simulationId !== simulationId) {
+        // A new launch time or a different matched simulation starts the refresh stages over
         meta = {
           ...meta,
+          missionId: mission.id,
           launchTime: launchIso,
           stage: undefined,
           lastRefreshedAt: undefined,
@@ -296,6 +249,7 @@ export default async function handler(request: VercelRequest, response: VercelRe
         await setLaunchMetadata({
           ...meta,
           simulationId,
+          matchConfidence: match.confidence,
           stage: decision.stage,
           lastResult: meta.lastResult ?? 'success'
         });
@@ -312,30 +266,37 @@ export default async function handler(request: VercelRequest, response: VercelRe
         });
 
         await setLaunchMetadata({
-          launchId: launch.id,
+          ...meta,
           missionId: mission.id,
           simulationId,
           launchName: launch.name,
           launchTime: launchIso,
+          matchConfidence: match.confidence,
           stage: decision.stage,
           lastRefreshedAt: Date.now(),
           lastResult: 'success'
         });
 
         summary.refreshed += 1;
+
+        events.push(buildSimulationRefreshedEvent(
+          { id: launch.id, name: launch.name, net: launchIso },
+          { missionId: mission.id, simulationId, stage: decision.stage, visibilitySummary: processed.visibilitySummary }
+        ));
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         summary.errors.push({ launchId: launch.id, message });
         summary.skipped += 1;
 
         await setLaunchMetadata({
-          launchId: launch.id,
+          ...meta,
           missionId: mission.id,
           simulationId,
           launchName: launch.name,
           launchTime: launchIso,
+          matchConfidence: match.confidence,
           stage: decision.stage,
-          lastRefreshedAt: meta?.lastRefreshedAt,
+          lastRefreshedAt: meta.lastRefreshedAt,
           lastResult: 'failed'
         });
       }
@@ -348,6 +309,13 @@ export default async function handler(request: VercelRequest, response: VercelRe
         .map(meta => removeLaunchMetadata(meta.launchId))
     );
 
+    // Sent once the cache is up to date; a failing webhook must not fail the refresh
+    const dispatched = await dispatchEvents(events, webhooks).catch(dispatchError => {
+      console.warn('[Webhooks] Simulation refresh events failed:', dispatchError);
+      return { delivered: 0, failed: 0, skipped: 0, pending: [] };
+    });
+    summary.webhooksDelivered = dispatched.delivered;
+
     return response.status(200).json({
       ok: true,
       summary,
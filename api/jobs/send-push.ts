@@ -0,0 +1,96 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authorize } from './refresh-flightclub';
+import { loadLaunchFeed } from '../v1/feed';
+import { listSubscriptions } from '../push/store';
+import { planNotifications, type LaunchStatusUpdate } from '../push/schedule';
+import { deliverMessages } from '../push/deliver';
+import { getVapidDetailsFromEnv } from '../push/webPush';
+
+interface PushJobSummary {
+  subscriptions: number;
+  sent: number;
+  failed: number;
+  expired: number;
+}
+
+/**
+ * Latest NETs from the shared launch feed, so a run every few minutes only
+ * reaches Launch Library when the cached feed has gone stale
+ */
+async function fetchLaunchUpdates(): Promise<Map<string, LaunchStatusUpdate>> {
+  const { entry } = await loadLaunchFeed();
+  const updates = new Map<string, LaunchStatusUpdate>();
+
+  for (const launch of entry.launches) {
+    const launchTime = Date.parse(launch.net);
+    if (Number.isNaN(launchTime)) {
+      continue;
+    }
+    updates.set(launch.id, {
+      launchId: launch.id,
+      net: new Date(launchTime).toISOString(),
+      status: launch.status?.abbrev
+    });
+  }
+
+  return updates;
+}
+
+/**
+ * Sends launch reminders and delay/scrub alerts to every push subscriber.
+ * Runs on a short cron so reminders arrive with the tab closed.
+ */
+export default async function handler(request: VercelRequest, response: VercelResponse) {
+  if (!authorize(request)) {
+    return response.status(401).json({ error: 'Unauthorized' });
+  }
+
+  if (request.method !== 'GET' && request.method !== 'POST') {
+    return response.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const vapid = getVapidDetailsFromEnv();
+  if (!vapid) {
+    return response.status(503).json({ error: 'Push notifications are not configured' });
+  }
+
+  const summary: PushJobSummary = { subscriptions: 0, sent: 0, failed: 0, expired: 0 };
+
+  try {
+    const [updates, subscriptions] = await Promise.all([fetchLaunchUpdates(), listSubscriptions()]);
+    summary.subscriptions = subscriptions.length;
+    const now = Date.now();
+
+    for (const record of subscriptions) {
+      const plan = planNotifications(record, updates, now);
+      const launchesChanged = JSON.stringify(plan.launches) !== JSON.stringify(record.launches);
+
+      if (plan.messages.length === 0 && plan.skippedKeys.length === 0 && !launchesChanged) {
+        continue;
+      }
+
+      const result = await deliverMessages(
+        { ...record, launches: plan.launches },
+        plan.messages,
+        vapid,
+        { extraSentKeys: plan.skippedKeys, persist: launchesChanged }
+      );
+      summary.sent += result.sent;
+      summary.failed += result.failed;
+      summary.expired += result.expired ? 1 : 0;
+    }
+
+    return response.status(200).json({
+      ok: true,
+      summary,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return response.status(500).json({
+      error: message,
+      summary,
+      timestamp: new Date().toISOString()
+    });
+  }
+}
@@ -0,0 +1,98 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authorize } from './refresh-flightclub';
+import { loadLaunchFeed } from '../v1/feed';
+import {
+  getLaunchSnapshots,
+  getPendingDeliveries,
+  listWebhooks,
+  saveLaunchSnapshots,
+  savePendingDeliveries
+} from '../webhooks/store';
+import { buildScheduleChangeEvents, type WebhookEvent } from '../webhooks/events';
+import { dispatchEvents, WEBHOOK_RETRY_CONFIG } from '../webhooks/deliver';
+import { ScheduleChangeDetectionService, type LaunchSnapshot } from '../../src/services/scheduleChangeDetectionService';
+
+interface WebhookJobSummary {
+  webhooks: number;
+  launches: number;
+  events: number;
+  delivered: number;
+  failed: number;
+  skipped: number; // queued for the next run
+}
+
+// Deliveries must finish inside the function's 60 s maxDuration (vercel.json)
+const DELIVERY_DEADLINE_MS = 50 * 1000;
+// Queued deliveries older than this are dropped; the news is stale by then
+const PENDING_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Compares the launch feed with the previous run's snapshots and sends
+ * delay, scrub and visibility window events to registered webhooks.
+ * Snapshots are saved before delivering, so a run cut short by slow
+ * receivers does not send the same events again next time; deliveries it
+ * could not start are queued and sent first on the next run.
+ */
+export default async function handler(request: VercelRequest, response: VercelResponse) {
+  if (!authorize(request)) {
+    return response.status(401).json({ error: 'Unauthorized' });
+  }
+
+  if (request.method !== 'GET' && request.method !== 'POST') {
+    return response.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const deadline = Date.now() + DELIVERY_DEADLINE_MS;
+  const summary: WebhookJobSummary = { webhooks: 0, launches: 0, events: 0, delivered: 0, failed: 0, skipped: 0 };
+
+  try {
+    const [{ entry }, previous, webhooks, queued] = await Promise.all([
+      loadLaunchFeed(),
+      getLaunchSnapshots(),
+      listWebhooks(),
+      getPendingDeliveries()
+    ]);
+    summary.webhooks = webhooks.filter(webhook => !webhook.disabledAt).length;
+    summary.launches = entry.launches.length;
+
+    // Launches that left the feed (launched or dropped) are forgotten
+    const snapshots: Record<string, LaunchSnapshot> = {};
+    const events: WebhookEvent[] = [];
+
+    for (const launch of entry.launches) {
+      const snapshot = previous[launch.id];
+      snapshots[launch.id] = {
+        ...ScheduleChangeDetectionService.createSnapshotFromLaunch(launch),
+        checkCount: (snapshot?.checkCount ?? 0) + 1
+      };
+
+      // Without webhooks there is nobody to tell; snapshots still keep the baseline current
+      if (snapshot && summary.webhooks > 0) {
+        events.push(...await buildScheduleChangeEvents(snapshot, launch));
+      }
+    }
+
+    await saveLaunchSnapshots(snapshots);
+
+    const fresh = queued.filter(({ event }) => Date.now() - Date.parse(event.createdAt) < PENDING_MAX_AGE_MS);
+    const result = await dispatchEvents(events, webhooks, deadline, WEBHOOK_RETRY_CONFIG, fresh);
+    await savePendingDeliveries(result.pending);
+    summary.events = events.length;
+    summary.delivered = result.delivered;
+    summary.failed = result.failed;
+    summary.skipped = result.skipped;
+
+    return response.status(200).json({
+      ok: true,
+      summary,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return response.status(500).json({
+      error: message,
+      summary,
+      timestamp: new Date().toISOString()
+    });
+  }
+}
@@ -0,0 +1,169 @@
+import type { Launch, LaunchFeedEntry, LaunchMatch, LaunchWithFlightClub } from '../../src/types';
+import { clearLaunchCache, fetchAllEastCoastLaunches } from '../../src/services/launchService';
+import { matchLaunchToMission, scoreMissionMatch } from '../../src/utils/launchMatching';
+import { calculateVisibility } from '../../src/services/visibilityService';
+import { DEFAULT_OBSERVER_LOCATION } from '../../src/services/observerLocationService';
+import { convertToBermudaTime } from '../../src/utils/timeUtils';
+import {
+  getCachedMissions,
+  listCachedLaunchMetadata,
+  setCachedMissions,
+  type LaunchCacheMetadata,
+  type LaunchFeedCacheEntry
+} from '../flightclub/cache';
+import { fetchMissionsFromFlightClub, type FlightClubMission } from '../flightclub/missions';
+
+export const FEED_LAUNCH_LIMIT = 30;
+
+// Launch Library allows ~15 requests/hour on the free tier, so the feed is rebuilt at most every 15 minutes
+export const LAUNCH_FEED_MAX_AGE_MS = 15 * 60 * 1000;
+
+const VISIBILITY_TIMEOUT_MS = 20000;
+
+/**
+ * Visibility for one launch, or the same mission-type estimate the app shows
+ * when a calculation fails or runs past the timeout
+ */
+export async function calculateFeedEntry(
+  launch: LaunchWithFlightClub,
+  timeoutMs: number = VISIBILITY_TIMEOUT_MS
+): Promise<LaunchFeedEntry> {
+  const base = {
+    ...launch,
+    bermudaTime: convertToBermudaTime(launch.net),
+    hasFlightClubData: launch.hasFlightClubData || false
+  };
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('Visibility calculation timeout')), timeoutMs);
+  });
+
+  try {
+    const visibility = await Promise.race([
+      calculateVisibility(launch, DEFAULT_OBSERVER_LOCATION, { useCache: false }),
+      timeout
+    ]);
+    return { ...base, visibility };
+  } catch (error) {
+    console.warn(`[LaunchFeed] Visibility calculation failed for ${launch.name}:`, error);
+    return {
+      ...base,
+      visibility: {
+        likelihood: 'medium',
+        reason: 'Visibility calculation unavailable - using estimated data based on mission type',
+        bearing: 225,
+        trajectoryDirection: 'Northeast',
+        estimatedTimeVisible: 'Estimated T+3 to T+8 minutes',
+        dataSource: 'estimated',
+        score: 0.5,
+        factors: ['Calculation timed out - using mission estimates'],
+        solarConditions: {
+          sunElevation: 0,
+          sunAzimuth: 0,
+          twilightPhase: 'day',
+          illuminationConditions: 'poor',
+          rocketSunlit: false,
+          groundDarkness: false
+        },
+        governmentDataUsed: false,
+        lastCalculated: new Date(),
+        validationStatus: {
+          isValid: false,
+          warnings: [error instanceof Error ? error.message : String(error)],
+          dataQuality: 'poor'
+        }
+      }
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Flight Club missions from the shared cache, fetched from Flight Club only
+ * when nothing is cached yet; without missions launches go unmatched
+ */
+async function loadMissions(): Promise<FlightClubMission[]> {
+  const cached = await getCachedMissions();
+  if (cached) {
+    return cached.missions;
+  }
+
+  try {
+    const missions = await fetchMissionsFromFlightClub();
+    await setCachedMissions({ missions, cachedAt: Date.now() });
+    return missions;
+  } catch (error) {
+    console.warn('[LaunchFeed] Flight Club missions unavailable, building feed without matches:', error);
+    return [];
+  }
+}
+
+/**
+ * Flight Club match for one launch: a user's shared pin wins, otherwise the
+ * same engine as the app and the refresh job
+ */
+export function matchFeedLaunch(
+  launch: Launch,
+  missions: FlightClubMission[],
+  meta?: LaunchCacheMetadata | null
+): LaunchWithFlightClub {
+  let match: LaunchMatch | undefined;
+
+  if (meta?.pinnedMissionId) {
+    const mission = missions.find(candidate => candidate.id === meta.pinnedMissionId);
+    if (mission) {
+      const result = scoreMissionMatch(launch, mission);
+      match = {
+        flightClubMission: mission,
+        confidence: 'exact',
+        score: result.score,
+        matchReasons: ['Pinned by a user', ...result.reasons],
+        pin: 'pinned'
+      };
+    }
+  }
+
+  if (!match && meta?.pinnedMissionId !== null) {
+    const result = matchLaunchToMission(launch, missions);
+    match = result
+      ? {
+        flightClubMission: result.mission,
+        confidence: result.confidence,
+        score: result.score,
+        matchReasons: result.reasons,
+        validationWarnings: result.warnings.length > 0 ? result.warnings : undefined
+      }
+      : undefined;
+  }
+
+  return { ...launch, flightClubMatch: match, hasFlightClubData: match !== undefined };
+}
+
+/**
+ * Fetch upcoming East Coast launches, match them to Flight Club missions and
+ * calculate visibility from the default observer for every one of them
+ */
+export async function buildLaunchFeed(): Promise<LaunchFeedCacheEntry> {
+  // The client-side launch cache would otherwise hold a warm function's launches for an hour
+  clearLaunchCache();
+  const [launches, missions, metadata] = await Promise.all([
+    fetchAllEastCoastLaunches(FEED_LAUNCH_LIMIT),
+    loadMissions(),
+    listCachedLaunchMetadata()
+  ]);
+  const metaById = new Map(metadata.map(meta => [meta.launchId, meta]));
+  const enriched = launches.map(launch => matchFeedLaunch(launch, missions, metaById.get(launch.id)));
+
+  const entries = await Promise.all(enriched.map(launch => calculateFeedEntry(launch)));
+  const estimated = entries.filter(entry => entry.visibility.dataSource === 'estimated').length;
+
+  console.log(`[LaunchFeed] Built feed of ${entries.length} launches (${estimated} estimated)`);
+  return {
+    launches: entries,
+    observerId: DEFAULT_OBSERVER_LOCATION.id,
+    cachedAt: Date.now(),
+    warning: estimated > 0 ? `Visibility estimated for ${estimated} launch${estimated === 1 ? '' : 'es'}` : undefined
+  };
+}
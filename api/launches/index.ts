@@ -0,0 +1,81 @@
+/**
+ * Vercel Serverless Function: Launch Feed
+ *
+ * Serves every upcoming East Coast launch with its Flight Club match and
+ * visibility from the default Bermuda observer already calculated, so the app
+ * loads one shared payload instead of querying Launch Library and running the
+ * visibility model in every browser
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { LaunchFeed } from '../../src/types';
+import { getCachedLaunchFeed, setCachedLaunchFeed, type LaunchFeedCacheEntry } from '../flightclub/cache';
+import { buildLaunchFeed, LAUNCH_FEED_MAX_AGE_MS } from './aggregate';
+
+function toLaunchFeed(entry: LaunchFeedCacheEntry, cached: boolean, warning?: string): LaunchFeed {
+  return {
+    launches: entry.launches,
+    observerId: entry.observerId,
+    generatedAt: new Date(entry.cachedAt).toISOString(),
+    cached,
+    warning: warning ?? entry.warning
+  };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Set CORS headers with origin allowlist for security
+  const allowedOrigins = [
+    'https://bermuda-rocket-tracker.vercel.app',
+    'http://localhost:3000',
+    'http://localhost:3001',
+    'http://localhost:3002'
+  ];
+
+  const origin = req.headers.origin || '';
+  if (allowedOrigins.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  }
+
+  // Handle preflight requests
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const cachedEntry = await getCachedLaunchFeed();
+    if (cachedEntry && Date.now() - cachedEntry.cachedAt < LAUNCH_FEED_MAX_AGE_MS) {
+      console.log('[LaunchFeed] Serving launch feed from shared cache');
+      res.setHeader('Cache-Control', 's-maxage=300, stale-while-revalidate=600');
+      return res.status(200).json(toLaunchFeed(cachedEntry, true));
+    }
+
+    console.log('[LaunchFeed] Building fresh launch feed');
+    const entry = await buildLaunchFeed();
+    await setCachedLaunchFeed(entry);
+
+    res.setHeader('Cache-Control', 's-maxage=300, stale-while-revalidate=600');
+    return res.status(200).json(toLaunchFeed(entry, false));
+
+  } catch (error) {
+    console.error('Launch feed API error:', error);
+
+    const cachedEntry = await getCachedLaunchFeed();
+    if (cachedEntry) {
+      console.log('[LaunchFeed] Serving cached launch feed due to build error');
+      res.setHeader('Cache-Control', 's-maxage=60');
+      return res.status(200).json(toLaunchFeed(cachedEntry, true, 'Serving cached launches due to Launch Library error'));
+    }
+
+    return res.status(500).json({
+      error: 'Unable to build launch feed',
+      details: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.message : String(error)) : undefined
+    });
+  }
+}
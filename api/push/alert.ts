@@ -0,0 +1,69 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getSubscription, subscriptionId } from './store';
+import { delayMessageKey, formatLaunchTime, type PushMessage } from './schedule';
+import { deliverMessages } from './deliver';
+import { getVapidDetailsFromEnv } from './webPush';
+
+// DelayNotificationType values that mean the launch time moved
+const SCHEDULE_CHANGE_TYPES = ['DELAY_DETECTED', 'MINOR_DELAY', 'LAUNCH_SCRUBBED', 'WINDOW_LOST', 'WINDOW_GAINED',
+  'VISIBILITY_IMPROVED', 'VISIBILITY_DEGRADED'];
+
+/**
+ * Relays a delay or scrub alert detected in the page (DelayNotificationService)
+ * through Web Push, so it reaches the device even if the tab is backgrounded.
+ * Shares dedupe keys with the cron job, so each NET change is announced once.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const vapid = getVapidDetailsFromEnv();
+  if (!vapid) {
+    return res.status(503).json({ error: 'Push notifications are not configured' });
+  }
+
+  const endpoint = req.body?.endpoint;
+  const alert = req.body?.alert;
+  if (typeof endpoint !== 'string' || typeof alert?.launchId !== 'string' ||
+      !SCHEDULE_CHANGE_TYPES.includes(alert?.type) || Number.isNaN(Date.parse(alert?.net))) {
+    return res.status(400).json({ error: 'endpoint and alert { launchId, type, net, message } are required' });
+  }
+
+  // Only existing subscribers can be targeted; the endpoint URL is the capability
+  const record = await getSubscription(subscriptionId(endpoint));
+  if (!record) {
+    return res.status(404).json({ error: 'Subscription not found' });
+  }
+
+  const net = new Date(alert.net).toISOString();
+  const key = delayMessageKey(alert.launchId, net);
+  if (record.sent.includes(key)) {
+    return res.status(200).json({ ok: true, duplicate: true });
+  }
+
+  const watched = record.launches.find(launch => launch.launchId === alert.launchId);
+  const name = watched?.name ?? String(alert.launchName ?? 'Launch').slice(0, 200);
+  const message: PushMessage = {
+    key,
+    title: alert.type === 'LAUNCH_SCRUBBED' ? '🛑 Launch Scrubbed' : '⏰ Launch Update',
+    body: typeof alert.message === 'string' && alert.message
+      ? alert.message.slice(0, 300)
+      : `${name} new launch time: ${formatLaunchTime(net, record.timeZone)}.`,
+    tag: `launch-${alert.launchId}`,
+    urgency: alert.priority === 'high' ? 'high' : 'normal',
+    data: {
+      launchId: alert.launchId,
+      type: alert.type === 'LAUNCH_SCRUBBED' ? 'scrub' : 'delay',
+      url: `/?launch=${encodeURIComponent(alert.launchId)}`
+    }
+  };
+
+  // The announced NET moves forward so the cron does not repeat this change
+  const launches = record.launches.map(launch =>
+    launch.launchId === alert.launchId ? { ...launch, net } : launch
+  );
+
+  const result = await deliverMessages({ ...record, launches }, [message], vapid);
+  return res.status(result.sent > 0 ? 200 : 502).json({ ok: result.sent > 0, ...result });
+}
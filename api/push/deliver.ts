@@ -0,0 +1,90 @@
+import { sendWebPush, type VapidDetails } from './webPush';
+import { removeSubscription, saveSubscription, type PushSubscriptionRecord, type WatchedLaunch } from './store';
+import type { PushMessage } from './schedule';
+import { isPublicHost } from '../webhooks/hosts';
+
+export interface DeliveryOptions {
+  extraSentKeys?: string[]; // keys to record without sending (skipped reminders)
+  persist?: boolean;        // save the record even if nothing was delivered
+}
+
+export interface DeliverySummary {
+  sent: number;
+  failed: number;
+  expired: boolean;
+}
+
+/**
+ * Drop keys for launches no longer on the watch list; planNotifications removes
+ * launches a day after liftoff, so their reminders can never be due again
+ */
+export function pruneSentKeys(keys: string[], launches: WatchedLaunch[]): string[] {
+  const watched = new Set(launches.map(launch => launch.launchId));
+  return Array.from(new Set(keys)).filter(key => watched.has(key.split(':')[1]));
+}
+
+/**
+ * Send messages to one subscriber, record what was delivered and drop
+ * subscriptions the push service reports as gone
+ */
+export async function deliverMessages(
+  record: PushSubscriptionRecord,
+  messages: PushMessage[],
+  vapid: VapidDetails,
+  { extraSentKeys = [], persist = false }: DeliveryOptions = {}
+): Promise<DeliverySummary> {
+  const summary: DeliverySummary = { sent: 0, failed: 0, expired: false };
+  const delivered: string[] = [];
+
+  // Checked again at delivery, since DNS can change after the subscription was saved
+  if (messages.length > 0 && !(await isPublicHost(new URL(record.subscription.endpoint).hostname))) {
+    console.warn(`[Push] Endpoint for ${record.id} no longer resolves to public addresses`);
+    summary.failed = messages.length;
+    return summary;
+  }
+
+  for (const message of messages) {
+    try {
+      const result = await sendWebPush(record.subscription, JSON.stringify({
+        title: message.title,
+        body: message.body,
+        tag: message.tag,
+        data: message.data
+      }), {
+        vapid,
+        urgency: message.urgency,
+        ttlSeconds: message.data.type === 'reminder' ? 15 * 60 : 4 * 60 * 60
+      });
+
+      if (result.expired) {
+        summary.expired = true;
+        break;
+      }
+      if (result.statusCode >= 200 && result.statusCode < 300) {
+        delivered.push(message.key);
+        summary.sent += 1;
+      } else {
+        console.warn(`[Push] Push service returned ${result.statusCode} for ${record.id}`);
+        summary.failed += 1;
+      }
+    } catch (error) {
+      console.warn(`[Push] Delivery failed for ${record.id}:`, error);
+      summary.failed += 1;
+    }
+  }
+
+  if (summary.expired) {
+    await removeSubscription(record.id);
+    return summary;
+  }
+
+  if (persist || delivered.length > 0 || extraSentKeys.length > 0) {
+    await saveSubscription({
+      ...record,
+      sent: pruneSentKeys([...record.sent, ...extraSentKeys, ...delivered], record.launches),
+      updatedAt: Date.now()
+    });
+  }
+
+  return summary;
+}
@@ -0,0 +1,195 @@
+import type { PushSubscriptionRecord, WatchedLaunch } from './store';
+
+export type PushMessageType = 'reminder' | 'delay' | 'scrub' | 'hold';
+
+export interface PushMessage {
+  key: string;   // dedupe key stored on the subscription once delivered
+  title: string;
+  body: string;
+  tag: string;   // matches the in-page notification tags so duplicates collapse
+  urgency: 'normal' | 'high';
+  data: {
+    launchId: string;
+    type: PushMessageType;
+    url: string;
+  };
+}
+
+export interface LaunchStatusUpdate {
+  launchId: string;
+  net: string;
+  status?: string; // Launch Library status abbreviation (Go, TBD, Hold, ...)
+}
+
+export interface PushPlan {
+  messages: PushMessage[];
+  skippedKeys: string[]; // missed reminders to mark as handled without sending
+  launches: WatchedLaunch[];
+}
+
+// Same threshold DelayNotificationService uses for minDelayMinutes
+const MIN_DELAY_MINUTES = 5;
+// A slip this large means the attempt was called off for the day
+const SCRUB_SLIP_MINUTES = 12 * 60;
+// Drop launches from the watch list a day after liftoff
+const WATCH_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_TIME_ZONE = 'Atlantic/Bermuda';
+
+/**
+ * Launch time in the subscriber's timezone, labelled with the zone abbreviation
+ */
+export function formatLaunchTime(iso: string, timeZone: string = DEFAULT_TIME_ZONE): string {
+  return new Date(iso).toLocaleString('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  });
+}
+
+function formatDuration(minutes: number): string {
+  if (minutes >= 60) {
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    return rest > 0 ? `${hours}h ${rest}m` : `${hours} hour${hours > 1 ? 's' : ''}`;
+  }
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+export function delayMessageKey(launchId: string, net: string): string {
+  return `delay:${launchId}:${net}`;
+}
+
+function launchUrl(launchId: string): string {
+  return `/?launch=${encodeURIComponent(launchId)}`;
+}
+
+/**
+ * Schedule-change alert for a launch whose NET moved since the subscriber last heard
+ */
+function planScheduleChange(launch: WatchedLaunch, newNet: string, timeZone?: string): PushMessage | null {
+  const shiftMinutes = Math.round((Date.parse(newNet) - Date.parse(launch.net)) / 60000);
+  if (Math.abs(shiftMinutes) < MIN_DELAY_MINUTES) {
+    return null;
+  }
+
+  const scrubbed = shiftMinutes >= SCRUB_SLIP_MINUTES;
+  const when = formatLaunchTime(newNet, timeZone);
+  const body = scrubbed
+    ? `${launch.name} was scrubbed. Next attempt: ${when}.`
+    : shiftMinutes > 0
+      ? `${launch.name} is delayed ${formatDuration(shiftMinutes)}. New launch time: ${when}.`
+      : `${launch.name} moved ${formatDuration(-shiftMinutes)} earlier. New launch time: ${when}.`;
+
+  return {
+    key: delayMessageKey(launch.launchId, newNet),
+    title: scrubbed ? '🛑 Launch Scrubbed' : '⏰ Launch Time Changed',
+    body,
+    tag: `launch-${launch.launchId}`,
+    urgency: 'high',
+    data: { launchId: launch.launchId, type: scrubbed ? 'scrub' : 'delay', url: launchUrl(launch.launchId) }
+  };
+}
+
+/**
+ * Reminder for the most recent reminder time that has passed. Earlier reminder
+ * times that were missed (late subscription, cron gap) are skipped, not stacked.
+ */
+function planReminder(
+  launch: WatchedLaunch,
+  reminderTimes: number[],
+  sent: Set<string>,
+  now: number
+): { message: PushMessage | null; consumed: string[] } {
+  const launchTime = Date.parse(launch.net);
+  if (Number.isNaN(launchTime) || now >= launchTime) {
+    return { message: null, consumed: [] };
+  }
+
+  const due = reminderTimes
+    .filter(minutes => now >= launchTime - minutes * 60000)
+    .map(minutes => ({ minutes, key: `reminder:${launch.launchId}:${launch.net}:${minutes}` }))
+    .filter(({ key }) => !sent.has(key))
+    .sort((a, b) => a.minutes - b.minutes);
+
+  if (due.length === 0) {
+    return { message: null, consumed: [] };
+  }
+
+  const closest = due[0];
+  const minutesLeft = Math.max(1, Math.round((launchTime - now) / 60000));
+  const visibility = launch.likelihood === 'high' ? 'likely' : 'possibly';
+
+  return {
+    consumed: due.map(({ key }) => key),
+    message: {
+      key: closest.key,
+      title: '🚀 Launch Reminder',
+      body: `${launch.name} launches in ${formatDuration(minutesLeft)} and is ${visibility} visible from Bermuda!`,
+      tag: `launch-reminder-${launch.launchId}-${closest.minutes}`,
+      urgency: closest.minutes <= 15 ? 'high' : 'normal',
+      data: { launchId: launch.launchId, type: 'reminder', url: launchUrl(launch.launchId) }
+    }
+  };
+}
+
+/**
+ * Work out which messages a subscriber is due, given the latest launch times.
+ * Returns the messages plus the watch list with NETs advanced to what was announced.
+ */
+export function planNotifications(
+  record: PushSubscriptionRecord,
+  updates: Map<string, LaunchStatusUpdate>,
+  now: number = Date.now()
+): PushPlan {
+  const sent = new Set(record.sent);
+  const messages: PushMessage[] = [];
+  const skippedKeys: string[] = [];
+  const launches: WatchedLaunch[] = [];
+
+  for (const watched of record.launches) {
+    let launch = watched;
+    const update = updates.get(watched.launchId);
+
+    if (update && update.net !== watched.net) {
+      const change = planScheduleChange(watched, update.net, record.timeZone);
+      if (change && !sent.has(change.key)) {
+        messages.push(change);
+        sent.add(change.key);
+      }
+      launch = { ...watched, net: update.net };
+    }
+
+    if (update?.status === 'Hold') {
+      const key = `hold:${launch.launchId}:${launch.net}`;
+      if (!sent.has(key)) {
+        messages.push({
+          key,
+          title: '⏸️ Launch On Hold',
+          body: `${launch.name} is holding. Stay tuned for a new launch time.`,
+          tag: `launch-${launch.launchId}`,
+          urgency: 'high',
+          data: { launchId: launch.launchId, type: 'hold', url: launchUrl(launch.launchId) }
+        });
+        sent.add(key);
+      }
+    } else if (!record.highVisibilityOnly || launch.likelihood === 'high' || launch.likelihood === 'medium') {
+      const { message, consumed } = planReminder(launch, record.reminderTimes, sent, now);
+      consumed.forEach(key => sent.add(key));
+      skippedKeys.push(...consumed.filter(key => key !== message?.key));
+      if (message) {
+        messages.push(message);
+      }
+    }
+
+    if (Date.parse(launch.net) + WATCH_RETENTION_MS > now) {
+      launches.push(launch);
+    }
+  }
+
+  return { messages, skippedKeys, launches };
+}
@@ -0,0 +1,104 @@
+import { createHash } from 'crypto';
+import { Redis } from '@upstash/redis';
+import type { WebPushSubscription } from './webPush';
+
+export interface WatchedLaunch {
+  launchId: string;
+  name: string;
+  net: string;        // launch time the subscriber was last told about
+  likelihood: 'high' | 'medium' | 'low' | 'none';
+  bearing?: number;
+}
+
+export interface PushSubscriptionRecord {
+  id: string;
+  subscription: WebPushSubscription;
+  reminderTimes: number[]; // minutes before launch
+  highVisibilityOnly: boolean;
+  launches: WatchedLaunch[];
+  sent: string[];          // keys of messages already delivered
+  timeZone?: string;       // IANA timezone of the subscriber's observer location; Bermuda when unset
+  createdAt: number;
+  updatedAt: number;
+}
+
+const redis = (() => {
+  try {
+    return Redis.fromEnv();
+  } catch (error) {
+    console.warn('[PushStore] Redis not configured, falling back to in-memory store');
+    return null;
+  }
+})();
+
+const memoryStore = new Map<string, PushSubscriptionRecord>();
+
+const SUBSCRIPTION_PREFIX = 'push:subscription:';
+const NINETY_DAYS_SECONDS = 90 * 24 * 60 * 60;
+
+// Sent keys only matter while a launch is upcoming
+const MAX_SENT_KEYS = 200;
+
+export function subscriptionId(endpoint: string): string {
+  return createHash('sha256').update(endpoint).digest('hex').slice(0, 32);
+}
+
+export async function getSubscription(id: string): Promise<PushSubscriptionRecord | null> {
+  if (redis) {
+    try {
+      const cached = await redis.get<PushSubscriptionRecord>(SUBSCRIPTION_PREFIX + id);
+      if (cached) {
+        return cached;
+      }
+    } catch (error) {
+      console.warn('[PushStore] Redis get failed, using memory store:', error);
+    }
+  }
+
+  return memoryStore.get(id) ?? null;
+}
+
+export async function saveSubscription(record: PushSubscriptionRecord): Promise<void> {
+  const trimmed: PushSubscriptionRecord = {
+    ...record,
+    sent: record.sent.slice(-MAX_SENT_KEYS)
+  };
+
+  if (redis) {
+    try {
+      await redis.set(SUBSCRIPTION_PREFIX + record.id, trimmed, { ex: NINETY_DAYS_SECONDS });
+    } catch (error) {
+      console.warn('[PushStore] Redis set failed, using memory store only:', error);
+    }
+  }
+
+  memoryStore.set(record.id, trimmed);
+}
+
+export async function removeSubscription(id: string): Promise<void> {
+  if (redis) {
+    try {
+      await redis.del(SUBSCRIPTION_PREFIX + id);
+    } catch (error) {
+      console.warn('[PushStore] Redis delete failed, using memory store only:', error);
+    }
+  }
+
+  memoryStore.delete(id);
+}
+
+export async function listSubscriptions(): Promise<PushSubscriptionRecord[]> {
+  if (redis) {
+    try {
+      const keys = await redis.keys(SUBSCRIPTION_PREFIX + '*');
+      if (Array.isArray(keys) && keys.length > 0) {
+        const results = await redis.mget<(PushSubscriptionRecord | null)[]>(...keys);
+        return results.filter((entry): entry is PushSubscriptionRecord => Boolean(entry));
+      }
+    } catch (error) {
+      console.warn('[PushStore] Unable to list Redis subscriptions:', error);
+    }
+  }
+
+  return Array.from(memoryStore.values());
+}
@@ -0,0 +1,166 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  getSubscription,
+  removeSubscription,
+  saveSubscription,
+  subscriptionId,
+  type PushSubscriptionRecord,
+  type WatchedLaunch
+} from './store';
+import { getVapidDetailsFromEnv, type WebPushSubscription } from './webPush';
+import { isPublicHost } from '../webhooks/hosts';
+
+const MAX_WATCHED_LAUNCHES = 30;
+const MAX_REMINDER_MINUTES = 7 * 24 * 60;
+const LIKELIHOODS = ['high', 'medium', 'low', 'none'];
+
+const allowedOrigins = [
+  'https://bermuda-rocket-tracker.vercel.app',
+  'http://localhost:3000',
+  'http://localhost:3001',
+  'http://localhost:3002'
+];
+
+function isHttpsUrl(value: string): boolean {
+  try {
+    return new URL(value).protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function parseSubscription(value: any): WebPushSubscription | null {
+  if (!value || typeof value.endpoint !== 'string' || !isHttpsUrl(value.endpoint)) {
+    return null;
+  }
+  if (typeof value.keys?.p256dh !== 'string' || typeof value.keys?.auth !== 'string') {
+    return null;
+  }
+  return {
+    endpoint: value.endpoint,
+    expirationTime: typeof value.expirationTime === 'number' ? value.expirationTime : null,
+    keys: { p256dh: value.keys.p256dh, auth: value.keys.auth }
+  };
+}
+
+function parseReminderTimes(value: any): number[] {
+  if (!Array.isArray(value)) {
+    return [60, 15, 5];
+  }
+  return Array.from(new Set(
+    value
+      .map(Number)
+      .filter((minutes: number) => Number.isInteger(minutes) && minutes > 0 && minutes <= MAX_REMINDER_MINUTES)
+  )) as number[];
+}
+
+function parseLaunches(value: any): WatchedLaunch[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .filter(launch =>
+      typeof launch?.launchId === 'string' &&
+      typeof launch?.name === 'string' &&
+      !Number.isNaN(Date.parse(launch?.net)) &&
+      LIKELIHOODS.includes(launch?.likelihood)
+    )
+    .slice(0, MAX_WATCHED_LAUNCHES)
+    .map(launch => ({
+      launchId: launch.launchId,
+      name: String(launch.name).slice(0, 200),
+      net: new Date(launch.net).toISOString(),
+      likelihood: launch.likelihood,
+      bearing: typeof launch.bearing === 'number' ? launch.bearing : undefined
+    }));
+}
+
+function parseTimeZone(value: any): string | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  try {
+    return new Intl.DateTimeFormat('en-US', { timeZone: value }).resolvedOptions().timeZone;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Push subscription management
+ * GET    - VAPID public key for PushManager.subscribe
+ * POST   - create/update a subscription with reminder settings and watched launches
+ * DELETE - remove a subscription
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const origin = req.headers.origin || '';
+  if (allowedOrigins.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  }
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const vapid = getVapidDetailsFromEnv();
+  if (!vapid) {
+    return res.status(503).json({ error: 'Push notifications are not configured' });
+  }
+
+  if (req.method === 'GET') {
+    return res.status(200).json({ publicKey: vapid.publicKey });
+  }
+
+  const subscription = parseSubscription(req.body?.subscription);
+  if (!subscription) {
+    return res.status(400).json({ error: 'A valid push subscription is required' });
+  }
+  const id = subscriptionId(subscription.endpoint);
+
+  if (req.method === 'DELETE') {
+    await removeSubscription(id);
+    return res.status(200).json({ ok: true });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // The cron job posts signed payloads to this endpoint, so it has to be a public push service
+  if (!(await isPublicHost(new URL(subscription.endpoint).hostname))) {
+    return res.status(400).json({ error: 'Subscription endpoint must resolve to public IP addresses' });
+  }
+
+  try {
+    const existing = await getSubscription(id);
+    const now = Date.now();
+
+    // Keep the NET each launch was last announced at so the cron can still
+    // report changes the page already knows about
+    const announcedNets = new Map((existing?.launches ?? []).map(launch => [launch.launchId, launch.net]));
+    const launches = parseLaunches(req.body?.launches).map(launch => ({
+      ...launch,
+      net: announcedNets.get(launch.launchId) ?? launch.net
+    }));
+
+    const record: PushSubscriptionRecord = {
+      id,
+      subscription,
+      reminderTimes: parseReminderTimes(req.body?.reminderTimes),
+      highVisibilityOnly: req.body?.highVisibilityOnly !== false,
+      launches,
+      sent: existing?.sent ?? [],
+      timeZone: parseTimeZone(req.body?.timeZone),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    };
+
+    await saveSubscription(record);
+    return res.status(200).json({ ok: true, id, watching: launches.length });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return res.status(500).json({ error: message });
+  }
+}
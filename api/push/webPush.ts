@@ -0,0 +1,192 @@
+import {
+  createECDH,
+  createCipheriv,
+  createPrivateKey,
+  hkdfSync,
+  randomBytes,
+  sign
+} from 'crypto';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+
+export interface PushSubscriptionKeys {
+  p256dh: string;
+  auth: string;
+}
+
+export interface WebPushSubscription {
+  endpoint: string;
+  expirationTime?: number | null;
+  keys: PushSubscriptionKeys;
+}
+
+export interface VapidDetails {
+  subject: string;    // mailto: or https: contact for the push service operator
+  publicKey: string;  // base64url, uncompressed P-256 point
+  privateKey: string; // base64url, raw 32-byte scalar
+}
+
+export interface SendOptions {
+  vapid?: VapidDetails;
+  ttlSeconds?: number;
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+  topic?: string;
+}
+
+export interface SendResult {
+  statusCode: number;
+  expired: boolean; // subscription is gone (404/410) and should be removed
+}
+
+const RECORD_SIZE = 4096;
+const JWT_LIFETIME_SECONDS = 12 * 60 * 60;
+const DEFAULT_TTL_SECONDS = 4 * 60 * 60;
+const REQUEST_TIMEOUT_MS = 10000;
+
+export function toBase64Url(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function fromBase64Url(value: string): Buffer {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return Buffer.from(base64 + '='.repeat((4 - (base64.length % 4)) % 4), 'base64');
+}
+
+/**
+ * Generate an application server (VAPID) key pair; run once and store in env
+ */
+export function generateVapidKeys(): { publicKey: string; privateKey: string } {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    publicKey: toBase64Url(ecdh.getPublicKey()),
+    privateKey: toBase64Url(ecdh.getPrivateKey())
+  };
+}
+
+export function getVapidDetailsFromEnv(): VapidDetails | null {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) {
+    return null;
+  }
+  return {
+    subject: process.env.VAPID_SUBJECT || 'mailto:alerts@bermuda-rocket-tracker.app',
+    publicKey,
+    privateKey
+  };
+}
+
+/**
+ * Signed VAPID JWT for the push service origin (RFC 8292)
+ */
+export function createVapidAuthorization(endpoint: string, vapid: VapidDetails, now: number = Date.now()): string {
+  const publicKeyBytes = fromBase64Url(vapid.publicKey);
+  const key = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: toBase64Url(publicKeyBytes.subarray(1, 33)),
+      y: toBase64Url(publicKeyBytes.subarray(33, 65))
+    },
+    format: 'jwk'
+  });
+
+  const header = toBase64Url(Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = toBase64Url(Buffer.from(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now / 1000) + JWT_LIFETIME_SECONDS,
+    sub: vapid.subject
+  })));
+  const signature = sign('sha256', Buffer.from(`${header}.${claims}`), { key, dsaEncoding: 'ieee-p1363' });
+
+  return `vapid t=${header}.${claims}.${toBase64Url(signature)}, k=${vapid.publicKey}`;
+}
+
+/**
+ * Encrypt a payload for one subscription (RFC 8291, aes128gcm content coding)
+ */
+export function encryptPayload(payload: string, keys: PushSubscriptionKeys): Buffer {
+  const userAgentPublicKey = fromBase64Url(keys.p256dh);
+  const authSecret = fromBase64Url(keys.auth);
+
+  const ecdh = createECDH('prime256v1');
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+  const salt = randomBytes(16);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublicKey, serverPublicKey]);
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+  const contentKey = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  // Single record: payload followed by the last-record delimiter
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([Buffer.from(payload, 'utf8'), Buffer.from([2])])),
+    cipher.final(),
+    cipher.getAuthTag()
+  ]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+
+  return Buffer.concat([header, serverPublicKey, ciphertext]);
+}
+
+/**
+ * Deliver one encrypted message to a subscription's push service
+ */
+export async function sendWebPush(
+  subscription: WebPushSubscription,
+  payload: string,
+  options: SendOptions = {}
+): Promise<SendResult> {
+  const vapid = options.vapid ?? getVapidDetailsFromEnv();
+  if (!vapid) {
+    throw new Error('VAPID keys are not configured');
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/octet-stream',
+    'Content-Encoding': 'aes128gcm',
+    'TTL': String(options.ttlSeconds ?? DEFAULT_TTL_SECONDS),
+    'Authorization': createVapidAuthorization(subscription.endpoint, vapid)
+  };
+  if (options.urgency) {
+    headers['Urgency'] = options.urgency;
+  }
+  if (options.topic) {
+    headers['Topic'] = options.topic;
+  }
+
+  const body = encryptPayload(payload, subscription.keys);
+  headers['Content-Length'] = String(body.length);
+  const statusCode = await postToPushService(subscription.endpoint, headers, body);
+
+  return {
+    statusCode,
+    expired: statusCode === 404 || statusCode === 410
+  };
+}
+
+/**
+ * POST straight through http(s) so delivery works the same on every Node runtime
+ */
+function postToPushService(endpoint: string, headers: Record<string, string>, body: Buffer): Promise<number> {
+  const url = new URL(endpoint);
+  const request = url.protocol === 'http:' ? httpRequest : httpsRequest;
+
+  return new Promise((resolve, reject) => {
+    const req = request(url, { method: 'POST', headers, timeout: REQUEST_TIMEOUT_MS }, res => {
+      res.resume();
+      res.on('end', () => resolve(res.statusCode ?? 0));
+    });
+    req.on('timeout', () => req.destroy(new Error('Push service request timed out')));
+    req.on('error', reject);
+    req.end(body);
+  });
+}
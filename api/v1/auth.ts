@@ -0,0 +1,228 @@
+/**
+ * Public API authentication and rate limiting
+ *
+ * Keys come from PUBLIC_API_KEYS as comma-separated name:key pairs, so each
+ * integration (a Discord bot, a home dashboard) has its own key and its own
+ * rate limit. Limits are kept in Upstash Redis with @upstash/ratelimit, or in
+ * memory where Redis is not configured.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { Ratelimit } from '@upstash/ratelimit';
+import { Redis } from '@upstash/redis';
+
+export interface ApiKey {
+  name: string;
+  hash: Buffer;
+}
+
+export interface RateLimitResult {
+  success: boolean;
+  limit: number;
+  remaining: number;
+  reset: number; // epoch milliseconds when the window resets
+}
+
+export interface RateLimiter {
+  limit(identifier: string): Promise<RateLimitResult>;
+}
+
+// Requests per key per minute unless PUBLIC_API_RATE_LIMIT says otherwise
+const DEFAULT_RATE_LIMIT = 60;
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const MIN_KEY_LENGTH = 16;
+
+const redis = (() => {
+  try {
+    return Redis.fromEnv();
+  } catch (error) {
+    console.warn('[PublicApi] Redis not configured, rate limiting in memory');
+    return null;
+  }
+})();
+
+let publicApiLimiter: RateLimiter | null = null;
+
+function hashKey(key: string): Buffer {
+  return createHash('sha256').update(key).digest();
+}
+
+/**
+ * Parse PUBLIC_API_KEYS; entries without a name or with a short key are ignored
+ */
+export function parseApiKeys(value: string = process.env.PUBLIC_API_KEYS || ''): ApiKey[] {
+  const keys: ApiKey[] = [];
+  for (const entry of value.split(',')) {
+    const separator = entry.indexOf(':');
+    const name = entry.slice(0, separator).trim();
+    const key = entry.slice(separator + 1).trim();
+    if (separator <= 0 || !name) {
+      continue;
+    }
+    if (key.length < MIN_KEY_LENGTH) {
+      console.warn(`[PublicApi] Ignoring API key "${name}": keys need at least ${MIN_KEY_LENGTH} characters`);
+      continue;
+    }
+    keys.push({ name, hash: hashKey(key) });
+  }
+  return keys;
+}
+
+/**
+ * Key from `Authorization: Bearer <key>` or `X-API-Key: <key>`
+ */
+function readApiKey(req: VercelRequest): string | null {
+  const authorization = req.headers['authorization'];
+  if (typeof authorization === 'string' && authorization.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+  const header = req.headers['x-api-key'];
+  return typeof header === 'string' && header.trim() ? header.trim() : null;
+}
+
+/**
+ * Matching key, comparing digests in constant time
+ */
+export function findApiKey(provided: string, keys: ApiKey[]): ApiKey | null {
+  const hash = hashKey(provided);
+  let found: ApiKey | null = null;
+  for (const key of keys) {
+    if (timingSafeEqual(hash, key.hash)) {
+      found = key;
+    }
+  }
+  return found;
+}
+
+/**
+ * Fixed-window limiter for when Redis is not configured; limits then apply per
+ * serverless instance. Expired windows are swept at most once per window.
+ */
+export function createMemoryRateLimiter(tokens: number, windowMs: number): RateLimiter & { size(): number } {
+  const windows = new Map<string, { count: number; reset: number }>();
+  let nextSweep = 0;
+
+  return {
+    async limit(identifier: string): Promise<RateLimitResult> {
+      const now = Date.now();
+      if (now >= nextSweep) {
+        windows.forEach((expired, key) => {
+          if (now >= expired.reset) {
+            windows.delete(key);
+          }
+        });
+        nextSweep = now + windowMs;
+      }
+
+      let window = windows.get(identifier);
+      if (!window || now >= window.reset) {
+        window = { count: 0, reset: now + windowMs };
+        windows.set(identifier, window);
+      }
+
+      window.count += 1;
+      return {
+        success: window.count <= tokens,
+        limit: tokens,
+        remaining: Math.max(0, tokens - window.count),
+        reset: window.reset
+      };
+    },
+
+    size(): number {
+      return windows.size;
+    }
+  };
+}
+
+/**
+ * Limiter shared across instances through Redis under `prefix`, falling back
+ * to a per-instance memory limiter without Redis or when a Redis call fails
+ */
+export function createRateLimiter(prefix: string, tokens: number, windowMs: number): RateLimiter {
+  const memory = createMemoryRateLimiter(tokens, windowMs);
+  const shared = redis
+    ? new Ratelimit({
+      redis,
+      limiter: Ratelimit.slidingWindow(tokens, `${windowMs / 1000} s`),
+      prefix
+    })
+    : null;
+
+  return {
+    async limit(identifier: string): Promise<RateLimitResult> {
+      if (shared) {
+        try {
+          return await shared.limit(identifier);
+        } catch (error) {
+          console.warn(`[RateLimit] Redis rate limit failed for ${prefix}, limiting in memory:`, error);
+        }
+      }
+      return memory.limit(identifier);
+    }
+  };
+}
+
+function getPublicApiLimiter(): RateLimiter {
+  if (!publicApiLimiter) {
+    const configured = parseInt(process.env.PUBLIC_API_RATE_LIMIT || '', 10);
+    const tokens = Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_RATE_LIMIT;
+    publicApiLimiter = createRateLimiter('ratelimit:public-api', tokens, RATE_LIMIT_WINDOW_MS);
+  }
+  return publicApiLimiter;
+}
+
+/**
+ * Shared start of every public API handler: CORS, method check, API key and
+ * rate limit. Answers the request itself and returns null when the handler
+ * should stop, otherwise returns the name of the calling key.
+ */
+export async function authorizePublicRequest(
+  req: VercelRequest,
+  res: VercelResponse,
+  methods: string[] = ['GET']
+): Promise<string | null> {
+  // Keys are sent explicitly rather than as cookies, so any origin may call the API
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', [...methods, 'OPTIONS'].join(', '));
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, X-API-Key, Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return null;
+  }
+
+  if (!methods.includes(req.method || '')) {
+    res.status(405).json({ error: 'Method not allowed' });
+    return null;
+  }
+
+  const keys = parseApiKeys();
+  if (keys.length === 0) {
+    // Fail closed: without configured keys nobody is authorized
+    console.error('PUBLIC_API_KEYS environment variable is not configured');
+  }
+
+  const provided = readApiKey(req);
+  const key = provided ? findApiKey(provided, keys) : null;
+  if (!key) {
+    res.setHeader('WWW-Authenticate', 'Bearer realm="bermuda-rocket-tracker"');
+    res.status(401).json({ error: 'Missing or invalid API key' });
+    return null;
+  }
+
+  const result = await getPublicApiLimiter().limit(key.name);
+  res.setHeader('X-RateLimit-Limit', String(result.limit));
+  res.setHeader('X-RateLimit-Remaining', String(result.remaining));
+  res.setHeader('X-RateLimit-Reset', String(Math.ceil(result.reset / 1000)));
+
+  if (!result.success) {
+    const retryAfter = Math.max(1, Math.ceil((result.reset - Date.now()) / 1000));
+    res.setHeader('Retry-After', String(retryAfter));
+    res.status(429).json({ error: 'Rate limit exceeded', retryAfter });
+    return null;
+  }
+
+  return key.name;
+}
@@ -0,0 +1,188 @@
+/**
+ * Public API payloads
+ *
+ * The v1 endpoints read the same shared launch feed as the app and reshape it
+ * into stable, documented objects (see PUBLIC_API.md), so internal type
+ * changes never reach integrations.
+ */
+
+import type { LaunchFeedEntry, MatchConfidence, VisibilityWindow } from '../../src/types';
+import { getCachedLaunchFeed, setCachedLaunchFeed, type LaunchFeedCacheEntry } from '../flightclub/cache';
+import { buildLaunchFeed, LAUNCH_FEED_MAX_AGE_MS } from '../launches/aggregate';
+import type { WebhookEventType, WebhookFormat, WebhookRecord } from '../webhooks/store';
+
+export const API_VERSION = 'v1';
+
+const LAUNCH_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const WEBHOOK_ID_PATTERN = /^wh_[a-f0-9]{24}$/;
+
+export interface LoadedLaunchFeed {
+  entry: LaunchFeedCacheEntry;
+  cached: boolean;
+  warning?: string;
+}
+
+export interface PublicVisibilitySummary {
+  likelihood: 'high' | 'medium' | 'low' | 'none';
+  score: number | null;        // 0-1
+  bearing: number | null;      // degrees from Bermuda
+  trajectoryDirection: string | null;
+  estimatedTimeVisible: string | null;
+}
+
+export interface PublicLaunch {
+  id: string;
+  name: string;
+  net: string;
+  windowStart: string | null;
+  windowEnd: string | null;
+  bermudaTime: string;
+  status: string;
+  provider: string | null;
+  vehicle: string;
+  pad: { name: string; location: string };
+  mission: { name: string; orbit: string | null };
+  flightClub: { missionId: string; confidence: MatchConfidence } | null;
+  visibility: PublicVisibilitySummary;
+}
+
+export interface PublicVisibility extends PublicVisibilitySummary {
+  reason: string;
+  factors: string[];
+  dataSource: string;
+  peakMagnitude: number | null;
+  window: VisibilityWindow | null;
+  solar: {
+    sunElevation: number;
+    twilightPhase: string;
+    rocketSunlit: boolean;
+    groundDarkness: boolean;
+  };
+  dataQuality: string;
+  warnings: string[];
+  calculatedAt: string;
+}
+
+export interface PublicWebhook {
+  id: string;
+  url: string;
+  events: WebhookEventType[];
+  launchIds: string[];
+  format: WebhookFormat;
+  description: string | null;
+  active: boolean;
+  consecutiveFailures: number;
+  lastDelivery: {
+    eventId: string;
+    type: WebhookEventType;
+    at: string;
+    ok: boolean;
+    statusCode: number | null;
+    attempts: number;
+  } | null;
+  createdAt: string;
+}
+
+export function isValidLaunchId(value: unknown): value is string {
+  return typeof value === 'string' && LAUNCH_ID_PATTERN.test(value);
+}
+
+export function isValidWebhookId(value: unknown): value is string {
+  return typeof value === 'string' && WEBHOOK_ID_PATTERN.test(value);
+}
+
+/**
+ * The shared launch feed: from the cache while fresh, otherwise rebuilt, and
+ * the stale feed when the rebuild fails
+ */
+export async function loadLaunchFeed(): Promise<LoadedLaunchFeed> {
+  const cachedEntry = await getCachedLaunchFeed();
+  if (cachedEntry && Date.now() - cachedEntry.cachedAt < LAUNCH_FEED_MAX_AGE_MS) {
+    return { entry: cachedEntry, cached: true };
+  }
+
+  try {
+    const entry = await buildLaunchFeed();
+    await setCachedLaunchFeed(entry);
+    return { entry, cached: false };
+  } catch (error) {
+    if (!cachedEntry) {
+      throw error;
+    }
+    console.warn('[PublicApi] Serving cached launch feed due to build error:', error);
+    return { entry: cachedEntry, cached: true, warning: 'Serving cached launches due to Launch Library error' };
+  }
+}
+
+export function toVisibilitySummary(launch: LaunchFeedEntry): PublicVisibilitySummary {
+  const { visibility } = launch;
+  return {
+    likelihood: visibility.likelihood,
+    score: visibility.score ?? null,
+    bearing: visibility.bearing ?? null,
+    trajectoryDirection: visibility.trajectoryDirection ?? null,
+    estimatedTimeVisible: visibility.estimatedTimeVisible ?? null
+  };
+}
+
+export function toPublicLaunch(launch: LaunchFeedEntry): PublicLaunch {
+  return {
+    id: launch.id,
+    name: launch.name,
+    net: launch.net,
+    windowStart: launch.window_start ?? null,
+    windowEnd: launch.window_end ?? null,
+    bermudaTime: launch.bermudaTime,
+    status: launch.status.name,
+    provider: launch.launch_service_provider?.name ?? launch.rocket.configuration?.launch_service_provider?.name ?? null,
+    vehicle: launch.rocket.configuration?.full_name || launch.rocket.name,
+    pad: { name: launch.pad.name, location: launch.pad.location.name },
+    mission: { name: launch.mission.name, orbit: launch.mission.orbit?.name ?? null },
+    flightClub: launch.flightClubMatch
+      ? { missionId: launch.flightClubMatch.flightClubMission.id, confidence: launch.flightClubMatch.confidence }
+      : null,
+    visibility: toVisibilitySummary(launch)
+  };
+}
+
+export function toPublicVisibility(launch: LaunchFeedEntry): PublicVisibility {
+  const { visibility } = launch;
+  return {
+    ...toVisibilitySummary(launch),
+    reason: visibility.reason,
+    factors: visibility.factors ?? [],
+    dataSource: visibility.dataSource ?? 'calculated',
+    peakMagnitude: visibility.peakMagnitude ?? null,
+    window: visibility.visibilityWindow ?? null,
+    solar: {
+      sunElevation: visibility.solarConditions.sunElevation,
+      twilightPhase: visibility.solarConditions.twilightPhase,
+      rocketSunlit: visibility.solarConditions.rocketSunlit,
+      groundDarkness: visibility.solarConditions.groundDarkness
+    },
+    dataQuality: visibility.validationStatus.dataQuality,
+    warnings: visibility.validationStatus.warnings,
+    // A Date before the feed went through the cache, a string after
+    calculatedAt: new Date(visibility.lastCalculated).toISOString()
+  };
+}
+
+/**
+ * A registered webhook without its signing secret
+ */
+export function toPublicWebhook(record: WebhookRecord): PublicWebhook {
+  return {
+    id: record.id,
+    url: record.url,
+    events: record.events,
+    launchIds: record.launchIds,
+    format: record.format,
+    description: record.description ?? null,
+    active: !record.disabledAt,
+    consecutiveFailures: record.consecutiveFailures,
+    lastDelivery: record.lastDelivery
+      ? { ...record.lastDelivery, at: new Date(record.lastDelivery.at).toISOString() }
+      : null,
+    createdAt: new Date(record.createdAt).toISOString()
+  };
+}
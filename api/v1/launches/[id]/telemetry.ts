@@ -0,0 +1,106 @@
+/**
+ * Vercel Serverless Function: Public API - Launch Telemetry
+ *
+ * GET /api/v1/launches/:id/telemetry?visibleOnly=true
+ * Flight Club simulated trajectory for one launch, with distance, bearing and
+ * elevation from Bermuda for every frame. Requires an API key; see
+ * PUBLIC_API.md.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authorizePublicRequest } from '../../auth';
+import { API_VERSION, isValidLaunchId, loadLaunchFeed } from '../../feed';
+import { getCachedSimulation, setCachedSimulation } from '../../../flightclub/cache';
+import {
+  fetchSimulationFromFlightClub,
+  processSimulationData,
+  type ProcessedSimulationData
+} from '../../../flightclub/simulation/[missionId]';
+import { getSimulationId } from '../../../jobs/refresh-flightclub';
+
+async function loadSimulation(simulationId: string): Promise<{ data: ProcessedSimulationData; cached: boolean }> {
+  const cachedEntry = await getCachedSimulation(simulationId);
+  if (cachedEntry) {
+    return { data: cachedEntry.data, cached: true };
+  }
+
+  const data = processSimulationData(await fetchSimulationFromFlightClub(simulationId));
+  await setCachedSimulation(simulationId, { data, cachedAt: Date.now() });
+  return { data, cached: false };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const keyName = await authorizePublicRequest(req, res);
+  if (!keyName) {
+    return;
+  }
+
+  const { id } = req.query;
+  if (!isValidLaunchId(id)) {
+    return res.status(400).json({ error: 'Invalid launch ID' });
+  }
+  const visibleOnly = req.query.visibleOnly === 'true';
+
+  try {
+    const { entry } = await loadLaunchFeed();
+    const launch = entry.launches.find(feedLaunch => feedLaunch.id === id);
+    if (!launch) {
+      return res.status(404).json({ error: 'Launch not found among upcoming launches' });
+    }
+
+    const mission = launch.flightClubMatch?.flightClubMission;
+    const simulationId = mission ? getSimulationId(mission) : null;
+    if (!mission || !simulationId) {
+      return res.status(404).json({ error: 'No Flight Club simulation for this launch' });
+    }
+
+    let simulation: { data: ProcessedSimulationData; cached: boolean };
+    try {
+      simulation = await loadSimulation(simulationId);
+    } catch (error) {
+      console.error(`Public API telemetry fetch failed for ${id}:`, error);
+      // No generated fallback here: integrations should know the trajectory is missing
+      return res.status(502).json({ error: 'Flight Club telemetry unavailable' });
+    }
+
+    const { data, cached } = simulation;
+    const frames = data.enhancedTelemetry
+      .filter(frame => !visibleOnly || frame.aboveHorizon)
+      .map(frame => ({
+        time: frame.time,
+        stage: frame.stageNumber,
+        latitude: frame.latitude,
+        longitude: frame.longitude,
+        altitude: frame.altitude,
+        speed: frame.speed,
+        distanceKm: frame.distanceFromBermuda,
+        bearing: frame.bearingFromBermuda,
+        elevation: frame.elevationAngle,
+        aboveHorizon: frame.aboveHorizon
+      }));
+
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    return res.status(200).json({
+      apiVersion: API_VERSION,
+      launchId: launch.id,
+      net: launch.net,
+      flightClub: {
+        missionId: mission.id,
+        simulationId,
+        confidence: launch.flightClubMatch?.confidence
+      },
+      lastUpdated: data.lastUpdated,
+      cached,
+      visibilitySummary: data.visibilitySummary,
+      stageEvents: data.stageEvents,
+      frames
+    });
+
+  } catch (error) {
+    console.error(`Public API telemetry error for ${id} (${keyName}):`, error);
+    return res.status(500).json({
+      error: 'Unable to load telemetry',
+      details: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.message : String(error)) : undefined
+    });
+  }
+}
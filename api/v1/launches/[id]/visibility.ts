@@ -0,0 +1,49 @@
+/**
+ * Vercel Serverless Function: Public API - Launch Visibility
+ *
+ * GET /api/v1/launches/:id/visibility
+ * Full visibility prediction for one launch from the default Bermuda
+ * observer. Requires an API key; see PUBLIC_API.md.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authorizePublicRequest } from '../../auth';
+import { API_VERSION, isValidLaunchId, loadLaunchFeed, toPublicVisibility } from '../../feed';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const keyName = await authorizePublicRequest(req, res);
+  if (!keyName) {
+    return;
+  }
+
+  const { id } = req.query;
+  if (!isValidLaunchId(id)) {
+    return res.status(400).json({ error: 'Invalid launch ID' });
+  }
+
+  try {
+    const { entry, cached } = await loadLaunchFeed();
+    const launch = entry.launches.find(feedLaunch => feedLaunch.id === id);
+    if (!launch) {
+      return res.status(404).json({ error: 'Launch not found among upcoming launches' });
+    }
+
+    res.setHeader('Cache-Control', 'private, max-age=60');
+    return res.status(200).json({
+      apiVersion: API_VERSION,
+      generatedAt: new Date(entry.cachedAt).toISOString(),
+      observer: entry.observerId,
+      cached,
+      launchId: launch.id,
+      net: launch.net,
+      visibility: toPublicVisibility(launch)
+    });
+
+  } catch (error) {
+    console.error(`Public API visibility error for ${id} (${keyName}):`, error);
+    return res.status(500).json({
+      error: 'Unable to load visibility',
+      details: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.message : String(error)) : undefined
+    });
+  }
+}
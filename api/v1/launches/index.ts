@@ -0,0 +1,46 @@
+/**
+ * Vercel Serverless Function: Public API - Upcoming Launches
+ *
+ * GET /api/v1/launches?limit=10
+ * Upcoming East Coast launches with a visibility summary from the default
+ * Bermuda observer. Requires an API key; see PUBLIC_API.md.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authorizePublicRequest } from '../auth';
+import { API_VERSION, loadLaunchFeed, toPublicLaunch } from '../feed';
+
+const MAX_LIMIT = 30;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const keyName = await authorizePublicRequest(req, res);
+  if (!keyName) {
+    return;
+  }
+
+  const requestedLimit = parseInt(String(req.query.limit ?? MAX_LIMIT), 10);
+  if (!Number.isFinite(requestedLimit) || requestedLimit < 1) {
+    return res.status(400).json({ error: `limit must be between 1 and ${MAX_LIMIT}` });
+  }
+
+  try {
+    const { entry, cached, warning } = await loadLaunchFeed();
+
+    res.setHeader('Cache-Control', 'private, max-age=60');
+    return res.status(200).json({
+      apiVersion: API_VERSION,
+      generatedAt: new Date(entry.cachedAt).toISOString(),
+      observer: entry.observerId,
+      cached,
+      warning: warning ?? entry.warning,
+      launches: entry.launches.slice(0, Math.min(requestedLimit, MAX_LIMIT)).map(toPublicLaunch)
+    });
+
+  } catch (error) {
+    console.error(`Public API launches error (${keyName}):`, error);
+    return res.status(500).json({
+      error: 'Unable to load launches',
+      details: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.message : String(error)) : undefined
+    });
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Vercel Serverless Function: Public API - One Webhook Subscription
+ *
+ * GET /api/v1/webhooks/:id shows a webhook and its last delivery;
+ * DELETE /api/v1/webhooks/:id removes it. Keys only see their own webhooks.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authorizePublicRequest } from '../auth';
+import { API_VERSION, isValidWebhookId, toPublicWebhook } from '../feed';
+import { getWebhook, removeWebhook } from '../../webhooks/store';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const keyName = await authorizePublicRequest(req, res, ['GET', 'DELETE']);
+  if (!keyName) {
+    return;
+  }
+
+  const { id } = req.query;
+  if (!isValidWebhookId(id)) {
+    return res.status(400).json({ error: 'Invalid webhook ID' });
+  }
+
+  try {
+    const record = await getWebhook(id);
+    // Another key's webhook is reported as missing rather than forbidden
+    if (!record || record.owner !== keyName) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    if (req.method === 'DELETE') {
+      await removeWebhook(id);
+      console.log(`[Webhooks] ${keyName} removed ${id}`);
+      return res.status(204).end();
+    }
+
+    res.setHeader('Cache-Control', 'private, no-store');
+    return res.status(200).json({ apiVersion: API_VERSION, webhook: toPublicWebhook(record) });
+
+  } catch (error) {
+    console.error(`Public API webhook error for ${id} (${keyName}):`, error);
+    return res.status(500).json({
+      error: 'Unable to load webhook',
+      details: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.message : String(error)) : undefined
+    });
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Vercel Serverless Function: Public API - Webhook Subscriptions
+ *
+ * GET /api/v1/webhooks lists the calling key's webhooks; POST registers one
+ * and returns its signing secret once. Deliveries are HMAC-signed POSTs on
+ * schedule and visibility changes; see PUBLIC_API.md.
+ */
+
+import { randomBytes } from 'crypto';
+import { isIP } from 'net';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authorizePublicRequest } from '../auth';
+import { API_VERSION, isValidLaunchId, toPublicWebhook } from '../feed';
+import {
+  listWebhooks,
+  saveWebhook,
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_FORMATS,
+  type WebhookEventType,
+  type WebhookFormat,
+  type WebhookRecord
+} from '../../webhooks/store';
+import { isPublicHost } from '../../webhooks/hosts';
+
+const MAX_WEBHOOKS_PER_KEY = 10;
+const MAX_URL_LENGTH = 2048;
+const MAX_DESCRIPTION_LENGTH = 200;
+const MAX_LAUNCH_IDS = 30;
+
+interface WebhookRequestBody {
+  url?: unknown;
+  events?: unknown;
+  launchIds?: unknown;
+  format?: unknown;
+  description?: unknown;
+}
+
+/**
+ * Deliveries leave our servers, so only public https hosts are accepted;
+ * what the host name resolves to is checked separately with isPublicHost
+ */
+function validateUrl(value: unknown): string | null {
+  if (typeof value !== 'string' || value.length > MAX_URL_LENGTH) {
+    return 'url is required';
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'url must be an absolute URL';
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (url.protocol !== 'https:') {
+    return 'url must use https';
+  }
+  if (url.username || url.password) {
+    return 'url must not contain credentials';
+  }
+  if (isIP(hostname) || hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.internal')) {
+    return 'url must point to a public host name';
+  }
+  return null;
+}
+
+function validateWebhookRequest(body: WebhookRequestBody): string | null {
+  const invalidUrl = validateUrl(body.url);
+  if (invalidUrl) {
+    return invalidUrl;
+  }
+  if (body.events !== undefined && (
+    !Array.isArray(body.events)
+    || body.events.length === 0
+    || !body.events.every(event => WEBHOOK_EVENT_TYPES.includes(event))
+  )) {
+    return `events must be a non-empty list of: ${WEBHOOK_EVENT_TYPES.join(', ')}`;
+  }
+  if (body.launchIds !== undefined && (
+    !Array.isArray(body.launchIds)
+    || body.launchIds.length > MAX_LAUNCH_IDS
+    || !body.launchIds.every(isValidLaunchId)
+  )) {
+    return `launchIds must be a list of up to ${MAX_LAUNCH_IDS} launch IDs`;
+  }
+  if (body.format !== undefined && !WEBHOOK_FORMATS.includes(body.format as WebhookFormat)) {
+    return `format must be one of: ${WEBHOOK_FORMATS.join(', ')}`;
+  }
+  if (body.description !== undefined && (typeof body.description !== 'string' || body.description.length > MAX_DESCRIPTION_LENGTH)) {
+    return `description must be a string of up to ${MAX_DESCRIPTION_LENGTH} characters`;
+  }
+  return null;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const keyName = await authorizePublicRequest(req, res, ['GET', 'POST']);
+  if (!keyName) {
+    return;
+  }
+
+  try {
+    const owned = (await listWebhooks()).filter(webhook => webhook.owner === keyName);
+
+    if (req.method === 'GET') {
+      res.setHeader('Cache-Control', 'private, no-store');
+      return res.status(200).json({
+        apiVersion: API_VERSION,
+        webhooks: owned.sort((a, b) => a.createdAt - b.createdAt).map(toPublicWebhook)
+      });
+    }
+
+    const body: WebhookRequestBody = typeof req.body === 'string' ? JSON.parse(req.body) : (req.body ?? {});
+    const invalid = validateWebhookRequest(body);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+    if (!(await isPublicHost(new URL(body.url as string).hostname))) {
+      return res.status(400).json({ error: 'url must resolve to public IP addresses' });
+    }
+    if (owned.length >= MAX_WEBHOOKS_PER_KEY) {
+      return res.status(409).json({ error: `Each API key may register up to ${MAX_WEBHOOKS_PER_KEY} webhooks` });
+    }
+
+    const now = Date.now();
+    const record: WebhookRecord = {
+      id: `wh_${randomBytes(12).toString('hex')}`,
+      owner: keyName,
+      url: body.url as string,
+      secret: `whsec_${randomBytes(32).toString('hex')}`,
+      events: body.events ? Array.from(new Set(body.events as WebhookEventType[])) : WEBHOOK_EVENT_TYPES,
+      launchIds: (body.launchIds as string[] | undefined) ?? [],
+      format: (body.format as WebhookFormat | undefined) ?? 'json',
+      description: body.description as string | undefined,
+      consecutiveFailures: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    await saveWebhook(record);
+
+    console.log(`[Webhooks] ${keyName} registered ${record.id} for ${record.events.join(', ')}`);
+    return res.status(201).json({
+      apiVersion: API_VERSION,
+      webhook: toPublicWebhook(record),
+      // Shown only here; the receiver needs it to verify X-Webhook-Signature
+      secret: record.secret
+    });
+
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return res.status(400).json({ error: 'Request body must be JSON' });
+    }
+    console.error(`Public API webhooks error (${keyName}):`, error);
+    return res.status(500).json({
+      error: 'Unable to update webhooks',
+      details: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.message : String(error)) : undefined
+    });
+  }
+}
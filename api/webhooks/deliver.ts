@@ -0,0 +1,220 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { EnhancedError, errorHandlingService, type RetryConfig } from '../../src/services/errorHandlingService';
+import {
+  saveWebhook,
+  type PendingDelivery,
+  type WebhookDeliveryResult,
+  type WebhookFormat,
+  type WebhookRecord
+} from './store';
+import type { WebhookEvent } from './events';
+import { isPublicHost } from './hosts';
+
+// Short backoff: deliveries happen inside a cron invocation
+export const WEBHOOK_RETRY_CONFIG: RetryConfig = {
+  maxRetries: 3,
+  baseDelay: 1000,
+  maxDelay: 8000,
+  backoffMultiplier: 2,
+  jitter: true
+};
+
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const DELIVERY_TIMEOUT_MS = 5000;
+
+// Endpoints failing this many deliveries in a row are disabled until re-registered
+const MAX_CONSECUTIVE_FAILURES = 20;
+
+export interface DispatchSummary {
+  delivered: number;
+  failed: number;
+  // Deliveries not started because they could not finish before the deadline
+  skipped: number;
+  pending: PendingDelivery[]; // the skipped deliveries, to retry on the next run
+}
+
+function computeSignature(secret: string, body: string, timestamp: number): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * X-Webhook-Signature value: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${computeSignature(secret, body, timestamp)}`;
+}
+
+/**
+ * Receiver-side check of X-Webhook-Signature; rejects stale timestamps so
+ * captured deliveries cannot be replayed
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds: number = SIGNATURE_TOLERANCE_SECONDS,
+  now: number = Date.now()
+): boolean {
+  const parts = new Map<string, string>();
+  for (const part of header.split(',')) {
+    const separator = part.indexOf('=');
+    if (separator > 0) {
+      parts.set(part.slice(0, separator).trim(), part.slice(separator + 1).trim());
+    }
+  }
+
+  const timestamp = Number(parts.get('t'));
+  const provided = Buffer.from(parts.get('v1') ?? '', 'hex');
+  if (!Number.isInteger(timestamp) || Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeSignature(secret, body, timestamp), 'hex');
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Request body for the endpoint's format; Slack and Discord incoming webhooks
+ * only accept their own message shape
+ */
+export function formatPayload(event: WebhookEvent, format: WebhookFormat): string {
+  const message = `${event.summary}\n${event.launch.url}`;
+  switch (format) {
+    case 'slack':
+      return JSON.stringify({ text: message });
+    case 'discord':
+      return JSON.stringify({ content: message });
+    default:
+      return JSON.stringify(event);
+  }
+}
+
+/**
+ * Longest one delivery can take: every attempt timing out plus the backoff
+ * between them (jitter only shortens the delays)
+ */
+export function maxDeliveryDuration(retryConfig: RetryConfig = WEBHOOK_RETRY_CONFIG): number {
+  let duration = (retryConfig.maxRetries + 1) * DELIVERY_TIMEOUT_MS;
+  for (let attempt = 1; attempt <= retryConfig.maxRetries; attempt++) {
+    duration += Math.min(retryConfig.baseDelay * Math.pow(retryConfig.backoffMultiplier, attempt - 1), retryConfig.maxDelay);
+  }
+  return duration;
+}
+
+function subscribesTo(record: WebhookRecord, event: WebhookEvent): boolean {
+  return !record.disabledAt
+    && record.events.includes(event.type)
+    && (record.launchIds.length === 0 || record.launchIds.includes(event.launch.id));
+}
+
+/**
+ * POST one event to one endpoint, retrying network errors, timeouts, 429s
+ * and 5xx responses with backoff, then record the outcome on the webhook
+ */
+export async function deliverWebhook(
+  record: WebhookRecord,
+  event: WebhookEvent,
+  retryConfig: RetryConfig = WEBHOOK_RETRY_CONFIG
+): Promise<WebhookRecord> {
+  const body = formatPayload(event, record.format);
+  let attempts = 0;
+  let result: WebhookDeliveryResult;
+
+  try {
+    // Re-checked on every delivery: the host may resolve elsewhere than at registration
+    const { hostname } = new URL(record.url);
+    if (!(await isPublicHost(hostname))) {
+      throw new Error(`${hostname} does not resolve to public IP addresses`);
+    }
+
+    const response = await errorHandlingService.withRetry(async () => {
+      attempts += 1;
+      return errorHandlingService.enhancedFetch(record.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Bermuda-Rocket-Tracker/Webhooks',
+          'X-Webhook-Id': record.id,
+          'X-Webhook-Event': event.type,
+          'X-Webhook-Delivery': event.id,
+          // Signed per attempt so retries carry a fresh timestamp
+          'X-Webhook-Signature': signWebhookPayload(record.secret, body)
+        },
+        body,
+        // A registered URL must not bounce deliveries somewhere else
+        redirect: 'manual',
+        timeout: DELIVERY_TIMEOUT_MS
+      }, { maxRetries: 0 });
+    }, retryConfig, { webhookId: record.id, eventId: event.id });
+
+    result = { eventId: event.id, type: event.type, at: Date.now(), ok: true, statusCode: response.status, attempts };
+  } catch (error) {
+    const statusCode = error instanceof EnhancedError ? error.statusCode ?? null : null;
+    console.warn(`[Webhooks] Delivery of ${event.id} to ${record.id} failed after ${attempts} attempts:`, error instanceof Error ? error.message : error);
+    result = { eventId: event.id, type: event.type, at: Date.now(), ok: false, statusCode, attempts };
+  }
+
+  const consecutiveFailures = result.ok ? 0 : record.consecutiveFailures + 1;
+  const updated: WebhookRecord = {
+    ...record,
+    consecutiveFailures,
+    lastDelivery: result,
+    disabledAt: consecutiveFailures >= MAX_CONSECUTIVE_FAILURES ? Date.now() : record.disabledAt,
+    updatedAt: Date.now()
+  };
+  if (updated.disabledAt && !record.disabledAt) {
+    console.warn(`[Webhooks] Disabled ${record.id} after ${consecutiveFailures} failed deliveries`);
+  }
+
+  await saveWebhook(updated);
+  return updated;
+}
+
+/**
+ * Deliver events to the webhooks subscribed to them. Webhooks are served in
+ * parallel, each one's queued deliveries first and then its events in order;
+ * records in `webhooks` are replaced with their updated versions so later
+ * events see the current failure counts. Deliveries that could not finish
+ * before `deadline` are skipped and returned as pending.
+ */
+export async function dispatchEvents(
+  events: WebhookEvent[],
+  webhooks: WebhookRecord[],
+  deadline: number = Number.POSITIVE_INFINITY,
+  retryConfig: RetryConfig = WEBHOOK_RETRY_CONFIG,
+  queued: PendingDelivery[] = []
+): Promise<DispatchSummary> {
+  const summary: DispatchSummary = { delivered: 0, failed: 0, skipped: 0, pending: [] };
+  const longest = maxDeliveryDuration(retryConfig);
+
+  await Promise.all(webhooks.map(async (_, i) => {
+    const webhookId = webhooks[i].id;
+    const queue = [
+      ...queued.filter(delivery => delivery.webhookId === webhookId).map(delivery => delivery.event),
+      ...events
+    ];
+
+    for (const event of queue) {
+      if (!subscribesTo(webhooks[i], event)) {
+        continue;
+      }
+      if (Date.now() + longest > deadline) {
+        summary.skipped += 1;
+        summary.pending.push({ webhookId, event });
+        continue;
+      }
+      webhooks[i] = await deliverWebhook(webhooks[i], event, retryConfig);
+      if (webhooks[i].lastDelivery?.ok) {
+        summary.delivered += 1;
+      } else {
+        summary.failed += 1;
+      }
+    }
+  }));
+
+  if (summary.skipped > 0) {
+    console.warn(`[Webhooks] Queued ${summary.skipped} deliveries that could not finish in time`);
+  }
+  return summary;
+}
@@ -0,0 +1,169 @@
+import { randomBytes } from 'crypto';
+import type { DelayImpactAnalysis, LaunchFeedEntry, ScheduleChangeResult as ImpactScheduleChange } from '../../src/types';
+import {
+  ScheduleChangeDetectionService,
+  type LaunchSnapshot,
+  type ScheduleChangeResult
+} from '../../src/services/scheduleChangeDetectionService';
+import { DelayImpactAnalyzer } from '../../src/services/delayImpactAnalyzer';
+import type { ProcessedSimulationData } from '../flightclub/simulation/[missionId]';
+import type { WebhookEventType } from './store';
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  summary: string; // one line for chat integrations
+  launch: {
+    id: string;
+    name: string;
+    net: string;
+    url: string;
+  };
+  data: Record<string, unknown>;
+}
+
+interface EventLaunch {
+  id: string;
+  name: string;
+  net: string;
+}
+
+const APP_URL = 'https://bermuda-rocket-tracker.vercel.app';
+
+function createEvent(type: WebhookEventType, launch: EventLaunch, summary: string, data: Record<string, unknown>): WebhookEvent {
+  return {
+    id: `evt_${randomBytes(12).toString('hex')}`,
+    type,
+    createdAt: new Date().toISOString(),
+    summary,
+    launch: {
+      id: launch.id,
+      name: launch.name,
+      net: launch.net,
+      url: `${APP_URL}/?launch=${encodeURIComponent(launch.id)}`
+    },
+    data
+  };
+}
+
+/**
+ * The analyzer takes the shared ScheduleChangeResult, whose snapshot also
+ * carries the launch name and a status ID
+ */
+function toImpactScheduleChange(change: ScheduleChangeResult, launch: LaunchFeedEntry): ImpactScheduleChange {
+  return {
+    ...change,
+    oldLaunch: {
+      ...change.oldLaunch,
+      name: launch.name,
+      // Snapshots keep no Launch Library status ID and the analyzer never reads it
+      status: { id: 0, name: change.oldLaunch.status.name }
+    }
+  };
+}
+
+async function analyzeImpact(launch: LaunchFeedEntry, change: ScheduleChangeResult): Promise<DelayImpactAnalysis | null> {
+  try {
+    const tracked = await ScheduleChangeDetectionService.convertToDelayTracking(launch, change);
+    return await DelayImpactAnalyzer.analyzeDelayImpact(tracked, toImpactScheduleChange(change, launch));
+  } catch (error) {
+    console.warn(`[Webhooks] Visibility impact analysis failed for ${launch.id}:`, error);
+    return null;
+  }
+}
+
+function describeDelay(launch: LaunchFeedEntry, delayMinutes: number): string {
+  const minutes = Math.abs(delayMinutes);
+  const amount = minutes >= 120 ? `${Math.round(minutes / 60)} hours` : `${minutes} minutes`;
+  return `${launch.name} ${delayMinutes > 0 ? 'delayed' : 'moved earlier'} by ${amount}`;
+}
+
+/**
+ * Events for one launch since its previous snapshot: launch.delayed or
+ * launch.scrubbed when the schedule moved, plus visibility.window_gained or
+ * visibility.window_lost when DelayImpactAnalyzer finds the move opened or
+ * closed the viewing window from Bermuda
+ */
+export async function buildScheduleChangeEvents(snapshot: LaunchSnapshot, launch: LaunchFeedEntry): Promise<WebhookEvent[]> {
+  const change = ScheduleChangeDetectionService.compareWithSnapshot(snapshot, launch);
+  const scrubbed = change.changeType === 'scrub';
+  if (!scrubbed && change.changeType !== 'delay' && change.changeType !== 'advance') {
+    return [];
+  }
+
+  const impact = await analyzeImpact(launch, change);
+  const delayMinutes = Math.round(change.changes.delayMinutes);
+  const schedule = {
+    changeType: change.changeType,
+    severity: change.severity,
+    previousNet: snapshot.net,
+    net: launch.net,
+    delayMinutes,
+    previousStatus: snapshot.status.name,
+    status: launch.status.name,
+    recommendations: change.recommendations
+  };
+
+  const events: WebhookEvent[] = [
+    createEvent(
+      scrubbed ? 'launch.scrubbed' : 'launch.delayed',
+      launch,
+      scrubbed ? `${launch.name} scrubbed (${launch.status.name})` : describeDelay(launch, delayMinutes),
+      {
+        ...schedule,
+        visibilityImpact: impact?.impact ?? null,
+        visibilitySummary: impact?.summary ?? null
+      }
+    )
+  ];
+
+  if (impact && (impact.impact === 'WINDOW_GAINED' || impact.impact === 'WINDOW_LOST')) {
+    const gained = impact.impact === 'WINDOW_GAINED';
+    events.push(createEvent(
+      gained ? 'visibility.window_gained' : 'visibility.window_lost',
+      launch,
+      `${launch.name}: ${impact.summary}`,
+      {
+        ...schedule,
+        impact: impact.impact,
+        impactSeverity: impact.severity,
+        message: impact.userMessage,
+        previousLikelihood: impact.oldVisibility.likelihood,
+        likelihood: impact.newVisibility.likelihood
+      }
+    ));
+  }
+
+  return events;
+}
+
+export function buildSimulationRefreshedEvent(
+  launch: EventLaunch,
+  simulation: {
+    missionId: string;
+    simulationId: string;
+    stage?: string;
+    visibilitySummary: ProcessedSimulationData['visibilitySummary'];
+  }
+): WebhookEvent {
+  const { visibilitySummary } = simulation;
+  const visible = visibilitySummary.firstVisible !== null;
+  return createEvent(
+    'flightclub.simulation_refreshed',
+    launch,
+    visible
+      ? `${launch.name}: Flight Club trajectory updated, visible from T+${visibilitySummary.firstVisible}s to T+${visibilitySummary.lastVisible}s`
+      : `${launch.name}: Flight Club trajectory updated, not above Bermuda's horizon`,
+    {
+      missionId: simulation.missionId,
+      simulationId: simulation.simulationId,
+      stage: simulation.stage ?? null,
+      firstVisible: visibilitySummary.firstVisible,
+      lastVisible: visibilitySummary.lastVisible,
+      peakVisibility: visibilitySummary.peakVisibility,
+      closestApproach: visibilitySummary.closestApproach,
+      visibleFrameCount: visibilitySummary.visibleFrameCount
+    }
+  );
+}
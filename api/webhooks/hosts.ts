@@ -0,0 +1,60 @@
+import { promises as dns } from 'dns';
+import { BlockList, isIP } from 'net';
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges;
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+const PRIVATE_RANGES = new BlockList();
+
+const IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+];
+
+const IPV6_RANGES: Array<[string, number]> = [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+];
+
+IPV4_RANGES.forEach(([network, prefix]) => PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4'));
+IPV6_RANGES.forEach(([network, prefix]) => PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6'));
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !PRIVATE_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * True when every address the host name resolves to is public. Checked at
+ * registration and again before each delivery, since DNS can change after a
+ * webhook is registered.
+ */
+export async function isPublicHost(hostname: string): Promise<boolean> {
+  const host = hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase();
+  if (isIP(host)) {
+    return isPublicAddress(host);
+  }
+
+  try {
+    const addresses = await dns.lookup(host, { all: true, verbatim: true });
+    return addresses.length > 0 && addresses.every(({ address }) => isPublicAddress(address));
+  } catch (error) {
+    console.warn(`[Webhooks] Could not resolve ${host}:`, error instanceof Error ? error.message : error);
+    return false;
+  }
+}
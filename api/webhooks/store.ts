@@ -0,0 +1,187 @@
+import { Redis } from '@upstash/redis';
+import type { LaunchSnapshot } from '../../src/services/scheduleChangeDetectionService';
+import type { WebhookEvent } from './events';
+
+export type WebhookEventType =
+  | 'launch.delayed'
+  | 'launch.scrubbed'
+  | 'visibility.window_gained'
+  | 'visibility.window_lost'
+  | 'flightclub.simulation_refreshed';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'launch.delayed',
+  'launch.scrubbed',
+  'visibility.window_gained',
+  'visibility.window_lost',
+  'flightclub.simulation_refreshed'
+];
+
+// 'slack' and 'discord' post a plain message to their incoming webhooks
+export type WebhookFormat = 'json' | 'slack' | 'discord';
+
+export const WEBHOOK_FORMATS: WebhookFormat[] = ['json', 'slack', 'discord'];
+
+export interface WebhookDeliveryResult {
+  eventId: string;
+  type: WebhookEventType;
+  at: number;
+  ok: boolean;
+  statusCode: number | null; // null when the endpoint could not be reached
+  attempts: number;
+}
+
+export interface WebhookRecord {
+  id: string;
+  owner: string;             // name of the API key that registered it
+  url: string;
+  secret: string;            // HMAC key, returned once at registration
+  events: WebhookEventType[];
+  launchIds: string[];       // empty for every launch
+  format: WebhookFormat;
+  description?: string;
+  consecutiveFailures: number;
+  lastDelivery?: WebhookDeliveryResult;
+  disabledAt?: number;       // set after too many failed deliveries in a row
+  createdAt: number;
+  updatedAt: number;
+}
+
+// An event one webhook has not received yet, carried over to the next run
+export interface PendingDelivery {
+  webhookId: string;
+  event: WebhookEvent;
+}
+
+const redis = (() => {
+  try {
+    return Redis.fromEnv();
+  } catch (error) {
+    console.warn('[WebhookStore] Redis not configured, falling back to in-memory store');
+    return null;
+  }
+})();
+
+const memoryStore = new Map<string, WebhookRecord>();
+let memorySnapshots: Record<string, LaunchSnapshot> = {};
+let memoryPending: PendingDelivery[] = [];
+
+const WEBHOOK_PREFIX = 'webhooks:endpoint:';
+const SNAPSHOTS_KEY = 'webhooks:snapshots';
+const PENDING_KEY = 'webhooks:pending';
+const THIRTY_DAYS_SECONDS = 30 * 24 * 60 * 60;
+
+export async function getWebhook(id: string): Promise<WebhookRecord | null> {
+  if (redis) {
+    try {
+      const cached = await redis.get<WebhookRecord>(WEBHOOK_PREFIX + id);
+      if (cached) {
+        return cached;
+      }
+    } catch (error) {
+      console.warn('[WebhookStore] Redis get failed, using memory store:', error);
+    }
+  }
+
+  return memoryStore.get(id) ?? null;
+}
+
+export async function saveWebhook(record: WebhookRecord): Promise<void> {
+  if (redis) {
+    try {
+      await redis.set(WEBHOOK_PREFIX + record.id, record);
+    } catch (error) {
+      console.warn('[WebhookStore] Redis set failed, using memory store only:', error);
+    }
+  }
+
+  memoryStore.set(record.id, record);
+}
+
+export async function removeWebhook(id: string): Promise<void> {
+  if (redis) {
+    try {
+      await redis.del(WEBHOOK_PREFIX + id);
+    } catch (error) {
+      console.warn('[WebhookStore] Redis delete failed, using memory store only:', error);
+    }
+  }
+
+  memoryStore.delete(id);
+}
+
+export async function listWebhooks(): Promise<WebhookRecord[]> {
+  if (redis) {
+    try {
+      const keys = await redis.keys(WEBHOOK_PREFIX + '*');
+      if (Array.isArray(keys) && keys.length > 0) {
+        const results = await redis.mget<(WebhookRecord | null)[]>(...keys);
+        return results.filter((entry): entry is WebhookRecord => Boolean(entry));
+      }
+    } catch (error) {
+      console.warn('[WebhookStore] Unable to list Redis webhooks:', error);
+    }
+  }
+
+  return Array.from(memoryStore.values());
+}
+
+/**
+ * Launch snapshots from the previous webhook run, keyed by launch ID
+ */
+export async function getLaunchSnapshots(): Promise<Record<string, LaunchSnapshot>> {
+  let snapshots = memorySnapshots;
+  if (redis) {
+    try {
+      snapshots = (await redis.get<Record<string, LaunchSnapshot>>(SNAPSHOTS_KEY)) ?? memorySnapshots;
+    } catch (error) {
+      console.warn('[WebhookStore] Redis get failed, using memory snapshots:', error);
+    }
+  }
+
+  // lastChecked comes back from JSON as a string
+  const revived: Record<string, LaunchSnapshot> = {};
+  for (const [id, snapshot] of Object.entries(snapshots)) {
+    revived[id] = { ...snapshot, lastChecked: new Date(snapshot.lastChecked) };
+  }
+  return revived;
+}
+
+export async function saveLaunchSnapshots(snapshots: Record<string, LaunchSnapshot>): Promise<void> {
+  if (redis) {
+    try {
+      await redis.set(SNAPSHOTS_KEY, snapshots, { ex: THIRTY_DAYS_SECONDS });
+    } catch (error) {
+      console.warn('[WebhookStore] Redis set failed, using memory snapshots only:', error);
+    }
+  }
+
+  memorySnapshots = snapshots;
+}
+
+/**
+ * Deliveries the previous webhook run could not finish before its deadline
+ */
+export async function getPendingDeliveries(): Promise<PendingDelivery[]> {
+  if (redis) {
+    try {
+      return (await redis.get<PendingDelivery[]>(PENDING_KEY)) ?? memoryPending;
+    } catch (error) {
+      console.warn('[WebhookStore] Redis get failed, using memory pending deliveries:', error);
+    }
+  }
+
+  return memoryPending;
+}
+
+export async function savePendingDeliveries(pending: PendingDelivery[]): Promise<void> {
+  if (redis) {
+    try {
+      await redis.set(PENDING_KEY, pending, { ex: THIRTY_DAYS_SECONDS });
+    } catch (error) {
+      console.warn('[WebhookStore] Redis set failed, using memory pending deliveries only:', error);
+    }
+  }
+
+  memoryPending = pending;
+}
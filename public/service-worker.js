@@ -0,0 +1,126 @@
+/**
+ * Bermuda Rocket Tracker Service Worker
+ * Pre-caches the app shell so the tracker opens without connectivity.
+ * Launch data itself is stored in IndexedDB by the app (offline bundles);
+ * API requests are never cached here.
+ */
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `app-shell-${CACHE_VERSION}`;
+const RUNTIME_CACHE = `runtime-${CACHE_VERSION}`;
+
+const SHELL_URLS = [
+  '/',
+  '/index.html',
+  '/manifest.json',
+  '/favicon.ico',
+  '/logo192.png',
+  '/logo512.png'
+];
+
+// Hashed JS/CSS bundles are listed in the build's asset manifest
+async function getBuildAssetUrls() {
+  try {
+    const response = await fetch('/asset-manifest.json', { cache: 'no-store' });
+    if (!response.ok) return [];
+    const manifest = await response.json();
+    return Object.values(manifest.files || {})
+      .filter(url => typeof url === 'string' && !url.endsWith('.map'));
+  } catch (error) {
+    console.warn('[ServiceWorker] Could not read asset manifest:', error);
+    return [];
+  }
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    const assetUrls = await getBuildAssetUrls();
+    await cache.addAll([...new Set([...SHELL_URLS, ...assetUrls])]);
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(
+      keys
+        .filter(key => key !== SHELL_CACHE && key !== RUNTIME_CACHE)
+        .map(key => caches.delete(key))
+    );
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) {
+    return;
+  }
+
+  // Navigations: network first so deploys show up, cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(async () => {
+        const cache = await caches.open(SHELL_CACHE);
+        return (await cache.match('/index.html')) || Response.error();
+      })
+    );
+    return;
+  }
+
+  // Static assets: cache first, fill the runtime cache on miss
+  event.respondWith((async () => {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+
+    const response = await fetch(request);
+    if (response.ok && response.type === 'basic') {
+      const cache = await caches.open(RUNTIME_CACHE);
+      cache.put(request, response.clone());
+    }
+    return response;
+  })());
+});
+
+// Launch reminders and delay alerts sent by /api/jobs/send-push while the tab is closed
+self.addEventListener('push', event => {
+  let message = {};
+  try {
+    message = event.data ? event.data.json() : {};
+  } catch (error) {
+    message = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title || '🚀 Bermuda Rocket Tracker', {
+      body: message.body || '',
+      tag: message.tag,
+      icon: '/logo192.png',
+      badge: '/logo192.png',
+      data: message.data || {},
+      requireInteraction: message.data && message.data.type !== 'reminder'
+    })
+  );
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const target = new URL((event.notification.data && event.notification.data.url) || '/', self.location.origin);
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const existing = windows.find(client => new URL(client.url).origin === target.origin);
+    if (existing) {
+      await existing.focus();
+      if ('navigate' in existing) {
+        await existing.navigate(target.href);
+      }
+      return;
+    }
+    await self.clients.openWindow(target.href);
+  })());
+});
@@ -0,0 +1,46 @@
+#!/bin/bash
+# Bermuda Rocket Tracker - Record a Flight Club simulation as a test fixture
+#
+# Usage: FLIGHTCLUB_API_KEY=... scripts/record-flightclub-fixture.sh <simulationId>
+# Record a Falcon 9 LEO (Starlink) simulation; the ascent simulator tests
+# compare their Falcon 9 preset against it.
+
+set -e
+
+SIMULATION_ID=$1
+FIXTURE="src/services/__tests__/fixtures/flightClubFalcon9Simulation.json"
+
+if [ -z "$SIMULATION_ID" ]; then
+    echo "Usage: FLIGHTCLUB_API_KEY=... $0 <simulationId>"
+    exit 1
+fi
+
+if [ -z "$FLIGHTCLUB_API_KEY" ]; then
+    echo "❌ FLIGHTCLUB_API_KEY is not set"
+    exit 1
+fi
+
+TMP_FILE=$(mktemp)
+trap 'rm -f "$TMP_FILE"' EXIT
+
+echo "📡 Fetching Flight Club simulation $SIMULATION_ID..."
+curl -sSf --max-time 30 \
+    -H "X-Api-Key: $FLIGHTCLUB_API_KEY" \
+    -H "Accept: application/json" \
+    -H "User-Agent: Bermuda-Rocket-Tracker/1.0" \
+    "https://api.flightclub.io/v3/simulation/lite?simulationId=$SIMULATION_ID" \
+    -o "$TMP_FILE"
+
+# Same shape the simulation proxy expects: stages with time/lat/lng/altitude/speed telemetry
+node -e "
+const data = JSON.parse(require('fs').readFileSync(process.argv[1], 'utf8'));
+const frames = (data.stages || []).reduce((count, stage) => count + ((stage.telemetry || []).length), 0);
+if (frames === 0) {
+  console.error('❌ Response has no stage telemetry');
+  process.exit(1);
+}
+console.log('✅ ' + data.description + ' (' + data.vehicle + '): ' + data.stages.length + ' stages, ' + frames + ' frames');
+" "$TMP_FILE"
+
+cp "$TMP_FILE" "$FIXTURE"
+echo "💾 Saved $FIXTURE"
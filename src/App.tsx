@@ -5,15 +5,21 @@ import { detectPlatform, respectsReducedMotion } from './utils/platformUtils';
 import { useLaunchData } from './hooks/useLaunchData';
 import LaunchCard from './components/LaunchCard';
 import NotificationSettings from './components/NotificationSettings';
+import ObserverLocationSettings from './components/ObserverLocationSettings';
 import AnalyticsDashboard from './components/AnalyticsDashboard';
+import LaunchArchive from './components/LaunchArchive';
 import CacheManager from './components/CacheManager';
 import WeatherDisplay from './components/WeatherDisplay';
 import DelayNotificationPanel from './components/DelayNotificationPanel';
 import { notificationService } from './services/notificationService';
+import { observerLocationService } from './services/observerLocationService';
 import { ExhaustPlumeVisibilityCalculator } from './services/ExhaustPlumeVisibilityCalculator';
 import { cacheInitializer } from './services/cacheInitializer';
 import { clearProjectKuiperCache } from './services/trajectoryService';
 import { FlightClubApiService } from './services/flightClubApiService';
+import { OfflineBundleService } from './services/offlineBundleService';
+import { LaunchArchiveService } from './services/launchArchiveService';
+import { LaunchFeedService } from './services/launchFeedService';
 
 if (process.env.NODE_ENV !== 'production' && process.env.REACT_APP_FLIGHTCLUB_DEMO === 'true') {
   FlightClubApiService.enableDemoMode(true);
@@ -24,7 +30,10 @@ function App() {
   const [showMonitoring, setShowMonitoring] = useState(false);
   const [showNotificationSettings, setShowNotificationSettings] = useState(false);
   const [showAnalytics, setShowAnalytics] = useState(false);
+  const [showArchive, setShowArchive] = useState(false);
   const [showCacheManager, setShowCacheManager] = useState(false);
+  const [showLocationSettings, setShowLocationSettings] = useState(false);
+  const [observerLocation, setObserverLocation] = useState(() => observerLocationService.getActiveLocation());
   const [debugInfo, setDebugInfo] = useState<string>('');
   const [platform, setPlatform] = useState(() => detectPlatform());
   
@@ -46,18 +55,43 @@ function App() {
 
   // Process launches with proper visibility calculations
   useEffect(() => {
+    // Offline: use the visibility captured with the pre-launch snapshot,
+    // and keep the snapshot launch on screen even if the list could not load
+    const applyOfflineSnapshot = async (processed: LaunchWithVisibility[]) => {
+      if (!OfflineBundleService.isOffline()) {
+        return processed;
+      }
+      const bundle = await OfflineBundleService.getNextBundle();
+      if (!bundle) {
+        return processed;
+      }
+      const index = processed.findIndex(launch => launch.id === bundle.launchId);
+      if (index === -1) {
+        return [bundle.launch, ...processed];
+      }
+      return processed.map((launch, i) => i === index ? { ...launch, visibility: bundle.launch.visibility } : launch);
+    };
+
     const processLaunches = async () => {
 
       if (launches.length === 0) {
-        setProcessedLaunches([]);
+        setProcessedLaunches(await applyOfflineSnapshot([]));
         return;
       }
 
-      // Only process the first 6 launches we'll actually display (in chronological order)
-      const launchesToProcess = launches.slice(0, 6);
-      console.log(`[App] Processing ${launchesToProcess.length} launches (showing first 6 of ${launches.length} total)`);
+      // Launches with visibility precomputed by the server feed are all shown;
+      // only the first 6 needing a local calculation are processed (in chronological order)
+      let localCalculations = 0;
+      const launchesToProcess = launches.filter(launch => {
+        if (LaunchFeedService.getPrecomputedVisibility(launch, observerLocation)) {
+          return true;
+        }
+        localCalculations++;
+        return localCalculations <= 6;
+      });
+      console.log(`[App] Processing ${launchesToProcess.length} of ${launches.length} launches (${Math.min(localCalculations, 6)} calculated locally)`);
 
-      // Process these 6 launches in parallel for much faster loading
+      // Process these launches in parallel for much faster loading
       const results = await Promise.allSettled(
         launchesToProcess.map(async (launch, index) => {
           // Add timeout to prevent hanging on slow visibility calculations
@@ -68,9 +102,10 @@ function App() {
           const calculationPromise = (async () => {
             console.log(`[App] Processing launch ${index + 1}/${launchesToProcess.length}: ${launch.name}`);
 
-            // Use basic visibility calculation with error handling
+            // Use the server's precomputed visibility when it applies, otherwise calculate it here
+            const precomputed = LaunchFeedService.getPrecomputedVisibility(launch, observerLocation);
             const { calculateVisibility } = await import('./services/visibilityService');
-            const visibilityData = await calculateVisibility(launch);
+            const visibilityData = precomputed ?? await calculateVisibility(launch);
 
             const processedLaunch: LaunchWithVisibility = {
               ...launch,
@@ -130,11 +165,17 @@ function App() {
       
       console.log(`[App] Visibility stats for ${processedLaunches.length} launches:`, visibilityStats);
       
-      setProcessedLaunches(processedLaunches);
+      setProcessedLaunches(await applyOfflineSnapshot(processedLaunches));
     };
 
     processLaunches();
-  }, [launches]);
+  }, [launches, observerLocation]);
+
+  // Recalculate visibility when the observer location changes
+  useEffect(() => {
+    const unsubscribe = observerLocationService.subscribe(state => setObserverLocation(state.active));
+    return unsubscribe;
+  }, []);
 
   // Schedule notifications when processed launches change
   useEffect(() => {
@@ -143,6 +184,24 @@ function App() {
     }
   }, [processedLaunches]);
 
+  // Keep an offline bundle of the next visible launch for viewing without signal
+  useEffect(() => {
+    if (processedLaunches.length > 0) {
+      OfflineBundleService.snapshotNextVisibleLaunch(processedLaunches).catch(error => {
+        console.warn('[App] Offline snapshot failed:', error);
+      });
+    }
+  }, [processedLaunches]);
+
+  // Archive the prediction for launches in the final hours before T-0
+  useEffect(() => {
+    if (processedLaunches.length > 0 && navigator.onLine) {
+      LaunchArchiveService.capturePredictions(processedLaunches, observerLocation).catch(error => {
+        console.warn('[App] Prediction archive failed:', error);
+      });
+    }
+  }, [processedLaunches, observerLocation]);
+
   // Dark mode toggle
   useEffect(() => {
     if (darkMode) {
@@ -253,6 +312,16 @@ function App() {
             </div>
             
             <div className="flex items-center justify-center sm:justify-end space-x-2 sm:space-x-4 flex-wrap gap-2">
+              {/* Observer location */}
+              <button
+                onClick={() => setShowLocationSettings(!showLocationSettings)}
+                className="px-2 sm:px-3 py-2 rounded-lg bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors text-xs sm:text-sm whitespace-nowrap min-h-touch min-w-touch touch-manipulation tap-highlight-transparent"
+                title={`Viewing location: ${observerLocation.name}`}
+              >
+                <span className="sm:hidden">📍</span>
+                <span className="hidden sm:inline">📍 {observerLocation.name}</span>
+              </button>
+              
               {/* Notification settings */}
               <button
                 onClick={() => setShowNotificationSettings(!showNotificationSettings)}
@@ -273,6 +342,16 @@ function App() {
                 <span className="hidden sm:inline">📊 Analytics</span>
               </button>
               
+              {/* Launch Archive */}
+              <button
+                onClick={() => setShowArchive(!showArchive)}
+                className="px-2 sm:px-3 py-2 rounded-lg bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors text-xs sm:text-sm whitespace-nowrap min-h-touch min-w-touch touch-manipulation tap-highlight-transparent"
+                title="Past launches and sighting reports"
+              >
+                <span className="sm:hidden">🗂️</span>
+                <span className="hidden sm:inline">🗂️ Archive</span>
+              </button>
+              
               {/* Cache Manager */}
               <button
                 onClick={() => setShowCacheManager(!showCacheManager)}
@@ -392,11 +471,33 @@ function App() {
             </div>
           )}
           
+          {/* Launch Archive Modal */}
+          {showArchive && (
+            <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-2 sm:p-4">
+              <div className="max-w-4xl w-full max-h-[95vh] sm:max-h-[90vh] overflow-y-auto">
+                <LaunchArchive
+                  onClose={() => setShowArchive(false)}
+                />
+              </div>
+            </div>
+          )}
+          
           {/* Cache Manager Modal */}
           {showCacheManager && (
             <CacheManager onClose={() => setShowCacheManager(false)} />
           )}
           
+          {/* Observer Location Modal */}
+          {showLocationSettings && (
+            <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-2 sm:p-4">
+              <div className="max-w-2xl w-full max-h-[95vh] sm:max-h-[90vh] overflow-y-auto">
+                <ObserverLocationSettings
+                  onClose={() => setShowLocationSettings(false)}
+                />
+              </div>
+            </div>
+          )}
+          
           {/* Notification Settings Modal */}
           {showNotificationSettings && (
             <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-2 sm:p-4">
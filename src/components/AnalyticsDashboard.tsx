@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { LaunchWithVisibility } from '../types';
+import { ArchivedLaunch, LaunchWithVisibility } from '../types';
+import { LaunchArchiveService } from '../services/launchArchiveService';
+import { CalibrationBucket, CalibrationStats, PredictionAccuracyService } from '../services/predictionAccuracyService';
 
 interface AnalyticsData {
   totalLaunches: number;
@@ -21,6 +23,7 @@ interface AnalyticsData {
   monthlyTrends: {
     [key: string]: number;
   };
+  calibration: CalibrationStats | null; // null until the archive has loaded
 }
 
 interface AnalyticsDashboardProps {
@@ -30,7 +33,16 @@ interface AnalyticsDashboardProps {
 
 const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ launches, onClose }) => {
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
-  const [selectedTab, setSelectedTab] = useState<'overview' | 'visibility' | 'trajectories' | 'timing'>('overview');
+  const [selectedTab, setSelectedTab] = useState<'overview' | 'visibility' | 'trajectories' | 'timing' | 'accuracy'>('overview');
+  const [archive, setArchive] = useState<ArchivedLaunch[] | null>(null);
+  const [archiveError, setArchiveError] = useState<string | null>(null);
+
+  // Past launches with their T-0 predictions and sighting reports
+  useEffect(() => {
+    LaunchArchiveService.getArchive(200)
+      .then(setArchive)
+      .catch(error => setArchiveError(error instanceof Error ? error.message : 'Archive unavailable'));
+  }, []);
 
   useEffect(() => {
     if (launches.length === 0) return;
@@ -102,9 +114,10 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ launches, onClo
       visibilityDistribution,
       trajectoryStats,
       timeOfDayStats,
-      monthlyTrends
+      monthlyTrends,
+      calibration: archive ? PredictionAccuracyService.calibrate(archive) : null
     });
-  }, [launches]);
+  }, [launches, archive]);
 
   if (!analytics) {
     return (
@@ -115,6 +128,40 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ launches, onClo
   }
 
   const getPercentage = (value: number) => ((value / analytics.totalLaunches) * 100).toFixed(1);
+  const formatRate = (rate: number | null) => (rate === null ? '—' : `${(rate * 100).toFixed(0)}%`);
+  const formatSeconds = (seconds: number | null, signed = false) => {
+    if (seconds === null) return '—';
+    const sign = signed && seconds > 0 ? '+' : '';
+    return Math.abs(seconds) >= 90 ? `${sign}${(seconds / 60).toFixed(1)} min` : `${sign}${Math.round(seconds)} s`;
+  };
+
+  const renderBreakdown = (title: string, buckets: CalibrationBucket[]) => (
+    <div className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-6">
+      <h4 className="font-medium text-gray-700 dark:text-gray-300 mb-4">{title}</h4>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 dark:text-gray-400">
+            <th className="pb-2 font-medium"></th>
+            <th className="pb-2 font-medium text-right">Launches</th>
+            <th className="pb-2 font-medium text-right">Seen</th>
+            <th className="pb-2 font-medium text-right">Correct</th>
+            <th className="pb-2 font-medium text-right">Timing error</th>
+          </tr>
+        </thead>
+        <tbody className="text-gray-900 dark:text-white">
+          {buckets.map(bucket => (
+            <tr key={bucket.key} className="border-t border-gray-200 dark:border-gray-600">
+              <td className="py-2">{bucket.key}</td>
+              <td className="py-2 text-right">{bucket.launches}</td>
+              <td className="py-2 text-right">{formatRate(bucket.sightedRate)}</td>
+              <td className="py-2 text-right">{formatRate(bucket.accuracy)}</td>
+              <td className="py-2 text-right">{formatSeconds(bucket.meanAbsTimingErrorSeconds)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-6xl mx-auto">
@@ -146,7 +193,8 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ launches, onClo
               { id: 'overview', label: '🏠 Overview', count: analytics.totalLaunches },
               { id: 'visibility', label: '👁️ Visibility', count: analytics.visibilityDistribution.high + analytics.visibilityDistribution.medium },
               { id: 'trajectories', label: '🚀 Trajectories', count: Object.keys(analytics.trajectoryStats).length },
-              { id: 'timing', label: '⏰ Timing', count: Object.keys(analytics.monthlyTrends).length }
+              { id: 'timing', label: '⏰ Timing', count: Object.keys(analytics.monthlyTrends).length },
+              { id: 'accuracy', label: '🎯 Accuracy', count: analytics.calibration?.scoredLaunches ?? 0 }
             ].map(tab => (
               <button
                 key={tab.id}
@@ -465,6 +513,118 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ launches, onClo
             </div>
           </div>
         )}
+
+        {selectedTab === 'accuracy' && (
+          <div className="space-y-6">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              🎯 Prediction Accuracy
+            </h3>
+
+            {!analytics.calibration && (
+              <div className="text-sm text-gray-600 dark:text-gray-400">
+                {archiveError ? `Launch archive unavailable: ${archiveError}` : 'Loading launch archive...'}
+              </div>
+            )}
+
+            {analytics.calibration && analytics.calibration.scoredLaunches === 0 && (
+              <div className="text-sm text-gray-600 dark:text-gray-400">
+                {analytics.calibration.archivedLaunches} archived launches, but no sighting reports yet.
+                Accuracy is scored once observers report whether they saw a launch.
+              </div>
+            )}
+
+            {analytics.calibration && analytics.calibration.scoredLaunches > 0 && (
+              <>
+                {/* Summary */}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="bg-gradient-to-br from-blue-50 to-blue-100 dark:from-blue-900/20 dark:to-blue-800/20 rounded-lg p-4">
+                    <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">
+                      {analytics.calibration.scoredLaunches}
+                    </div>
+                    <div className="text-sm text-blue-700 dark:text-blue-300">Scored Launches</div>
+                    <div className="text-xs text-blue-600 dark:text-blue-400 mt-1">
+                      {analytics.calibration.totalReports} sighting reports
+                    </div>
+                  </div>
+
+                  <div className="bg-gradient-to-br from-green-50 to-green-100 dark:from-green-900/20 dark:to-green-800/20 rounded-lg p-4">
+                    <div className="text-2xl font-bold text-green-600 dark:text-green-400">
+                      {formatRate(analytics.calibration.overallAccuracy)}
+                    </div>
+                    <div className="text-sm text-green-700 dark:text-green-300">Correct Calls</div>
+                    <div className="text-xs text-green-600 dark:text-green-400 mt-1">
+                      High/medium seen, low/none not seen
+                    </div>
+                  </div>
+
+                  <div className="bg-gradient-to-br from-purple-50 to-purple-100 dark:from-purple-900/20 dark:to-purple-800/20 rounded-lg p-4">
+                    <div className="text-2xl font-bold text-purple-600 dark:text-purple-400">
+                      {formatSeconds(analytics.calibration.timing.meanErrorSeconds, true)}
+                    </div>
+                    <div className="text-sm text-purple-700 dark:text-purple-300">First-Visible Bias</div>
+                    <div className="text-xs text-purple-600 dark:text-purple-400 mt-1">
+                      Positive = seen later than predicted
+                    </div>
+                  </div>
+
+                  <div className="bg-gradient-to-br from-indigo-50 to-indigo-100 dark:from-indigo-900/20 dark:to-indigo-800/20 rounded-lg p-4">
+                    <div className="text-2xl font-bold text-indigo-600 dark:text-indigo-400">
+                      {formatSeconds(analytics.calibration.timing.medianAbsErrorSeconds)}
+                    </div>
+                    <div className="text-sm text-indigo-700 dark:text-indigo-300">Median Timing Error</div>
+                    <div className="text-xs text-indigo-600 dark:text-indigo-400 mt-1">
+                      {formatRate(analytics.calibration.timing.withinOneMinuteRate)} within a minute
+                      ({analytics.calibration.timing.samples} reports)
+                    </div>
+                  </div>
+                </div>
+
+                {/* Hit rate by likelihood */}
+                <div className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-6">
+                  <h4 className="font-medium text-gray-700 dark:text-gray-300 mb-1">Seen Rate by Predicted Likelihood</h4>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+                    A well-tuned model shows the rate falling from high to none
+                  </p>
+                  <div className="space-y-3">
+                    {Object.values(analytics.calibration.byLikelihood).map(bucket => {
+                      const colors: { [key: string]: string } = {
+                        high: 'bg-green-500',
+                        medium: 'bg-yellow-500',
+                        low: 'bg-orange-500',
+                        none: 'bg-gray-500'
+                      };
+
+                      return (
+                        <div key={bucket.key} className="flex items-center">
+                          <div className="w-24 text-sm text-gray-600 dark:text-gray-400 capitalize">
+                            {bucket.key}
+                          </div>
+                          <div className="flex-1 mx-4">
+                            <div className="bg-gray-200 dark:bg-gray-600 rounded-full h-3">
+                              <div
+                                className={`h-3 rounded-full ${colors[bucket.key]}`}
+                                style={{ width: `${(bucket.sightedRate ?? 0) * 100}%` }}
+                              />
+                            </div>
+                          </div>
+                          <div className="text-sm font-medium text-gray-900 dark:text-white w-32 text-right">
+                            {formatRate(bucket.sightedRate)} of {bucket.launches}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  {renderBreakdown('By Data Source', analytics.calibration.byDataSource)}
+                  {renderBreakdown('By Trajectory Source', analytics.calibration.byTrajectorySource)}
+                </div>
+                {renderBreakdown('By Vehicle', analytics.calibration.byVehicle)}
+              </>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
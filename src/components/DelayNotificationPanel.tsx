@@ -8,16 +8,22 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { launchDelayDetectionService, DelayNotification } from '../services/launchDelayDetectionService';
+import { launchDatabase } from '../services/launchDatabase';
+import { Launch } from '../types';
+import NextAttemptsPanel from './NextAttemptsPanel';
 
 const DelayNotificationPanel: React.FC = () => {
   const [notifications, setNotifications] = useState<DelayNotification[]>([]);
   const [isVisible, setIsVisible] = useState(false);
+  const [launches, setLaunches] = useState<Launch[]>([]);
+  const [attemptsForId, setAttemptsForId] = useState<string | null>(null);
 
   useEffect(() => {
     // Load unacknowledged notifications
     const loadNotifications = () => {
       const unacknowledged = launchDelayDetectionService.getUnacknowledgedNotifications();
       setNotifications(unacknowledged);
+      setLaunches(launchDatabase.getAllLaunches());
       setIsVisible(unacknowledged.length > 0);
     };
 
@@ -117,36 +123,50 @@ const DelayNotificationPanel: React.FC = () => {
 
           {/* Notifications List */}
           <div className="max-h-96 overflow-y-auto">
-            {notifications.map((notification, index) => (
-              <motion.div
-                key={notification.id}
-                initial={{ opacity: 0, x: 20 }}
-                animate={{ opacity: 1, x: 0 }}
-                transition={{ delay: index * 0.1 }}
-                className={`p-3 border-b border-gray-100 dark:border-gray-700 last:border-b-0 ${getNotificationColor(notification.type)}`}
-              >
-                <div className="flex items-start space-x-3">
-                  <span className="text-lg flex-shrink-0 mt-0.5">
-                    {getNotificationIcon(notification.type)}
-                  </span>
-                  <div className="flex-1 min-w-0">
-                    <p className="text-sm text-gray-900 dark:text-gray-100 leading-relaxed">
-                      {notification.message}
-                    </p>
-                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                      {formatTimestamp(notification.timestamp)}
-                    </p>
+            {notifications.map((notification, index) => {
+              const launch = launches.find(l => l.id === notification.launchId);
+              return (
+                <motion.div
+                  key={notification.id}
+                  initial={{ opacity: 0, x: 20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  transition={{ delay: index * 0.1 }}
+                  className={`p-3 border-b border-gray-100 dark:border-gray-700 last:border-b-0 ${getNotificationColor(notification.type)}`}
+                >
+                  <div className="flex items-start space-x-3">
+                    <span className="text-lg flex-shrink-0 mt-0.5">
+                      {getNotificationIcon(notification.type)}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-900 dark:text-gray-100 leading-relaxed">
+                        {notification.message}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {formatTimestamp(notification.timestamp)}
+                      </p>
+                      {launch && (
+                        <button
+                          onClick={() => setAttemptsForId(attemptsForId === notification.id ? null : notification.id)}
+                          className="text-xs text-blue-600 dark:text-blue-400 hover:underline mt-1"
+                        >
+                          {attemptsForId === notification.id ? 'Hide next attempts' : '📅 Next 5 attempts'}
+                        </button>
+                      )}
+                      {launch && attemptsForId === notification.id && (
+                        <NextAttemptsPanel launch={launch} className="mt-2" />
+                      )}
+                    </div>
+                    <button
+                      onClick={() => handleAcknowledge(notification.id)}
+                      className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 text-sm flex-shrink-0"
+                      aria-label="Acknowledge notification"
+                    >
+                      ✓
+                    </button>
                   </div>
-                  <button
-                    onClick={() => handleAcknowledge(notification.id)}
-                    className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 text-sm flex-shrink-0"
-                    aria-label="Acknowledge notification"
-                  >
-                    ✓
-                  </button>
-                </div>
-              </motion.div>
-            ))}
+                </motion.div>
+              );
+            })}
           </div>
 
           {/* Footer Actions */}
@@ -0,0 +1,178 @@
+/**
+ * FlightClub Match Review Component
+ * Lets users confirm or reject a doubtful FlightClub match, or pin another
+ * candidate mission; decisions apply on this device at once and are suggested
+ * to everyone through the server
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Launch, LaunchMatch } from '../types';
+import { launchMatchingService } from '../services/launchMatchingService';
+
+interface FlightClubMatchReviewProps {
+  launch: Launch;
+  match: LaunchMatch;
+  className?: string;
+}
+
+const PIN_STATUS_NOTICES: Record<NonNullable<LaunchMatch['pinStatus']>, string> = {
+  shared: 'Saved for everyone.',
+  pending: 'Thanks! Your suggestion is pending review; until then it only applies on this device.',
+  local: 'Saved on this device only; the server could not be reached.'
+};
+
+const formatMissionDate = (startDateTime: string): string => {
+  const date = new Date(startDateTime);
+  return isNaN(date.getTime()) ? 'Unknown date' : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+const FlightClubMatchReview: React.FC<FlightClubMatchReviewProps> = ({
+  launch,
+  match,
+  className = ''
+}) => {
+  const [showCandidates, setShowCandidates] = useState(false);
+  const [candidates, setCandidates] = useState<LaunchMatch[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    if (!showCandidates) {
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    launchMatchingService.getCandidates(launch)
+      .then(results => {
+        if (!cancelled) {
+          setCandidates(results);
+        }
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Unable to load FlightClub missions');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [launch, showCandidates, reloadCount]);
+
+  // Candidate scores and the current match change after every decision, so reload the list
+  const runAction = async (action: () => Promise<LaunchMatch>) => {
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const saved = await action();
+      setNotice(saved.pinStatus ? PIN_STATUS_NOTICES[saved.pinStatus] : null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to save your choice');
+    } finally {
+      setSaving(false);
+      setReloadCount(count => count + 1);
+    }
+  };
+
+  const handleConfirm = () => runAction(() => launchMatchingService.confirmMatch(launch, match));
+  const handleReject = () => runAction(() => launchMatchingService.rejectMatch(launch, match));
+  const handlePin = (missionId: string) => runAction(async () => {
+    const pinned = await launchMatchingService.validateSpecificMatch(launch, missionId);
+    if (!pinned) {
+      throw new Error('That FlightClub mission is no longer available');
+    }
+    return pinned;
+  });
+
+  return (
+    <div className={`bg-yellow-50 dark:bg-yellow-900/20 rounded-lg p-3 mb-3 border-l-4 border-yellow-400 ${className}`}>
+      <p className="text-sm text-yellow-800 dark:text-yellow-200 mb-2">
+        Is <strong>{match.flightClubMission.description}</strong> the right FlightClub mission for this launch?
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={handleConfirm}
+          disabled={saving}
+          className="px-3 py-1 text-xs font-medium rounded bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+        >
+          ✓ Confirm
+        </button>
+        <button
+          onClick={handleReject}
+          disabled={saving}
+          className="px-3 py-1 text-xs font-medium rounded bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+        >
+          ✗ Not this mission
+        </button>
+        <button
+          onClick={() => setShowCandidates(!showCandidates)}
+          disabled={saving}
+          className="px-3 py-1 text-xs font-medium rounded border border-yellow-400 text-yellow-800 dark:text-yellow-200 hover:bg-yellow-100 dark:hover:bg-yellow-900/40 disabled:opacity-50"
+        >
+          {showCandidates ? 'Hide other missions' : 'Choose another mission'}
+        </button>
+      </div>
+
+      {showCandidates && (
+        <div className="mt-3">
+          {loading ? (
+            <p className="text-xs text-yellow-700 dark:text-yellow-300">Loading FlightClub missions...</p>
+          ) : candidates.length === 0 ? (
+            <p className="text-xs text-yellow-700 dark:text-yellow-300">No other FlightClub missions resemble this launch.</p>
+          ) : (
+            <ul className="space-y-2">
+              {candidates.map(candidate => (
+                <li
+                  key={candidate.flightClubMission.id}
+                  className="flex items-center justify-between gap-2 bg-white dark:bg-gray-800 rounded p-2 text-xs"
+                >
+                  <div>
+                    <div className="font-medium text-gray-900 dark:text-white">{candidate.flightClubMission.description}</div>
+                    <div className="text-gray-500 dark:text-gray-400">
+                      {formatMissionDate(candidate.flightClubMission.startDateTime)} • Score {candidate.score}%
+                      {candidate.validationWarnings && ` • ${candidate.validationWarnings.join('; ')}`}
+                    </div>
+                  </div>
+                  {candidate.flightClubMission.id === match.flightClubMission.id ? (
+                    <span className="text-gray-500 dark:text-gray-400 whitespace-nowrap">Current match</span>
+                  ) : (
+                    <button
+                      onClick={() => handlePin(candidate.flightClubMission.id)}
+                      disabled={saving}
+                      className="px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 whitespace-nowrap"
+                    >
+                      Use this mission
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {notice && (
+        <p className="text-xs text-yellow-700 dark:text-yellow-300 mt-2">{notice}</p>
+      )}
+
+      {error && (
+        <p className="text-xs text-red-600 dark:text-red-400 mt-2">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default FlightClubMatchReview;
@@ -10,6 +10,7 @@ import { Canvas } from '@react-three/fiber';
 import { LaunchWithVisibility } from '../types';
 import { detectPlatform } from '../utils/platformUtils';
 import { FlightClubApiService, ProcessedSimulationData, FlightClubMission, StageEvent } from '../services/flightClubApiService';
+import { OfflineBundleService } from '../services/offlineBundleService';
 import FlightClub2DVisualization from './FlightClub2DVisualization';
 import TelemetryGraphs from './TelemetryGraphs';
 import Trajectory3DScene from './Trajectory3DScene';
@@ -108,7 +109,8 @@ const FlightClubVisualization: React.FC<FlightClubVisualizationProps> = ({
       const fallbackId = selectedMission.id !== missionIdToUse ? selectedMission.id : undefined;
       console.log('[FlightClub] Fetching simulation data with primary id:', missionIdToUse, 'fallback id:', fallbackId);
       const simData = await FlightClubApiService.getSimulationData(missionIdToUse, launch.id, {
-        fallbackMissionId: fallbackId
+        fallbackMissionId: fallbackId,
+        launchTime: launch.net
       });
       setSimulationData(simData);
       
@@ -140,6 +142,19 @@ const FlightClubVisualization: React.FC<FlightClubVisualizationProps> = ({
     }
   }, [simulationData]);
 
+  // Use telemetry saved in the offline bundle for this launch
+  const loadOfflineSnapshot = async (): Promise<boolean> => {
+    const bundle = await OfflineBundleService.getBundle(launch.id);
+    if (!bundle?.simulationData) {
+      return false;
+    }
+    console.log(`[FlightClub] Using offline telemetry captured ${new Date(bundle.capturedAt).toISOString()}`);
+    setSimulationData(bundle.simulationData);
+    setPlaybackTime(0);
+    setIsPlaying(false);
+    return true;
+  };
+
   // Load FlightClub data
   useEffect(() => {
     const loadFlightClubData = async () => {
@@ -148,6 +163,11 @@ const FlightClubVisualization: React.FC<FlightClubVisualizationProps> = ({
         setError(null);
 
         console.log(`[FlightClub] Loading data for launch: ${launch.name}`);
+
+        // Without connectivity, go straight to the pre-launch snapshot
+        if (OfflineBundleService.isOffline() && await loadOfflineSnapshot()) {
+          return;
+        }
         
         // Check if running in development mode without Vercel dev
         const isDevelopmentMode = process.env.NODE_ENV === 'development';
@@ -186,7 +206,7 @@ const FlightClubVisualization: React.FC<FlightClubVisualizationProps> = ({
         };
 
         // Find matching FlightClub mission
-        const mission = await FlightClubApiService.findMissionForLaunch(launch.id, launch.name);
+        const mission = await FlightClubApiService.findMissionForLaunch(launch);
         
         if (!mission) {
           console.log(`[FlightClub] No automatic match found for "${launch.name}", auto-selecting first available SpaceX mission`);
@@ -232,7 +252,8 @@ const FlightClubVisualization: React.FC<FlightClubVisualizationProps> = ({
           const fallbackId = mission.id !== missionIdToUse ? mission.id : undefined;
           console.log('[FlightClub] Fetching simulation data with primary id:', missionIdToUse, 'fallback id:', fallbackId);
           const simData = await FlightClubApiService.getSimulationData(missionIdToUse, launch.id, {
-            fallbackMissionId: fallbackId
+            fallbackMissionId: fallbackId,
+            launchTime: launch.net
           });
           setSimulationData(simData);
           
@@ -250,6 +271,9 @@ const FlightClubVisualization: React.FC<FlightClubVisualizationProps> = ({
 
       } catch (error) {
         console.error('[FlightClub] Failed to load data:', error);
+        if (await loadOfflineSnapshot()) {
+          return;
+        }
         setError(error instanceof Error ? error.message : 'Failed to load FlightClub data');
       } finally {
         setLoading(false);
@@ -780,6 +804,7 @@ const FlightClubVisualization: React.FC<FlightClubVisualizationProps> = ({
               playbackTime={playbackTime}
               onTimeSelect={handleTimeSelect}
               darkMode={darkMode}
+              launch={launch}
             />
           </div>
         )}
@@ -813,6 +838,7 @@ const FlightClubVisualization: React.FC<FlightClubVisualizationProps> = ({
               <div className={`${themeClasses.card} border ${themeClasses.border} rounded-lg overflow-hidden`}>
                 <LiveViewingGuide
                   launch={launch}
+                  simulationData={simulationData}
                   onClose={() => setShowLiveGuide(false)}
                 />
               </div>
@@ -824,6 +850,7 @@ const FlightClubVisualization: React.FC<FlightClubVisualizationProps> = ({
           <div className={`${themeClasses.card} border ${themeClasses.border} rounded-lg overflow-hidden`}>
             <TelemetryGraphs
               simulationData={simulationData}
+              launch={launch}
               playbackTime={playbackTime}
               onTimeSelect={handleTimeSelect}
               darkMode={darkMode}
@@ -840,6 +867,7 @@ const FlightClubVisualization: React.FC<FlightClubVisualizationProps> = ({
                 playbackTime={playbackTime}
                 onTimeSelect={handleTimeSelect}
                 darkMode={darkMode}
+                launch={launch}
               />
             </div>
             <div className={`${themeClasses.card} border ${themeClasses.border} rounded-lg overflow-hidden`}>
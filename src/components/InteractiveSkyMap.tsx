@@ -1,7 +1,10 @@
 import React, { useRef, useEffect, useState } from 'react';
 import { LaunchWithVisibility } from '../types';
-import { TrajectoryData } from '../services/trajectoryService';
+import { getTrajectoryData, TrajectoryData } from '../services/trajectoryService';
+import { trajectoryOverrideService } from '../services/trajectoryOverrideService';
 import { calculateBearing, calculateDistance, GeoPoint } from '../utils/coordinateUtils';
+import { getObserverLocation } from '../services/observerLocationService';
+import { getHorizonMaskElevation, isAboveHorizonMask } from '../utils/horizonMask';
 
 interface InteractiveSkyMapProps {
   launch: LaunchWithVisibility;
@@ -23,11 +26,31 @@ interface CompassDirection {
   shortLabel: string;
 }
 
-const InteractiveSkyMap: React.FC<InteractiveSkyMapProps> = ({ launch, trajectoryData, onClose }) => {
+const InteractiveSkyMap: React.FC<InteractiveSkyMapProps> = ({ launch, trajectoryData: trajectoryDataProp, onClose }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [deviceOrientation, setDeviceOrientation] = useState<number | null>(null);
   const [showCompass, setShowCompass] = useState(false);
+  const [groundTrackData, setGroundTrackData] = useState<TrajectoryData | undefined>(undefined);
+  const trajectoryData = trajectoryDataProp ?? groundTrackData;
+
+  // Draw an entered or imported ground track when no trajectory was passed in
+  useEffect(() => {
+    if (trajectoryDataProp || !trajectoryOverrideService.getOverride(launch.id)?.groundTrack) {
+      setGroundTrackData(undefined);
+      return;
+    }
+
+    let cancelled = false;
+    getTrajectoryData(launch).then(data => {
+      if (!cancelled) {
+        setGroundTrackData(data);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [launch, trajectoryDataProp]);
 
   // Calculate real-time star positions for current date and launch time
   const getRealTimeStarPositions = (launchDate: Date): StarData[] => {
@@ -58,16 +81,17 @@ const InteractiveSkyMap: React.FC<InteractiveSkyMapProps> = ({ launch, trajector
 
   const referenceStars = getRealTimeStarPositions(new Date(launch.net));
 
-  // Constants for accurate Bermuda coordinates
-  const BERMUDA_COORDINATES = { lat: 32.3078, lng: -64.7505 };
+  // Active observer coordinates (defaults to Bermuda)
+  const observerLocation = getObserverLocation();
+  const observerCoordinates = { lat: observerLocation.latitude, lng: observerLocation.longitude };
 
   // Validation function to ensure zenith accuracy
   const validateZenithReference = (): boolean => {
-    // Zenith should always be at center of sky map (directly overhead at Bermuda)
-    // This represents 90° elevation at Bermuda's exact coordinates
+    // Zenith should always be at center of sky map (directly overhead at the observer)
+    // This represents 90° elevation at the observer's exact coordinates
     return userLocation ? 
-      Math.abs(userLocation.lat - BERMUDA_COORDINATES.lat) < 0.1 &&
-      Math.abs(userLocation.lng - BERMUDA_COORDINATES.lng) < 0.1
+      Math.abs(userLocation.lat - observerCoordinates.lat) < 0.1 &&
+      Math.abs(userLocation.lng - observerCoordinates.lng) < 0.1
       : true; // Default to true if location not available
   };
 
@@ -93,12 +117,12 @@ const InteractiveSkyMap: React.FC<InteractiveSkyMapProps> = ({ launch, trajector
           });
         },
         (error) => {
-          // Fallback to exact Bermuda coordinates for consistent zenith reference
-          setUserLocation(BERMUDA_COORDINATES);
+          // Fallback to the observer coordinates for consistent zenith reference
+          setUserLocation(observerCoordinates);
         }
       );
     } else {
-      setUserLocation(BERMUDA_COORDINATES);
+      setUserLocation(observerCoordinates);
     }
 
     // Request device orientation for compass functionality
@@ -161,10 +185,10 @@ const InteractiveSkyMap: React.FC<InteractiveSkyMapProps> = ({ launch, trajector
     }
     
     // Use proper coordinate utilities for accurate bearing calculation
-    const bermuda: GeoPoint = { lat: 32.3078, lng: -64.7505 };
+    const observer: GeoPoint = observerCoordinates;
     const launchSite: GeoPoint = { lat: launchLat, lng: launchLng };
     
-    return calculateBearing(bermuda, launchSite);
+    return calculateBearing(observer, launchSite);
   };
 
   // Helper function to convert trajectory direction to bearing
@@ -246,6 +270,37 @@ const InteractiveSkyMap: React.FC<InteractiveSkyMapProps> = ({ launch, trajector
       });
     });
 
+    // Draw horizon obstructions (hills, buildings) as a silhouette above the horizon circle
+    const horizonMask = observerLocation.horizonMask;
+    if (horizonMask && horizonMask.length > 0) {
+      ctx.fillStyle = 'rgba(45, 55, 72, 0.85)';
+      const toCanvas = (azimuth: number, pointRadius: number) => {
+        const adjustedAzimuth = deviceOrientation ? (azimuth - deviceOrientation + 360) % 360 : azimuth;
+        return {
+          x: centerX + Math.cos((adjustedAzimuth - 90) * Math.PI / 180) * pointRadius,
+          y: centerY + Math.sin((adjustedAzimuth - 90) * Math.PI / 180) * pointRadius
+        };
+      };
+
+      ctx.beginPath();
+      // Trace the mask outline, then return along the horizon circle
+      for (let azimuth = 0; azimuth <= 360; azimuth += 2) {
+        const maskElevation = Math.max(0, Math.min(90, getHorizonMaskElevation(horizonMask, azimuth)));
+        const { x, y } = toCanvas(azimuth, radius * (1 - maskElevation / 90));
+        if (azimuth === 0) {
+          ctx.moveTo(x, y);
+        } else {
+          ctx.lineTo(x, y);
+        }
+      }
+      for (let azimuth = 360; azimuth >= 0; azimuth -= 2) {
+        const { x, y } = toCanvas(azimuth, radius);
+        ctx.lineTo(x, y);
+      }
+      ctx.closePath();
+      ctx.fill();
+    }
+
     // Draw all compass directions (primary + diagonal)
     compassDirections.forEach(dir => {
       const adjustedAngle = deviceOrientation ? 
@@ -343,28 +398,29 @@ const InteractiveSkyMap: React.FC<InteractiveSkyMapProps> = ({ launch, trajector
     
     // Create trajectory path showing rocket traveling ACROSS sky
     if (trajectoryData && trajectoryData.points && trajectoryData.points.length > 0) {
-      // Define Bermuda coordinates as reference point
-      const bermuda: GeoPoint = { lat: 32.3078, lng: -64.7505 };
+      // Define observer coordinates as reference point
+      const observer: GeoPoint = observerCoordinates;
       
       // Use real telemetry data to create accurate sky path
       const visiblePoints = trajectoryData.points.filter(point => {
         const pointGeo: GeoPoint = { lat: point.latitude, lng: point.longitude };
-        const distance = calculateDistance(bermuda, pointGeo);
+        const distance = calculateDistance(observer, pointGeo);
         
         // Improved elevation angle calculation accounting for Earth's curvature
         const altitudeKm = point.altitude / 1000;
         const earthRadius = 6371; // km
         const elevationAngle = Math.atan2(altitudeKm, distance - (altitudeKm * altitudeKm) / (2 * earthRadius)) * 180 / Math.PI;
+        const bearing = calculateBearing(observer, pointGeo);
         
-        return elevationAngle > 0 && point.visible;
+        return elevationAngle > 0 && point.visible && isAboveHorizonMask(observerLocation.horizonMask, bearing, elevationAngle);
       });
       
       if (visiblePoints.length > 1) {
         // Convert to sky coordinates showing actual flight path
         const skyPoints = visiblePoints.map(point => {
           const pointGeo: GeoPoint = { lat: point.latitude, lng: point.longitude };
-          const bearing = calculateBearing(bermuda, pointGeo);
-          const distance = calculateDistance(bermuda, pointGeo);
+          const bearing = calculateBearing(observer, pointGeo);
+          const distance = calculateDistance(observer, pointGeo);
           
           // Improved elevation angle calculation accounting for Earth's curvature
           const altitudeKm = point.altitude / 1000;
@@ -430,7 +486,7 @@ const InteractiveSkyMap: React.FC<InteractiveSkyMapProps> = ({ launch, trajector
         }
         
         // Label showing path direction (with telemetry indicator)
-        const labelText = `From Florida → ${trajectoryDirection} (Telemetry)`;
+        const labelText = `From Florida → ${trajectoryDirection} (${trajectoryData.source === 'ground-track' || trajectoryData.source === 'manual' ? 'Ground Track' : 'Telemetry'})`;
         ctx.fillStyle = '#fed7d7';
         ctx.font = 'bold 11px -apple-system, system-ui, sans-serif';
         ctx.textAlign = 'center';
@@ -697,6 +753,9 @@ const InteractiveSkyMap: React.FC<InteractiveSkyMapProps> = ({ launch, trajector
               <li>• Use constellations to find launch direction</li>
               <li>• Center = directly overhead (zenith)</li>
               <li>• Edge = horizon (0° elevation)</li>
+              {observerLocation.horizonMask && observerLocation.horizonMask.length > 0 && (
+                <li>• Shaded edge = hills and buildings blocking the view</li>
+              )}
             </ul>
           </div>
         </div>
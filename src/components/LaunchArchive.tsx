@@ -0,0 +1,288 @@
+/**
+ * Launch Archive Component
+ * Past launches with the prediction made at T-0 and sighting reports from observers
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArchivedLaunch } from '../types';
+import { LaunchArchiveService } from '../services/launchArchiveService';
+import { BermudaTimeService } from '../services/bermudaTimeService';
+
+interface LaunchArchiveProps {
+  onClose?: () => void;
+  className?: string;
+}
+
+interface ReportFormState {
+  seen: boolean;
+  firstSeenClock: string;
+  direction: string;
+  photoUrl: string;
+}
+
+const EMPTY_REPORT: ReportFormState = {
+  seen: true,
+  firstSeenClock: '',
+  direction: '',
+  photoUrl: ''
+};
+
+const COMPASS_POINTS = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+
+const LIKELIHOOD_STYLES: Record<string, string> = {
+  high: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200',
+  medium: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-200',
+  low: 'bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-200',
+  none: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+};
+
+const formatTPlus = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.round(seconds % 60);
+  return `T+${minutes}:${rest.toString().padStart(2, '0')}`;
+};
+
+const LaunchArchive: React.FC<LaunchArchiveProps> = ({
+  onClose,
+  className = ''
+}) => {
+  const [launches, setLaunches] = useState<ArchivedLaunch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ReportFormState>(EMPTY_REPORT);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadArchive = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setLaunches(await LaunchArchiveService.getArchive());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load the archive');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadArchive();
+  }, [loadArchive]);
+
+  const openReport = (launchId: string) => {
+    setReportingId(reportingId === launchId ? null : launchId);
+    setForm(EMPTY_REPORT);
+    setFormError(null);
+  };
+
+  const handleSubmitReport = async (launch: ArchivedLaunch) => {
+    let firstSeenAt: string | undefined;
+    if (form.seen && form.firstSeenClock) {
+      firstSeenAt = LaunchArchiveService.bermudaClockToIso(launch.net, form.firstSeenClock) ?? undefined;
+      if (!firstSeenAt) {
+        setFormError('Enter the first-seen time as HH:MM or HH:MM:SS (Bermuda time)');
+        return;
+      }
+    }
+
+    setSubmitting(true);
+    setFormError(null);
+    try {
+      await LaunchArchiveService.submitReport({
+        launchId: launch.launchId,
+        seen: form.seen,
+        firstSeenAt,
+        direction: form.seen && form.direction ? form.direction : undefined,
+        photoUrl: form.seen && form.photoUrl ? form.photoUrl.trim() : undefined
+      });
+      setReportingId(null);
+      await loadArchive();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Report could not be submitted');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass = 'mt-1 w-full px-3 py-2 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-xl ${className}`}>
+      {/* Header */}
+      <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            🗂️ Launch Archive
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            What we predicted at T-0 for Bermuda, and what observers actually saw
+          </p>
+        </div>
+        {onClose && (
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 text-xl"
+          >
+            ×
+          </button>
+        )}
+      </div>
+
+      <div className="p-6 space-y-4">
+        {loading && (
+          <div className="text-center text-gray-600 dark:text-gray-400 py-8">Loading archive...</div>
+        )}
+
+        {error && (
+          <div className="p-3 rounded-lg text-sm bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 border border-red-200 dark:border-red-800">
+            {error}
+          </div>
+        )}
+
+        {!loading && !error && launches.length === 0 && (
+          <div className="text-center text-gray-600 dark:text-gray-400 py-8">
+            No archived launches yet. Predictions are archived in the six hours before each launch.
+          </div>
+        )}
+
+        {launches.map(launch => {
+          const { prediction, reports } = launch;
+          const seenCount = reports.filter(report => report.seen).length;
+          const isReporting = reportingId === launch.launchId;
+
+          return (
+            <div key={launch.launchId} className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <div className="font-medium text-gray-900 dark:text-white">{launch.name}</div>
+                  <div className="text-xs text-gray-600 dark:text-gray-400">
+                    {BermudaTimeService.formatBermudaTime(launch.net)}
+                    {launch.vehicle && ` • ${launch.vehicle}`}
+                  </div>
+                </div>
+                <span className={`px-2 py-1 rounded text-xs font-medium ${LIKELIHOOD_STYLES[prediction.likelihood]}`}>
+                  Predicted {prediction.likelihood.toUpperCase()}
+                </span>
+              </div>
+
+              <div className="mt-3 grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs text-gray-700 dark:text-gray-300">
+                <div>
+                  <div className="text-gray-500 dark:text-gray-400">Data source</div>
+                  <div>{prediction.dataSource ?? 'unknown'}</div>
+                </div>
+                <div>
+                  <div className="text-gray-500 dark:text-gray-400">Trajectory</div>
+                  <div>{prediction.trajectorySource ?? 'unknown'}</div>
+                </div>
+                <div>
+                  <div className="text-gray-500 dark:text-gray-400">First visible</div>
+                  <div>{prediction.firstVisibleSeconds != null ? formatTPlus(prediction.firstVisibleSeconds) : '—'}</div>
+                </div>
+                <div>
+                  <div className="text-gray-500 dark:text-gray-400">Reports</div>
+                  <div>{reports.length > 0 ? `${seenCount} of ${reports.length} saw it` : 'None yet'}</div>
+                </div>
+              </div>
+
+              {seenCount > 0 && (
+                <ul className="mt-3 space-y-1 text-xs text-gray-600 dark:text-gray-400">
+                  {reports.filter(report => report.seen).map((report, index) => (
+                    <li key={index}>
+                      👀 {report.firstSeenAt
+                        ? formatTPlus((new Date(report.firstSeenAt).getTime() - new Date(launch.net).getTime()) / 1000)
+                        : 'Seen'}
+                      {report.direction && ` looking ${report.direction}`}
+                      {report.photoUrl && (
+                        <>
+                          {' • '}
+                          <a href={report.photoUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+                            photo
+                          </a>
+                        </>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <button
+                onClick={() => openReport(launch.launchId)}
+                className="mt-3 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {isReporting ? 'Cancel report' : '📝 Report a sighting'}
+              </button>
+
+              {isReporting && (
+                <div className="mt-3 space-y-3">
+                  <div className="flex gap-4 text-sm text-gray-900 dark:text-white">
+                    <label className="flex items-center gap-2">
+                      <input type="radio" checked={form.seen} onChange={() => setForm(prev => ({ ...prev, seen: true }))} />
+                      I saw it
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input type="radio" checked={!form.seen} onChange={() => setForm(prev => ({ ...prev, seen: false }))} />
+                      I looked but didn't see it
+                    </label>
+                  </div>
+
+                  {form.seen && (
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                      <label className="text-sm text-gray-700 dark:text-gray-300">
+                        First seen (Bermuda time)
+                        <input
+                          type="time"
+                          step="1"
+                          value={form.firstSeenClock}
+                          onChange={(e) => setForm(prev => ({ ...prev, firstSeenClock: e.target.value }))}
+                          className={inputClass}
+                        />
+                      </label>
+                      <label className="text-sm text-gray-700 dark:text-gray-300">
+                        Direction
+                        <select
+                          value={form.direction}
+                          onChange={(e) => setForm(prev => ({ ...prev, direction: e.target.value }))}
+                          className={inputClass}
+                        >
+                          <option value="">—</option>
+                          {COMPASS_POINTS.map(point => (
+                            <option key={point} value={point}>{point}</option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="text-sm text-gray-700 dark:text-gray-300">
+                        Photo link
+                        <input
+                          type="url"
+                          value={form.photoUrl}
+                          onChange={(e) => setForm(prev => ({ ...prev, photoUrl: e.target.value }))}
+                          placeholder="https://"
+                          className={inputClass}
+                        />
+                      </label>
+                    </div>
+                  )}
+
+                  {formError && (
+                    <div className="text-sm text-red-600 dark:text-red-400">{formError}</div>
+                  )}
+
+                  <button
+                    onClick={() => handleSubmitReport(launch)}
+                    disabled={submitting}
+                    className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded"
+                  >
+                    {submitting ? '⏳ Sending...' : 'Submit report'}
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default LaunchArchive;
@@ -9,6 +9,10 @@ import TrajectoryVisualization from './TrajectoryVisualization';
 import WeatherDisplay from './WeatherDisplay';
 import InteractiveSkyMap from './InteractiveSkyMap';
 import FlightClubVisualization from './FlightClubVisualization';
+import ObserverComparisonTable from './ObserverComparisonTable';
+import LaunchWindowSweep from './LaunchWindowSweep';
+import TrajectoryOverrideEditor from './TrajectoryOverrideEditor';
+import FlightClubMatchReview from './FlightClubMatchReview';
 
 interface LaunchCardProps {
   launch: LaunchWithVisibility | LaunchWithDelayTracking;
@@ -33,6 +37,8 @@ const LaunchCard: React.FC<LaunchCardProps> = ({ launch, showDelayInfo = false }
   const [showWeatherDetail, setShowWeatherDetail] = useState(false);
   const [showDelayDetails, setShowDelayDetails] = useState(false);
   const [showFlightClub, setShowFlightClub] = useState(false);
+  const [showOverrideEditor, setShowOverrideEditor] = useState(false);
+  const [showWindowSweep, setShowWindowSweep] = useState(false);
   
   // Type guard to check if launch has delay tracking
   const isDelayTracked = (launch: LaunchWithVisibility | LaunchWithDelayTracking): launch is LaunchWithDelayTracking => {
@@ -386,6 +392,12 @@ const LaunchCard: React.FC<LaunchCardProps> = ({ launch, showDelayInfo = false }
           </div>
         )}
 
+        {/* Doubtful matches can be confirmed, rejected or pinned to another mission */}
+        {launch.flightClubMatch?.validationWarnings && launch.flightClubMatch.validationWarnings.length > 0 &&
+          (launch.flightClubMatch.confidence === 'medium' || launch.flightClubMatch.confidence === 'low') && (
+          <FlightClubMatchReview launch={launch} match={launch.flightClubMatch} />
+        )}
+
         {/* Beginner-friendly tracking explanation */}
         {launch.visibility.likelihood !== 'none' && (
           <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-3 mb-2">
@@ -422,6 +434,22 @@ const LaunchCard: React.FC<LaunchCardProps> = ({ launch, showDelayInfo = false }
           </div>
         )}
         
+        {/* Visibility at each step of the launch window, in case of a slip */}
+        {launchWindow.hasWindow && (
+          <div className="mt-3">
+            <button
+              onClick={() => setShowWindowSweep(!showWindowSweep)}
+              className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {showWindowSweep ? 'Hide visibility across window' : '🕒 Show visibility across window'}
+            </button>
+            {showWindowSweep && <LaunchWindowSweep launch={launch} className="mt-2" />}
+          </div>
+        )}
+
+        {/* Side-by-side visibility from each saved viewing spot */}
+        <ObserverComparisonTable launch={launch} className="mt-3" />
+        
         {/* Action Buttons for ALL Launches - Universal Trajectory Visualization */}
         {launch.visibility && (
           <div className="mt-3 space-y-2">
@@ -462,6 +490,14 @@ const LaunchCard: React.FC<LaunchCardProps> = ({ launch, showDelayInfo = false }
                 {showFlightClub ? '🚀 Hide Live Telemetry' : '🚀 Live Telemetry'}
               </button>
             </div>
+
+            {/* Manual trajectory correction */}
+            <button
+              onClick={() => setShowOverrideEditor(true)}
+              className="w-full text-xs text-gray-500 dark:text-gray-400 hover:text-blue-500 transition-colors"
+            >
+              ✏️ Trajectory looks wrong? Correct it
+            </button>
           </div>
         )}
       </div>
@@ -567,6 +603,18 @@ const LaunchCard: React.FC<LaunchCardProps> = ({ launch, showDelayInfo = false }
 
 
 
+      {/* Trajectory Override Modal */}
+      {showOverrideEditor && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+          <div className="max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <TrajectoryOverrideEditor
+              launch={launch}
+              onClose={() => setShowOverrideEditor(false)}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Live Telemetry Visualization Modal */}
       {showFlightClub && (
         <div 
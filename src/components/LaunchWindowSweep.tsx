@@ -0,0 +1,138 @@
+/**
+ * Launch Window Sweep Component
+ * Strip chart of visibility and twilight phase across the launch window,
+ * showing which part of the window is worth waiting up for if the launch slips.
+ * Each step is a full visibility calculation, so cards mount it only on request.
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Launch, LaunchWithFlightClub, LaunchWindowSweep as LaunchWindowSweepData } from '../types';
+import { calculateWindowSweep } from '../services/visibilityService';
+import { observerLocationService } from '../services/observerLocationService';
+import { formatLaunchTime } from '../utils/timeUtils';
+
+interface LaunchWindowSweepProps {
+  launch: Launch | LaunchWithFlightClub;
+  className?: string;
+}
+
+const LIKELIHOOD_CELL_STYLES: Record<string, string> = {
+  high: 'bg-green-500',
+  medium: 'bg-yellow-400',
+  low: 'bg-orange-400',
+  none: 'bg-gray-300 dark:bg-gray-600'
+};
+
+const TWILIGHT_CELL_STYLES: Record<string, string> = {
+  day: 'bg-sky-300',
+  civil: 'bg-orange-300',
+  nautical: 'bg-indigo-400',
+  astronomical: 'bg-indigo-700',
+  night: 'bg-gray-900'
+};
+
+const LaunchWindowSweep: React.FC<LaunchWindowSweepProps> = ({
+  launch,
+  className = ''
+}) => {
+  const [sweep, setSweep] = useState<LaunchWindowSweepData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [observer, setObserver] = useState(observerLocationService.getState().active);
+  // Parents pass a new launch object on every refresh; only a schedule change needs a new sweep
+  const launchRef = useRef(launch);
+  launchRef.current = launch;
+
+  useEffect(() => {
+    const unsubscribe = observerLocationService.subscribe(state => setObserver(state.active));
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    calculateWindowSweep(launchRef.current, observer)
+      .then(result => {
+        if (!cancelled) {
+          setSweep(result);
+        }
+      })
+      .catch(error => {
+        console.warn('[LaunchWindowSweep] Window sweep failed:', error);
+        if (!cancelled) {
+          setSweep(null);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [launch.id, launch.net, launch.window_start, launch.window_end, observer]);
+
+  if (loading && !sweep) {
+    return (
+      <div className={`text-xs text-gray-500 dark:text-gray-400 ${className}`}>
+        ⏳ Checking visibility across the launch window...
+      </div>
+    );
+  }
+
+  if (!sweep || sweep.steps.length < 2) {
+    return null;
+  }
+
+  const bestScore = sweep.steps.reduce((best, step) => Math.max(best, step.visibility.score ?? 0), 0);
+  const bestSteps = sweep.steps.filter(step => (step.visibility.score ?? 0) === bestScore);
+  const bestFrom = formatLaunchTime(bestSteps[0].time).time;
+  const bestTo = formatLaunchTime(bestSteps[bestSteps.length - 1].time).time;
+  const netStep = sweep.steps.find(step => step.isNet);
+
+  return (
+    <div className={className}>
+      <div className="flex justify-between items-baseline mb-1">
+        <span className="text-sm font-medium text-gray-800 dark:text-gray-200">🕒 Visibility Across Window</span>
+        <span className="text-xs text-gray-500 dark:text-gray-400">every {sweep.stepMinutes} min</span>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex gap-px rounded overflow-hidden" aria-label="Visibility likelihood across the launch window">
+          {sweep.steps.map(step => (
+            <div
+              key={step.time}
+              className={`flex-1 h-4 ${LIKELIHOOD_CELL_STYLES[step.visibility.likelihood]} ${step.isNet ? 'ring-2 ring-inset ring-blue-600' : ''}`}
+              title={`${formatLaunchTime(step.time).time}: ${step.visibility.likelihood} visibility${step.isNet ? ' (NET)' : ''}`}
+            />
+          ))}
+        </div>
+        <div className="flex gap-px rounded overflow-hidden" aria-label="Twilight phase across the launch window">
+          {sweep.steps.map(step => (
+            <div
+              key={step.time}
+              className={`flex-1 h-2 ${TWILIGHT_CELL_STYLES[step.visibility.solarConditions.twilightPhase]}`}
+              title={`${formatLaunchTime(step.time).time}: ${step.visibility.solarConditions.twilightPhase} (sun ${Math.round(step.visibility.solarConditions.sunElevation)}°)`}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+        <span>{formatLaunchTime(sweep.windowStart).time}</span>
+        {netStep && <span className="text-blue-600 dark:text-blue-400">NET {formatLaunchTime(netStep.time).time}</span>}
+        <span>{formatLaunchTime(sweep.windowEnd).time}</span>
+      </div>
+
+      {bestScore > 0 && (
+        <p className="text-xs text-gray-700 dark:text-gray-300 mt-1">
+          Best viewing: {bestFrom === bestTo ? bestFrom : `${bestFrom} – ${bestTo}`} ({bestSteps[0].visibility.likelihood})
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default LaunchWindowSweep;
@@ -5,12 +5,14 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { LaunchWithVisibility } from '../types';
+import { formatLaunchTime } from '../utils/timeUtils';
 
 interface LiveCountdownProps {
   launch: LaunchWithVisibility;
   onPhaseChange?: (phase: LaunchPhase) => void;
   showMilliseconds?: boolean;
   compact?: boolean;
+  launchTimeAsOf?: number; // when the launch time was last confirmed (offline snapshot)
 }
 
 export interface LaunchPhase {
@@ -141,7 +143,8 @@ export const LiveCountdown: React.FC<LiveCountdownProps> = ({
   launch,
   onPhaseChange,
   showMilliseconds = false,
-  compact = false
+  compact = false,
+  launchTimeAsOf
 }) => {
   const [currentTime, setCurrentTime] = useState(Date.now());
   const [currentPhase, setCurrentPhase] = useState<LaunchPhase | null>(null);
@@ -264,6 +267,11 @@ export const LiveCountdown: React.FC<LiveCountdownProps> = ({
         <div className="text-sm text-gray-500 dark:text-gray-400 mt-1">
           {isLive ? 'Mission Elapsed Time' : 'Time to Launch'}
         </div>
+        {launchTimeAsOf && (
+          <div className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+            Launch time as of {formatLaunchTime(new Date(launchTimeAsOf).toISOString()).bermudaTime} — check for delays when back online
+          </div>
+        )}
       </div>
 
       {/* Current Phase Indicator */}
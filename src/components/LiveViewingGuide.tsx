@@ -3,14 +3,19 @@
  * Comprehensive real-time launch viewing companion
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { LaunchWithVisibility } from '../types';
+import { ProcessedSimulationData } from '../services/flightClubApiService';
+import { OfflineBundleService, OfflineLaunchBundle } from '../services/offlineBundleService';
 import LiveCountdown, { LaunchPhase } from './LiveCountdown';
 import WeatherDisplay from './WeatherDisplay';
+import SkyTracker from './SkyTracker';
+import OfflineDataBanner from './OfflineDataBanner';
 
 interface LiveViewingGuideProps {
   launch: LaunchWithVisibility;
   onClose: () => void;
+  simulationData?: ProcessedSimulationData | null;
 }
 
 interface ViewingTip {
@@ -21,13 +26,43 @@ interface ViewingTip {
   importance: 'critical' | 'high' | 'medium' | 'low';
 }
 
-const LiveViewingGuide: React.FC<LiveViewingGuideProps> = ({ launch, onClose }) => {
+const LiveViewingGuide: React.FC<LiveViewingGuideProps> = ({ launch, onClose, simulationData }) => {
   const [currentPhase, setCurrentPhase] = useState<LaunchPhase | null>(null);
-  const [activeTab, setActiveTab] = useState<'countdown' | 'weather' | 'tips'>('countdown');
+  const [activeTab, setActiveTab] = useState<'countdown' | 'sky' | 'weather' | 'tips'>('countdown');
+  const [offline, setOffline] = useState(() => OfflineBundleService.isOffline());
+  const [bundle, setBundle] = useState<OfflineLaunchBundle | null>(null);
   const [hasNotificationPermission, setHasNotificationPermission] = useState(false);
   const [wakeLockSupported, setWakeLockSupported] = useState(false);
   const [wakeLock, setWakeLock] = useState<any>(null);
 
+  // Load the offline snapshot for this launch
+  useEffect(() => {
+    let cancelled = false;
+    OfflineBundleService.getBundle(launch.id).then(saved => {
+      if (!cancelled) setBundle(saved);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [launch.id]);
+
+  // Track connectivity so the guide can switch to saved data
+  useEffect(() => {
+    const updateStatus = () => setOffline(OfflineBundleService.isOffline());
+    window.addEventListener('online', updateStatus);
+    window.addEventListener('offline', updateStatus);
+    return () => {
+      window.removeEventListener('online', updateStatus);
+      window.removeEventListener('offline', updateStatus);
+    };
+  }, []);
+
+  const usingSnapshot = offline && bundle !== null;
+  const trackerData = simulationData || bundle?.simulationData || null;
+  const weatherSnapshot = useMemo(() => (
+    usingSnapshot ? { current: bundle!.currentWeather, forecast: bundle!.weatherForecast } : undefined
+  ), [usingSnapshot, bundle]);
+
   // Check for wake lock support
   useEffect(() => {
     setWakeLockSupported('wakeLock' in navigator);
@@ -192,10 +227,13 @@ const LiveViewingGuide: React.FC<LiveViewingGuideProps> = ({ launch, onClose })
           </button>
         </div>
 
+        {usingSnapshot && <OfflineDataBanner capturedAt={bundle!.capturedAt} offline={offline} />}
+
         {/* Tab Navigation */}
         <div className="flex border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900">
           {[
             { id: 'countdown', label: 'Countdown', icon: '⏱️' },
+            { id: 'sky', label: 'Sky', icon: '🧭' },
             { id: 'weather', label: 'Weather', icon: '🌤️' },
             { id: 'tips', label: 'Tips', icon: '💡' }
           ].map(tab => (
@@ -224,6 +262,7 @@ const LiveViewingGuide: React.FC<LiveViewingGuideProps> = ({ launch, onClose })
                 launch={launch}
                 onPhaseChange={handlePhaseChange}
                 showMilliseconds={currentPhase?.urgency === 'critical'}
+                launchTimeAsOf={usingSnapshot ? bundle!.capturedAt : undefined}
               />
 
               {/* Quick Actions */}
@@ -239,6 +278,35 @@ const LiveViewingGuide: React.FC<LiveViewingGuideProps> = ({ launch, onClose })
           )}
 
 
+          {activeTab === 'sky' && (
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                Where to Look
+              </h3>
+              <SkyTracker
+                launch={launch}
+                currentPhase={currentPhase}
+                simulationData={trackerData}
+              />
+              {!trackerData && (
+                <p className="text-xs text-center text-gray-500 dark:text-gray-400">
+                  No trajectory data available - showing the typical path for this launch direction
+                </p>
+              )}
+              {bundle?.solarData && (
+                <div className="bg-indigo-50 dark:bg-indigo-900/20 rounded-lg p-4 text-sm text-indigo-800 dark:text-indigo-200">
+                  <h4 className="font-medium mb-2">Sun &amp; Twilight ({bundle.solarData.date})</h4>
+                  <div className="grid grid-cols-2 gap-1">
+                    <span>Sunset</span><span>{bundle.solarData.sunset}</span>
+                    <span>Civil twilight ends</span><span>{bundle.solarData.civil_twilight_end}</span>
+                    <span>Nautical twilight ends</span><span>{bundle.solarData.nautical_twilight_end}</span>
+                    <span>Sunrise</span><span>{bundle.solarData.sunrise}</span>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
           {activeTab === 'weather' && (
             <div className="space-y-4">
               <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
@@ -247,6 +315,8 @@ const LiveViewingGuide: React.FC<LiveViewingGuideProps> = ({ launch, onClose })
               <WeatherDisplay 
                 launch={launch}
                 showDetailed={true}
+                snapshot={weatherSnapshot}
+                telemetry={trackerData?.enhancedTelemetry}
               />
               
               <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-4">
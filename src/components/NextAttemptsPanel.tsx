@@ -0,0 +1,110 @@
+/**
+ * Next Attempts Panel Component
+ * Projected visibility for the scheduled attempt and the backup
+ * opportunities after it, so a scrub can be judged at a glance
+ */
+
+import React, { useState, useEffect } from 'react';
+import { BackupOpportunity, Launch } from '../types';
+import { DelayImpactAnalyzer } from '../services/delayImpactAnalyzer';
+import { formatLaunchTime } from '../utils/timeUtils';
+
+interface NextAttemptsPanelProps {
+  launch: Launch;
+  count?: number;
+  className?: string;
+}
+
+const LIKELIHOOD_STYLES: Record<string, string> = {
+  high: 'text-green-600 dark:text-green-400',
+  medium: 'text-yellow-600 dark:text-yellow-400',
+  low: 'text-orange-600 dark:text-orange-400',
+  none: 'text-gray-500 dark:text-gray-400'
+};
+
+const PLUME_LABELS: Record<BackupOpportunity['plumeIllumination'], string> = {
+  daylight: '☀️ Daylight',
+  sunlit: '✨ Sunlit plume',
+  shadowed: '🌑 Engine glow only'
+};
+
+const NextAttemptsPanel: React.FC<NextAttemptsPanelProps> = ({
+  launch,
+  count = 5,
+  className = ''
+}) => {
+  const [opportunities, setOpportunities] = useState<BackupOpportunity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    DelayImpactAnalyzer.projectBackupOpportunities(launch, count)
+      .then(results => {
+        if (!cancelled) {
+          setOpportunities(results);
+        }
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to project backup attempts');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [launch, count]);
+
+  if (loading) {
+    return (
+      <div className={`text-xs text-gray-600 dark:text-gray-400 ${className}`}>⏳ Projecting next attempts...</div>
+    );
+  }
+
+  if (error) {
+    return <div className={`text-xs text-red-600 dark:text-red-400 ${className}`}>{error}</div>;
+  }
+
+  return (
+    <div className={className}>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+        Recycle every {DelayImpactAnalyzer.getRecycleIntervalHours(launch)}h
+      </p>
+      <ul className="space-y-1">
+        {opportunities.map(opportunity => {
+          const { date, time } = formatLaunchTime(opportunity.net);
+          return (
+            <li
+              key={opportunity.attempt}
+              className="flex items-center justify-between text-xs bg-white/60 dark:bg-gray-700/60 rounded px-2 py-1"
+              title={opportunity.visibility.reason}
+            >
+              <div className="min-w-0">
+                <div className="text-gray-900 dark:text-gray-100">
+                  {opportunity.attempt === 0 ? 'Scheduled' : `Backup ${opportunity.attempt}`} · {date} {time}
+                </div>
+                <div className="text-gray-500 dark:text-gray-400 capitalize">
+                  {opportunity.twilightPhase} · {PLUME_LABELS[opportunity.plumeIllumination]}
+                </div>
+              </div>
+              <span className={`font-medium capitalize flex-shrink-0 ml-2 ${LIKELIHOOD_STYLES[opportunity.likelihood]}`}>
+                {opportunity.likelihood}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default NextAttemptsPanel;
@@ -5,6 +5,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { notificationService, NotificationStatus, NotificationSettings as NotificationSettingsType } from '../services/notificationService';
+import { CalendarFeedService, CalendarThreshold } from '../services/calendarFeedService';
 
 interface NotificationSettingsProps {
   onClose?: () => void;
@@ -18,6 +19,8 @@ const NotificationSettings: React.FC<NotificationSettingsProps> = ({
   const [status, setStatus] = useState<NotificationStatus>(notificationService.getStatus());
   const [isTestingNotification, setIsTestingNotification] = useState(false);
   const [testResult, setTestResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [calendarThreshold, setCalendarThreshold] = useState<CalendarThreshold>('medium');
+  const [calendarLinkCopied, setCalendarLinkCopied] = useState(false);
 
   useEffect(() => {
     const unsubscribe = notificationService.subscribe(setStatus);
@@ -166,6 +169,13 @@ const NotificationSettings: React.FC<NotificationSettingsProps> = ({
             <div className="text-sm text-gray-600 dark:text-gray-400">
               Receive alerts for upcoming visible launches
             </div>
+            {status.settings.enabled && (
+              <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                {status.backgroundPush
+                  ? '📲 Background delivery on - reminders arrive even with this tab closed'
+                  : 'Reminders only fire while this page is open'}
+              </div>
+            )}
           </div>
           <label className="relative inline-flex items-center cursor-pointer">
             <input
@@ -278,6 +288,49 @@ const NotificationSettings: React.FC<NotificationSettingsProps> = ({
           </>
         )}
 
+        {/* Calendar Feed */}
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+          <div className="font-medium text-gray-900 dark:text-white mb-1">
+            📅 Calendar Feed
+          </div>
+          <div className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+            Subscribe in Google, Apple or Outlook calendar. Events show the viewing window and look direction, and move automatically when a launch is delayed or scrubbed.
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={calendarThreshold}
+              onChange={(e) => {
+                setCalendarThreshold(e.target.value as CalendarThreshold);
+                setCalendarLinkCopied(false);
+              }}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+            >
+              <option value="high">High visibility only</option>
+              <option value="medium">Medium and above</option>
+              <option value="low">Any chance of seeing it</option>
+            </select>
+            <a
+              href={CalendarFeedService.getFeedUrl(calendarThreshold, 'webcal')}
+              className="px-3 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded"
+            >
+              Subscribe
+            </a>
+            <button
+              onClick={async () => {
+                try {
+                  await navigator.clipboard.writeText(CalendarFeedService.getFeedUrl(calendarThreshold));
+                  setCalendarLinkCopied(true);
+                } catch (error) {
+                  console.warn('Failed to copy calendar link:', error);
+                }
+              }}
+              className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded text-gray-700 dark:text-gray-300 hover:border-blue-500"
+            >
+              {calendarLinkCopied ? '✓ Copied' : 'Copy link'}
+            </button>
+          </div>
+        </div>
+
         {/* Usage Tips */}
         <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
           <div className="font-medium text-gray-900 dark:text-white mb-2">
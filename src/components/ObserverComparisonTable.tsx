@@ -0,0 +1,144 @@
+/**
+ * Observer Comparison Table Component
+ * Shows visibility for one launch from every saved viewing spot side by side
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Launch, LaunchWithFlightClub, ObserverVisibilityComparison } from '../types';
+import { calculateVisibilityComparison, getBearingDirection } from '../services/visibilityService';
+import { observerLocationService } from '../services/observerLocationService';
+
+interface ObserverComparisonTableProps {
+  launch: Launch | LaunchWithFlightClub;
+  className?: string;
+}
+
+const LIKELIHOOD_STYLES: Record<string, string> = {
+  high: 'text-green-600 dark:text-green-400',
+  medium: 'text-yellow-600 dark:text-yellow-400',
+  low: 'text-orange-600 dark:text-orange-400',
+  none: 'text-gray-500 dark:text-gray-400'
+};
+
+const ObserverComparisonTable: React.FC<ObserverComparisonTableProps> = ({
+  launch,
+  className = ''
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const [comparisons, setComparisons] = useState<ObserverVisibilityComparison[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [locationState, setLocationState] = useState(observerLocationService.getState());
+
+  useEffect(() => {
+    const unsubscribe = observerLocationService.subscribe(setLocationState);
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    if (!expanded) {
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    calculateVisibilityComparison(launch, locationState.saved)
+      .then(results => {
+        if (!cancelled) {
+          setComparisons(results);
+        }
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to compare viewing spots');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [expanded, launch, locationState.saved]);
+
+  const bestScore = comparisons.reduce((best, { visibility }) => Math.max(best, visibility.score ?? 0), 0);
+
+  return (
+    <div className={className}>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full px-3 py-2 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-lg transition-colors text-sm font-medium"
+      >
+        {expanded ? '📍 Hide Spot Comparison' : `📍 Compare ${locationState.saved.length} Viewing Spots`}
+      </button>
+
+      {expanded && (
+        <div className="mt-2 overflow-x-auto">
+          {loading && (
+            <div className="text-sm text-gray-600 dark:text-gray-400 p-2">⏳ Calculating visibility for each spot...</div>
+          )}
+
+          {error && (
+            <div className="text-sm text-red-600 dark:text-red-400 p-2">{error}</div>
+          )}
+
+          {!loading && !error && comparisons.length > 0 && (
+            <table className="w-full text-xs text-left">
+              <thead>
+                <tr className="text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-600">
+                  <th className="py-1 pr-2">Spot</th>
+                  <th className="py-1 pr-2">Visibility</th>
+                  <th className="py-1 pr-2">Score</th>
+                  <th className="py-1 pr-2">Look</th>
+                  <th className="py-1 pr-2">Sun</th>
+                  <th className="py-1">Source</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparisons.map(({ observer, visibility }) => {
+                  const isBest = bestScore > 0 && (visibility.score ?? 0) === bestScore;
+                  const isActive = observer.id === locationState.active.id;
+                  return (
+                    <tr
+                      key={observer.id}
+                      className={`border-b border-gray-100 dark:border-gray-700 ${isBest ? 'bg-green-50 dark:bg-green-900/20' : ''}`}
+                      title={visibility.reason}
+                    >
+                      <td className="py-1 pr-2 text-gray-900 dark:text-white">
+                        {isBest && '⭐ '}{observer.name}{isActive && ' (current)'}
+                      </td>
+                      <td className={`py-1 pr-2 font-medium capitalize ${LIKELIHOOD_STYLES[visibility.likelihood]}`}>
+                        {visibility.likelihood}
+                      </td>
+                      <td className="py-1 pr-2 text-gray-900 dark:text-white">
+                        {Math.round((visibility.score ?? 0) * 100)}%
+                      </td>
+                      <td className="py-1 pr-2 text-gray-900 dark:text-white">
+                        {visibility.bearing !== undefined
+                          ? `${getBearingDirection(visibility.bearing)} (${visibility.bearing}°)`
+                          : '—'}
+                      </td>
+                      <td className="py-1 pr-2 text-gray-900 dark:text-white capitalize">
+                        {visibility.solarConditions.twilightPhase} ({Math.round(visibility.solarConditions.sunElevation)}°)
+                      </td>
+                      <td className="py-1 text-gray-600 dark:text-gray-400">
+                        {visibility.dataSource}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ObserverComparisonTable;
@@ -0,0 +1,350 @@
+/**
+ * Observer Location Settings Component
+ * Allows users to pick a saved viewing location or enter their own
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  observerLocationService,
+  ObserverLocationState,
+  validateObserverLocation
+} from '../services/observerLocationService';
+import { horizonMaskToCsv, parseHorizonMaskCsv } from '../utils/horizonMask';
+
+interface ObserverLocationSettingsProps {
+  onClose?: () => void;
+  className?: string;
+}
+
+interface LocationFormState {
+  name: string;
+  latitude: string;
+  longitude: string;
+  elevation: string;
+  timezone: string;
+}
+
+const EMPTY_FORM: LocationFormState = {
+  name: '',
+  latitude: '',
+  longitude: '',
+  elevation: '0',
+  timezone: 'Atlantic/Bermuda'
+};
+
+const ObserverLocationSettings: React.FC<ObserverLocationSettingsProps> = ({
+  onClose,
+  className = ''
+}) => {
+  const [state, setState] = useState<ObserverLocationState>(observerLocationService.getState());
+  const [form, setForm] = useState<LocationFormState>(EMPTY_FORM);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isLocating, setIsLocating] = useState(false);
+  const [maskText, setMaskText] = useState('');
+  const [maskErrors, setMaskErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    const unsubscribe = observerLocationService.subscribe(setState);
+    return unsubscribe;
+  }, []);
+
+  const activeMask = state.active.horizonMask;
+  useEffect(() => {
+    setMaskText(activeMask ? horizonMaskToCsv(activeMask) : '');
+    setMaskErrors([]);
+  }, [state.active.id, activeMask]);
+
+  const updateForm = (updates: Partial<LocationFormState>) => {
+    setForm(prev => ({ ...prev, ...updates }));
+    setErrors([]);
+  };
+
+  const handleUseDeviceLocation = () => {
+    if (!('geolocation' in navigator)) {
+      setErrors(['Geolocation is not supported by this browser']);
+      return;
+    }
+
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        updateForm({
+          name: form.name || 'My Location',
+          latitude: position.coords.latitude.toFixed(4),
+          longitude: position.coords.longitude.toFixed(4),
+          elevation: position.coords.altitude !== null ? Math.round(position.coords.altitude).toString() : form.elevation,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || form.timezone
+        });
+        setIsLocating(false);
+      },
+      () => {
+        setErrors(['Unable to read device location']);
+        setIsLocating(false);
+      }
+    );
+  };
+
+  const handleSave = () => {
+    const location = {
+      name: form.name,
+      latitude: parseFloat(form.latitude),
+      longitude: parseFloat(form.longitude),
+      elevation: parseFloat(form.elevation),
+      timezone: form.timezone.trim()
+    };
+
+    const validationErrors = validateObserverLocation(location);
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    observerLocationService.saveLocation(location);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSaveMask = (text: string) => {
+    const { mask, errors: parseErrors } = parseHorizonMaskCsv(text);
+    if (parseErrors.length > 0) {
+      setMaskErrors(parseErrors);
+      return;
+    }
+    observerLocationService.setHorizonMask(state.active.id, mask);
+  };
+
+  const handleImportMask = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = String(reader.result || '');
+      setMaskText(text);
+      handleSaveMask(text);
+    };
+    reader.onerror = () => setMaskErrors(['Unable to read CSV file']);
+    reader.readAsText(file);
+  };
+
+  const formatCoordinates = (latitude: number, longitude: number): string => {
+    const latText = `${Math.abs(latitude).toFixed(4)}°${latitude >= 0 ? 'N' : 'S'}`;
+    const lngText = `${Math.abs(longitude).toFixed(4)}°${longitude >= 0 ? 'E' : 'W'}`;
+    return `${latText}, ${lngText}`;
+  };
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-xl ${className}`}>
+      {/* Header */}
+      <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            📍 Viewing Location
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Visibility, sun and weather calculations use this location
+          </p>
+        </div>
+        {onClose && (
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 text-xl"
+          >
+            ×
+          </button>
+        )}
+      </div>
+
+      <div className="p-6 space-y-6">
+        {/* Saved Locations */}
+        <div>
+          <div className="font-medium text-gray-900 dark:text-white mb-3">
+            Saved Locations
+          </div>
+          <div className="space-y-2">
+            {state.saved.map(location => {
+              const isActive = location.id === state.active.id;
+              return (
+                <div
+                  key={location.id}
+                  className={`flex items-center justify-between p-3 rounded-lg border ${
+                    isActive
+                      ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                      : 'border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700'
+                  }`}
+                >
+                  <button
+                    onClick={() => observerLocationService.setActiveLocation(location.id)}
+                    className="flex-1 text-left"
+                  >
+                    <div className="font-medium text-gray-900 dark:text-white">
+                      {isActive && '✅ '}{location.name}
+                    </div>
+                    <div className="text-xs text-gray-600 dark:text-gray-400">
+                      {formatCoordinates(location.latitude, location.longitude)} • {location.elevation}m • {location.timezone}
+                    </div>
+                  </button>
+                  {observerLocationService.isCustomLocation(location.id) && (
+                    <button
+                      onClick={() => observerLocationService.removeLocation(location.id)}
+                      className="text-red-500 hover:text-red-700 text-sm px-2 py-1"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Custom Location */}
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+          <div className="font-medium text-gray-900 dark:text-white mb-3">
+            Add a Location
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="col-span-2 text-sm text-gray-600 dark:text-gray-400">
+              Name
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => updateForm({ name: e.target.value })}
+                placeholder="e.g. Back yard"
+                className="mt-1 w-full px-3 py-2 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+            </label>
+            <label className="text-sm text-gray-600 dark:text-gray-400">
+              Latitude (°)
+              <input
+                type="number"
+                step="0.0001"
+                value={form.latitude}
+                onChange={(e) => updateForm({ latitude: e.target.value })}
+                placeholder="32.3078"
+                className="mt-1 w-full px-3 py-2 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+            </label>
+            <label className="text-sm text-gray-600 dark:text-gray-400">
+              Longitude (°)
+              <input
+                type="number"
+                step="0.0001"
+                value={form.longitude}
+                onChange={(e) => updateForm({ longitude: e.target.value })}
+                placeholder="-64.7505"
+                className="mt-1 w-full px-3 py-2 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+            </label>
+            <label className="text-sm text-gray-600 dark:text-gray-400">
+              Elevation (m)
+              <input
+                type="number"
+                step="1"
+                value={form.elevation}
+                onChange={(e) => updateForm({ elevation: e.target.value })}
+                className="mt-1 w-full px-3 py-2 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+            </label>
+            <label className="text-sm text-gray-600 dark:text-gray-400">
+              Timezone (IANA)
+              <input
+                type="text"
+                value={form.timezone}
+                onChange={(e) => updateForm({ timezone: e.target.value })}
+                placeholder="Atlantic/Bermuda"
+                className="mt-1 w-full px-3 py-2 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+            </label>
+          </div>
+
+          {errors.length > 0 && (
+            <div className="mt-3 p-3 rounded-lg text-sm bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 border border-red-200 dark:border-red-800">
+              {errors.map(error => (
+                <div key={error}>• {error}</div>
+              ))}
+            </div>
+          )}
+
+          <div className="mt-4 flex gap-2">
+            <button
+              onClick={handleUseDeviceLocation}
+              disabled={isLocating}
+              className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-blue-500 hover:text-blue-500 rounded-lg transition-colors"
+            >
+              {isLocating ? '⏳ Locating...' : '🛰️ Use Device Location'}
+            </button>
+            <button
+              onClick={handleSave}
+              className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+            >
+              Save & Use
+            </button>
+          </div>
+        </div>
+
+        {/* Horizon Mask */}
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+          <div className="font-medium text-gray-900 dark:text-white mb-1">
+            Horizon Obstructions
+          </div>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+            Minimum visible elevation by compass bearing for {state.active.name}, one
+            "azimuth,elevation" pair per line. Leave empty for a clear sea horizon.
+          </p>
+          <textarea
+            value={maskText}
+            onChange={(e) => {
+              setMaskText(e.target.value);
+              setMaskErrors([]);
+            }}
+            rows={5}
+            placeholder={'azimuth,elevation\n200,4\n240,8\n280,3'}
+            className="w-full px-3 py-2 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-sm"
+          />
+
+          {maskErrors.length > 0 && (
+            <div className="mt-3 p-3 rounded-lg text-sm bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 border border-red-200 dark:border-red-800">
+              {maskErrors.map(error => (
+                <div key={error}>• {error}</div>
+              ))}
+            </div>
+          )}
+
+          <div className="mt-3 flex gap-2">
+            <label className="flex-1 px-4 py-2 text-center cursor-pointer border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-blue-500 hover:text-blue-500 rounded-lg transition-colors">
+              📄 Import CSV
+              <input type="file" accept=".csv,text/csv,text/plain" onChange={handleImportMask} className="hidden" />
+            </label>
+            <button
+              onClick={() => handleSaveMask(maskText)}
+              className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+            >
+              Save Mask
+            </button>
+          </div>
+          {activeMask && (
+            <div className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+              {activeMask.length} mask points • highest {Math.max(...activeMask.map(point => point.elevation))}°
+            </div>
+          )}
+        </div>
+
+        {/* Usage Tips */}
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+          <div className="font-medium text-gray-900 dark:text-white mb-2">
+            💡 Tips
+          </div>
+          <ul className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
+            <li>• Higher elevations see rockets lower on the horizon</li>
+            <li>• Launch visibility is recalculated after you switch locations</li>
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ObserverLocationSettings;
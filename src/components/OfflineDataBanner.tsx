@@ -0,0 +1,37 @@
+/**
+ * Offline Data Banner
+ * Tells the viewer that live tools are running from a saved snapshot and how old it is
+ */
+
+import React from 'react';
+import { formatLaunchTime } from '../utils/timeUtils';
+
+interface OfflineDataBannerProps {
+  capturedAt: number;
+  offline: boolean;
+}
+
+const OfflineDataBanner: React.FC<OfflineDataBannerProps> = ({ capturedAt, offline }) => {
+  const asOf = formatLaunchTime(new Date(capturedAt).toISOString()).bermudaTime;
+  const ageMinutes = Math.max(0, Math.round((Date.now() - capturedAt) / 60000));
+  const age = ageMinutes < 60 ? `${ageMinutes} min ago` : `${Math.round(ageMinutes / 60)} h ago`;
+
+  return (
+    <div
+      role="status"
+      className={`flex items-center gap-2 px-4 py-2 text-sm border-b ${
+        offline
+          ? 'bg-amber-100 text-amber-900 border-amber-300 dark:bg-amber-900/30 dark:text-amber-200 dark:border-amber-700'
+          : 'bg-blue-50 text-blue-900 border-blue-200 dark:bg-blue-900/20 dark:text-blue-200 dark:border-blue-800'
+      }`}
+    >
+      <span>{offline ? '📡' : '💾'}</span>
+      <span>
+        <span className="font-semibold">{offline ? 'Offline' : 'Saved data'}</span>
+        {' '}— data as of {asOf} ({age}). Launch time, trajectory and weather may have changed since.
+      </span>
+    </div>
+  );
+};
+
+export default OfflineDataBanner;
@@ -5,6 +5,7 @@
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { LaunchWithVisibility } from '../types';
+import { ProcessedSimulationData } from '../services/flightClubApiService';
 
 interface SkyTrackerProps {
   launch: LaunchWithVisibility;
@@ -12,6 +13,7 @@ interface SkyTrackerProps {
   showCompass?: boolean;
   showStars?: boolean;
   size?: number;
+  simulationData?: ProcessedSimulationData | null; // real telemetry (live or from an offline bundle)
 }
 
 interface SkyPosition {
@@ -32,12 +34,21 @@ const SkyTracker: React.FC<SkyTrackerProps> = ({
   currentPhase,
   showCompass = true,
   showStars = false,
-  size = 300
+  size = 300,
+  simulationData
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [deviceOrientation, setDeviceOrientation] = useState<DeviceOrientation | null>(null);
   const [permissionGranted, setPermissionGranted] = useState(false);
   const [rocketPosition, setRocketPosition] = useState<SkyPosition | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Telemetry positions follow the real clock
+  useEffect(() => {
+    if (!simulationData?.enhancedTelemetry?.length) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [simulationData]);
 
   // Request device orientation permission (iOS 13+)
   const requestOrientationPermission = useCallback(async () => {
@@ -57,6 +68,27 @@ const SkyTracker: React.FC<SkyTrackerProps> = ({
 
   // Calculate rocket position in sky
   const calculateRocketPosition = useCallback((): SkyPosition => {
+    const frames = simulationData?.enhancedTelemetry;
+    if (frames && frames.length > 0) {
+      const secondsFromLaunch = (now - new Date(launch.net).getTime()) / 1000;
+      const firstVisible = frames.find(frame => frame.nakedEyeVisible ?? frame.aboveHorizon);
+
+      // Before launch (or after the data ends) point at where the rocket first appears
+      const inFlight = secondsFromLaunch >= frames[0].time && secondsFromLaunch <= frames[frames.length - 1].time;
+      const frame = inFlight
+        ? frames.reduce((closest, candidate) =>
+            Math.abs(candidate.time - secondsFromLaunch) < Math.abs(closest.time - secondsFromLaunch) ? candidate : closest
+          )
+        : firstVisible || frames[0];
+
+      return {
+        azimuth: frame.bearingFromBermuda,
+        elevation: Math.max(0, Math.min(90, frame.elevationAngle)),
+        distance: frame.distanceFromBermuda,
+        visible: inFlight && (frame.nakedEyeVisible ?? frame.aboveHorizon)
+      };
+    }
+
     // Get bearing and elevation from launch visibility data
     const bearing = launch.visibility.bearing || 225; // Default southwest
     
@@ -96,7 +128,7 @@ const SkyTracker: React.FC<SkyTrackerProps> = ({
       elevation: Math.max(0, Math.min(90, elevation)),
       visible
     };
-  }, [launch.visibility.bearing, currentPhase]);
+  }, [launch.visibility.bearing, launch.net, currentPhase, simulationData, now]);
 
   // Update rocket position
   useEffect(() => {
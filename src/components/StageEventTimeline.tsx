@@ -7,12 +7,15 @@
 
 import React, { useMemo, useState } from 'react';
 import { ProcessedSimulationData, StageEvent, EnhancedTelemetryFrame } from '../services/flightClubApiService';
+import { Launch } from '../types';
+import { getVehicleProfile } from '../utils/vehicleCatalogue';
 
 interface StageEventTimelineProps {
   simulationData: ProcessedSimulationData;
   playbackTime: number;
   onTimeSelect?: (time: number) => void;
   darkMode?: boolean;
+  launch?: Launch; // picks engine names from the vehicle catalogue
 }
 
 interface EnhancedStageEvent extends StageEvent {
@@ -27,12 +30,14 @@ const StageEventTimeline: React.FC<StageEventTimelineProps> = ({
   simulationData,
   playbackTime,
   onTimeSelect,
-  darkMode = true
+  darkMode = true,
+  launch
 }) => {
   const [hoveredEvent, setHoveredEvent] = useState<string | null>(null);
   const [expandedEvent, setExpandedEvent] = useState<string | null>(null);
 
   const { stageEvents, enhancedTelemetry } = simulationData;
+  const vehicle = useMemo(() => getVehicleProfile(launch), [launch]);
 
   // Enhanced events with additional metadata
   const enhancedEvents = useMemo(() => {
@@ -74,7 +79,11 @@ const StageEventTimeline: React.FC<StageEventTimelineProps> = ({
       } else if (eventLower.includes('meco') || eventLower.includes('main engine cutoff')) {
         category = 'propulsion';
         importance = 'critical';
-        description = 'MECO - First stage engines cut off';
+        description = `MECO - First stage ${vehicle.firstStage.engines} cut off`;
+      } else if (eventLower.includes('booster') && vehicle.boosters) {
+        category = 'separation';
+        importance = 'major';
+        description = `Booster Separation - ${vehicle.boosters.engines} jettisoned`;
       } else if (eventLower.includes('sep') || eventLower.includes('separation')) {
         category = 'separation';
         importance = 'critical';
@@ -82,7 +91,7 @@ const StageEventTimeline: React.FC<StageEventTimelineProps> = ({
       } else if (eventLower.includes('seco') || eventLower.includes('second engine cutoff') || (eventLower.includes('cutoff') && event.stageNumber === 2)) {
         category = 'propulsion';
         importance = 'critical';
-        description = 'SECO - Second stage engine cutoff';
+        description = `SECO - ${vehicle.upperStage.engines} cutoff`;
       } else if (eventLower.includes('deploy') || eventLower.includes('fairing')) {
         category = 'deployment';
         importance = 'major';
@@ -90,7 +99,7 @@ const StageEventTimeline: React.FC<StageEventTimelineProps> = ({
       } else if (eventLower.includes('ignition') && event.stageNumber === 2) {
         category = 'propulsion';
         importance = 'major';
-        description = 'Second Stage Ignition';
+        description = `Second Stage Ignition - ${vehicle.upperStage.engines}`;
       }
 
       return {
@@ -104,7 +113,7 @@ const StageEventTimeline: React.FC<StageEventTimelineProps> = ({
     })
     .sort((a, b) => a.time - b.time)
     .filter(event => event.importance === 'critical' || event.importance === 'major'); // Show only critical and major events
-  }, [stageEvents, enhancedTelemetry]);
+  }, [stageEvents, enhancedTelemetry, vehicle]);
 
   // Timeline scale
   const maxTime = useMemo(() => {
@@ -174,7 +183,7 @@ const StageEventTimeline: React.FC<StageEventTimelineProps> = ({
       <div className="flex items-center justify-between">
         <h2 className="text-2xl font-bold">Mission Timeline</h2>
         <div className={`text-sm ${theme.textSecondary}`}>
-          {enhancedEvents.length} key events • Second stage to orbit
+          {vehicle.name} • {enhancedEvents.length} key events • Second stage to orbit
         </div>
       </div>
 
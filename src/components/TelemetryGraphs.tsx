@@ -7,9 +7,12 @@
 
 import React, { useRef, useEffect, useMemo, useCallback, useState } from 'react';
 import { ProcessedSimulationData } from '../services/flightClubApiService';
+import { BrightnessTimelineService } from '../services/brightnessTimelineService';
+import { Launch } from '../types';
 
 interface TelemetryGraphsProps {
   simulationData: ProcessedSimulationData;
+  launch?: Launch; // enables the brightness graph (needs launch time and vehicle)
   playbackTime: number;
   onTimeSelect?: (time: number) => void;
   darkMode?: boolean;
@@ -22,10 +25,16 @@ interface GraphDataset {
   unit: string;
   scale?: 'linear' | 'log';
   yAxisLabel: string;
+  invertY?: boolean; // magnitudes: smaller values plot higher
+  overlays?: { name: string; data: { x: number; y: number }[]; color: string; dashed?: boolean }[];
 }
 
+// Points further apart than this (seconds) are drawn as separate line segments
+const GAP_THRESHOLD = 2;
+
 const TelemetryGraphs: React.FC<TelemetryGraphsProps> = ({
   simulationData,
+  launch,
   playbackTime,
   onTimeSelect,
   darkMode = true
@@ -34,6 +43,7 @@ const TelemetryGraphs: React.FC<TelemetryGraphsProps> = ({
   const speedCanvasRef = useRef<HTMLCanvasElement>(null);
   const distanceCanvasRef = useRef<HTMLCanvasElement>(null);
   const elevationCanvasRef = useRef<HTMLCanvasElement>(null);
+  const brightnessCanvasRef = useRef<HTMLCanvasElement>(null);
   
   const [hoveredGraph, setHoveredGraph] = useState<string | null>(null);
 
@@ -112,6 +122,38 @@ const TelemetryGraphs: React.FC<TelemetryGraphsProps> = ({
     };
   }, [enhancedTelemetry]);
 
+  // Apparent magnitude of vehicle and plume (needs launch time for sunlight)
+  const brightness = useMemo(() => {
+    if (!launch || !enhancedTelemetry.length) return null;
+
+    const samples = BrightnessTimelineService.buildTimeline(simulationData, launch);
+    const toPoints = (key: 'combinedMagnitude' | 'vehicleMagnitude' | 'plumeMagnitude') => samples
+      .filter(sample => sample.aboveHorizon && sample[key] !== null)
+      .map(sample => ({ x: sample.time, y: sample[key] as number }));
+
+    const dataset: GraphDataset = {
+      name: 'Apparent Brightness',
+      data: toPoints('combinedMagnitude'),
+      color: '#ffffff',
+      unit: 'mag',
+      yAxisLabel: 'Magnitude (brighter ↑)',
+      scale: 'linear',
+      invertY: true,
+      overlays: [
+        { name: 'Vehicle', data: toPoints('vehicleMagnitude'), color: '#ff9f43' },
+        { name: 'Plume', data: toPoints('plumeMagnitude'), color: '#a29bfe' },
+        {
+          name: 'Naked-eye limit',
+          data: samples.map(sample => ({ x: sample.time, y: sample.limitingMagnitude })),
+          color: '#00ff88',
+          dashed: true
+        }
+      ]
+    };
+
+    return { dataset, summary: BrightnessTimelineService.summarize(samples) };
+  }, [launch, simulationData, enhancedTelemetry.length]);
+
   // Draw individual graph
   const drawGraph = useCallback((
     canvas: HTMLCanvasElement,
@@ -131,15 +173,18 @@ const TelemetryGraphs: React.FC<TelemetryGraphsProps> = ({
     ctx.fillRect(0, 0, width, height);
 
     // Calculate data ranges
-    const maxTime = Math.max(...dataset.data.map(d => d.x));
-    const minTime = Math.min(...dataset.data.map(d => d.x));
-    const maxValue = Math.max(...dataset.data.map(d => d.y));
-    const minValue = Math.min(...dataset.data.map(d => d.y), 0);
-    const valueRange = maxValue - minValue;
+    const allPoints = [...dataset.data, ...(dataset.overlays || []).flatMap(overlay => overlay.data)];
+    const maxTime = Math.max(...allPoints.map(d => d.x));
+    const minTime = Math.min(...allPoints.map(d => d.x));
+    const maxValue = Math.max(...allPoints.map(d => d.y));
+    const minValue = Math.min(...allPoints.map(d => d.y), 0);
+    const valueRange = maxValue - minValue || 1;
 
     // Helper functions
     const timeToX = (time: number) => padding.left + (time - minTime) / (maxTime - minTime) * graphWidth;
-    const valueToY = (value: number) => padding.top + graphHeight - (value - minValue) / valueRange * graphHeight;
+    const valueToY = (value: number) => dataset.invertY
+      ? padding.top + (value - minValue) / valueRange * graphHeight
+      : padding.top + graphHeight - (value - minValue) / valueRange * graphHeight;
 
     // Grid lines removed - cleaner appearance without visual clutter
 
@@ -212,6 +257,25 @@ const TelemetryGraphs: React.FC<TelemetryGraphsProps> = ({
       }
     });
 
+    // Draw overlay lines beneath the main series
+    (dataset.overlays || []).forEach(overlay => {
+      ctx.strokeStyle = overlay.color;
+      ctx.lineWidth = 1.5;
+      ctx.setLineDash(overlay.dashed ? [6, 4] : []);
+      ctx.beginPath();
+      overlay.data.forEach((point, index) => {
+        const x = timeToX(point.x);
+        const y = valueToY(point.y);
+        if (index === 0 || point.x - overlay.data[index - 1].x > GAP_THRESHOLD) {
+          ctx.moveTo(x, y);
+        } else {
+          ctx.lineTo(x, y);
+        }
+      });
+      ctx.stroke();
+      ctx.setLineDash([]);
+    });
+
     // Draw data line
     ctx.strokeStyle = dataset.color;
     ctx.lineWidth = 2;
@@ -221,7 +285,7 @@ const TelemetryGraphs: React.FC<TelemetryGraphsProps> = ({
       const x = timeToX(point.x);
       const y = valueToY(point.y);
       
-      if (index === 0) {
+      if (index === 0 || (dataset.overlays && point.x - dataset.data[index - 1].x > GAP_THRESHOLD)) {
         ctx.moveTo(x, y);
       } else {
         ctx.lineTo(x, y);
@@ -362,6 +426,12 @@ const TelemetryGraphs: React.FC<TelemetryGraphsProps> = ({
     }
   }, [drawGraph, datasets.elevation]);
 
+  useEffect(() => {
+    if (brightnessCanvasRef.current && brightness) {
+      drawGraph(brightnessCanvasRef.current, brightness.dataset, 'brightness');
+    }
+  }, [drawGraph, brightness]);
+
   if (!enhancedTelemetry.length) {
     return (
       <div className={`p-8 text-center ${darkMode ? 'text-white bg-gray-900' : 'text-gray-600 bg-gray-50'} rounded-lg`}>
@@ -451,6 +521,27 @@ const TelemetryGraphs: React.FC<TelemetryGraphsProps> = ({
             }
           </div>
         </div>
+
+        {/* Apparent Brightness Graph */}
+        {brightness && brightness.dataset.data.length > 0 && (
+          <div className="space-y-2 lg:col-span-2">
+            <canvas
+              ref={brightnessCanvasRef}
+              width={1200}
+              height={300}
+              className="w-full h-auto rounded cursor-crosshair"
+              onClick={(e) => handleCanvasClick(e, brightness.dataset)}
+              onMouseEnter={() => setHoveredGraph('brightness')}
+              onMouseLeave={() => setHoveredGraph(null)}
+            />
+            <div className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'} text-center`}>
+              {brightness.summary.peakMagnitude !== null
+                ? `Peak brightness: magnitude ${brightness.summary.peakMagnitude.toFixed(1)} at T+${brightness.summary.peakTime}s • ${brightness.summary.visibleSeconds}s brighter than the naked-eye limit`
+                : 'Never brighter than the naked-eye limit from this location'
+              }
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Legend and Controls */}
@@ -468,6 +559,22 @@ const TelemetryGraphs: React.FC<TelemetryGraphsProps> = ({
             <div className="w-4 h-3 bg-green-400 opacity-20"></div>
             <span className={darkMode ? 'text-gray-300' : 'text-gray-600'}>Visible from Bermuda</span>
           </div>
+          {brightness && (
+            <>
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-0.5" style={{ backgroundColor: '#ff9f43' }}></div>
+                <span className={darkMode ? 'text-gray-300' : 'text-gray-600'}>Vehicle</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-0.5" style={{ backgroundColor: '#a29bfe' }}></div>
+                <span className={darkMode ? 'text-gray-300' : 'text-gray-600'}>Sunlit Plume</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-0.5 bg-green-400" style={{ borderStyle: 'dashed' }}></div>
+                <span className={darkMode ? 'text-gray-300' : 'text-gray-600'}>Naked-eye Limit</span>
+              </div>
+            </>
+          )}
         </div>
         
         {hoveredGraph && (
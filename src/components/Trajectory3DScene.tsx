@@ -11,6 +11,7 @@ import { OrbitControls, Line, Text, Sphere } from '@react-three/drei';
 import * as THREE from 'three';
 import { ProcessedSimulationData } from '../services/flightClubApiService';
 import { PlatformInfo } from '../utils/platformUtils';
+import { getObserverLocation } from '../services/observerLocationService';
 
 interface Trajectory3DSceneProps {
   simulationData: ProcessedSimulationData;
@@ -23,8 +24,12 @@ interface Trajectory3DSceneProps {
 
 // Constants
 const EARTH_RADIUS = 100;
-const BERMUDA_LAT = 32.3078;
-const BERMUDA_LNG = -64.7505;
+
+// Active observer position on the globe
+function observerToVector3(): THREE.Vector3 {
+  const observer = getObserverLocation();
+  return latLngAltToVector3(observer.latitude, observer.longitude, 0);
+}
 
 // Convert lat/lng/altitude to 3D coordinates
 function latLngAltToVector3(lat: number, lng: number, alt: number): THREE.Vector3 {
@@ -67,7 +72,7 @@ const SimpleEarth: React.FC = () => {
 
 // Bermuda marker
 const BermudaMarker: React.FC = () => {
-  const position = latLngAltToVector3(BERMUDA_LAT, BERMUDA_LNG, 0);
+  const position = observerToVector3();
 
   return (
     <group position={position}>
@@ -231,7 +236,7 @@ const EventMarkers: React.FC<{
 
 // Visibility cone from Bermuda
 const VisibilityCone: React.FC = () => {
-  const bermudaPos = latLngAltToVector3(BERMUDA_LAT, BERMUDA_LNG, 0);
+  const bermudaPos = observerToVector3();
 
   // Create cone geometry pointing away from Bermuda
   const coneGeometry = useMemo(() => {
@@ -264,7 +269,7 @@ const Trajectory3DScene: React.FC<Trajectory3DSceneProps> = ({
 
   // Camera position based on view mode
   const cameraPosition = useMemo((): [number, number, number] => {
-    const bermudaPos = latLngAltToVector3(BERMUDA_LAT, BERMUDA_LNG, 0);
+    const bermudaPos = observerToVector3();
 
     switch (viewMode) {
       case 'bermuda-pov':
@@ -0,0 +1,296 @@
+/**
+ * Trajectory Override Editor Component
+ * Lets users correct the trajectory for one launch with an azimuth, a direction
+ * or a ground track, and share corrections as JSON
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Launch, TrajectoryOverride } from '../types';
+import {
+  OVERRIDE_DIRECTIONS,
+  TrajectoryOverrideImportResult,
+  trajectoryOverrideService,
+  validateTrajectoryOverride
+} from '../services/trajectoryOverrideService';
+import { getTrajectoryMapping } from '../services/trajectoryMappingService';
+import { GroundTrackImportResult, GroundTrackImportService } from '../services/groundTrackImportService';
+import { groundTrackToCsv, parseGroundTrackCsv } from '../utils/groundTrack';
+
+interface TrajectoryOverrideEditorProps {
+  launch: Launch;
+  onClose?: () => void;
+  className?: string;
+}
+
+interface OverrideFormState {
+  azimuth: string;
+  direction: string;
+  groundTrack: string;
+  note: string;
+}
+
+const toFormState = (override?: TrajectoryOverride): OverrideFormState => ({
+  azimuth: override?.azimuth !== undefined ? override.azimuth.toString() : '',
+  direction: override?.direction || '',
+  groundTrack: override?.groundTrack ? groundTrackToCsv(override.groundTrack) : '',
+  note: override?.note || ''
+});
+
+const TrajectoryOverrideEditor: React.FC<TrajectoryOverrideEditorProps> = ({
+  launch,
+  onClose,
+  className = ''
+}) => {
+  const [overrides, setOverrides] = useState<TrajectoryOverride[]>(trajectoryOverrideService.getOverrides());
+  const [form, setForm] = useState<OverrideFormState>(toFormState(trajectoryOverrideService.getOverride(launch.id)));
+  const [errors, setErrors] = useState<string[]>([]);
+  const [importResult, setImportResult] = useState<TrajectoryOverrideImportResult | null>(null);
+  const [trackImport, setTrackImport] = useState<GroundTrackImportResult | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = trajectoryOverrideService.subscribe(setOverrides);
+    return unsubscribe;
+  }, []);
+
+  const current = overrides.find(override => override.launchId === launch.id);
+  useEffect(() => {
+    setForm(toFormState(current));
+    setErrors([]);
+  }, [current]);
+
+  const mapping = getTrajectoryMapping(launch);
+
+  const updateForm = (updates: Partial<OverrideFormState>) => {
+    setForm(prev => ({ ...prev, ...updates }));
+    setErrors([]);
+  };
+
+  const handleSave = async () => {
+    const { track, errors: parseErrors } = parseGroundTrackCsv(form.groundTrack);
+    if (parseErrors.length > 0) {
+      setErrors(parseErrors);
+      return;
+    }
+
+    // An imported file stays credited until its track is edited
+    const trackUnchanged = form.groundTrack === toFormState(current).groundTrack;
+    const override = {
+      launchId: launch.id,
+      missionName: launch.mission.name,
+      azimuth: form.azimuth.trim() ? parseFloat(form.azimuth) : undefined,
+      direction: (form.direction || undefined) as TrajectoryOverride['direction'],
+      groundTrack: track.length > 0 ? GroundTrackImportService.completeGroundTrack(track, launch) : undefined,
+      groundTrackFile: trackUnchanged ? current?.groundTrackFile : undefined,
+      note: form.note
+    };
+
+    const validationErrors = validateTrajectoryOverride(override);
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    await trajectoryOverrideService.saveOverride(override);
+  };
+
+  const handleImportTrack = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = async () => {
+      const result = await GroundTrackImportService.importGroundTrack(launch, file.name, String(reader.result || ''));
+      setTrackImport(result);
+      setErrors(result.errors);
+    };
+    reader.onerror = () => setErrors([`Unable to read ${file.name}`]);
+    reader.readAsText(file);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([trajectoryOverrideService.exportOverrides()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `trajectory-overrides-${new Date().toISOString().split('T')[0]}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = async () => {
+      try {
+        setImportResult(await trajectoryOverrideService.importOverrides(String(reader.result || '')));
+      } catch (error) {
+        setImportResult(null);
+        setErrors([error instanceof Error ? error.message : 'Unable to import overrides']);
+      }
+    };
+    reader.onerror = () => setErrors(['Unable to read JSON file']);
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-xl ${className}`}>
+      {/* Header */}
+      <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            ✏️ Correct Trajectory
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {launch.mission.name} • currently {mapping.direction} at {Math.round(mapping.azimuth)}° ({mapping.source})
+          </p>
+        </div>
+        {onClose && (
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 text-xl"
+          >
+            ×
+          </button>
+        )}
+      </div>
+
+      <div className="p-6 space-y-6">
+        {/* Override Form */}
+        <div>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm text-gray-600 dark:text-gray-400">
+              Azimuth (°)
+              <input
+                type="number"
+                step="0.1"
+                value={form.azimuth}
+                onChange={(e) => updateForm({ azimuth: e.target.value })}
+                placeholder="e.g. 52"
+                className="mt-1 w-full px-3 py-2 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+            </label>
+            <label className="text-sm text-gray-600 dark:text-gray-400">
+              Direction
+              <select
+                value={form.direction}
+                onChange={(e) => updateForm({ direction: e.target.value })}
+                className="mt-1 w-full px-3 py-2 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              >
+                <option value="">Not set</option>
+                {OVERRIDE_DIRECTIONS.map(direction => (
+                  <option key={direction} value={direction}>{direction}</option>
+                ))}
+              </select>
+            </label>
+            <label className="col-span-2 text-sm text-gray-600 dark:text-gray-400">
+              Ground track (optional), one "time,latitude,longitude,altitude_km" point per line;
+              time and altitude can be left out and are estimated from the vehicle's ascent
+              <textarea
+                value={form.groundTrack}
+                onChange={(e) => updateForm({ groundTrack: e.target.value })}
+                rows={5}
+                placeholder={'time,latitude,longitude,altitude_km\n0,28.56,-80.58,0\n180,30.1,-78.9,120\n480,32.0,-75.2,210'}
+                className="mt-1 w-full px-3 py-2 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-sm"
+              />
+            </label>
+            <label className="col-span-2 text-sm text-gray-600 dark:text-gray-400">
+              Note
+              <input
+                type="text"
+                value={form.note}
+                onChange={(e) => updateForm({ note: e.target.value })}
+                placeholder="e.g. Southeast corridor per the launch provider's press kit"
+                className="mt-1 w-full px-3 py-2 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+            </label>
+          </div>
+
+          {errors.length > 0 && (
+            <div className="mt-3 p-3 rounded-lg text-sm bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 border border-red-200 dark:border-red-800">
+              {errors.map(error => (
+                <div key={error}>• {error}</div>
+              ))}
+            </div>
+          )}
+
+          <div className="mt-4 flex gap-2">
+            {current && (
+              <button
+                onClick={() => trajectoryOverrideService.removeOverride(launch.id)}
+                className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-red-500 hover:border-red-500 hover:text-red-700 rounded-lg transition-colors"
+              >
+                Remove Override
+              </button>
+            )}
+            <button
+              onClick={handleSave}
+              className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+            >
+              Save Override
+            </button>
+          </div>
+          <label className="mt-2 block px-4 py-2 text-center cursor-pointer border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-blue-500 hover:text-blue-500 rounded-lg transition-colors">
+            🗺️ Import Ground Track (GPX, KML or CSV)
+            <input type="file" accept=".gpx,.kml,.csv,.txt,text/csv,text/plain,application/gpx+xml,application/vnd.google-earth.kml+xml" onChange={handleImportTrack} className="hidden" />
+          </label>
+          {trackImport?.override && (
+            <div className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+              Imported {trackImport.override.groundTrack?.length} points
+              {trackImport.estimatedTimes > 0 && ` • ${trackImport.estimatedTimes} times estimated`}
+              {trackImport.estimatedAltitudes > 0 && ` • ${trackImport.estimatedAltitudes} altitudes estimated`}
+            </div>
+          )}
+          {current && (
+            <div className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+              Override saved {new Date(current.updatedAt).toLocaleString()}
+              {current.groundTrackFile && ` • ground track from ${current.groundTrackFile.name}`}
+            </div>
+          )}
+        </div>
+
+        {/* Share */}
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+          <div className="font-medium text-gray-900 dark:text-white mb-1">
+            Share Corrections
+          </div>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+            {overrides.length} override{overrides.length === 1 ? '' : 's'} saved on this device.
+            Imported overrides replace older local ones for the same launch.
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={handleExport}
+              disabled={overrides.length === 0}
+              className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-blue-500 hover:text-blue-500 rounded-lg transition-colors disabled:opacity-50"
+            >
+              💾 Export JSON
+            </button>
+            <label className="flex-1 px-4 py-2 text-center cursor-pointer border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-blue-500 hover:text-blue-500 rounded-lg transition-colors">
+              📄 Import JSON
+              <input type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+            </label>
+          </div>
+
+          {importResult && (
+            <div className="mt-3 p-3 rounded-lg text-sm bg-blue-50 dark:bg-blue-900/20 text-blue-800 dark:text-blue-200 border border-blue-200 dark:border-blue-800">
+              <div>Imported {importResult.imported} override{importResult.imported === 1 ? '' : 's'}</div>
+              {importResult.skipped.map(reason => (
+                <div key={reason}>• Skipped {reason}</div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrajectoryOverrideEditor;
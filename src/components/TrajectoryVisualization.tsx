@@ -6,6 +6,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { LaunchWithVisibility, TrajectoryPoint } from '../types';
 import { getTrajectoryData, TrajectoryData } from '../services/trajectoryService';
+import { getObserverLocation } from '../services/observerLocationService';
 
 
 interface TrajectoryVisualizationProps {
@@ -113,6 +114,11 @@ export default function TrajectoryVisualization({
             maxLat = Math.max(maxLat, 45.0); // Extend to Maine for full East Coast coverage
             minLon = Math.min(minLon, -82.0); // Ensure Florida included
             maxLon = Math.max(maxLon, -62.0); // Ensure Bermuda included
+            const observer = getObserverLocation();
+            minLat = Math.min(minLat, observer.latitude - 2); // Ensure observer included
+            maxLat = Math.max(maxLat, observer.latitude + 2);
+            minLon = Math.min(minLon, observer.longitude - 2);
+            maxLon = Math.max(maxLon, observer.longitude + 2);
           }
         }
       }
@@ -126,8 +132,9 @@ export default function TrajectoryVisualization({
     const lonRange = maxLon - minLon;
 
     // Key coordinates
-    const bermudaLat = 32.30;
-    const bermudaLon = -64.78;
+    const observer = getObserverLocation();
+    const bermudaLat = observer.latitude;
+    const bermudaLon = observer.longitude;
     const launchPadLat = 28.60; // Cape Canaveral approximate
     const launchPadLon = -80.60;
 
@@ -560,7 +567,7 @@ export default function TrajectoryVisualization({
               <div className="flex items-center justify-between">
                 <span className="text-gray-300">Data Source:</span>
                 <span className="font-medium text-white capitalize">
-                  {trajectoryData.source === 'none' ? 'Simulated' : trajectoryData.source}
+                  {trajectoryData.source === 'none' ? 'Simulated' : trajectoryData.source === 'ground-track' ? 'Imported ground track' : trajectoryData.source}
                   {trajectoryData.realTelemetry && (
                     <span className="ml-1 text-xs bg-green-600 px-2 py-1 rounded text-white">
                       Real Telemetry
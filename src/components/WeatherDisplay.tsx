@@ -1,14 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { WeatherService, WeatherData, LaunchWeatherAssessment } from '../services/weatherService';
-import { LaunchWithVisibility } from '../types';
+import { SightlineCloudService } from '../services/sightlineCloudService';
+import type { EnhancedTelemetryFrame } from '../services/flightClubApiService';
+import { EnhancedVisibilityData, LaunchWithVisibility } from '../types';
 import { formatTemperature } from '../utils/temperatureUtils';
 
 interface WeatherDisplayProps {
   launch?: LaunchWithVisibility;
   showDetailed?: boolean;
+  // Stored weather from an offline bundle; used instead of fetching
+  snapshot?: { current: WeatherData | null; forecast: LaunchWeatherAssessment | null };
+  // Simulated trajectory; gives the sightline check real bearings and elevations
+  telemetry?: EnhancedTelemetryFrame[];
 }
 
-const WeatherDisplay: React.FC<WeatherDisplayProps> = ({ launch, showDetailed = false }) => {
+const WeatherDisplay: React.FC<WeatherDisplayProps> = ({ launch, showDetailed = false, snapshot, telemetry }) => {
   const [weather, setWeather] = useState<WeatherData | null>(null);
   const [launchWeather, setLaunchWeather] = useState<LaunchWeatherAssessment | null>(null);
   const [loading, setLoading] = useState(true);
@@ -16,6 +22,14 @@ const WeatherDisplay: React.FC<WeatherDisplayProps> = ({ launch, showDetailed =
 
   useEffect(() => {
     const loadWeather = async () => {
+      if (snapshot) {
+        setWeather(snapshot.current);
+        setLaunchWeather(snapshot.forecast);
+        setError(snapshot.current ? null : 'No weather data saved for offline use');
+        setLoading(false);
+        return;
+      }
+
       try {
         setLoading(true);
         setError(null);
@@ -24,7 +38,16 @@ const WeatherDisplay: React.FC<WeatherDisplayProps> = ({ launch, showDetailed =
         setWeather(currentWeather);
 
         if (launch) {
-          const launchAssessment = await WeatherService.getWeatherForLaunch(new Date(launch.net));
+          const launchTime = new Date(launch.net);
+          const visibleWindow = (launch.visibility as EnhancedVisibilityData).visibilityWindow;
+          const sightline = await SightlineCloudService.assess(launchTime, {
+            frames: telemetry,
+            bearing: launch.visibility.bearing
+          }).catch(sightlineError => {
+            console.warn('[Weather] Sightline cloud check failed:', sightlineError);
+            return null;
+          });
+          const launchAssessment = await WeatherService.getWeatherForLaunch(launchTime, visibleWindow, sightline);
           setLaunchWeather(launchAssessment);
         }
       } catch (err) {
@@ -36,7 +59,7 @@ const WeatherDisplay: React.FC<WeatherDisplayProps> = ({ launch, showDetailed =
     };
 
     loadWeather();
-  }, [launch]);
+  }, [launch, snapshot, telemetry]);
 
   if (loading) {
     return (
@@ -153,7 +176,7 @@ const WeatherDisplay: React.FC<WeatherDisplayProps> = ({ launch, showDetailed =
       {showDetailed && (
         <div className="space-y-3">
           {/* Weather Factors */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div className={`grid grid-cols-1 gap-3 ${launchWeather.factors.sightline ? 'md:grid-cols-2 lg:grid-cols-4' : 'md:grid-cols-3'}`}>
             <div className="bg-white dark:bg-gray-800 rounded p-3">
               <div className="flex items-center justify-between mb-1">
                 <span className="text-xs font-medium text-gray-600 dark:text-gray-400">CLOUD COVER</span>
@@ -164,6 +187,11 @@ const WeatherDisplay: React.FC<WeatherDisplayProps> = ({ launch, showDetailed =
               <div className="text-lg font-bold text-gray-900 dark:text-white">
                 {Math.round(launchWeather.factors.cloudCover.value)}%
               </div>
+              {launchWeather.factors.cloudCover.layers && (
+                <div className="text-xs text-gray-600 dark:text-gray-400">
+                  Low {Math.round(launchWeather.factors.cloudCover.layers.low)}% • Mid {Math.round(launchWeather.factors.cloudCover.layers.mid)}% • High {Math.round(launchWeather.factors.cloudCover.layers.high)}%
+                </div>
+              )}
               <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
                 {launchWeather.factors.cloudCover.impact}
               </div>
@@ -198,11 +226,30 @@ const WeatherDisplay: React.FC<WeatherDisplayProps> = ({ launch, showDetailed =
                 {launchWeather.factors.precipitation.impact}
               </div>
             </div>
+
+            {launchWeather.factors.sightline && (
+              <div className="bg-white dark:bg-gray-800 rounded p-3">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-xs font-medium text-gray-600 dark:text-gray-400">SIGHTLINE CLARITY</span>
+                  <span className={`text-xs font-medium ${getRatingColor(launchWeather.factors.sightline.rating)}`}>
+                    {launchWeather.factors.sightline.rating.toUpperCase()}
+                  </span>
+                </div>
+                <div className="text-lg font-bold text-gray-900 dark:text-white">
+                  {Math.round(launchWeather.factors.sightline.clarity)}%
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {launchWeather.factors.sightline.impact}
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Detailed Forecast */}
           <div className="bg-white dark:bg-gray-800 rounded p-3">
-            <h4 className="text-sm font-medium text-gray-600 dark:text-gray-400 mb-2">DETAILED FORECAST</h4>
+            <h4 className="text-sm font-medium text-gray-600 dark:text-gray-400 mb-2">
+              {launchWeather.source === 'forecast' ? 'HOURLY FORECAST AT LAUNCH' : 'DETAILED FORECAST'}
+            </h4>
             <p className="text-sm text-gray-700 dark:text-gray-300">
               {launchWeather.detailedForecast}
             </p>
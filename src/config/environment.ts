@@ -51,6 +51,18 @@ export const apiConfig = {
   },
 };
 
+// Visibility model configuration
+export const visibilityConfig = {
+  // Elevation (degrees) below which a thick marine layer hides the rocket; lighter haze scales it down
+  hazeElevationLimit: Number(process.env.REACT_APP_HAZE_ELEVATION_LIMIT) || 8,
+};
+
+// Launch schedule configuration
+export const scheduleConfig = {
+  // Hours from a scrub to the next attempt for non-ISS launches (propellant reload and range turnaround)
+  scrubRecycleHours: Number(process.env.REACT_APP_SCRUB_RECYCLE_HOURS) || 48,
+};
+
 // Export helper functions
 export const isLocal = () => window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1';
 export const isProduction = () => process.env.NODE_ENV === 'production';
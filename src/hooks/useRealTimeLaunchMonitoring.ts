@@ -173,7 +173,7 @@ export function useRealTimeLaunchMonitoring(
       
       // Update launch with impact analysis
       updatedLaunch.delayImpact = impactAnalysis;
-      
+
       // Update tracked launches
       setTrackedLaunches(prev => {
         const newTracked = [...prev];
@@ -0,0 +1,33 @@
+/**
+ * Service Worker Registration
+ * Registers public/service-worker.js in production builds so the app shell
+ * loads without connectivity. Development builds skip it to avoid stale bundles.
+ */
+
+export function register(): void {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) {
+    return;
+  }
+
+  window.addEventListener('load', () => {
+    const swUrl = `${process.env.PUBLIC_URL}/service-worker.js`;
+    navigator.serviceWorker
+      .register(swUrl)
+      .then(registration => {
+        console.log('[ServiceWorker] Registered with scope:', registration.scope);
+      })
+      .catch(error => {
+        console.error('[ServiceWorker] Registration failed:', error);
+      });
+  });
+}
+
+export function unregister(): void {
+  if ('serviceWorker' in navigator) {
+    navigator.serviceWorker.ready
+      .then(registration => registration.unregister())
+      .catch(error => {
+        console.error('[ServiceWorker] Unregister failed:', error);
+      });
+  }
+}
@@ -12,6 +12,7 @@ import { getAccurateSunTimes } from '../utils/accurateSunTimes';
 import { getBermudaTimeZone } from '../utils/bermudaTimeZone';
 import { getLaunchTimingInfo, LaunchTimingInfo } from '../utils/launchTimingUtils';
 import { getTrajectoryMapping } from './trajectoryMappingService';
+import { getObserverLocation } from './observerLocationService';
 
 export interface PlumeVisibilityWindow {
   isVisible: boolean;
@@ -23,8 +24,6 @@ export interface PlumeVisibilityWindow {
 }
 
 export class ExhaustPlumeVisibilityCalculator {
-  private static readonly BERMUDA_LAT = 32.3078;
-  private static readonly BERMUDA_LNG = -64.7505;
 
   /**
    * Calculate visibility using exhaust plume illumination physics
@@ -102,16 +101,17 @@ export class ExhaustPlumeVisibilityCalculator {
    * Determine visibility window based on exhaust plume illumination physics
    */
   private static determinePlumeWindow(launchTime: Date, sunTimes: USNOSolarData): PlumeVisibilityWindow {
-    // Convert UTC launch time to Bermuda local time for comparison
-    const bermudaLaunchTime = new Date(launchTime.toLocaleString('en-US', { timeZone: 'Atlantic/Bermuda' }));
+    // Convert UTC launch time to observer local time for comparison
+    const timeZone = getObserverLocation().timezone;
+    const bermudaLaunchTime = new Date(launchTime.toLocaleString('en-US', { timeZone }));
     const launchMinutes = bermudaLaunchTime.getHours() * 60 + bermudaLaunchTime.getMinutes();
     
     // Ensure both launch time and sun times are compared in the same timezone context
     // Parse sun times from strings and convert to local time
     const sunsetTime = new Date(`${sunTimes.date} ${sunTimes.sunset}`);
     const sunriseTime = new Date(`${sunTimes.date} ${sunTimes.sunrise}`);
-    const sunsetLocalTime = new Date(sunsetTime.toLocaleString('en-US', { timeZone: 'Atlantic/Bermuda' }));
-    const sunriseLocalTime = new Date(sunriseTime.toLocaleString('en-US', { timeZone: 'Atlantic/Bermuda' }));
+    const sunsetLocalTime = new Date(sunsetTime.toLocaleString('en-US', { timeZone }));
+    const sunriseLocalTime = new Date(sunriseTime.toLocaleString('en-US', { timeZone }));
     
     const sunsetMinutes = sunsetLocalTime.getHours() * 60 + sunsetLocalTime.getMinutes();
     const sunriseMinutes = sunriseLocalTime.getHours() * 60 + sunriseLocalTime.getMinutes();
@@ -285,11 +285,13 @@ export class ExhaustPlumeVisibilityCalculator {
     const padLat = parseFloat(launch.pad.latitude || launch.pad.location.latitude?.toString() || '28.5');
     const padLng = parseFloat(launch.pad.longitude || launch.pad.location.longitude?.toString() || '-80.5');
     
+    const observer = getObserverLocation();
+    
     const R = 6371; // Earth's radius in km
-    const dLat = (this.BERMUDA_LAT - padLat) * Math.PI / 180;
-    const dLng = (this.BERMUDA_LNG - padLng) * Math.PI / 180;
+    const dLat = (observer.latitude - padLat) * Math.PI / 180;
+    const dLng = (observer.longitude - padLng) * Math.PI / 180;
     const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(padLat * Math.PI / 180) * Math.cos(this.BERMUDA_LAT * Math.PI / 180) *
+      Math.cos(padLat * Math.PI / 180) * Math.cos(observer.latitude * Math.PI / 180) *
       Math.sin(dLng / 2) * Math.sin(dLng / 2);
     const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
     return R * c;
@@ -299,8 +301,10 @@ export class ExhaustPlumeVisibilityCalculator {
     const padLat = parseFloat(launch.pad.latitude || launch.pad.location.latitude?.toString() || '28.5');
     const padLng = parseFloat(launch.pad.longitude || launch.pad.location.longitude?.toString() || '-80.5');
     
-    const dLng = (padLng - this.BERMUDA_LNG) * Math.PI / 180;
-    const lat1 = this.BERMUDA_LAT * Math.PI / 180;
+    const observer = getObserverLocation();
+    
+    const dLng = (padLng - observer.longitude) * Math.PI / 180;
+    const lat1 = observer.latitude * Math.PI / 180;
     const lat2 = padLat * Math.PI / 180;
     
     const y = Math.sin(dLng) * Math.cos(lat2);
@@ -312,11 +316,21 @@ export class ExhaustPlumeVisibilityCalculator {
 
   private static addMinutes(date: Date, minutes: number): string {
     const newDate = new Date(date.getTime() + minutes * 60 * 1000);
+    const timeZone = getObserverLocation().timezone;
+    if (timeZone !== 'Atlantic/Bermuda') {
+      return newDate.toLocaleTimeString('en-US', {
+        hour: 'numeric',
+        minute: '2-digit',
+        hour12: true,
+        timeZone,
+        timeZoneName: 'short'
+      });
+    }
     return newDate.toLocaleTimeString('en-US', {
       hour: 'numeric',
       minute: '2-digit',
       hour12: true,
-      timeZone: 'Atlantic/Bermuda'
+      timeZone
     }) + ' ' + getBermudaTimeZone(newDate);
   }
 
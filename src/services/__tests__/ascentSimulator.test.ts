@@ -0,0 +1,108 @@
+/**
+ * Ascent Simulator Tests
+ * Deterministic point-mass ascent, stage events and agreement with reference
+ * profiles: webcast telemetry and a stored Flight Club simulation
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { AscentSimulator } from '../ascentSimulator';
+import { DEFAULT_OBSERVER_LOCATION } from '../observerLocationService';
+import { calculateBearing } from '../../utils/coordinateUtils';
+import { FlightClubTrajectoryData } from '../../types';
+
+const CAPE_CANAVERAL = { latitude: 28.5618, longitude: -80.5772 };
+
+// Falcon 9 LEO ascent at rounded webcast telemetry readouts (altitude in meters, speed in m/s)
+const FALCON_9_REFERENCE = [
+  { time: 60, altitude: 11000, speed: 420 },
+  { time: 150, altitude: 68000, speed: 2300 },
+  { time: 300, altitude: 175000, speed: 3300 },
+  { time: 420, altitude: 205000, speed: 5200 },
+  { time: 520, altitude: 210000, speed: 7500 }
+];
+
+// Recorded with scripts/record-flightclub-fixture.sh; the comparison is skipped until one is stored
+const FLIGHTCLUB_FIXTURE = path.join(__dirname, 'fixtures', 'flightClubFalcon9Simulation.json');
+const testWithFlightClubFixture = fs.existsSync(FLIGHTCLUB_FIXTURE) ? test : test.skip;
+
+const simulateFalcon9 = (azimuth: number = 50, launchSite = CAPE_CANAVERAL) => AscentSimulator.simulate({
+  azimuth,
+  launchSite,
+  observer: DEFAULT_OBSERVER_LOCATION,
+  vehicle: AscentSimulator.getPreset('Falcon 9 Block 5')
+});
+
+/**
+ * The vehicle that reaches orbit: first stage frames until the second stage
+ * takes over, then the second stage
+ */
+const toAscentProfile = (simulation: FlightClubTrajectoryData) => {
+  const [booster, upper] = [...simulation.stages].sort((a, b) => a.stageNumber - b.stageNumber);
+  const separation = upper?.telemetry[0]?.time ?? Number.POSITIVE_INFINITY;
+  return [
+    ...booster.telemetry.filter(frame => frame.time < separation),
+    ...(upper?.telemetry ?? [])
+  ].sort((a, b) => a.time - b.time);
+};
+
+describe('AscentSimulator', () => {
+  test('same launch always gives the same trajectory', () => {
+    expect(simulateFalcon9()).toEqual(simulateFalcon9());
+  });
+
+  test('stage events are in flight order and match the sampled points', () => {
+    const { points, stageEvents } = simulateFalcon9();
+    const eventTime = (name: string) => stageEvents.find(event => event.event === name)!.time;
+
+    expect(stageEvents.map(event => event.event)).toEqual(
+      ['Liftoff', 'MECO', 'Stage Sep', 'SES-1', 'Fairing Sep', 'SECO-1']
+    );
+    expect(eventTime('MECO')).toBe(150);
+
+    const seco = points.find(point => point.time >= eventTime('SECO-1'))!;
+    expect(seco.velocity).toBeGreaterThan(7000);
+    expect(seco.altitude).toBeGreaterThan(180);
+    expect(seco.altitude).toBeLessThan(240);
+
+    expect(points.filter(point => point.time < eventTime('MECO')).every(point => point.stage === 'first')).toBe(true);
+    expect(points.filter(point => point.time > eventTime('SECO-1')).every(point => point.stage === 'second-coast')).toBe(true);
+
+    // Northeast launches stay below Bermuda's horizon until the second stage is high enough
+    const firstVisible = points.find(point => point.aboveHorizon)!;
+    expect(firstVisible.stage).toBe('second-burn');
+    expect(firstVisible.time).toBeGreaterThan(180);
+  });
+
+  test('Falcon 9 ascent agrees with the reference profile', () => {
+    const comparison = AscentSimulator.compareWithProfile(simulateFalcon9().points, FALCON_9_REFERENCE);
+
+    expect(comparison.samples).toBe(FALCON_9_REFERENCE.length);
+    expect(comparison.altitudeRmsKm).toBeLessThan(25);
+    expect(comparison.maxAltitudeErrorKm).toBeLessThan(40);
+    expect(comparison.speedRmsMs).toBeLessThan(600);
+  });
+
+  testWithFlightClubFixture('Falcon 9 ascent agrees with a stored Flight Club simulation', () => {
+    const simulation: FlightClubTrajectoryData = JSON.parse(fs.readFileSync(FLIGHTCLUB_FIXTURE, 'utf8'));
+    const profile = toAscentProfile(simulation);
+    const pad = profile[0];
+    const downrange = profile.find(frame => frame.time >= 300) ?? profile[profile.length - 1];
+    const azimuth = calculateBearing({ lat: pad.latitude, lng: pad.longitude }, { lat: downrange.latitude, lng: downrange.longitude });
+
+    const points = simulateFalcon9(azimuth, { latitude: pad.latitude, longitude: pad.longitude }).points;
+    const comparison = AscentSimulator.compareWithProfile(points, profile.filter(frame => frame.time <= 600));
+
+    expect(comparison.samples).toBeGreaterThan(10);
+    expect(comparison.altitudeRmsKm).toBeLessThan(25);
+    expect(comparison.maxAltitudeErrorKm).toBeLessThan(40);
+    expect(comparison.speedRmsMs).toBeLessThan(600);
+  });
+
+  test('presets are matched by rocket name with a Falcon 9 fallback', () => {
+    expect(AscentSimulator.getPreset('Falcon Heavy').id).toBe('falcon-heavy');
+    expect(AscentSimulator.getPreset('Atlas V 551').id).toBe('atlas-v');
+    expect(AscentSimulator.getPreset('Minotaur IV').id).toBe('falcon-9');
+    expect(AscentSimulator.getPreset().id).toBe('falcon-9');
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Atmospheric Optics Tests
+ * Tests refraction, airmass extinction and brightness-based telemetry visibility
+ */
+
+import {
+  calculateRefraction,
+  calculateAirmass,
+  estimateApparentMagnitude,
+  getLimitingMagnitude,
+  STANDARD_ATMOSPHERE
+} from '../../utils/atmosphericOptics';
+import { FlightClubApiService } from '../flightClubApiService';
+import { DEFAULT_OBSERVER_LOCATION } from '../observerLocationService';
+
+describe('Atmospheric optics', () => {
+  test('refraction is about half a degree at the horizon and negligible overhead', () => {
+    expect(calculateRefraction(0)).toBeGreaterThan(0.45);
+    expect(calculateRefraction(0)).toBeLessThan(0.5);
+    expect(calculateRefraction(45)).toBeLessThan(0.02);
+    expect(calculateRefraction(-5)).toBe(0);
+  });
+
+  test('refraction follows pressure and temperature', () => {
+    const cold = calculateRefraction(2, { pressure: 1030, temperature: 0, source: 'weather' });
+    const warm = calculateRefraction(2, { pressure: 1000, temperature: 30, source: 'weather' });
+
+    expect(cold).toBeGreaterThan(warm);
+  });
+
+  test('airmass and extinction grow toward the horizon', () => {
+    expect(calculateAirmass(90)).toBeCloseTo(1, 2);
+    expect(calculateAirmass(0)).toBeGreaterThan(30);
+
+    const high = estimateApparentMagnitude(1000, 60, STANDARD_ATMOSPHERE);
+    const low = estimateApparentMagnitude(1000, 2, STANDARD_ATMOSPHERE);
+    expect(low - high).toBeGreaterThan(3);
+  });
+
+  test('limiting magnitude brightens from day to night', () => {
+    expect(getLimitingMagnitude(10)).toBeLessThan(getLimitingMagnitude(-6));
+    expect(getLimitingMagnitude(-6)).toBeLessThan(getLimitingMagnitude(-20));
+  });
+
+  test('telemetry frames only count as visible when bright enough for the sky', async () => {
+    const options = { observer: DEFAULT_OBSERVER_LOCATION };
+    // 01:00 and 17:00 Bermuda time
+    const night = await FlightClubApiService.getSimulationData('demo-starlink-mission', undefined, {
+      ...options,
+      launchTime: '2025-06-15T04:00:00Z'
+    });
+    const day = await FlightClubApiService.getSimulationData('demo-starlink-mission', undefined, {
+      ...options,
+      launchTime: '2025-06-15T20:00:00Z'
+    });
+
+    night.enhancedTelemetry.forEach(frame => {
+      expect(typeof frame.apparentMagnitude).toBe('number');
+      expect(frame.nakedEyeVisible).toBe(frame.aboveHorizon && frame.apparentMagnitude! <= frame.limitingMagnitude!);
+    });
+    expect(night.visibilitySummary.visibleFrameCount).toBeGreaterThan(0);
+    expect(day.visibilitySummary.visibleFrameCount).toBeLessThan(night.visibilitySummary.visibleFrameCount);
+  });
+});
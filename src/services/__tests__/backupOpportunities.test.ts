@@ -0,0 +1,91 @@
+/**
+ * Backup Opportunity Tests
+ * Projected attempts after a scrub, shifted by the recycle interval
+ */
+
+import { DelayImpactAnalyzer } from '../delayImpactAnalyzer';
+import { Launch, LaunchWithDelayTracking } from '../../types';
+
+// Just after Bermuda sunset on 15 June 2025: sun about 1° below the horizon
+const createLaunch = (overrides: Partial<Launch> = {}): Launch => ({
+  id: 'backup-test',
+  name: 'Falcon 9 | SES-26',
+  mission: {
+    name: 'SES-26',
+    description: 'Commercial communications satellite',
+    orbit: { name: 'Geostationary Transfer Orbit' }
+  },
+  rocket: { name: 'Falcon 9' },
+  pad: {
+    name: 'Space Launch Complex 40',
+    location: {
+      name: 'Cape Canaveral SFS, FL, USA',
+      latitude: 28.5619,
+      longitude: -80.5774
+    }
+  },
+  net: '2025-06-15T23:30:00Z',
+  window_start: '2025-06-15T23:00:00Z',
+  window_end: '2025-06-16T01:00:00Z',
+  status: { name: 'Go for Launch', abbrev: 'Go' },
+  ...overrides
+});
+
+describe('DelayImpactAnalyzer backup opportunities', () => {
+  test('ISS missions recycle daily, others use the configured interval', () => {
+    const crew = createLaunch({ name: 'Falcon 9 | Crew-11', mission: { name: 'Crew-11', description: 'ISS crew rotation' } });
+
+    expect(DelayImpactAnalyzer.getRecycleIntervalHours(crew)).toBe(24);
+    expect(DelayImpactAnalyzer.getRecycleIntervalHours(createLaunch())).toBe(48);
+  });
+
+  test('shifts the whole window for each attempt and projects twilight conditions', async () => {
+    const opportunities = await DelayImpactAnalyzer.projectBackupOpportunities(createLaunch());
+
+    expect(opportunities).toHaveLength(5);
+    expect(opportunities.map(opportunity => opportunity.recycleHours)).toEqual([0, 48, 96, 144, 192]);
+    expect(opportunities[1]).toMatchObject({
+      attempt: 1,
+      net: '2025-06-17T23:30:00.000Z',
+      windowStart: '2025-06-17T23:00:00.000Z',
+      windowEnd: '2025-06-18T01:00:00.000Z'
+    });
+    opportunities.forEach(opportunity => {
+      expect(opportunity.twilightPhase).toBe('civil');
+      expect(opportunity.plumeIllumination).toBe('sunlit');
+      expect(opportunity.likelihood).toBe(opportunity.visibility.likelihood);
+    });
+  });
+
+  test('compareScenarios projects backups from the delayed time on request', async () => {
+    const launch = createLaunch();
+    const tracked: LaunchWithDelayTracking = {
+      ...launch,
+      originalNet: launch.net,
+      currentNet: launch.net,
+      lastUpdated: new Date('2025-06-15T12:00:00Z'),
+      delayHistory: [],
+      scheduleStatus: 'on-time',
+      visibility: { likelihood: 'high', reason: 'Twilight GTO launch' },
+      bermudaTime: '8:45 PM ADT',
+      pollingFrequency: 60000,
+      lastPolled: new Date('2025-06-15T12:00:00Z'),
+      priorityLevel: 'medium'
+    };
+
+    const plain = await DelayImpactAnalyzer.compareScenarios(tracked, '2025-06-16T00:15:00Z');
+    const withBackups = await DelayImpactAnalyzer.compareScenarios(
+      tracked,
+      '2025-06-16T00:15:00Z',
+      'Scrub recycle',
+      { backupAttempts: 3 }
+    );
+
+    expect(plain.backupOpportunities).toBeUndefined();
+    expect(withBackups.backupOpportunities?.map(opportunity => opportunity.net)).toEqual([
+      '2025-06-16T00:15:00.000Z',
+      '2025-06-18T00:15:00.000Z',
+      '2025-06-20T00:15:00.000Z'
+    ]);
+  });
+});
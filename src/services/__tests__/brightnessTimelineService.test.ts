@@ -0,0 +1,52 @@
+/**
+ * Brightness Timeline Service Tests
+ * Tests plume presets, magnitude timelines and the likelihood thresholds
+ */
+
+import { BrightnessTimelineService, DEFAULT_PLUME_PRESET } from '../brightnessTimelineService';
+import { FlightClubApiService } from '../flightClubApiService';
+import { DEFAULT_OBSERVER_LOCATION } from '../observerLocationService';
+
+const rocket = { name: 'Falcon 9 Block 5' } as any;
+
+const loadDemo = (launchTime: string) =>
+  FlightClubApiService.getSimulationData('demo-starlink-mission', undefined, {
+    observer: DEFAULT_OBSERVER_LOCATION,
+    launchTime
+  });
+
+describe('BrightnessTimelineService', () => {
+  test('matches plume presets by rocket name', () => {
+    expect(BrightnessTimelineService.getPlumePreset('Falcon Heavy').id).toBe('falcon-heavy');
+    expect(BrightnessTimelineService.getPlumePreset('Falcon 9 Block 5').id).toBe('falcon-9');
+    expect(BrightnessTimelineService.getPlumePreset('Mystery Rocket')).toBe(DEFAULT_PLUME_PRESET);
+  });
+
+  test('maps peak magnitude to likelihood labels', () => {
+    expect(BrightnessTimelineService.likelihoodFromMagnitude(-2)).toBe('high');
+    expect(BrightnessTimelineService.likelihoodFromMagnitude(2)).toBe('medium');
+    expect(BrightnessTimelineService.likelihoodFromMagnitude(5)).toBe('low');
+    expect(BrightnessTimelineService.summarize([]).likelihood).toBe('none');
+  });
+
+  test('builds a per-second timeline that is brighter against a night sky', async () => {
+    // 01:00 and 13:00 Bermuda time
+    const nightLaunch = { net: '2025-06-15T04:00:00Z', rocket };
+    const dayLaunch = { net: '2025-06-15T16:00:00Z', rocket };
+    const night = BrightnessTimelineService.buildTimeline(await loadDemo(nightLaunch.net), nightLaunch, DEFAULT_OBSERVER_LOCATION);
+    const day = BrightnessTimelineService.buildTimeline(await loadDemo(dayLaunch.net), dayLaunch, DEFAULT_OBSERVER_LOCATION);
+
+    expect(night.length).toBeGreaterThan(0);
+    expect(night[1].time - night[0].time).toBe(1);
+    night.forEach(sample => {
+      expect(sample.visible).toBe(
+        sample.aboveHorizon && sample.combinedMagnitude !== null && sample.combinedMagnitude <= sample.limitingMagnitude
+      );
+    });
+
+    const nightSummary = BrightnessTimelineService.summarize(night);
+    const daySummary = BrightnessTimelineService.summarize(day);
+    expect(nightSummary.visibleSeconds).toBeGreaterThan(daySummary.visibleSeconds);
+    expect(nightSummary.likelihood).not.toBe('none');
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Calendar Feed Tests
+ * iCalendar output, stable UIDs and in-place updates after schedule changes
+ */
+
+import { buildCalendar, CalendarEvent, eventUid, isLikelihood, mergeCalendarEvent, viewingWindow } from '../../../api/calendar/ics';
+import { syncCalendarEvents } from '../../../api/calendar/sync';
+import { LaunchFeedEntry } from '../../types';
+
+// No Upstash credentials here: calendar events are stored in memory
+jest.mock('@upstash/redis', () => ({
+  Redis: {
+    fromEnv: () => {
+      throw new Error('Redis not configured');
+    }
+  }
+}));
+
+const APP_URL = 'https://bermuda-rocket-tracker.vercel.app';
+
+const makeEvent = (overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  launchId: 'abc-123',
+  name: 'Falcon 9 Block 5 | Starlink Group 10-1',
+  net: '2025-06-15T23:00:00Z',
+  status: 'Go',
+  likelihood: 'high',
+  bearing: 247,
+  estimatedTimeVisible: 'Visible from T+3 to T+8 minutes. Look WSW (west-southwest) for best view.',
+  sequence: 0,
+  createdAt: Date.parse('2025-06-10T00:00:00Z'),
+  updatedAt: Date.parse('2025-06-10T00:00:00Z'),
+  ...overrides
+});
+
+const unfold = (ics: string) => ics.replace(/\r\n /g, '');
+
+describe('calendar feed', () => {
+  const now = Date.parse('2025-06-15T12:00:00Z');
+
+  test('writes the viewing window in Bermuda local time with look direction and link', () => {
+    const ics = buildCalendar([makeEvent()], { minLikelihood: 'medium', appUrl: APP_URL, now });
+    const text = unfold(ics);
+
+    expect(ics.endsWith('\r\n')).toBe(true);
+    expect(ics.split('\r\n').every(line => Buffer.byteLength(line, 'utf8') <= 75)).toBe(true);
+    expect(text).toContain('BEGIN:VTIMEZONE\r\nTZID:Atlantic/Bermuda');
+    expect(text).toContain(`UID:${eventUid('abc-123')}`);
+    // 23:03Z-23:08Z is 20:03-20:08 ADT (UTC-3)
+    expect(text).toContain('DTSTART;TZID=Atlantic/Bermuda:20250615T200300');
+    expect(text).toContain('DTEND;TZID=Atlantic/Bermuda:20250615T200800');
+    expect(text).toContain('Look: West-southwest (247°)');
+    expect(text).toContain(`URL:${APP_URL}/?launch=abc-123`);
+    expect(text).toContain('SUMMARY:🚀 Falcon 9 Block 5 | Starlink Group 10-1 - look West-southwest');
+  });
+
+  test('includes only launches at or above the requested likelihood', () => {
+    const events = [
+      makeEvent({ launchId: 'bright', likelihood: 'high' }),
+      makeEvent({ launchId: 'maybe', likelihood: 'medium' }),
+      makeEvent({ launchId: 'faint', likelihood: 'low' }),
+      makeEvent({ launchId: 'hidden', likelihood: 'none' }),
+      makeEvent({ launchId: 'old', net: '2025-06-01T00:00:00Z' })
+    ];
+
+    const uids = (minLikelihood: 'high' | 'medium' | 'low') =>
+      (buildCalendar(events, { minLikelihood, appUrl: APP_URL, now }).match(/^UID:.*$/gm) || [])
+        .map(line => line.slice(4));
+
+    expect(uids('high')).toEqual([eventUid('bright')]);
+    expect(uids('medium')).toEqual([eventUid('bright'), eventUid('maybe')]);
+    expect(uids('low')).toHaveLength(3);
+  });
+
+  test('a NET change keeps the UID and bumps SEQUENCE; repeats do not', () => {
+    const original = mergeCalendarEvent(null, makeEvent(), now);
+    expect(original.sequence).toBe(0);
+
+    const unchanged = mergeCalendarEvent(original, { launchId: 'abc-123', name: original.name, net: original.net }, now + 1000);
+    expect(unchanged.sequence).toBe(0);
+    expect(unchanged.likelihood).toBe('high');
+
+    const scrubbed = mergeCalendarEvent(
+      original,
+      { launchId: 'abc-123', name: original.name, net: '2025-06-16T22:40:00Z', status: 'TBD' },
+      now + 2000
+    );
+    expect(scrubbed.sequence).toBe(1);
+    expect(scrubbed.updatedAt).toBe(now + 2000);
+    expect(viewingWindow(scrubbed).start.toISOString()).toBe('2025-06-16T22:43:00.000Z');
+
+    const text = unfold(buildCalendar([scrubbed], { minLikelihood: 'medium', appUrl: APP_URL, now }));
+    expect(text).toContain(`UID:${eventUid('abc-123')}`);
+    expect(text).toContain('SEQUENCE:1');
+    expect(text).toContain('STATUS:TENTATIVE');
+  });
+
+  test('only known likelihoods are accepted from the query string', () => {
+    expect(isLikelihood('medium')).toBe(true);
+    expect(['constructor', 'toString', '__proto__', 'extreme'].some(isLikelihood)).toBe(false);
+  });
+
+  test('events follow the server feed and take visibility only from the default observer', async () => {
+    const feedEntry = (id: string, net: string) => ({
+      id,
+      name: `Launch ${id}`,
+      net,
+      status: { name: 'Go for Launch', abbrev: 'Go' },
+      visibility: { likelihood: 'high', bearing: 247, estimatedTimeVisible: 'Visible from T+3 to T+8 minutes.' }
+    }) as unknown as LaunchFeedEntry;
+
+    const events = await syncCalendarEvents([feedEntry('current', '2025-06-15T23:00:00Z')]);
+    expect(events.map(event => event.launchId)).toEqual(['current']);
+    expect(events[0]).toMatchObject({ likelihood: 'high', bearing: 247, sequence: 0 });
+
+    // A feed for another observer still moves stored events but adds none
+    const moved = await syncCalendarEvents(
+      [feedEntry('current', '2025-06-16T23:00:00Z'), feedEntry('other', '2025-06-15T23:00:00Z')],
+      false
+    );
+    expect(moved.map(event => event.launchId)).toEqual(['current']);
+    expect(moved[0]).toMatchObject({ net: '2025-06-16T23:00:00Z', likelihood: 'high', sequence: 1 });
+  });
+});
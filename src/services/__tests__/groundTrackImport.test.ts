@@ -0,0 +1,118 @@
+/**
+ * Ground Track Import Tests
+ * GPX, KML and CSV parsing, estimation of missing times and altitudes, and use
+ * of imported tracks by the trajectory and visibility services
+ */
+
+import { parseGroundTrackCsv, parseGroundTrackFile } from '../../utils/groundTrack';
+import { GroundTrackImportService } from '../groundTrackImportService';
+import { trajectoryOverrideService } from '../trajectoryOverrideService';
+import { getTrajectoryData } from '../trajectoryService';
+import { calculateVisibility } from '../visibilityService';
+import { Launch } from '../../types';
+
+const launch: Launch = {
+  id: 'ground-track-test-launch',
+  name: 'Falcon 9 | Starlink Group 6-20',
+  rocket: { name: 'Falcon 9' },
+  pad: {
+    name: 'Space Launch Complex 40',
+    latitude: '28.5618',
+    longitude: '-80.5772',
+    location: { name: 'Cape Canaveral SFS, FL, USA' }
+  },
+  net: '2025-03-01T23:30:00Z',
+  mission: { name: 'Starlink Group 6-20', orbit: { name: 'Low Earth Orbit' } },
+  status: { name: 'Go for Launch' }
+};
+
+const GPX = `<?xml version="1.0"?>
+<gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1">
+  <trk><trkseg>
+    <trkpt lat="28.56" lon="-80.58"><ele>0</ele><time>2025-03-01T23:30:00Z</time></trkpt>
+    <trkpt lat="29.9" lon="-78.6"><ele>120000</ele><time>2025-03-01T23:33:00Z</time></trkpt>
+    <trkpt lat="32.1" lon="-74.9"><ele>205000</ele><time>2025-03-01T23:38:00Z</time></trkpt>
+  </trkseg></trk>
+</gpx>`;
+
+// Two hazard boxes traced from a NAVAREA warning, north-east of the Cape
+const HAZARD_KML = `<?xml version="1.0"?>
+<kml xmlns="http://www.opengis.net/kml/2.2"><Document>
+  <Placemark><Polygon><outerBoundaryIs><LinearRing><coordinates>
+    -79.0,29.0,0 -78.0,29.0,0 -78.0,30.0,0 -79.0,30.0,0 -79.0,29.0,0
+  </coordinates></LinearRing></outerBoundaryIs></Polygon></Placemark>
+  <Placemark><Polygon><outerBoundaryIs><LinearRing><coordinates>
+    -75.0,32.0,0 -74.0,32.0,0 -74.0,33.0,0 -75.0,33.0,0 -75.0,32.0,0
+  </coordinates></LinearRing></outerBoundaryIs></Polygon></Placemark>
+</Document></kml>`;
+
+afterEach(async () => {
+  await trajectoryOverrideService.removeOverride(launch.id);
+});
+
+describe('ground track parsing', () => {
+  test('GPX elevations become km and times count from the first point', () => {
+    const { format, track, errors } = parseGroundTrackFile('track.gpx', GPX);
+
+    expect(format).toBe('gpx');
+    expect(errors).toEqual([]);
+    expect(track[1]).toEqual({ latitude: 29.9, longitude: -78.6, altitude: 120, time: 180 });
+    expect(track[2].time).toBe(480);
+  });
+
+  test('KML hazard areas reduce to their centres without ground-level altitudes', () => {
+    const { format, track } = parseGroundTrackFile('navarea.kml', HAZARD_KML);
+
+    expect(format).toBe('kml');
+    expect(track).toEqual([
+      { latitude: 29.5, longitude: -78.5 },
+      { latitude: 32.5, longitude: -74.5 }
+    ]);
+  });
+
+  test('CSV headers may omit time and altitude columns', () => {
+    const { track, errors } = parseGroundTrackCsv('lat,lon,ele\n28.56,-80.58,\n30.0,-78.0,150000');
+
+    expect(errors).toEqual([]);
+    expect(track).toEqual([
+      { latitude: 28.56, longitude: -80.58, altitude: undefined, time: undefined },
+      { latitude: 30, longitude: -78, altitude: 150, time: undefined }
+    ]);
+    expect(parseGroundTrackFile('track.kmz', '').errors).toHaveLength(1);
+  });
+});
+
+describe('GroundTrackImportService', () => {
+  test('missing times and altitudes are estimated along the simulated ascent', () => {
+    const { track } = parseGroundTrackFile('navarea.kml', HAZARD_KML);
+    const completed = GroundTrackImportService.completeGroundTrack(track, launch);
+
+    expect(completed[0].time).toBeGreaterThan(0);
+    expect(completed[1].time).toBeGreaterThan(completed[0].time);
+    expect(completed[1].altitude).toBeGreaterThan(completed[0].altitude);
+    expect(completed[1].altitude).toBeGreaterThan(100);
+  });
+
+  test('an imported track becomes a first-class trajectory and visibility source', async () => {
+    const result = await GroundTrackImportService.importGroundTrack(launch, 'track.gpx', GPX);
+
+    expect(result.errors).toEqual([]);
+    expect(result.override?.groundTrackFile).toEqual({ name: 'track.gpx', format: 'gpx' });
+
+    const trajectory = await getTrajectoryData(launch);
+    expect(trajectory.source).toBe('ground-track');
+    expect(trajectory.points).toHaveLength(3);
+
+    const visibility = await calculateVisibility(launch, undefined, { useCache: false });
+    expect(visibility.dataSource).toBe('ground-track');
+    expect(visibility.factors).toContain('Ground track used (3 points)');
+  });
+
+  test('rejected files leave existing overrides alone', async () => {
+    await trajectoryOverrideService.saveOverride({ launchId: launch.id, azimuth: 45 });
+    const result = await GroundTrackImportService.importGroundTrack(launch, 'empty.csv', 'lat,lon\n28.5,-80.6');
+
+    expect(result.errors).toHaveLength(1);
+    expect(trajectoryOverrideService.getOverride(launch.id)?.azimuth).toBe(45);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Haze Model Tests
+ * Humidity, dew point spread and wind driven loss of low-elevation frames
+ */
+
+import { applyHazeToFrames, assessHaze, calculateDewPoint } from '../../utils/hazeModel';
+
+describe('Haze model', () => {
+  test('dew point matches the Magnus approximation', () => {
+    expect(calculateDewPoint(25, 100)).toBeCloseTo(25, 1);
+    expect(calculateDewPoint(27, 80)).toBeCloseTo(23.3, 1);
+  });
+
+  test('dry breezy air has no haze, calm saturated air forms a marine layer', () => {
+    const dry = assessHaze({ temperature: 24, humidity: 55, windSpeed: 25 });
+    const muggy = assessHaze({ temperature: 26, humidity: 94, windSpeed: 6 });
+
+    expect(dry.level).toBe('none');
+    expect(dry.hazeElevation).toBe(0);
+
+    expect(muggy.level).toBe('heavy');
+    expect(muggy.marineLayer).toBe(true);
+    expect(muggy.hazeElevation).toBeGreaterThan(6);
+    expect(muggy.hazeElevation).toBeLessThanOrEqual(8);
+    expect(muggy.description).toContain('Marine layer');
+  });
+
+  test('wind mixes haze out and the elevation limit is configurable', () => {
+    const calm = assessHaze({ temperature: 26, humidity: 85, windSpeed: 5 }, 10);
+    const windy = assessHaze({ temperature: 26, humidity: 85, windSpeed: 40 }, 10);
+
+    expect(windy.severity).toBeLessThan(calm.severity);
+    expect(calm.hazeElevation).toBeCloseTo(calm.severity * 10);
+  });
+
+  test('frames below the haze elevation are removed from the visible window', () => {
+    const frames = [
+      { time: 150, elevation: 1 },
+      { time: 180, elevation: 3 },
+      { time: 210, elevation: 6 },
+      { time: 240, elevation: 9 },
+      { time: 270, elevation: 7 },
+      { time: 300, elevation: 4 }
+    ];
+
+    expect(applyHazeToFrames(frames, { hazeElevation: 0 })).toEqual({
+      startTime: 150, endTime: 300, visibleSeconds: 150, lostSeconds: 0
+    });
+    expect(applyHazeToFrames(frames, { hazeElevation: 5 })).toEqual({
+      startTime: 210, endTime: 270, visibleSeconds: 90, lostSeconds: 60
+    });
+  });
+});
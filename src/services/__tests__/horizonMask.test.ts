@@ -0,0 +1,94 @@
+/**
+ * Horizon Mask Tests
+ * Tests mask parsing/interpolation and that obstructed trajectory points are not visible
+ */
+
+import {
+  getHorizonMaskElevation,
+  parseHorizonMaskCsv,
+  isAboveHorizonMask
+} from '../../utils/horizonMask';
+import { observerLocationService, DEFAULT_OBSERVER_LOCATION } from '../observerLocationService';
+import { GeometricVisibilityService } from '../geometricVisibilityService';
+import { Launch, ObserverLocation } from '../../types';
+
+const testLaunch: Launch = {
+  id: 'horizon-mask-test',
+  name: 'Falcon 9 | Starlink Group 10-1',
+  rocket: { name: 'Falcon 9' },
+  pad: {
+    name: 'Space Launch Complex 40',
+    latitude: '28.5618',
+    longitude: '-80.5772',
+    location: { name: 'Cape Canaveral SFS, FL, USA' }
+  },
+  net: '2025-03-01T23:30:00Z',
+  mission: { name: 'Starlink Group 10-1', orbit: { name: 'Low Earth Orbit' } },
+  status: { name: 'Go for Launch' }
+};
+
+describe('Horizon mask', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    observerLocationService.reset();
+  });
+
+  test('interpolates between mask points and wraps through north', () => {
+    const mask = [
+      { azimuth: 10, elevation: 2 },
+      { azimuth: 90, elevation: 10 },
+      { azimuth: 350, elevation: 6 }
+    ];
+
+    expect(getHorizonMaskElevation(mask, 50)).toBeCloseTo(6);
+    expect(getHorizonMaskElevation(mask, 0)).toBeCloseTo(4);
+    expect(getHorizonMaskElevation(undefined, 240)).toBe(0);
+    expect(isAboveHorizonMask(mask, 90, 9)).toBe(false);
+  });
+
+  test('parses CSV with a header row and reports bad lines', () => {
+    const parsed = parseHorizonMaskCsv('azimuth,elevation\n240, 8\n# comment\n200;4\n');
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.mask).toEqual([
+      { azimuth: 200, elevation: 4 },
+      { azimuth: 240, elevation: 8 }
+    ]);
+
+    const invalid = parseHorizonMaskCsv('200,4\nwest,high\n300,120');
+    expect(invalid.mask).toEqual([]);
+    expect(invalid.errors).toHaveLength(2);
+  });
+
+  test('stores masks for preset locations', () => {
+    observerLocationService.setHorizonMask(DEFAULT_OBSERVER_LOCATION.id, [{ azimuth: 250, elevation: 5 }]);
+
+    expect(observerLocationService.getActiveLocation().horizonMask).toEqual([{ azimuth: 250, elevation: 5 }]);
+
+    observerLocationService.setHorizonMask(DEFAULT_OBSERVER_LOCATION.id, []);
+    expect(observerLocationService.getActiveLocation().horizonMask).toBeUndefined();
+  });
+
+  test('trajectory points below the mask are not visible', () => {
+    const clear = GeometricVisibilityService.calculateVisibility(testLaunch, DEFAULT_OBSERVER_LOCATION);
+    const blocked: ObserverLocation = {
+      ...DEFAULT_OBSERVER_LOCATION,
+      horizonMask: [
+        { azimuth: 0, elevation: 30 },
+        { azimuth: 180, elevation: 30 }
+      ]
+    };
+    const masked = GeometricVisibilityService.calculateVisibility(testLaunch, blocked);
+
+    expect(clear.factors.horizonObstruction?.maskApplied).toBe(false);
+    expect(masked.factors.horizonObstruction?.maskApplied).toBe(true);
+
+    const clearVisible = clear.trajectoryPoints!.filter(p => p.aboveHorizon).length;
+    const maskedVisible = masked.trajectoryPoints!.filter(p => p.aboveHorizon).length;
+    expect(maskedVisible).toBeLessThanOrEqual(clearVisible);
+    masked.trajectoryPoints!
+      .filter(p => p.aboveHorizon)
+      .forEach(p => expect(p.elevationAngle).toBeGreaterThan(30));
+    expect(masked.factors.horizonObstruction?.obstructedPoints).toBeGreaterThan(0);
+    expect(masked.factors.horizonObstruction?.obstructedPoints).toBe(clearVisible - maskedVisible);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Launch Archive Service Tests
+ * Prediction capture before T-0 and sighting time conversion
+ */
+
+import { LaunchArchiveService } from '../launchArchiveService';
+import { DEFAULT_OBSERVER_LOCATION } from '../observerLocationService';
+import { LaunchWithVisibility } from '../../types';
+
+global.fetch = jest.fn();
+
+const makeLaunch = (id: string, net: string) => ({
+  id,
+  name: `Falcon 9 | Starlink ${id}`,
+  net,
+  mission: { name: `Starlink ${id}`, orbit: { name: 'Low Earth Orbit' } },
+  rocket: { configuration: { name: 'Falcon 9' } },
+  visibility: {
+    likelihood: 'high',
+    reason: '',
+    bearing: 247,
+    dataSource: 'flightclub',
+    estimatedTimeVisible: 'Visible from T+3 to T+8 minutes. Look WSW for best view.'
+  },
+  bermudaTime: '',
+  flightClubMatch: null
+} as unknown as LaunchWithVisibility);
+
+describe('LaunchArchiveService', () => {
+  const now = new Date('2025-06-15T20:00:00Z').getTime();
+
+  beforeEach(() => {
+    (global.fetch as jest.Mock).mockReset();
+    (global.fetch as jest.Mock).mockResolvedValue({ ok: true, status: 200, json: async () => ({}) });
+  });
+
+  test('reads the predicted first-visible time from the window or the estimate', () => {
+    expect(LaunchArchiveService.predictedFirstVisibleSeconds({
+      likelihood: 'high',
+      reason: '',
+      estimatedTimeVisible: 'Visible from T+3 to T+8 minutes.'
+    })).toBe(180);
+    expect(LaunchArchiveService.predictedFirstVisibleSeconds({ likelihood: 'none', reason: '' })).toBeNull();
+  });
+
+  test('converts a Bermuda clock time on launch night to UTC, across midnight', () => {
+    // 23:00Z is 20:00 ADT
+    expect(LaunchArchiveService.bermudaClockToIso('2025-06-15T23:00:00Z', '20:03:30')).toBe('2025-06-15T23:03:30.000Z');
+    // Launch at 23:58 ADT, first seen at 00:02 the next day
+    expect(LaunchArchiveService.bermudaClockToIso('2025-06-16T02:58:00Z', '00:02')).toBe('2025-06-16T03:02:00.000Z');
+    expect(LaunchArchiveService.bermudaClockToIso('2025-06-15T23:00:00Z', 'soon')).toBeNull();
+  });
+
+  test('archives only Bermuda predictions inside the final hours before launch', async () => {
+    const launches = [
+      makeLaunch('tonight', '2025-06-15T23:00:00Z'),
+      makeLaunch('next-week', '2025-06-22T23:00:00Z'),
+      makeLaunch('yesterday', '2025-06-14T23:00:00Z')
+    ];
+    const otherSpot = { ...DEFAULT_OBSERVER_LOCATION, id: 'custom-spot' };
+
+    expect(await LaunchArchiveService.capturePredictions(launches, otherSpot, now)).toBe(0);
+    expect(await LaunchArchiveService.capturePredictions(launches, DEFAULT_OBSERVER_LOCATION, now)).toBe(1);
+
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    const body = JSON.parse(init.body);
+    expect(url).toBe('/api/archive/predictions');
+    expect(body.launchId).toBe('tonight');
+    expect(body.prediction).toMatchObject({ likelihood: 'high', dataSource: 'flightclub', firstVisibleSeconds: 180 });
+
+    // Unchanged prediction shortly after is not re-sent
+    expect(await LaunchArchiveService.capturePredictions(launches, DEFAULT_OBSERVER_LOCATION, now + 60000)).toBe(0);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Launch Azimuth Tests
+ * Inclination to azimuth solutions and their precedence over mission name matching
+ */
+
+import { solveLaunchAzimuth } from '../../utils/launchAzimuth';
+import { getTrajectoryMapping } from '../trajectoryMappingService';
+import { Launch } from '../../types';
+
+const CAPE_LATITUDE = 28.56;
+
+const makeLaunch = (missionName: string, mission: Partial<Launch['mission']> = {}): Launch => ({
+  id: `azimuth-${missionName}`,
+  name: `Falcon 9 | ${missionName}`,
+  rocket: { name: 'Falcon 9' },
+  pad: {
+    name: 'Space Launch Complex 40',
+    latitude: '28.5618',
+    longitude: '-80.5772',
+    location: { name: 'Cape Canaveral SFS, FL, USA' }
+  },
+  net: '2025-03-01T23:30:00Z',
+  mission: { name: missionName, orbit: { name: 'Low Earth Orbit' }, ...mission },
+  status: { name: 'Go for Launch' }
+});
+
+describe('solveLaunchAzimuth', () => {
+  test('ISS inclination gives mirrored northbound and southbound headings', () => {
+    const { northbound, southbound, preferred, directInsertion } = solveLaunchAzimuth(51.6, CAPE_LATITUDE);
+
+    expect(directInsertion).toBe(true);
+    expect(northbound.inertialAzimuth).toBeCloseTo(44.9, 0);
+    // Earth's rotation already supplies eastward speed, so the ground heading swings north
+    expect(northbound.azimuth).toBeGreaterThan(41);
+    expect(northbound.azimuth).toBeLessThan(northbound.inertialAzimuth);
+    expect(southbound.azimuth).toBeCloseTo(180 - northbound.azimuth, 1);
+    expect(northbound.dogleg).toBe(false);
+    expect(southbound.dogleg).toBe(false);
+    expect(preferred.heading).toBe('northbound');
+  });
+
+  test('inclination below the pad latitude launches due east with a dogleg', () => {
+    const { preferred, directInsertion } = solveLaunchAzimuth(27, CAPE_LATITUDE);
+
+    expect(directInsertion).toBe(false);
+    expect(preferred.azimuth).toBe(90);
+    expect(preferred.dogleg).toBe(true);
+  });
+
+  test('retrograde orbits fly the southbound corridor with a dogleg', () => {
+    const { preferred } = solveLaunchAzimuth(97.6, CAPE_LATITUDE);
+
+    expect(preferred.heading).toBe('southbound');
+    expect(preferred.azimuth).toBe(140);
+    expect(preferred.dogleg).toBe(true);
+  });
+
+  test('requested heading is used when it needs no dogleg', () => {
+    const { preferred } = solveLaunchAzimuth(43, CAPE_LATITUDE, { heading: 'southbound' });
+
+    expect(preferred.heading).toBe('southbound');
+    expect(preferred.azimuth).toBeGreaterThan(115);
+    expect(preferred.azimuth).toBeLessThan(130);
+  });
+});
+
+describe('getTrajectoryMapping with a published inclination', () => {
+  test('description inclination wins over mission name matching', () => {
+    const mapping = getTrajectoryMapping(makeLaunch('Starlink Group 6-20', {
+      description: 'A batch of Starlink satellites for a 53.2° inclination shell.'
+    }));
+
+    expect(mapping.source).toBe('orbital-mechanics');
+    expect(mapping.direction).toBe('Northeast');
+    expect(mapping.orbitParameters?.inclination).toBe(53.2);
+    expect(mapping.azimuthSolution?.preferred.dogleg).toBe(false);
+  });
+
+  test('orbit inclination field is used and southbound hints pick the southbound solution', () => {
+    const mapping = getTrajectoryMapping(makeLaunch('Starlink Group 12-3', {
+      description: 'Starlink satellites launched on a southeast trajectory.',
+      orbit: { name: 'Low Earth Orbit', inclination: 43 }
+    }));
+
+    expect(mapping.source).toBe('orbital-mechanics');
+    expect(mapping.azimuthSolution?.preferred.heading).toBe('southbound');
+    expect(mapping.direction).toBe('East-Southeast');
+  });
+
+  test('guessed inclinations are not reported as orbital mechanics', () => {
+    expect(getTrajectoryMapping(makeLaunch('Demo Mission', { orbit: { name: 'Sun-Synchronous Orbit' } })).source).toBe('mission-type');
+    expect(getTrajectoryMapping(makeLaunch('Demo Mission', { orbit: { name: 'Unknown' } })).source).toBe('fallback');
+  });
+});
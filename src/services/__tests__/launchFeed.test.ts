@@ -0,0 +1,244 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Launch Feed Tests
+ * Server-side visibility for the /api/launches feed, its shared cache, reviewed
+ * match pins, and when the app reuses the precomputed results
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import handler from '../../../api/launches/index';
+import pinsHandler from '../../../api/flightclub/pins';
+import { getCachedLaunchFeed, setCachedLaunchFeed } from '../../../api/flightclub/cache';
+import * as aggregate from '../../../api/launches/aggregate';
+import { LaunchFeedService } from '../launchFeedService';
+import { trajectoryOverrideService } from '../trajectoryOverrideService';
+import { DEFAULT_OBSERVER_LOCATION, PRESET_OBSERVER_LOCATIONS } from '../observerLocationService';
+import { LaunchFeed, LaunchWithFlightClub } from '../../types';
+import { mockResponse } from '../../test-utils/vercel';
+
+// No Upstash credentials here: the shared cache runs on its in-memory fallback
+jest.mock('@upstash/redis', () => ({
+  Redis: {
+    fromEnv: () => {
+      throw new Error('Redis not configured');
+    }
+  }
+}));
+
+const launch: LaunchWithFlightClub = {
+  id: 'launch-feed-test-launch',
+  name: 'Falcon 9 | Starlink Group 6-20',
+  rocket: { name: 'Falcon 9' },
+  pad: {
+    name: 'Space Launch Complex 40',
+    latitude: '28.5618',
+    longitude: '-80.5772',
+    location: { name: 'Cape Canaveral SFS, FL, USA' }
+  },
+  net: '2025-03-01T23:30:00Z',
+  mission: { name: 'Starlink Group 6-20', orbit: { name: 'Low Earth Orbit' } },
+  status: { name: 'Go for Launch' },
+  hasFlightClubData: false
+};
+
+const request = (method: string = 'GET') => ({ method, headers: {}, query: {} }) as unknown as VercelRequest;
+
+describe('launch feed API', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('feed entries carry visibility calculated from the default observer', async () => {
+    const entry = await aggregate.calculateFeedEntry(launch);
+
+    expect(entry.id).toBe(launch.id);
+    expect(entry.bermudaTime).toBeTruthy();
+    expect(entry.visibility.dataSource).not.toBe('estimated');
+    expect(entry.visibility.lastCalculated).toBeInstanceOf(Date);
+    expect(entry.visibility.solarConditions).toBeDefined();
+  });
+
+  test('the feed is built once and then served from the shared cache', async () => {
+    const entry = await aggregate.calculateFeedEntry(launch);
+    const build = jest.spyOn(aggregate, 'buildLaunchFeed').mockResolvedValue({
+      launches: [entry],
+      observerId: DEFAULT_OBSERVER_LOCATION.id,
+      cachedAt: Date.now()
+    });
+
+    const first = mockResponse();
+    await handler(request(), first as unknown as VercelResponse);
+    const second = mockResponse();
+    await handler(request(), second as unknown as VercelResponse);
+
+    expect(build).toHaveBeenCalledTimes(1);
+    expect(first.statusCode).toBe(200);
+    expect(first.body).toMatchObject({ cached: false, observerId: DEFAULT_OBSERVER_LOCATION.id });
+    expect(second.body).toMatchObject({ cached: true });
+    expect((second.body as LaunchFeed).launches).toHaveLength(1);
+
+    const rejected = mockResponse();
+    await handler(request('POST'), rejected as unknown as VercelResponse);
+    expect(rejected.statusCode).toBe(405);
+  });
+
+  test('launches are matched against cached missions on the server, honouring shared pins', () => {
+    const mission = (id: string, description: string) => ({
+      id,
+      description,
+      startDateTime: launch.net,
+      company: { id: 'spacex', description: 'SpaceX' },
+      display: true,
+      flightClubSimId: `sim-${id}`,
+      vehicle: { description: 'Falcon 9' }
+    });
+    const missions = [mission('fc-6-20', 'Starlink Group 6-20'), mission('fc-other', 'Transporter-12')];
+    const meta = { launchId: launch.id, launchName: launch.name, launchTime: launch.net };
+
+    expect(aggregate.matchFeedLaunch(launch, missions).flightClubMatch?.flightClubMission.id).toBe('fc-6-20');
+    expect(aggregate.matchFeedLaunch(launch, missions, { ...meta, pinnedMissionId: 'fc-other' }).flightClubMatch)
+      .toMatchObject({ confidence: 'exact', pin: 'pinned', flightClubMission: { id: 'fc-other' } });
+    expect(aggregate.matchFeedLaunch(launch, missions, { ...meta, pinnedMissionId: null }).hasFlightClubData).toBe(false);
+  });
+});
+
+describe('match pins API', () => {
+  const PIN_SECRET = 'pin-secret-0123456789';
+
+  const pinRequest = (body: unknown, { authorization, address = '203.0.113.7' }: { authorization?: string; address?: string } = {}) => ({
+    method: 'POST',
+    headers: { 'x-forwarded-for': address, ...(authorization ? { authorization } : {}) },
+    query: {},
+    body
+  }) as unknown as VercelRequest;
+
+  const post = async (req: VercelRequest) => {
+    const res = mockResponse();
+    await pinsHandler(req, res as unknown as VercelResponse);
+    return res;
+  };
+
+  beforeAll(() => {
+    process.env.MATCH_PIN_SECRET = PIN_SECRET;
+  });
+
+  afterAll(() => {
+    delete process.env.MATCH_PIN_SECRET;
+  });
+
+  test('pins from users are suggestions until a reviewer applies them to the cached feed entry', async () => {
+    const pinned = { ...launch, id: 'pins-test-launch' };
+    const other = { ...launch, id: 'pins-test-other' };
+    const cachedAt = Date.now();
+    await setCachedLaunchFeed({
+      launches: [await aggregate.calculateFeedEntry(pinned), await aggregate.calculateFeedEntry(other)],
+      observerId: DEFAULT_OBSERVER_LOCATION.id,
+      cachedAt
+    });
+    const body = { launchId: pinned.id, missionId: null, launchName: pinned.name, launchTime: pinned.net };
+
+    const suggested = await post(pinRequest(body));
+    expect(suggested.statusCode).toBe(202);
+    expect((await post(pinRequest({ ...body, launchId: 'not-in-feed' }))).statusCode).toBe(404);
+
+    const pins = mockResponse();
+    await pinsHandler({ method: 'GET', headers: {}, query: {} } as unknown as VercelRequest, pins as unknown as VercelResponse);
+    expect(pins.body).toEqual({ pins: [] });
+
+    const pending = mockResponse();
+    await pinsHandler(
+      { method: 'GET', headers: { authorization: `Bearer ${PIN_SECRET}` }, query: { pending: '' } } as unknown as VercelRequest,
+      pending as unknown as VercelResponse
+    );
+    expect(pending.body).toMatchObject({ pending: [{ launchId: pinned.id, suggestions: [{ missionId: null, count: 1 }] }] });
+
+    const applied = await post(pinRequest(body, { authorization: `Bearer ${PIN_SECRET}` }));
+    expect(applied.statusCode).toBe(200);
+    expect(applied.body).toMatchObject({ pin: { launchId: pinned.id, missionId: null } });
+
+    // Only the pinned launch is recalculated; the feed itself stays cached
+    const feed = await getCachedLaunchFeed();
+    expect(feed?.cachedAt).toBe(cachedAt);
+    expect(feed?.launches.map(entry => entry.id)).toEqual([pinned.id, other.id]);
+    expect(feed?.launches[0].hasFlightClubData).toBe(false);
+  });
+
+  test('suggestions are rate-limited per client address', async () => {
+    const body = { launchId: 'pins-test-unknown', missionId: null, launchName: launch.name, launchTime: launch.net };
+    const statuses: number[] = [];
+    for (let i = 0; i < 11; i++) {
+      statuses.push((await post(pinRequest(body, { address: '198.51.100.9' }))).statusCode);
+    }
+
+    expect(statuses.slice(0, 10).every(status => status === 404)).toBe(true);
+    expect(statuses[10]).toBe(429);
+    expect((await post(pinRequest(body, { address: '198.51.100.10' }))).statusCode).toBe(404);
+  });
+
+  test('malformed bodies and wrong secrets are rejected', async () => {
+    const malformed = await post(pinRequest('{"launchId":', { address: '198.51.100.20' }));
+    expect(malformed.statusCode).toBe(400);
+
+    const pending = mockResponse();
+    await pinsHandler(
+      { method: 'GET', headers: { authorization: `Bearer ${PIN_SECRET}x` }, query: { pending: '' } } as unknown as VercelRequest,
+      pending as unknown as VercelResponse
+    );
+    expect(pending.statusCode).toBe(401);
+  });
+});
+
+describe('LaunchFeedService', () => {
+  let feed: LaunchFeed;
+
+  beforeAll(async () => {
+    const entry = await aggregate.calculateFeedEntry(launch);
+    feed = JSON.parse(JSON.stringify({
+      launches: [entry],
+      observerId: DEFAULT_OBSERVER_LOCATION.id,
+      generatedAt: new Date().toISOString(),
+      cached: true
+    }));
+  });
+
+  beforeEach(async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      headers: { get: (name: string) => name === 'content-type' ? 'application/json' : null },
+      json: async () => feed
+    });
+    await LaunchFeedService.fetchFeed();
+  });
+
+  afterEach(async () => {
+    LaunchFeedService.clear();
+    await trajectoryOverrideService.removeOverride(launch.id);
+  });
+
+  test('precomputed visibility is reused for the default observer', () => {
+    const visibility = LaunchFeedService.getPrecomputedVisibility(launch, DEFAULT_OBSERVER_LOCATION);
+
+    expect(visibility?.likelihood).toBe(feed.launches[0].visibility.likelihood);
+    expect(visibility?.lastCalculated).toBeInstanceOf(Date);
+    expect(LaunchFeedService.toLaunches(feed)[0]).not.toHaveProperty('visibility');
+  });
+
+  test('other observers, overrides and moved launch times are calculated locally', async () => {
+    const otherObserver = PRESET_OBSERVER_LOCATIONS.find(observer => observer.id !== DEFAULT_OBSERVER_LOCATION.id)!;
+    expect(LaunchFeedService.getPrecomputedVisibility(launch, otherObserver)).toBeNull();
+    expect(LaunchFeedService.getPrecomputedVisibility(
+      launch,
+      { ...DEFAULT_OBSERVER_LOCATION, horizonMask: [{ azimuth: 250, elevation: 5 }] }
+    )).toBeNull();
+    expect(LaunchFeedService.getPrecomputedVisibility(
+      { ...launch, net: '2025-03-02T23:30:00Z' },
+      DEFAULT_OBSERVER_LOCATION
+    )).toBeNull();
+
+    await trajectoryOverrideService.saveOverride({ launchId: launch.id, azimuth: 45 });
+    expect(LaunchFeedService.getPrecomputedVisibility(launch, DEFAULT_OBSERVER_LOCATION)).toBeNull();
+  });
+});
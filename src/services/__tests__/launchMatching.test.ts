@@ -0,0 +1,159 @@
+/**
+ * Launch Matching Tests
+ * Golden Launch Library / Flight Club name pairs for the shared matching
+ * engine, the browser services picking the same missions as the cache job,
+ * and users' match pins taking precedence over both
+ */
+
+import golden from './fixtures/launchMatchingGolden.json';
+import { matchLaunchToMission, MatchableLaunch, MatchableMission, scoreMissionMatch } from '../../utils/launchMatching';
+import { FlightClubApiService, FlightClubMission } from '../flightClubApiService';
+import { launchMatchingService } from '../launchMatchingService';
+import { Launch, MatchConfidence } from '../../types';
+
+interface GoldenCase {
+  label: string;
+  launch: MatchableLaunch;
+  expected: { missionId: string | null; confidence?: MatchConfidence; warning?: string };
+}
+
+const missions = golden.missions as MatchableMission[];
+const cases = golden.cases as GoldenCase[];
+
+describe('launch matching golden file', () => {
+  test.each(cases.map(testCase => [testCase.label, testCase] as const))('%s', (_label, { launch, expected }) => {
+    const match = matchLaunchToMission(launch, missions);
+
+    expect({
+      missionId: match?.mission.id ?? null,
+      confidence: match?.confidence,
+      warning: match?.warnings.find(warning => warning === expected.warning)
+    }).toEqual(expected);
+    expect(match === null || match.reasons.length > 0).toBe(true);
+  });
+
+  test('neighbouring series numbers score no name similarity', () => {
+    const [launch] = cases.map(testCase => testCase.launch);
+    const neighbour = missions.find(mission => mission.id === 'fc-starlink-10-7')!;
+    const result = scoreMissionMatch({ ...launch, net: undefined }, neighbour);
+
+    expect(result.score).toBe(15);
+    expect(result.warnings).toContain('Mission designators differ (10-6 vs 10-7)');
+  });
+});
+
+describe('client matching uses the shared engine', () => {
+  beforeEach(() => {
+    jest.spyOn(FlightClubApiService, 'getMissions').mockResolvedValue({
+      missions: missions as FlightClubMission[],
+      lastUpdated: new Date().toISOString(),
+      cached: true
+    });
+    jest.spyOn(FlightClubApiService, 'getMatchPins').mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    launchMatchingService.clearCache();
+  });
+
+  test('launch matches carry the engine confidence, reasons and warnings', async () => {
+    const misdated = cases.find(testCase => testCase.expected.warning)!;
+    const match = await launchMatchingService.findBestMatch(misdated.launch as unknown as Launch);
+
+    expect(match?.flightClubMission.id).toBe(misdated.expected.missionId);
+    expect(match?.confidence).toBe(misdated.expected.confidence);
+    expect(match?.matchReasons).toEqual(matchLaunchToMission(misdated.launch, missions)?.reasons);
+    expect(match?.validationWarnings).toContain(misdated.expected.warning);
+  });
+
+  test('launches without a simulated mission stay unmatched', async () => {
+    const unmatched = cases.filter(testCase => testCase.expected.missionId === null);
+
+    for (const { launch } of unmatched) {
+      expect(await FlightClubApiService.findMissionForLaunch(launch)).toBeNull();
+    }
+  });
+});
+
+describe('match pins', () => {
+  const misdated = cases.find(testCase => testCase.expected.warning)!;
+  const launch = misdated.launch as unknown as Launch;
+  let saveMatchPin: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(FlightClubApiService, 'getMissions').mockResolvedValue({
+      missions: missions as FlightClubMission[],
+      lastUpdated: new Date().toISOString(),
+      cached: true
+    });
+    jest.spyOn(FlightClubApiService, 'getMatchPins').mockResolvedValue([]);
+    saveMatchPin = jest.spyOn(FlightClubApiService, 'saveMatchPin').mockImplementation(async (pinned, missionId) => ({
+      launchId: pinned.id,
+      missionId,
+      pinnedAt: Date.now()
+    }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    launchMatchingService.clearCache();
+  });
+
+  test('candidates are ranked with the automatic match first', async () => {
+    const candidates = await launchMatchingService.getCandidates(launch, 3);
+
+    expect(candidates[0].flightClubMission.id).toBe(misdated.expected.missionId);
+    expect(candidates.length).toBeLessThanOrEqual(3);
+    expect(candidates.map(candidate => candidate.score)).toEqual(
+      [...candidates.map(candidate => candidate.score)].sort((a, b) => b - a)
+    );
+  });
+
+  test('confirmed, rejected and pinned missions replace the automatic match and are shared', async () => {
+    const match = (await launchMatchingService.findBestMatch(launch))!;
+    const changes: Array<string | null> = [];
+    const unsubscribe = launchMatchingService.subscribe((_launchId, changed) => changes.push(changed?.flightClubMission.id ?? null));
+
+    await launchMatchingService.confirmMatch(launch, match);
+    expect(await launchMatchingService.findBestMatch(launch)).toMatchObject({ confidence: 'exact', pin: 'confirmed' });
+
+    await launchMatchingService.rejectMatch(launch, match);
+    expect(await launchMatchingService.findBestMatch(launch)).toBeNull();
+
+    await launchMatchingService.validateSpecificMatch(launch, 'fc-starlink-10-7');
+    expect((await launchMatchingService.findBestMatch(launch))?.flightClubMission.id).toBe('fc-starlink-10-7');
+
+    unsubscribe();
+    expect(saveMatchPin.mock.calls.map(([, missionId]) => missionId)).toEqual([match.flightClubMission.id, null, 'fc-starlink-10-7']);
+    expect(changes).toEqual([match.flightClubMission.id, null, 'fc-starlink-10-7']);
+  });
+
+  test('pin actions report whether the pin is shared, awaiting review or kept locally', async () => {
+    const match = (await launchMatchingService.findBestMatch(launch))!;
+
+    expect(await launchMatchingService.confirmMatch(launch, match)).toMatchObject({ pinStatus: 'shared' });
+
+    saveMatchPin.mockResolvedValueOnce(null);
+    expect(await launchMatchingService.rejectMatch(launch, match)).toMatchObject({ pinStatus: 'pending' });
+
+    saveMatchPin.mockRejectedValueOnce(new Error('offline'));
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(await launchMatchingService.validateSpecificMatch(launch, 'fc-starlink-10-7')).toMatchObject({ pinStatus: 'local' });
+    expect(await launchMatchingService.findBestMatch(launch)).not.toHaveProperty('pinStatus');
+  });
+
+  test('pins shared by other users override the matching engine', async () => {
+    jest.spyOn(FlightClubApiService, 'getMatchPins').mockResolvedValue([
+      { launchId: launch.id, missionId: 'fc-crew-10', pinnedAt: Date.now() },
+      { launchId: 'll-europa-clipper', missionId: null, pinnedAt: Date.now() }
+    ]);
+    const europaClipper = cases.find(testCase => testCase.launch.id === 'll-europa-clipper')!.launch as unknown as Launch;
+
+    expect(await launchMatchingService.findBestMatch(launch)).toMatchObject({
+      flightClubMission: { id: 'fc-crew-10' },
+      pin: 'pinned'
+    });
+    expect(await launchMatchingService.findBestMatch(europaClipper)).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Launch Window Sweep Tests
+ * Visibility recomputed across a window that straddles Bermuda sunset
+ */
+
+import { calculateWindowSweep } from '../visibilityService';
+import { DEFAULT_OBSERVER_LOCATION } from '../observerLocationService';
+import { Launch } from '../../types';
+
+// Bermuda sunset on 15 June 2025 is about 23:25 UTC (20:25 ADT)
+const createLaunch = (overrides: Partial<Launch> = {}): Launch => ({
+  id: 'window-sweep-test',
+  name: 'Falcon 9 | SES-26',
+  mission: {
+    name: 'SES-26',
+    description: 'Commercial communications satellite',
+    orbit: { name: 'Geostationary Transfer Orbit' }
+  },
+  rocket: { name: 'Falcon 9' },
+  pad: {
+    name: 'Space Launch Complex 40',
+    location: {
+      name: 'Cape Canaveral SFS, FL, USA',
+      latitude: 28.5619,
+      longitude: -80.5774
+    }
+  },
+  net: '2025-06-15T22:30:00Z',
+  window_start: '2025-06-15T22:00:00Z',
+  window_end: '2025-06-16T02:00:00Z',
+  status: { name: 'Go for Launch', abbrev: 'Go' },
+  ...overrides
+});
+
+describe('calculateWindowSweep', () => {
+  test('steps across the whole window and marks the NET', async () => {
+    const sweep = await calculateWindowSweep(createLaunch(), DEFAULT_OBSERVER_LOCATION);
+
+    expect(sweep?.stepMinutes).toBe(15);
+    expect(sweep?.steps).toHaveLength(17);
+    expect(sweep?.steps[0].time).toBe('2025-06-15T22:00:00.000Z');
+    expect(sweep?.steps[16].time).toBe('2025-06-16T02:00:00.000Z');
+    expect(sweep?.steps.filter(step => step.isNet).map(step => step.offsetMinutes)).toEqual([30]);
+  });
+
+  test('a window crossing sunset moves from daylight into darkness', async () => {
+    const sweep = await calculateWindowSweep(createLaunch(), DEFAULT_OBSERVER_LOCATION);
+    const first = sweep!.steps[0].visibility;
+    const dusk = sweep!.steps.find(step => step.visibility.solarConditions.twilightPhase === 'civil');
+    const last = sweep!.steps[16].visibility;
+
+    expect(first.solarConditions.twilightPhase).toBe('day');
+    expect(dusk?.offsetMinutes).toBe(90);
+    expect(last.solarConditions.twilightPhase).toBe('night');
+    expect(last.solarConditions.sunElevation).toBeLessThan(first.solarConditions.sunElevation);
+  });
+
+  test('long windows are stepped more coarsely and instantaneous windows are skipped', async () => {
+    const long = await calculateWindowSweep(
+      createLaunch({ window_end: '2025-06-16T06:00:00Z' }),
+      DEFAULT_OBSERVER_LOCATION
+    );
+    const instantaneous = await calculateWindowSweep(
+      createLaunch({ window_end: '2025-06-15T22:00:00Z' }),
+      DEFAULT_OBSERVER_LOCATION
+    );
+
+    expect(long?.stepMinutes).toBe(30);
+    expect(long?.steps).toHaveLength(17);
+    expect(instantaneous).toBeNull();
+    expect(await calculateWindowSweep(createLaunch({ window_start: undefined }))).toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Observer Location Service Tests
+ * Tests saved locations, validation and that calculations and displayed times
+ * follow the active location
+ */
+
+import {
+  observerLocationService,
+  getObserverLocation,
+  getObserverCacheKey,
+  validateObserverLocation,
+  DEFAULT_OBSERVER_LOCATION
+} from '../observerLocationService';
+import { SolarPositionCalculator } from '../solarPositionCalculator';
+import { BermudaTimeService } from '../bermudaTimeService';
+import { formatLaunchTime } from '../../utils/timeUtils';
+
+describe('ObserverLocationService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    observerLocationService.reset();
+  });
+
+  test('defaults to Bermuda', () => {
+    const location = getObserverLocation();
+
+    expect(location.latitude).toBe(32.3078);
+    expect(location.longitude).toBe(-64.7505);
+    expect(location.timezone).toBe('Atlantic/Bermuda');
+  });
+
+  test('saves a custom location and makes it active', () => {
+    const saved = observerLocationService.saveLocation({
+      name: 'Outer Banks',
+      latitude: 35.5585,
+      longitude: -75.4665,
+      elevation: 5,
+      timezone: 'America/New_York'
+    });
+
+    expect(getObserverLocation().id).toBe(saved.id);
+    expect(observerLocationService.getSavedLocations().map(l => l.id)).toContain(saved.id);
+
+    const stored = JSON.parse(localStorage.getItem('bermuda-rocket-observer-location') || '{}');
+    expect(stored.activeId).toBe(saved.id);
+  });
+
+  test('falls back to default when the active custom location is removed', () => {
+    const saved = observerLocationService.saveLocation({
+      name: 'Boat',
+      latitude: 33,
+      longitude: -65,
+      elevation: 0,
+      timezone: 'Atlantic/Bermuda'
+    });
+
+    observerLocationService.removeLocation(saved.id);
+
+    expect(getObserverLocation().id).toBe(DEFAULT_OBSERVER_LOCATION.id);
+  });
+
+  test('rejects invalid coordinates and timezones', () => {
+    const errors = validateObserverLocation({
+      name: 'Bad',
+      latitude: 95,
+      longitude: -200,
+      elevation: 0,
+      timezone: 'Not/AZone'
+    });
+
+    expect(errors).toHaveLength(3);
+    expect(() => observerLocationService.saveLocation({
+      name: 'Bad',
+      latitude: 95,
+      longitude: 0,
+      elevation: 0,
+      timezone: 'UTC'
+    })).toThrow('Invalid observer location');
+  });
+
+  test('notifies subscribers when the active location changes', () => {
+    const callback = jest.fn();
+    const unsubscribe = observerLocationService.subscribe(callback);
+
+    observerLocationService.setActiveLocation('bermuda-st-davids');
+    unsubscribe();
+
+    expect(callback).toHaveBeenCalledWith(expect.objectContaining({
+      active: expect.objectContaining({ id: 'bermuda-st-davids' })
+    }));
+  });
+
+  test('solar position defaults to the active observer location', () => {
+    const date = new Date('2025-06-21T16:00:00Z');
+    const bermudaSun = SolarPositionCalculator.calculateSolarPosition(date);
+
+    observerLocationService.saveLocation({
+      name: 'London',
+      latitude: 51.5074,
+      longitude: -0.1278,
+      elevation: 11,
+      timezone: 'Europe/London'
+    });
+    const londonSun = SolarPositionCalculator.calculateSolarPosition(date);
+
+    expect(londonSun.elevation).not.toBeCloseTo(bermudaSun.elevation, 1);
+    const explicitSun = SolarPositionCalculator.calculateSolarPosition(date, 51.5074, -0.1278, 11);
+    expect(londonSun.elevation).toBeCloseTo(explicitSun.elevation, 6);
+    expect(londonSun.azimuth).toBeCloseTo(explicitSun.azimuth, 6);
+  });
+
+  test('times are displayed in the active location\'s timezone', () => {
+    const net = '2025-07-15T23:30:00Z';
+    expect(formatLaunchTime(net)).toMatchObject({ time: '08:30 PM', timeZone: 'ADT' });
+
+    observerLocationService.saveLocation({
+      name: 'London',
+      latitude: 51.5074,
+      longitude: -0.1278,
+      elevation: 11,
+      timezone: 'Europe/London'
+    });
+
+    expect(formatLaunchTime(net)).toMatchObject({ time: '12:30 AM', timeZone: 'GMT+1' });
+    expect(BermudaTimeService.getUTCOffset(new Date(net))).toBe(1);
+    expect(BermudaTimeService.getUTCOffset(new Date('2025-01-15T12:00:00Z'))).toBe(0);
+  });
+
+  test('cache keys change when a custom location is edited in place', () => {
+    const saved = observerLocationService.saveLocation({
+      name: 'Boat',
+      latitude: 33,
+      longitude: -65,
+      elevation: 0,
+      timezone: 'Atlantic/Bermuda'
+    });
+    const before = getObserverCacheKey();
+
+    observerLocationService.saveLocation({ ...saved, latitude: 33.5 });
+
+    expect(getObserverLocation().id).toBe(saved.id);
+    expect(getObserverCacheKey()).not.toBe(before);
+  });
+});
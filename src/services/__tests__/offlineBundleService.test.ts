@@ -0,0 +1,39 @@
+/**
+ * Offline Bundle Service Tests
+ * Tests which launch gets snapshotted for offline viewing
+ */
+
+import { OfflineBundleService } from '../offlineBundleService';
+import { LaunchWithVisibility } from '../../types';
+
+const makeLaunch = (id: string, net: string, likelihood: LaunchWithVisibility['visibility']['likelihood']) => ({
+  id,
+  name: `Launch ${id}`,
+  net,
+  visibility: { likelihood, reason: '' }
+} as unknown as LaunchWithVisibility);
+
+describe('OfflineBundleService', () => {
+  const now = new Date('2025-06-15T12:00:00Z').getTime();
+
+  test('selects the earliest upcoming launch that could be seen', () => {
+    const launches = [
+      makeLaunch('later', '2025-06-18T01:00:00Z', 'high'),
+      makeLaunch('invisible', '2025-06-15T20:00:00Z', 'none'),
+      makeLaunch('next', '2025-06-16T01:00:00Z', 'low'),
+      makeLaunch('past', '2025-06-14T01:00:00Z', 'high')
+    ];
+
+    expect(OfflineBundleService.selectNextVisibleLaunch(launches, now)?.id).toBe('next');
+  });
+
+  test('keeps a launch that lifted off within the last hour', () => {
+    const launches = [
+      makeLaunch('just-launched', '2025-06-15T11:30:00Z', 'medium'),
+      makeLaunch('tomorrow', '2025-06-16T01:00:00Z', 'high')
+    ];
+
+    expect(OfflineBundleService.selectNextVisibleLaunch(launches, now)?.id).toBe('just-launched');
+    expect(OfflineBundleService.selectNextVisibleLaunch([], now)).toBeNull();
+  });
+});
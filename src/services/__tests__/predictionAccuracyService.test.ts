@@ -0,0 +1,81 @@
+/**
+ * Prediction Accuracy Service Tests
+ * Calibration of archived predictions against sighting reports
+ */
+
+import { PredictionAccuracyService } from '../predictionAccuracyService';
+import { ArchivedLaunch, ArchivedPrediction, SightingReport } from '../../types';
+
+const NET = '2025-06-15T23:00:00.000Z';
+
+const at = (secondsAfterNet: number) => new Date(Date.parse(NET) + secondsAfterNet * 1000).toISOString();
+
+const makeArchived = (
+  launchId: string,
+  prediction: Partial<ArchivedPrediction>,
+  reports: Array<Partial<SightingReport>>,
+  vehicle = 'Falcon 9'
+): ArchivedLaunch => ({
+  launchId,
+  name: `Launch ${launchId}`,
+  net: NET,
+  vehicle,
+  prediction: {
+    capturedAt: 0,
+    likelihood: 'high',
+    visibility: { likelihood: 'high', reason: '' } as ArchivedPrediction['visibility'],
+    ...prediction
+  },
+  reports: reports.map(report => ({ launchId, seen: true, submittedAt: 0, ...report })),
+  createdAt: 0,
+  updatedAt: 0
+});
+
+describe('PredictionAccuracyService', () => {
+  const archive = [
+    makeArchived('a', { likelihood: 'high', dataSource: 'flightclub', trajectorySource: 'database', firstVisibleSeconds: 180 }, [
+      { seen: true, firstSeenAt: at(200) },
+      { seen: true, firstSeenAt: at(240) },
+      { seen: false }
+    ]),
+    makeArchived('b', { likelihood: 'high', dataSource: 'calculated', trajectorySource: 'mission-type', firstVisibleSeconds: 180 }, [
+      { seen: false },
+      { seen: false }
+    ]),
+    makeArchived('c', { likelihood: 'low', dataSource: 'estimated', trajectorySource: 'fallback' }, [
+      { seen: false }
+    ], 'Atlas V'),
+    makeArchived('d', { likelihood: 'medium' }, [])
+  ];
+
+  test('scores the seen rate and correct calls per likelihood bucket', () => {
+    const stats = PredictionAccuracyService.calibrate(archive);
+
+    expect(stats.archivedLaunches).toBe(4);
+    expect(stats.scoredLaunches).toBe(3);
+    expect(stats.totalReports).toBe(6);
+    expect(stats.overallAccuracy).toBeCloseTo(2 / 3);
+
+    expect(stats.byLikelihood.high).toMatchObject({ launches: 2, sighted: 1, sightedRate: 0.5, accuracy: 0.5 });
+    expect(stats.byLikelihood.low).toMatchObject({ launches: 1, sighted: 0, accuracy: 1 });
+    expect(stats.byLikelihood.medium).toMatchObject({ launches: 0, sightedRate: null });
+  });
+
+  test('measures first-visible timing error from reported times', () => {
+    const { timing } = PredictionAccuracyService.calibrate(archive);
+
+    expect(timing.samples).toBe(2);
+    expect(timing.meanErrorSeconds).toBe(40);
+    expect(timing.medianAbsErrorSeconds).toBe(40);
+    expect(timing.withinOneMinuteRate).toBe(1);
+  });
+
+  test('breaks results down by data source, trajectory source and vehicle', () => {
+    const stats = PredictionAccuracyService.calibrate(archive);
+
+    expect(stats.byDataSource.map(bucket => bucket.key).sort()).toEqual(['calculated', 'estimated', 'flightclub']);
+    expect(stats.byTrajectorySource.find(bucket => bucket.key === 'database')?.meanAbsTimingErrorSeconds).toBe(40);
+    expect(stats.byVehicle[0]).toMatchObject({ key: 'Falcon 9', launches: 2, correct: 1 });
+    expect(stats.byVehicle[1]).toMatchObject({ key: 'Atlas V', launches: 1, correct: 1 });
+  });
+});
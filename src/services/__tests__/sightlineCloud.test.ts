@@ -0,0 +1,87 @@
+/**
+ * Sightline Cloud Tests
+ * Cloud sampled where the line of sight toward the rocket crosses each layer
+ */
+
+import { SightlineCloudService, SightlineFrame } from '../sightlineCloudService';
+import { DEFAULT_OBSERVER_LOCATION } from '../observerLocationService';
+import { HourlyForecast } from '../weatherService';
+
+const launchTime = new Date('2025-06-15T23:30:00Z');
+
+const forecastHours = (cloudCoverLow: number): HourlyForecast[] => ['2025-06-15T23:00:00Z', '2025-06-16T00:00:00Z']
+  .map(datetime => ({
+    datetime,
+    temperature: 26,
+    humidity: 75,
+    cloudCover: cloudCoverLow,
+    cloudCoverLow,
+    cloudCoverMid: 0,
+    cloudCoverHigh: 0,
+    visibility: 24,
+    condition: 'Partly Cloudy',
+    precipitationProbability: 10
+  }));
+
+// Clear overhead, a low cloud bank starting ~15 km west of the island
+const cloudBankToWest = (latitude: number, longitude: number) =>
+  forecastHours(longitude < DEFAULT_OBSERVER_LOCATION.longitude - 0.15 ? 90 : 0);
+
+const framesToward = (bearing: number, elevations: number[]): SightlineFrame[] =>
+  elevations.map((elevationAngle, index) => ({
+    time: 150 + index * 60,
+    altitude: 120000,
+    bearingFromBermuda: bearing,
+    elevationAngle,
+    aboveHorizon: true
+  }));
+
+describe('SightlineCloudService', () => {
+  test('low sightlines meet the cloud layers far from the observer', () => {
+    expect(SightlineCloudService.crossingDistanceKm(3, 1.5)).toBeCloseTo(27.5, 0);
+    expect(SightlineCloudService.crossingDistanceKm(45, 1.5)).toBeCloseTo(1.5, 1);
+    expect(SightlineCloudService.crossingDistanceKm(3, 9)).toBeGreaterThan(100);
+  });
+
+  test('a cloud bank at low elevation toward the trajectory rates poor despite a clear zenith', () => {
+    const result = SightlineCloudService.evaluate(
+      framesToward(247, [3, 4, 5]),
+      launchTime,
+      DEFAULT_OBSERVER_LOCATION,
+      cloudBankToWest
+    );
+
+    expect(result?.rating).toBe('poor');
+    expect(result?.clarity).toBeCloseTo(10);
+    expect(result?.worst.layers[0]).toMatchObject({ layer: 'low', cloudCover: 90 });
+  });
+
+  test('the same sky is clear along high sightlines or away from the bank', () => {
+    const overhead = SightlineCloudService.evaluate(
+      framesToward(247, [60, 70]),
+      launchTime,
+      DEFAULT_OBSERVER_LOCATION,
+      cloudBankToWest
+    );
+    const eastward = SightlineCloudService.evaluate(
+      framesToward(67, [3, 4, 5]),
+      launchTime,
+      DEFAULT_OBSERVER_LOCATION,
+      cloudBankToWest
+    );
+
+    expect(overhead?.rating).toBe('excellent');
+    expect(eastward?.clarity).toBe(100);
+  });
+
+  test('skips frames below the horizon and layers above the rocket', () => {
+    const frames: SightlineFrame[] = [
+      { time: 30, altitude: 3000, bearingFromBermuda: 247, elevationAngle: 0, aboveHorizon: false },
+      { time: 90, altitude: 3000, bearingFromBermuda: 247, elevationAngle: 1, aboveHorizon: true }
+    ];
+
+    expect(SightlineCloudService.selectFrames(frames)).toHaveLength(1);
+    expect(SightlineCloudService.layerCrossings(frames[1], DEFAULT_OBSERVER_LOCATION).map(crossing => crossing.layer))
+      .toEqual(['low']);
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Solar Position Calculator Tests
+ * Julian day epoch and sun position against the NREL SPA reference case
+ */
+
+import { SolarPositionCalculator } from '../solarPositionCalculator';
+
+describe('SolarPositionCalculator', () => {
+  test('Julian days start at noon UTC', () => {
+    // J2000.0 is 2000-01-01 12:00 UTC; counting days from midnight put every position 12 hours out
+    expect(SolarPositionCalculator.calculateSolarPosition(new Date('2000-01-01T12:00:00Z'), 0, 0, 0).julian_day)
+      .toBeCloseTo(2451545.0, 6);
+    expect(SolarPositionCalculator.calculateSolarPosition(new Date('2000-01-02T00:00:00Z'), 0, 0, 0).julian_day)
+      .toBeCloseTo(2451545.5, 6);
+  });
+
+  test('sun position matches the NREL SPA worked example', () => {
+    // NREL TP-560-34302 Table A5.1: Golden, Colorado, 2003-10-17 12:30:30 MST
+    const sun = SolarPositionCalculator.calculateSolarPosition(
+      new Date('2003-10-17T19:30:30Z'),
+      39.742476,
+      -105.1786,
+      1830.14
+    );
+
+    // Delta T is ignored, so allow a few hundredths of a degree
+    expect(Math.abs(sun.zenith - 50.11162)).toBeLessThan(0.05);
+    expect(Math.abs(sun.azimuth - 194.34024)).toBeLessThan(0.05);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Trajectory Override Tests
+ * Validation, JSON sharing and precedence of manual overrides in trajectory lookups
+ */
+
+import { trajectoryOverrideService, validateTrajectoryOverride } from '../trajectoryOverrideService';
+import { getTrajectoryMapping } from '../trajectoryMappingService';
+import { getTrajectoryData } from '../trajectoryService';
+import { parseGroundTrackCsv } from '../../utils/groundTrack';
+import { GroundTrackPoint, Launch } from '../../types';
+
+const launch: Launch = {
+  id: 'override-test-launch',
+  name: 'Falcon 9 | Starlink Group 6-20',
+  rocket: { name: 'Falcon 9' },
+  pad: {
+    name: 'Space Launch Complex 40',
+    latitude: '28.5618',
+    longitude: '-80.5772',
+    location: { name: 'Cape Canaveral SFS, FL, USA' }
+  },
+  net: '2025-03-01T23:30:00Z',
+  mission: { name: 'Starlink Group 6-20', orbit: { name: 'Low Earth Orbit' } },
+  status: { name: 'Go for Launch' }
+};
+
+// Heads due southeast from the Cape
+const southeastTrack: GroundTrackPoint[] = [
+  { time: 0, latitude: 28.56, longitude: -80.58, altitude: 0 },
+  { time: 300, latitude: 27.0, longitude: -78.8, altitude: 150 },
+  { time: 500, latitude: 26.0, longitude: -77.6, altitude: 200 }
+];
+
+afterEach(async () => {
+  for (const override of trajectoryOverrideService.getOverrides()) {
+    await trajectoryOverrideService.removeOverride(override.launchId);
+  }
+});
+
+describe('validateTrajectoryOverride', () => {
+  test('requires a launch id and at least one correction', () => {
+    expect(validateTrajectoryOverride({ launchId: '' })).toHaveLength(2);
+    expect(validateTrajectoryOverride({ launchId: 'a', direction: 'Southeast' })).toEqual([]);
+  });
+
+  test('rejects out of range azimuths and unordered ground tracks', () => {
+    expect(validateTrajectoryOverride({ launchId: 'a', azimuth: 360 })).toHaveLength(1);
+    expect(validateTrajectoryOverride({
+      launchId: 'a',
+      groundTrack: [southeastTrack[1], southeastTrack[0]]
+    })).toEqual(['Ground track point 2 must be later than the point before it']);
+  });
+
+  test('ground track CSV skips the header and reports bad lines', () => {
+    const { track, errors } = parseGroundTrackCsv('time,latitude,longitude,altitude_km\n0,28.5,-80.6,0\n60,29,-80,x');
+    expect(track).toEqual([{ time: 0, latitude: 28.5, longitude: -80.6, altitude: 0 }]);
+    expect(errors).toEqual(['Line 3: expected "time,latitude,longitude,altitude_km"']);
+  });
+});
+
+describe('override sharing', () => {
+  test('exported overrides import into an empty store', async () => {
+    await trajectoryOverrideService.saveOverride({ launchId: launch.id, azimuth: 130, note: 'press kit' });
+    const json = trajectoryOverrideService.exportOverrides();
+
+    await trajectoryOverrideService.removeOverride(launch.id);
+    const result = await trajectoryOverrideService.importOverrides(json);
+
+    expect(result).toEqual({ imported: 1, skipped: [] });
+    expect(trajectoryOverrideService.getOverride(launch.id)).toMatchObject({ azimuth: 130, note: 'press kit' });
+  });
+
+  test('newer local edits and invalid entries are skipped', async () => {
+    await trajectoryOverrideService.saveOverride({ launchId: launch.id, azimuth: 50, updatedAt: 2000 });
+    const json = JSON.stringify({
+      version: 1,
+      overrides: [
+        { launchId: launch.id, azimuth: 130, updatedAt: 1000 },
+        { launchId: 'other-launch', azimuth: 400, updatedAt: 1000 }
+      ]
+    });
+
+    const result = await trajectoryOverrideService.importOverrides(json);
+
+    expect(result.imported).toBe(0);
+    expect(result.skipped).toHaveLength(2);
+    expect(trajectoryOverrideService.getOverride(launch.id)?.azimuth).toBe(50);
+    await expect(trajectoryOverrideService.importOverrides('not json')).rejects.toThrow('not valid JSON');
+  });
+});
+
+describe('trajectory lookups honour overrides', () => {
+  test('mapping takes the heading of the first ground track leg', async () => {
+    await trajectoryOverrideService.saveOverride({ launchId: launch.id, groundTrack: southeastTrack });
+    const mapping = getTrajectoryMapping(launch);
+
+    expect(mapping.source).toBe('manual');
+    expect(mapping.confidence).toBe('high');
+    expect(mapping.azimuth).toBeGreaterThan(120);
+    expect(mapping.azimuth).toBeLessThan(140);
+  });
+
+  test('trajectory data uses the ground track points', async () => {
+    await trajectoryOverrideService.saveOverride({ launchId: launch.id, groundTrack: southeastTrack });
+    const data = await getTrajectoryData(launch);
+
+    expect(data.source).toBe('manual');
+    expect(data.points).toHaveLength(southeastTrack.length);
+    expect(data.points[2].altitude).toBe(200000);
+  });
+
+  test('an azimuth override projects a manual trajectory', async () => {
+    await trajectoryOverrideService.saveOverride({ launchId: launch.id, azimuth: 145 });
+    const data = await getTrajectoryData(launch);
+
+    expect(getTrajectoryMapping(launch)).toMatchObject({ azimuth: 145, direction: 'Southeast', source: 'manual' });
+    expect(data.source).toBe('manual');
+    expect(data.points.length).toBeGreaterThan(0);
+  });
+});
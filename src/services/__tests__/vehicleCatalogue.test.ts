@@ -0,0 +1,44 @@
+/**
+ * Vehicle Catalogue Tests
+ * Profile lookup by Launch Library configuration and simulator coverage of every vehicle
+ */
+
+import { getVehicleProfile, getVehicleTimeline, VEHICLE_CATALOGUE } from '../../utils/vehicleCatalogue';
+import { AscentSimulator } from '../ascentSimulator';
+import { DEFAULT_OBSERVER_LOCATION } from '../observerLocationService';
+
+const CAPE_CANAVERAL = { latitude: 28.5618, longitude: -80.5772 };
+
+describe('vehicleCatalogue', () => {
+  test('prefers the rocket configuration name over the display name', () => {
+    const launch = {
+      rocket: { name: 'Rocket', configuration: { name: 'Vulcan', full_name: 'Vulcan VC4S' } }
+    };
+    expect(getVehicleProfile(launch).id).toBe('vulcan');
+    expect(getVehicleProfile({ rocket: { name: 'Falcon Heavy' } }).id).toBe('falcon-heavy');
+    expect(getVehicleProfile('Antares 330').id).toBe('antares');
+    expect(getVehicleProfile('Minotaur IV').id).toBe('falcon-9');
+    expect(getVehicleProfile().id).toBe('falcon-9');
+  });
+
+  test('timeline follows the stage burn times', () => {
+    const timeline = getVehicleTimeline(getVehicleProfile('Falcon 9'));
+    expect(timeline).toEqual({ meco: 150, stageSeparation: 153, upperStageIgnition: 158, seco: 518 });
+  });
+
+  test.each(VEHICLE_CATALOGUE.map(profile => [profile.id, profile] as const))('%s simulates an ascent to orbit', (id, profile) => {
+    const vehicle = AscentSimulator.getPreset(profile.name);
+    expect(vehicle.id).toBe(id);
+
+    const { points, stageEvents } = AscentSimulator.simulate({
+      azimuth: 50,
+      launchSite: CAPE_CANAVERAL,
+      observer: DEFAULT_OBSERVER_LOCATION,
+      vehicle,
+      sampleSeconds: 30
+    });
+
+    expect(stageEvents.find(event => event.event === 'MECO')!.engineType).toBe(profile.firstStage.engineType);
+    expect(points.filter(point => point.time >= 600).every(point => point.altitude > 100)).toBe(true);
+  });
+});
@@ -3,8 +3,10 @@
  * Tests the complete visibility calculation pipeline with real scenarios
  */
 
-import { calculateVisibility } from '../visibilityService';
-import { Launch } from '../../types';
+import { calculateVisibility, calculateVisibilityComparison } from '../visibilityService';
+import { WeatherService } from '../weatherService';
+import { assessHaze } from '../../utils/hazeModel';
+import { Launch, ObserverLocation } from '../../types';
 
 // Mock trajectory service for enhanced visibility tests
 jest.mock('../trajectoryService', () => ({
@@ -505,6 +507,50 @@ describe('Visibility Service Integration Tests', () => {
       });
     });
   });
+
+  describe('Haze', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('should trim the simulated pass to what clears the haze', async () => {
+      const nightTime = new Date();
+      nightTime.setHours(21, 0, 0, 0);
+      const launch = createTestLaunch({ id: 'haze-test', net: nightTime.toISOString() });
+      const muggy = { temperature: 26, humidity: 94, windSpeed: 6 };
+
+      const hazeSpy = jest.spyOn(WeatherService, 'getHazeConditions').mockReturnValue(null);
+      const clear = await calculateVisibility(launch, undefined, { useCache: false });
+      hazeSpy.mockReturnValue(muggy);
+      const hazy = await calculateVisibility(launch, undefined, { useCache: false });
+
+      expect(clear.dataSource).toBe('calculated');
+      expect(hazy.dataSource).toBe('calculated');
+      expect(clear.factors).not.toContain(assessHaze(muggy).description);
+      expect(hazy.factors).toContain(assessHaze(muggy).description);
+      expect(hazy.factors!.some(factor => factor.startsWith('Haze shortens visible time'))).toBe(true);
+      expect(hazy.estimatedTimeVisible).toContain('above the haze');
+    });
+  });
+
+  describe('Observer Comparison', () => {
+    test('should calculate visibility for each observer location', async () => {
+      const observers: ObserverLocation[] = [
+        { id: 'spot-a', name: 'Spot A', latitude: 32.3078, longitude: -64.7505, elevation: 0, timezone: 'Atlantic/Bermuda' },
+        { id: 'spot-b', name: 'Spot B', latitude: 35.2, longitude: -75.5, elevation: 10, timezone: 'America/New_York' }
+      ];
+      const launch = createTestLaunch({ id: 'comparison-test' });
+
+      const comparisons = await calculateVisibilityComparison(launch, observers);
+
+      expect(comparisons.map(c => c.observer.id)).toEqual(['spot-a', 'spot-b']);
+      comparisons.forEach(({ visibility }) => {
+        expect(visibility).toHaveProperty('likelihood');
+        expect(visibility).toHaveProperty('solarConditions');
+        expect(typeof visibility.solarConditions.sunElevation).toBe('number');
+      });
+    });
+  });
 });
 
 // Custom matcher for better test readability
@@ -0,0 +1,129 @@
+/**
+ * Weather Forecast Tests
+ * Hourly Open-Meteo forecast interpolated to the launch and viewing window,
+ * served locally from a recorded response
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WeatherService } from '../weatherService';
+import fixture from './fixtures/openMeteoForecast.json';
+
+describe('WeatherService hourly forecast', () => {
+  let server: http.Server;
+  let requestedUrl = '';
+  let responseBody: unknown = fixture;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requestedUrl = req.url || '';
+      res.writeHead(req.url?.startsWith('/v1/forecast') ? 200 : 404, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*'
+      });
+      res.end(JSON.stringify(responseBody));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    process.env.REACT_APP_OPEN_METEO_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    delete process.env.REACT_APP_OPEN_METEO_BASE_URL;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2025-06-15T18:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    responseBody = fixture;
+  });
+
+  test('requests hourly cloud layers and parses the forecast', async () => {
+    const weather = await WeatherService.getCurrentWeather();
+
+    const params = new URL(requestedUrl, 'http://localhost').searchParams;
+    expect(params.get('hourly')).toContain('cloud_cover_low');
+    expect(params.get('hourly')).toContain('precipitation_probability');
+    expect(params.get('timeformat')).toBe('unixtime');
+
+    expect(weather.current.pressure).toBe(1017.8);
+    expect(weather.forecast).toHaveLength(72);
+    expect(weather.forecast?.[20]).toMatchObject({
+      datetime: '2025-06-15T23:00:00.000Z',
+      cloudCover: 42,
+      cloudCoverLow: 32,
+      cloudCoverHigh: 32,
+      visibility: 17.91,
+      precipitationProbability: 16
+    });
+  });
+
+  test('interpolates between forecast hours', async () => {
+    const { forecast = [] } = await WeatherService.getCurrentWeather();
+
+    const halfPast = WeatherService.interpolateForecast(forecast, new Date('2025-06-15T23:30:00Z'));
+    expect(halfPast?.cloudCover).toBeCloseTo(47);
+    expect(halfPast?.cloudCoverLow).toBeCloseTo(28.5);
+    expect(halfPast?.visibility).toBeCloseTo(18.746);
+    expect(WeatherService.interpolateForecast(forecast, new Date('2025-06-25T00:00:00Z'))).toBeNull();
+  });
+
+  test('hours with missing values are skipped and interpolated across', async () => {
+    const hourly = fixture.hourly as unknown as Record<string, (number | null)[]>;
+    responseBody = {
+      ...fixture,
+      hourly: { ...hourly, cloud_cover: hourly.cloud_cover.map((value, index) => index === 21 ? null : value) }
+    };
+
+    const { forecast = [] } = await WeatherService.getCurrentWeather();
+    expect(forecast).toHaveLength(71);
+    expect(forecast.map(hour => hour.datetime)).not.toContain('2025-06-16T00:00:00.000Z');
+
+    const midnight = WeatherService.interpolateForecast(forecast, new Date('2025-06-16T00:00:00Z'));
+    expect(midnight?.cloudCover).toBeCloseTo(((hourly.cloud_cover[20] as number) + (hourly.cloud_cover[22] as number)) / 2);
+  });
+
+  test('assesses launch conditions from the forecast across the visible window', async () => {
+    const assessment = await WeatherService.getWeatherForLaunch(
+      new Date('2025-06-15T23:30:00Z'),
+      { startTime: 120, endTime: 600 }
+    );
+
+    expect(assessment.source).toBe('forecast');
+    expect(assessment.factors.cloudCover.value).toBeCloseTo(48);
+    expect(assessment.factors.cloudCover.layers?.low).toBeCloseTo(27.8);
+    expect(assessment.factors.visibility.value).toBeCloseTo(18.8, 1);
+    expect(assessment.factors.precipitation.probability).toBe(13);
+    expect(assessment.overallRating).toBe('fair');
+    expect(assessment.detailedForecast).toContain('28% low');
+  });
+
+  test('a blocked sightline caps the overall rating', async () => {
+    const worst = {
+      time: 180,
+      bearing: 247,
+      elevation: 3,
+      clearProbability: 0.1,
+      layers: [{ layer: 'low' as const, distanceKm: 27, latitude: 32.2, longitude: -65, cloudCover: 90 }]
+    };
+    const assessment = await WeatherService.getWeatherForLaunch(
+      new Date('2025-06-15T23:30:00Z'),
+      undefined,
+      { rating: 'poor', clarity: 10, worst, samples: [worst], source: 'telemetry' }
+    );
+
+    expect(assessment.overallRating).toBe('poor');
+    expect(assessment.factors.sightline).toMatchObject({ rating: 'poor', bearing: 247 });
+    expect(assessment.factors.sightline?.impact).toContain('WSW at 3°');
+  });
+
+  test('falls back to an estimate beyond the forecast range', async () => {
+    const assessment = await WeatherService.getWeatherForLaunch(new Date('2025-06-25T23:30:00Z'));
+    expect(assessment.source).toBe('estimated');
+    expect(assessment.factors.cloudCover.layers).toBeUndefined();
+  });
+});
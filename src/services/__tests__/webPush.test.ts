@@ -0,0 +1,242 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Web Push Tests
+ * Delivers to a local stand-in push service and decrypts what it receives
+ */
+
+import { createDecipheriv, createECDH, createPublicKey, hkdfSync, randomBytes, verify } from 'crypto';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  fromBase64Url,
+  generateVapidKeys,
+  sendWebPush,
+  toBase64Url,
+  VapidDetails,
+  WebPushSubscription
+} from '../../../api/push/webPush';
+import { planNotifications } from '../../../api/push/schedule';
+import { pruneSentKeys } from '../../../api/push/deliver';
+import type { PushSubscriptionRecord } from '../../../api/push/store';
+
+interface ReceivedPush {
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: Buffer;
+}
+
+// Reverse of encryptPayload, as a browser's push service client would do it
+function decryptPayload(body: Buffer, userAgent: ReturnType<typeof createECDH>, authSecret: Buffer): string {
+  const salt = body.subarray(0, 16);
+  const keyLength = body.readUInt8(20);
+  const serverPublicKey = body.subarray(21, 21 + keyLength);
+  const ciphertext = body.subarray(21 + keyLength);
+
+  const sharedSecret = userAgent.computeSecret(serverPublicKey);
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgent.getPublicKey(), serverPublicKey]);
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+  const contentKey = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  const decipher = createDecipheriv('aes-128-gcm', contentKey, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const plaintext = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+
+  expect(plaintext[plaintext.length - 1]).toBe(2); // last-record delimiter
+  return plaintext.subarray(0, plaintext.length - 1).toString('utf8');
+}
+
+describe('sendWebPush', () => {
+  let server: Server;
+  let baseUrl: string;
+  let received: ReceivedPush[] = [];
+  let responseStatus = 201;
+
+  const vapidKeys = generateVapidKeys();
+  const vapid: VapidDetails = { subject: 'mailto:test@example.com', ...vapidKeys };
+
+  const userAgent = createECDH('prime256v1');
+  userAgent.generateKeys();
+  const authSecret = randomBytes(16);
+
+  const subscriptionFor = (path: string): WebPushSubscription => ({
+    endpoint: `${baseUrl}${path}`,
+    keys: {
+      p256dh: toBase64Url(userAgent.getPublicKey()),
+      auth: toBase64Url(authSecret)
+    }
+  });
+
+  beforeAll(done => {
+    server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        received.push({ url: req.url || '', headers: req.headers, body: Buffer.concat(chunks) });
+        res.statusCode = responseStatus;
+        res.end();
+      });
+    });
+    server.listen(0, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll(done => {
+    server.close(() => done());
+  });
+
+  beforeEach(() => {
+    received = [];
+    responseStatus = 201;
+  });
+
+  test('sends a VAPID-signed, aes128gcm-encrypted message the subscriber can decrypt', async () => {
+    const payload = JSON.stringify({ title: '🚀 Launch Reminder', body: 'Starlink launches in 15 minutes', tag: 'launch-reminder-abc-15' });
+
+    const result = await sendWebPush(subscriptionFor('/push/device-1'), payload, { vapid, ttlSeconds: 900, urgency: 'high' });
+
+    expect(result).toEqual({ statusCode: 201, expired: false });
+    expect(received).toHaveLength(1);
+
+    const [push] = received;
+    expect(push.url).toBe('/push/device-1');
+    expect(push.headers['content-encoding']).toBe('aes128gcm');
+    expect(push.headers['ttl']).toBe('900');
+    expect(push.headers['urgency']).toBe('high');
+
+    // Authorization: vapid t=<jwt>, k=<application server key>
+    const match = /^vapid t=([^,]+), k=(.+)$/.exec(push.headers['authorization'] || '');
+    expect(match).not.toBeNull();
+    const [jwtHeader, jwtClaims, jwtSignature] = match![1].split('.');
+    expect(match![2]).toBe(vapidKeys.publicKey);
+
+    const claims = JSON.parse(fromBase64Url(jwtClaims).toString('utf8'));
+    expect(claims.aud).toBe(baseUrl);
+    expect(claims.sub).toBe('mailto:test@example.com');
+
+    const publicKeyBytes = fromBase64Url(vapidKeys.publicKey);
+    const verifyKey = createPublicKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        x: toBase64Url(publicKeyBytes.subarray(1, 33)),
+        y: toBase64Url(publicKeyBytes.subarray(33, 65))
+      },
+      format: 'jwk'
+    });
+    expect(verify(
+      'sha256',
+      Buffer.from(`${jwtHeader}.${jwtClaims}`),
+      { key: verifyKey, dsaEncoding: 'ieee-p1363' },
+      fromBase64Url(jwtSignature)
+    )).toBe(true);
+
+    expect(decryptPayload(push.body, userAgent, authSecret)).toBe(payload);
+  });
+
+  test('flags subscriptions the push service reports as gone', async () => {
+    responseStatus = 410;
+
+    const result = await sendWebPush(subscriptionFor('/push/expired'), '{}', { vapid });
+
+    expect(result).toEqual({ statusCode: 410, expired: true });
+  });
+});
+
+describe('planNotifications', () => {
+  const net = '2025-06-15T23:00:00.000Z';
+  const launchTime = Date.parse(net);
+
+  const makeRecord = (overrides: Partial<PushSubscriptionRecord> = {}): PushSubscriptionRecord => ({
+    id: 'sub-1',
+    subscription: { endpoint: 'http://127.0.0.1/push', keys: { p256dh: '', auth: '' } },
+    reminderTimes: [60, 15, 5],
+    highVisibilityOnly: true,
+    launches: [{ launchId: 'abc', name: 'Starlink 10-1', net, likelihood: 'high' }],
+    sent: [],
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides
+  });
+
+  test('sends only the closest due reminder and skips the missed ones', () => {
+    const plan = planNotifications(makeRecord(), new Map(), launchTime - 10 * 60000);
+
+    expect(plan.messages.map(message => message.key)).toEqual([`reminder:abc:${net}:15`]);
+    expect(plan.messages[0].tag).toBe('launch-reminder-abc-15');
+    expect(plan.skippedKeys).toEqual([`reminder:abc:${net}:60`]);
+
+    const again = planNotifications(
+      makeRecord({ sent: [...plan.skippedKeys, plan.messages[0].key] }),
+      new Map(),
+      launchTime - 9 * 60000
+    );
+    expect(again.messages).toHaveLength(0);
+  });
+
+  test('announces delays and scrubs once and follows the new launch time', () => {
+    const delayedNet = new Date(launchTime + 30 * 60000).toISOString();
+    const delayed = planNotifications(
+      makeRecord(),
+      new Map([['abc', { launchId: 'abc', net: delayedNet }]]),
+      launchTime - 3 * 60 * 60000
+    );
+    expect(delayed.messages).toHaveLength(1);
+    expect(delayed.messages[0].data.type).toBe('delay');
+    expect(delayed.launches[0].net).toBe(delayedNet);
+
+    const scrubNet = new Date(launchTime + 24 * 60 * 60000).toISOString();
+    const scrubbed = planNotifications(
+      makeRecord(),
+      new Map([['abc', { launchId: 'abc', net: scrubNet }]]),
+      launchTime - 3 * 60 * 60000
+    );
+    expect(scrubbed.messages[0].data.type).toBe('scrub');
+
+    const repeat = planNotifications(
+      makeRecord({ sent: [scrubbed.messages[0].key] }),
+      new Map([['abc', { launchId: 'abc', net: scrubNet }]]),
+      launchTime - 2 * 60 * 60000
+    );
+    expect(repeat.messages).toHaveLength(0);
+  });
+
+  test('states new launch times in the subscriber\'s timezone', () => {
+    const updates = new Map([['abc', { launchId: 'abc', net: new Date(launchTime + 30 * 60000).toISOString() }]]);
+    const now = launchTime - 3 * 60 * 60000;
+
+    // 23:30Z is 20:30 ADT in Bermuda and 4:30 PM PDT in Los Angeles
+    expect(planNotifications(makeRecord(), updates, now).messages[0].body).toContain('8:30 PM ADT');
+    expect(planNotifications(makeRecord({ timeZone: 'America/Los_Angeles' }), updates, now).messages[0].body)
+      .toContain('4:30 PM PDT');
+  });
+
+  test('respects the high-visibility-only preference', () => {
+    const record = makeRecord({
+      launches: [{ launchId: 'faint', name: 'Faint Launch', net, likelihood: 'low' }]
+    });
+
+    expect(planNotifications(record, new Map(), launchTime - 4 * 60000).messages).toHaveLength(0);
+    expect(planNotifications({ ...record, highVisibilityOnly: false }, new Map(), launchTime - 4 * 60000).messages)
+      .toHaveLength(1);
+  });
+
+  test('forgets sent keys once a launch leaves the watch list', () => {
+    const record = makeRecord({
+      sent: [`reminder:abc:${net}:60`, `reminder:old:${net}:60`, `delay:old:${net}`, `hold:abc:${net}`]
+    });
+    const plan = planNotifications(
+      { ...record, launches: [...record.launches, { launchId: 'old', name: 'Old Launch', net, likelihood: 'high' }] },
+      new Map([['old', { launchId: 'old', net: '2025-06-01T00:00:00.000Z' }]]),
+      launchTime - 60 * 60000
+    );
+
+    expect(plan.launches.map(launch => launch.launchId)).toEqual(['abc']);
+    expect(pruneSentKeys(record.sent, plan.launches)).toEqual([`reminder:abc:${net}:60`, `hold:abc:${net}`]);
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Webhook Tests
+ * Registration through the public API, resolved-address checks, HMAC signatures,
+ * parallel delivery with retries and the events built from schedule changes,
+ * with the in-memory stand-ins for Redis
+ */
+
+import { promises as dns } from 'dns';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import webhooksHandler from '../../../api/v1/webhooks/index';
+import webhookHandler from '../../../api/v1/webhooks/[id]';
+import {
+  deliverWebhook,
+  dispatchEvents,
+  maxDeliveryDuration,
+  signWebhookPayload,
+  verifyWebhookSignature
+} from '../../../api/webhooks/deliver';
+import { isPublicAddress } from '../../../api/webhooks/hosts';
+import { buildScheduleChangeEvents, type WebhookEvent } from '../../../api/webhooks/events';
+import type { WebhookRecord } from '../../../api/webhooks/store';
+import { ScheduleChangeDetectionService } from '../scheduleChangeDetectionService';
+import { DelayImpactAnalyzer } from '../delayImpactAnalyzer';
+import { DelayImpactAnalysis, Launch, LaunchFeedEntry, LaunchWithDelayTracking } from '../../types';
+import { mockResponse } from '../../test-utils/vercel';
+
+// No Upstash credentials here: webhooks, snapshots and rate limits stay in memory
+jest.mock('@upstash/redis', () => ({
+  Redis: {
+    fromEnv: () => {
+      throw new Error('Redis not configured');
+    }
+  }
+}));
+
+const ALERTS_KEY = 'alerts-key-0123456789abcdef';
+const OTHER_KEY = 'other-key-0123456789abcdef';
+
+process.env.PUBLIC_API_KEYS = `alerts:${ALERTS_KEY},other:${OTHER_KEY}`;
+
+// No DNS here either: example.com hosts resolve to a documentation address treated as public
+const resolvedAddresses = new Map<string, string>([
+  ['hooks.example.com', '93.184.216.34'],
+  ['intranet.example.com', '10.0.0.5'],
+  ['metadata.example.com', '169.254.169.254'],
+  ['mapped.example.com', '::ffff:192.168.1.10']
+]);
+
+beforeEach(() => {
+  jest.spyOn(dns, 'lookup').mockImplementation((async (hostname: string) => {
+    const address = resolvedAddresses.get(hostname);
+    if (!address) {
+      throw new Error(`getaddrinfo ENOTFOUND ${hostname}`);
+    }
+    return [{ address, family: address.includes(':') ? 6 : 4 }];
+  }) as unknown as typeof dns.lookup);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const launch: Launch = {
+  id: 'webhook-test-launch',
+  name: 'Falcon 9 Block 5 | Starlink Group 6-20',
+  rocket: { name: 'Falcon 9' },
+  pad: {
+    name: 'Space Launch Complex 40',
+    latitude: '28.5618',
+    longitude: '-80.5772',
+    location: { name: 'Cape Canaveral SFS, FL, USA' }
+  },
+  net: '2025-03-01T23:30:00Z',
+  mission: { name: 'Starlink Group 6-20', orbit: { name: 'Low Earth Orbit' } },
+  status: { name: 'Go for Launch' }
+};
+
+const call = async (
+  handler: (req: VercelRequest, res: VercelResponse) => Promise<unknown>,
+  method: string,
+  key: string,
+  { body, query = {} }: { body?: unknown; query?: Record<string, string> } = {}
+) => {
+  const res = mockResponse();
+  const req = { method, headers: { authorization: `Bearer ${key}` }, query, body } as unknown as VercelRequest;
+  await handler(req, res as unknown as VercelResponse);
+  return res;
+};
+
+const event: WebhookEvent = {
+  id: 'evt_test',
+  type: 'launch.delayed',
+  createdAt: '2025-03-01T12:00:00.000Z',
+  summary: 'Falcon 9 Block 5 | Starlink Group 6-20 delayed by 2 hours',
+  launch: { id: launch.id, name: launch.name, net: launch.net, url: 'https://bermuda-rocket-tracker.vercel.app/?launch=webhook-test-launch' },
+  data: { delayMinutes: 120 }
+};
+
+const record: WebhookRecord = {
+  id: 'wh_0123456789abcdef01234567',
+  owner: 'alerts',
+  url: 'https://hooks.example.com/rockets',
+  secret: 'whsec_test',
+  events: ['launch.delayed'],
+  launchIds: [],
+  format: 'json',
+  consecutiveFailures: 0,
+  createdAt: 0,
+  updatedAt: 0
+};
+
+// Immediate retries keep the test fast
+const fastRetries = { maxRetries: 2, baseDelay: 1, maxDelay: 1, backoffMultiplier: 1, jitter: false };
+
+const httpResponse = (status: number) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: `Status ${status}`,
+  headers: new Map<string, string>()
+});
+
+describe('webhook signatures', () => {
+  test('signatures verify against the exact body and a recent timestamp', () => {
+    const body = JSON.stringify(event);
+    const now = Date.now();
+    const header = signWebhookPayload('whsec_test', body, Math.floor(now / 1000));
+
+    expect(header).toMatch(/^t=\d+,v1=[a-f0-9]{64}$/);
+    expect(verifyWebhookSignature('whsec_test', body, header, 300, now)).toBe(true);
+    expect(verifyWebhookSignature('whsec_test', body.replace('120', '121'), header, 300, now)).toBe(false);
+    expect(verifyWebhookSignature('whsec_other', body, header, 300, now)).toBe(false);
+    expect(verifyWebhookSignature('whsec_test', body, header, 300, now + 10 * 60 * 1000)).toBe(false);
+  });
+});
+
+describe('webhook registration', () => {
+  test('keys register, list and delete only their own webhooks', async () => {
+    const created = await call(webhooksHandler, 'POST', ALERTS_KEY, {
+      body: { url: 'https://hooks.example.com/rockets', events: ['launch.scrubbed'], format: 'discord' }
+    });
+    const id = created.body.webhook.id;
+
+    expect(created.statusCode).toBe(201);
+    expect(created.body.secret).toMatch(/^whsec_[a-f0-9]{64}$/);
+    expect(created.body.webhook).toMatchObject({ events: ['launch.scrubbed'], format: 'discord', active: true });
+
+    const listed = await call(webhooksHandler, 'GET', ALERTS_KEY);
+    expect(listed.body.webhooks.map((webhook: { id: string }) => webhook.id)).toEqual([id]);
+    expect(JSON.stringify(listed.body)).not.toContain(created.body.secret);
+    expect((await call(webhooksHandler, 'GET', OTHER_KEY)).body.webhooks).toEqual([]);
+
+    expect((await call(webhookHandler, 'DELETE', OTHER_KEY, { query: { id } })).statusCode).toBe(404);
+    expect((await call(webhookHandler, 'DELETE', ALERTS_KEY, { query: { id } })).statusCode).toBe(204);
+    expect((await call(webhookHandler, 'GET', ALERTS_KEY, { query: { id } })).statusCode).toBe(404);
+  });
+
+  test('only public https endpoints and known events are accepted', async () => {
+    const rejected = await Promise.all([
+      { url: 'http://hooks.example.com/rockets' },
+      { url: 'https://127.0.0.1/hook' },
+      { url: 'https://localhost/hook' },
+      { url: 'https://hooks.example.com/rockets', events: ['launch.exploded'] },
+      { url: 'https://hooks.example.com/rockets', format: 'teams' }
+    ].map(body => call(webhooksHandler, 'POST', ALERTS_KEY, { body })));
+
+    expect(rejected.map(res => res.statusCode)).toEqual([400, 400, 400, 400, 400]);
+  });
+
+  test('host names resolving to private or unknown addresses are rejected', async () => {
+    const rejected = await Promise.all([
+      'https://intranet.example.com/hook',
+      'https://metadata.example.com/latest',
+      'https://mapped.example.com/hook',
+      'https://missing.example.com/hook'
+    ].map(url => call(webhooksHandler, 'POST', ALERTS_KEY, { body: { url } })));
+
+    expect(rejected.map(res => res.statusCode)).toEqual([400, 400, 400, 400]);
+    expect(rejected[0].body.error).toBe('url must resolve to public IP addresses');
+  });
+
+  test('private, link-local and mapped addresses are not public', () => {
+    expect(['10.1.2.3', '172.20.0.1', '192.168.0.1', '127.0.0.1', '169.254.169.254', '100.64.0.1', '::1', 'fd00::1', 'fe80::1', '::ffff:10.0.0.1']
+      .filter(isPublicAddress)).toEqual([]);
+    expect(['93.184.216.34', '2606:2800:220:1::1'].every(isPublicAddress)).toBe(true);
+  });
+});
+
+describe('webhook delivery', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('server errors are retried and each attempt is signed', async () => {
+    const fetchMock = jest.fn()
+      .mockResolvedValueOnce(httpResponse(503))
+      .mockResolvedValueOnce(httpResponse(200));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const updated = await deliverWebhook(record, event, fastRetries);
+    const [url, options] = fetchMock.mock.calls[1];
+
+    expect(updated.lastDelivery).toMatchObject({ ok: true, statusCode: 200, attempts: 2, eventId: 'evt_test' });
+    expect(updated.consecutiveFailures).toBe(0);
+    expect(url).toBe(record.url);
+    expect(options.headers['X-Webhook-Event']).toBe('launch.delayed');
+    expect(verifyWebhookSignature(record.secret, options.body, options.headers['X-Webhook-Signature'])).toBe(true);
+  });
+
+  test('client errors are not retried and count as failures', async () => {
+    const fetchMock = jest.fn().mockResolvedValue(httpResponse(400));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const updated = await deliverWebhook({ ...record, consecutiveFailures: 2 }, event, fastRetries);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(updated.lastDelivery).toMatchObject({ ok: false, statusCode: 400, attempts: 1 });
+    expect(updated.consecutiveFailures).toBe(3);
+  });
+
+  test('hosts that now resolve to private addresses are not contacted', async () => {
+    const fetchMock = jest.fn().mockResolvedValue(httpResponse(200));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const updated = await deliverWebhook({ ...record, url: 'https://intranet.example.com/hook' }, event, fastRetries);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(updated.lastDelivery).toMatchObject({ ok: false, statusCode: null, attempts: 0 });
+    expect(updated.consecutiveFailures).toBe(1);
+  });
+
+  test('webhooks are delivered in parallel and deliveries past the deadline are queued', async () => {
+    const pending: Array<() => void> = [];
+    const fetchMock = jest.fn(() => new Promise(resolve => {
+      pending.push(() => resolve(httpResponse(200)));
+    }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const webhooks = [record, { ...record, id: 'wh_fedcba9876543210fedcba98' }];
+    const dispatching = dispatchEvents([event], webhooks, Number.POSITIVE_INFINITY, fastRetries);
+
+    // Both receivers are contacted before either answers
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    pending.forEach(respond => respond());
+    expect(await dispatching).toEqual({ delivered: 2, failed: 0, skipped: 0, pending: [] });
+
+    const late = await dispatchEvents([event], webhooks, Date.now() + maxDeliveryDuration(fastRetries) - 1000, fastRetries);
+    expect(late).toMatchObject({ delivered: 0, failed: 0, skipped: 2 });
+    expect(late.pending.map(delivery => delivery.webhookId)).toEqual(webhooks.map(webhook => webhook.id));
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    // The next run sends what was queued
+    global.fetch = jest.fn().mockResolvedValue(httpResponse(200)) as unknown as typeof fetch;
+    const retried = await dispatchEvents([], webhooks, Number.POSITIVE_INFINITY, fastRetries, late.pending);
+    expect(retried).toEqual({ delivered: 2, failed: 0, skipped: 0, pending: [] });
+  });
+});
+
+describe('schedule change events', () => {
+  test('a delay that closes the viewing window sends delay and window_lost events', async () => {
+    const snapshot = ScheduleChangeDetectionService.createSnapshotFromLaunch(launch);
+    const delayed = { ...launch, net: '2025-03-02T01:30:00Z' } as unknown as LaunchFeedEntry;
+
+    jest.spyOn(ScheduleChangeDetectionService, 'convertToDelayTracking')
+      .mockResolvedValue(delayed as unknown as LaunchWithDelayTracking);
+    jest.spyOn(DelayImpactAnalyzer, 'analyzeDelayImpact').mockResolvedValue({
+      impact: 'WINDOW_LOST',
+      severity: 'significant',
+      oldVisibility: { likelihood: 'high' },
+      newVisibility: { likelihood: 'none' },
+      summary: 'No longer visible from Bermuda',
+      userMessage: 'The new time is in daylight.',
+      shouldNotify: true
+    } as unknown as DelayImpactAnalysis);
+
+    const events = await buildScheduleChangeEvents(snapshot, delayed);
+
+    expect(events.map(built => built.type)).toEqual(['launch.delayed', 'visibility.window_lost']);
+    expect(events[0].data).toMatchObject({ delayMinutes: 120, previousNet: launch.net, visibilityImpact: 'WINDOW_LOST' });
+    expect(events[1].data).toMatchObject({ previousLikelihood: 'high', likelihood: 'none' });
+    expect(events[0].summary).toBe('Falcon 9 Block 5 | Starlink Group 6-20 delayed by 2 hours');
+    expect(await buildScheduleChangeEvents(snapshot, launch as unknown as LaunchFeedEntry)).toEqual([]);
+  });
+});
@@ -0,0 +1,477 @@
+/**
+ * Ascent Simulator
+ * Point-mass ascent in the launch plane for when no Flight Club simulation
+ * exists. Each vehicle preset carries stage thrust, mass and a pitch program,
+ * while engine names and stage timings come from the vehicle catalogue; the
+ * ascent is integrated at a fixed step so the same launch always gives the
+ * same trajectory.
+ *
+ * Model: two stages and any strap-on boosters over a spherical rotating
+ * Earth with inverse-square gravity, an exponential atmosphere for drag and
+ * back-pressure thrust loss, a vertical rise and pitch kick into a gravity
+ * turn, then upper stage steering that levels off at the parking orbit
+ * altitude.
+ */
+
+import { Launch, ObserverLocation, TrajectoryPoint } from '../types';
+import type { EnhancedTelemetryFrame, StageEvent } from './flightClubApiService';
+import { getObserverLocation } from './observerLocationService';
+import { isAboveHorizonMask } from '../utils/horizonMask';
+import { getVehicleProfile, getVehicleProfileById } from '../utils/vehicleCatalogue';
+
+export interface StagePreset {
+  thrustSeaLevelKN: number;
+  thrustVacuumKN: number;
+  ispVacuum: number;        // seconds
+  propellantMassKg: number;
+  dryMassKg: number;        // propellant left at cutoff (landing reserve) counts as dry mass
+}
+
+export interface StrapOnPreset {
+  count: number;
+  thrustKN: number;         // each, averaged over the burn
+  propellantMassKg: number; // each, burned by booster separation
+  dryMassKg: number;        // each, dropped at booster separation
+}
+
+export interface VehiclePreset {
+  id: string;               // vehicle catalogue id; engine names and stage timings come from the catalogue
+  stages: [StagePreset, StagePreset];
+  strapOns?: StrapOnPreset;
+  payloadMassKg: number;
+  fairingMassKg: number;    // 0 for vehicles without a fairing
+  fairingSeparationSeconds: number;
+  dragAreaM2: number;       // drag coefficient x reference area
+  pitchProgram: {
+    verticalRiseSeconds: number;
+    pitchKickDegrees: number;
+    pitchKickSeconds: number;  // time to reach the full kick, then gravity turn
+    mecoPitchDegrees?: number; // gravity turn pitch floor easing down to this at MECO, for low thrust vehicles
+  };
+  parkingAltitudeKm: number; // upper stage steers to hold this altitude until orbital speed
+}
+
+export interface AscentSimulation {
+  vehicle: VehiclePreset;
+  points: TrajectoryPoint[];   // altitude in km, velocity in m/s relative to the ground
+  stageEvents: StageEvent[];
+}
+
+export interface AscentSimulationOptions {
+  azimuth: number;          // launch azimuth, degrees from north
+  launchSite: { latitude: number; longitude: number };
+  observer?: ObserverLocation;
+  vehicle?: VehiclePreset;
+  payloadMassKg?: number;
+  durationSeconds?: number; // default 900
+  sampleSeconds?: number;   // output spacing, default 10
+}
+
+export interface ProfileComparison {
+  samples: number;
+  altitudeRmsKm: number;
+  speedRmsMs: number;
+  maxAltitudeErrorKm: number;
+}
+
+export const VEHICLE_PRESETS: VehiclePreset[] = [
+  {
+    id: 'falcon-9',
+    stages: [
+      { thrustSeaLevelKN: 7607, thrustVacuumKN: 8227, ispVacuum: 311, propellantMassKg: 411000, dryMassKg: 25600 },
+      { thrustSeaLevelKN: 981, thrustVacuumKN: 981, ispVacuum: 348, propellantMassKg: 107500, dryMassKg: 4000 }
+    ],
+    payloadMassKg: 15600,
+    fairingMassKg: 1900,
+    fairingSeparationSeconds: 195,
+    dragAreaM2: 3.5,
+    pitchProgram: { verticalRiseSeconds: 10, pitchKickDegrees: 10, pitchKickSeconds: 20 },
+    parkingAltitudeKm: 210
+  },
+  {
+    id: 'falcon-heavy',
+    stages: [
+      // Center core thrust averaged over its throttle-down while the side boosters burn
+      { thrustSeaLevelKN: 5400, thrustVacuumKN: 5850, ispVacuum: 311, propellantMassKg: 411000, dryMassKg: 25600 },
+      { thrustSeaLevelKN: 981, thrustVacuumKN: 981, ispVacuum: 348, propellantMassKg: 107500, dryMassKg: 4000 }
+    ],
+    strapOns: { count: 2, thrustKN: 7900, propellantMassKg: 370000, dryMassKg: 66600 },
+    payloadMassKg: 6500,
+    fairingMassKg: 1900,
+    fairingSeparationSeconds: 215,
+    dragAreaM2: 9,
+    pitchProgram: { verticalRiseSeconds: 10, pitchKickDegrees: 20, pitchKickSeconds: 20 },
+    parkingAltitudeKm: 200
+  },
+  {
+    id: 'vulcan',
+    stages: [
+      { thrustSeaLevelKN: 4900, thrustVacuumKN: 5400, ispVacuum: 340, propellantMassKg: 460000, dryMassKg: 35000 },
+      { thrustSeaLevelKN: 212, thrustVacuumKN: 212, ispVacuum: 453.8, propellantMassKg: 54000, dryMassKg: 5500 }
+    ],
+    strapOns: { count: 2, thrustKN: 1650, propellantMassKg: 47000, dryMassKg: 6000 },
+    payloadMassKg: 4000,
+    fairingMassKg: 4000,
+    fairingSeparationSeconds: 250,
+    dragAreaM2: 5.5,
+    pitchProgram: { verticalRiseSeconds: 12, pitchKickDegrees: 5, pitchKickSeconds: 25, mecoPitchDegrees: 0 },
+    parkingAltitudeKm: 190
+  },
+  {
+    id: 'atlas-v',
+    stages: [
+      { thrustSeaLevelKN: 3550, thrustVacuumKN: 3850, ispVacuum: 338, propellantMassKg: 284000, dryMassKg: 21000 },
+      { thrustSeaLevelKN: 101.8, thrustVacuumKN: 101.8, ispVacuum: 449.7, propellantMassKg: 20800, dryMassKg: 2250 }
+    ],
+    payloadMassKg: 6000,
+    fairingMassKg: 2100,
+    fairingSeparationSeconds: 250,
+    dragAreaM2: 3.5,
+    pitchProgram: { verticalRiseSeconds: 15, pitchKickDegrees: 3, pitchKickSeconds: 30, mecoPitchDegrees: 10 },
+    parkingAltitudeKm: 185
+  },
+  {
+    id: 'new-glenn',
+    stages: [
+      { thrustSeaLevelKN: 17100, thrustVacuumKN: 18900, ispVacuum: 335, propellantMassKg: 1140000, dryMassKg: 160000 },
+      { thrustSeaLevelKN: 1400, thrustVacuumKN: 1400, ispVacuum: 445, propellantMassKg: 160000, dryMassKg: 20000 }
+    ],
+    payloadMassKg: 20000,
+    fairingMassKg: 7000,
+    fairingSeparationSeconds: 230,
+    dragAreaM2: 12,
+    pitchProgram: { verticalRiseSeconds: 12, pitchKickDegrees: 5, pitchKickSeconds: 25, mecoPitchDegrees: 10 },
+    parkingAltitudeKm: 200
+  },
+  {
+    id: 'electron',
+    stages: [
+      { thrustSeaLevelKN: 170, thrustVacuumKN: 185, ispVacuum: 311, propellantMassKg: 9250, dryMassKg: 950 },
+      { thrustSeaLevelKN: 25.8, thrustVacuumKN: 25.8, ispVacuum: 343, propellantMassKg: 2300, dryMassKg: 250 }
+    ],
+    payloadMassKg: 150,
+    fairingMassKg: 50,
+    fairingSeparationSeconds: 185,
+    dragAreaM2: 0.6,
+    pitchProgram: { verticalRiseSeconds: 8, pitchKickDegrees: 8, pitchKickSeconds: 20, mecoPitchDegrees: 10 },
+    parkingAltitudeKm: 230
+  },
+  {
+    id: 'antares',
+    stages: [
+      { thrustSeaLevelKN: 4000, thrustVacuumKN: 4400, ispVacuum: 310, propellantMassKg: 300000, dryMassKg: 25000 },
+      { thrustSeaLevelKN: 474, thrustVacuumKN: 474, ispVacuum: 300.6, propellantMassKg: 24900, dryMassKg: 1400 }
+    ],
+    payloadMassKg: 5000,
+    fairingMassKg: 1000,
+    fairingSeparationSeconds: 230,
+    dragAreaM2: 4.5,
+    pitchProgram: { verticalRiseSeconds: 12, pitchKickDegrees: 5, pitchKickSeconds: 25, mecoPitchDegrees: 0 },
+    parkingAltitudeKm: 200
+  },
+  {
+    id: 'starship',
+    stages: [
+      { thrustSeaLevelKN: 66000, thrustVacuumKN: 71000, ispVacuum: 350, propellantMassKg: 3400000, dryMassKg: 250000 },
+      { thrustSeaLevelKN: 14700, thrustVacuumKN: 14700, ispVacuum: 365, propellantMassKg: 1200000, dryMassKg: 120000 }
+    ],
+    payloadMassKg: 20000,
+    fairingMassKg: 0,
+    fairingSeparationSeconds: 0,
+    dragAreaM2: 32,
+    pitchProgram: { verticalRiseSeconds: 10, pitchKickDegrees: 10, pitchKickSeconds: 20, mecoPitchDegrees: 0 },
+    parkingAltitudeKm: 150
+  }
+];
+
+const MU = 3.986004418e14;        // m^3/s^2
+const EARTH_RADIUS_M = 6371000;
+const G0 = 9.80665;
+const EARTH_ROTATION = 7.2921159e-5; // rad/s
+const SCALE_HEIGHT_M = 7200;
+const SEA_LEVEL_DENSITY = 1.225;  // kg/m^3
+const STEP_SECONDS = 0.5;
+const MIN_TIME_TO_GO_SECONDS = 30; // steering is held steady over the last seconds of the burn
+
+type Phase = 'first-burn' | 'first-shutdown' | 'separation' | 'second-burn' | 'second-coast';
+
+export class AscentSimulator {
+  /**
+   * Preset for the launch vehicle in the vehicle catalogue, falling back to Falcon 9
+   */
+  static getPreset(launchOrName?: Pick<Launch, 'rocket'> | string): VehiclePreset {
+    const profile = getVehicleProfile(launchOrName);
+    return VEHICLE_PRESETS.find(preset => preset.id === profile.id)
+      ?? VEHICLE_PRESETS.find(preset => preset.id === getVehicleProfile().id)!;
+  }
+
+  /**
+   * Integrate the ascent and sample it as trajectory points seen from the observer
+   */
+  static simulate(options: AscentSimulationOptions): AscentSimulation {
+    const vehicle = options.vehicle ?? this.getPreset();
+    const observer = options.observer ?? getObserverLocation();
+    const duration = options.durationSeconds ?? 900;
+    const sampleEvery = options.sampleSeconds ?? 10;
+    const profile = getVehicleProfileById(vehicle.id);
+    const [first, second] = vehicle.stages;
+    const { strapOns, pitchProgram } = vehicle;
+    const payloadMass = options.payloadMassKg ?? vehicle.payloadMassKg;
+
+    const latitudeRad = options.launchSite.latitude * Math.PI / 180;
+    const azimuthRad = options.azimuth * Math.PI / 180;
+    // Eastward surface speed projected onto the launch plane
+    const rotationFactor = EARTH_ROTATION * Math.cos(latitudeRad) * Math.sin(azimuthRad);
+
+    const massFlow = (stage: StagePreset) => stage.thrustVacuumKN * 1000 / (stage.ispVacuum * G0);
+    const firstCutoff = Math.min(profile.firstStage.burnSeconds, first.propellantMassKg / massFlow(first));
+    const boosters = strapOns && profile.boosters
+      ? { ...strapOns, burnout: profile.boosters.burnSeconds, massFlow: strapOns.count * strapOns.propellantMassKg / profile.boosters.burnSeconds }
+      : null;
+
+    let r = EARTH_RADIUS_M;
+    let theta = 0; // downrange angle, radians
+    let vr = 0;
+    let vt = rotationFactor * r;
+    let mass = first.dryMassKg + first.propellantMassKg + second.dryMassKg + second.propellantMassKg +
+      vehicle.fairingMassKg + payloadMass +
+      (boosters ? boosters.count * (boosters.propellantMassKg + boosters.dryMassKg) : 0);
+    let secondPropellant = second.propellantMassKg;
+    let boostersAttached = !!boosters;
+    let fairingOn = vehicle.fairingMassKg > 0;
+
+    let phase: Phase = 'first-burn';
+    let mecoTime = 0;
+    const parkingRadius = EARTH_RADIUS_M + vehicle.parkingAltitudeKm * 1000;
+
+    const stageEvents: StageEvent[] = [
+      { time: 0, event: 'Liftoff', stageNumber: 1, description: profile.name, engineType: profile.firstStage.engineType }
+    ];
+    const points: TrajectoryPoint[] = [];
+
+    const record = (time: number) => {
+      const altitudeKm = (r - EARTH_RADIUS_M) / 1000;
+      const groundSpeed = Math.hypot(vr, vt - rotationFactor * r);
+      points.push(this.toTrajectoryPoint(
+        time,
+        options.launchSite,
+        options.azimuth,
+        theta,
+        altitudeKm,
+        groundSpeed,
+        phase,
+        observer
+      ));
+    };
+
+    const totalSteps = Math.round(duration / STEP_SECONDS);
+    const sampleSteps = Math.max(1, Math.round(sampleEvery / STEP_SECONDS));
+
+    for (let step = 0; step <= totalSteps; step++) {
+      const t = step * STEP_SECONDS;
+      if (step % sampleSteps === 0) {
+        record(t);
+      }
+      if (step === totalSteps) {
+        break;
+      }
+
+      const altitude = r - EARTH_RADIUS_M;
+      const pressureRatio = Math.exp(-Math.max(0, altitude) / SCALE_HEIGHT_M);
+      const vtRelative = vt - rotationFactor * r;
+      const flightPath = Math.atan2(vr, Math.max(vtRelative, 1e-3));
+
+      // Phase transitions
+      if (boosters && boostersAttached && t >= boosters.burnout) {
+        boostersAttached = false;
+        mass -= boosters.count * boosters.dryMassKg;
+        stageEvents.push({ time: Math.round(t), event: 'Booster Sep', stageNumber: 1, engineType: profile.boosters?.engineType });
+      }
+      if (phase === 'first-burn' && t >= firstCutoff) {
+        phase = 'first-shutdown';
+        mecoTime = t;
+        stageEvents.push({ time: Math.round(t), event: 'MECO', stageNumber: 1, engineType: profile.firstStage.engineType });
+      }
+      if (phase === 'first-shutdown' && t >= mecoTime + profile.stageSeparationSeconds) {
+        phase = 'separation';
+        mass = second.dryMassKg + second.propellantMassKg + payloadMass + (fairingOn ? vehicle.fairingMassKg : 0);
+        stageEvents.push({ time: Math.round(t), event: 'Stage Sep', stageNumber: 1 });
+      }
+      if (phase === 'separation' && t >= mecoTime + profile.upperStageIgnitionSeconds) {
+        phase = 'second-burn';
+        stageEvents.push({ time: Math.round(t), event: 'SES-1', stageNumber: 2, engineType: profile.upperStage.engineType });
+      }
+      if (fairingOn && t >= vehicle.fairingSeparationSeconds) {
+        fairingOn = false;
+        mass -= vehicle.fairingMassKg;
+        stageEvents.push({ time: Math.round(t), event: 'Fairing Sep', stageNumber: 2 });
+      }
+      if (phase === 'second-burn' && (secondPropellant <= 0 || Math.hypot(vr, vt) >= Math.sqrt(MU / r))) {
+        phase = 'second-coast';
+        stageEvents.push({ time: Math.round(t), event: 'SECO-1', stageNumber: 2, engineType: profile.upperStage.engineType });
+      }
+
+      // Thrust and steering
+      let thrust = 0;
+      let pitch = flightPath;
+      if (phase === 'first-burn') {
+        thrust = (first.thrustVacuumKN - (first.thrustVacuumKN - first.thrustSeaLevelKN) * pressureRatio) * 1000;
+        if (boosters && boostersAttached) {
+          thrust += boosters.count * boosters.thrustKN * 1000;
+          mass -= boosters.massFlow * STEP_SECONDS;
+        }
+        if (t < pitchProgram.verticalRiseSeconds) {
+          pitch = Math.PI / 2;
+        } else if (t < pitchProgram.verticalRiseSeconds + pitchProgram.pitchKickSeconds) {
+          const progress = (t - pitchProgram.verticalRiseSeconds) / pitchProgram.pitchKickSeconds;
+          pitch = Math.PI / 2 - progress * pitchProgram.pitchKickDegrees * Math.PI / 180;
+        } else {
+          // Gravity turn: thrust along the airspeed vector, optionally held above a
+          // floor that eases down to the MECO pitch so low thrust vehicles do not fold over
+          pitch = flightPath;
+          if (pitchProgram.mecoPitchDegrees !== undefined) {
+            const kickEnd = pitchProgram.verticalRiseSeconds + pitchProgram.pitchKickSeconds;
+            const progress = Math.min(1, (t - kickEnd) / Math.max(1, firstCutoff - kickEnd));
+            const floor = (90 - progress * (90 - pitchProgram.mecoPitchDegrees)) * Math.PI / 180;
+            pitch = Math.max(flightPath, floor);
+          }
+        }
+        mass -= massFlow(first) * STEP_SECONDS;
+      } else if (phase === 'second-burn') {
+        thrust = second.thrustVacuumKN * 1000;
+        // Linear acceleration steering: reach the parking altitude with no climb
+        // rate at the predicted cutoff, which leaves low thrust stages free to
+        // trade a lofted arc for horizontal speed
+        const speedToGo = Math.max(0, Math.sqrt(MU / parkingRadius) - vt);
+        const exhaustVelocity = second.ispVacuum * G0;
+        const timeToGo = Math.max(MIN_TIME_TO_GO_SECONDS,
+          mass / massFlow(second) * (1 - Math.exp(-speedToGo / exhaustVelocity)));
+        const wantedVertical = (6 * (parkingRadius - r) - 4 * vr * timeToGo) / (timeToGo * timeToGo);
+        const vertical = (wantedVertical + MU / (r * r) - vt * vt / r) * mass / thrust;
+        pitch = Math.asin(Math.max(-1, Math.min(1, vertical)));
+        const burned = Math.min(secondPropellant, massFlow(second) * STEP_SECONDS);
+        secondPropellant -= burned;
+        mass -= burned;
+      }
+
+      // Drag against the co-rotating atmosphere
+      const density = SEA_LEVEL_DENSITY * pressureRatio;
+      const airspeed = Math.hypot(vr, vtRelative);
+      const drag = 0.5 * density * airspeed * airspeed * vehicle.dragAreaM2;
+      const dragR = airspeed > 0 ? -drag * vr / airspeed : 0;
+      const dragT = airspeed > 0 ? -drag * vtRelative / airspeed : 0;
+
+      const ar = vt * vt / r - MU / (r * r) + (thrust * Math.sin(pitch) + dragR) / mass;
+      const at = -vr * vt / r + (thrust * Math.cos(pitch) + dragT) / mass;
+
+      vr += ar * STEP_SECONDS;
+      vt += at * STEP_SECONDS;
+      r = Math.max(EARTH_RADIUS_M, r + vr * STEP_SECONDS);
+      theta += vt / r * STEP_SECONDS;
+    }
+
+    return { vehicle, points, stageEvents };
+  }
+
+  /**
+   * Compare a simulated ascent with a stored Flight Club profile at matching times
+   */
+  static compareWithProfile(
+    points: TrajectoryPoint[],
+    profile: Pick<EnhancedTelemetryFrame, 'time' | 'altitude' | 'speed'>[]
+  ): ProfileComparison {
+    let altitudeSquares = 0;
+    let speedSquares = 0;
+    let maxAltitudeErrorKm = 0;
+    let samples = 0;
+
+    profile.forEach(frame => {
+      const after = points.findIndex(point => point.time >= frame.time);
+      if (after <= 0 && !(after === 0 && points[0].time === frame.time)) {
+        return;
+      }
+      const b = points[after];
+      const a = points[Math.max(0, after - 1)];
+      const fraction = b.time === a.time ? 0 : (frame.time - a.time) / (b.time - a.time);
+      const altitudeKm = a.altitude + (b.altitude - a.altitude) * fraction;
+      const speed = (a.velocity ?? 0) + ((b.velocity ?? 0) - (a.velocity ?? 0)) * fraction;
+
+      const altitudeError = altitudeKm - frame.altitude / 1000;
+      altitudeSquares += altitudeError * altitudeError;
+      speedSquares += (speed - frame.speed) * (speed - frame.speed);
+      maxAltitudeErrorKm = Math.max(maxAltitudeErrorKm, Math.abs(altitudeError));
+      samples++;
+    });
+
+    return {
+      samples,
+      altitudeRmsKm: samples ? Math.sqrt(altitudeSquares / samples) : 0,
+      speedRmsMs: samples ? Math.sqrt(speedSquares / samples) : 0,
+      maxAltitudeErrorKm
+    };
+  }
+
+  private static toTrajectoryPoint(
+    time: number,
+    launchSite: { latitude: number; longitude: number },
+    azimuth: number,
+    downrangeAngle: number,
+    altitudeKm: number,
+    groundSpeed: number,
+    phase: Phase,
+    observer: ObserverLocation
+  ): TrajectoryPoint {
+    const toRad = Math.PI / 180;
+    const lat1 = launchSite.latitude * toRad;
+    const bearing = azimuth * toRad;
+    const lat2 = Math.asin(Math.sin(lat1) * Math.cos(downrangeAngle) + Math.cos(lat1) * Math.sin(downrangeAngle) * Math.cos(bearing));
+    const lon2 = launchSite.longitude * toRad + Math.atan2(
+      Math.sin(bearing) * Math.sin(downrangeAngle) * Math.cos(lat1),
+      Math.cos(downrangeAngle) - Math.sin(lat1) * Math.sin(lat2)
+    );
+    const latitude = lat2 / toRad;
+    // The plane is fixed in inertial space, so the ground slides east underneath it
+    const longitude = ((lon2 / toRad - EARTH_ROTATION / toRad * time + 540) % 360) - 180;
+
+    const obsLat = observer.latitude * toRad;
+    const dLon = (longitude - observer.longitude) * toRad;
+    const centralAngle = Math.acos(Math.min(1, Math.max(-1,
+      Math.sin(obsLat) * Math.sin(lat2) + Math.cos(obsLat) * Math.cos(lat2) * Math.cos(dLon)
+    )));
+    const distance = centralAngle * EARTH_RADIUS_M / 1000;
+    const bearingFromObserver = (Math.atan2(
+      Math.sin(dLon) * Math.cos(lat2),
+      Math.cos(obsLat) * Math.sin(lat2) - Math.sin(obsLat) * Math.cos(lat2) * Math.cos(dLon)
+    ) / toRad + 360) % 360;
+
+    const radiusRatio = EARTH_RADIUS_M / (EARTH_RADIUS_M + altitudeKm * 1000);
+    const elevationAngle = Math.atan2(Math.cos(centralAngle) - radiusRatio, Math.sin(centralAngle)) / toRad;
+    const aboveSeaHorizon = elevationAngle >= 0;
+    const obstructed = aboveSeaHorizon && !!observer.horizonMask?.length &&
+      !isAboveHorizonMask(observer.horizonMask, bearingFromObserver, elevationAngle);
+    const aboveHorizon = aboveSeaHorizon && !obstructed;
+
+    const stage: TrajectoryPoint['stage'] = phase === 'first-burn' || phase === 'first-shutdown'
+      ? 'first'
+      : phase === 'separation' ? 'separation' : phase;
+    const engineStatus: TrajectoryPoint['engineStatus'] = phase === 'first-burn' || phase === 'second-burn'
+      ? 'burning'
+      : phase === 'separation' ? 'separation' : 'shutdown';
+
+    return {
+      time,
+      latitude,
+      longitude,
+      altitude: altitudeKm,
+      distance,
+      bearing: bearingFromObserver,
+      aboveHorizon,
+      elevationAngle: Math.max(0, elevationAngle),
+      obstructed,
+      visible: aboveHorizon,
+      stage,
+      engineStatus,
+      velocity: groundSpeed
+    };
+  }
+}
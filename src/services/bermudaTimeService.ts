@@ -1,21 +1,24 @@
 /**
  * Bermuda Time Service
  * 
- * Centralizes all time zone handling for Bermuda (Atlantic/Bermuda).
+ * Centralizes all time zone handling. Times are shown in the active observer's
+ * timezone, which is Bermuda (Atlantic/Bermuda) unless a custom location says otherwise.
  * Provides consistent time zone calculations with proper DST handling.
  * Replaces manual UTC offset calculations throughout the app.
  */
 
-// Bermuda timezone constant
+import { DEFAULT_OBSERVER_LOCATION, getObserverCacheKey, getObserverLocation } from './observerLocationService';
+
+// Bermuda timezone constant, used when the observer has no timezone
 const BERMUDA_TIMEZONE = 'Atlantic/Bermuda';
 
 // Simple in-memory cache for sun times to avoid repeated API calls
 const sunTimesCache = new Map<string, any>();
 
-// Bermuda coordinates
+// Default Bermuda coordinates (calculations use the active observer location)
 export const BERMUDA_COORDINATES = {
-  latitude: 32.3078,
-  longitude: -64.7505
+  latitude: DEFAULT_OBSERVER_LOCATION.latitude,
+  longitude: DEFAULT_OBSERVER_LOCATION.longitude
 };
 
 export interface BermudaTimeInfo {
@@ -28,16 +31,23 @@ export interface BermudaTimeInfo {
 }
 
 export class BermudaTimeService {
+
+  /**
+   * IANA timezone that times are displayed in: the active observer's
+   */
+  static getDisplayTimeZone(): string {
+    return getObserverLocation().timezone || BERMUDA_TIMEZONE;
+  }
   
   /**
-   * Convert UTC time to Bermuda local time
+   * Convert UTC time to local time in the observer's timezone (Bermuda by default)
    */
-  static toBermudaTime(utcDate: Date | string): BermudaTimeInfo {
+  static toBermudaTime(utcDate: Date | string, timeZone: string = this.getDisplayTimeZone()): BermudaTimeInfo {
     const utcTime = typeof utcDate === 'string' ? new Date(utcDate) : utcDate;
     
     // Use Intl.DateTimeFormat for proper timezone conversion
     const bermudaFormatter = new Intl.DateTimeFormat('en-US', {
-      timeZone: BERMUDA_TIMEZONE,
+      timeZone,
       year: 'numeric',
       month: '2-digit',
       day: '2-digit',
@@ -64,10 +74,15 @@ export class BermudaTimeService {
     );
     
     // Calculate UTC offset
-    const utcOffset = this.getUTCOffset(utcTime);
+    const utcOffset = this.getUTCOffset(utcTime, timeZone);
     
     // Determine if DST is active
-    const isDST = this.isDaylightSavingTime(utcTime);
+    const isDST = this.isDaylightSavingTime(utcTime, timeZone);
+
+    // Short zone name, e.g. AST/ADT for Bermuda
+    const timeZoneName = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+      .formatToParts(utcTime)
+      .find(part => part.type === 'timeZoneName')?.value ?? timeZone;
     
     return {
       utcTime,
@@ -75,7 +90,7 @@ export class BermudaTimeService {
       bermudaTimeString,
       utcOffset,
       isDST,
-      timeZoneName: isDST ? 'ADT' : 'AST'
+      timeZoneName
     };
   }
   
@@ -87,13 +102,17 @@ export class BermudaTimeService {
   }
   
   /**
-   * Format time in Bermuda timezone
+   * Format time in the observer's timezone (Bermuda by default)
    */
-  static formatBermudaTime(utcDate: Date | string, format: 'full' | 'date' | 'time' | 'datetime' = 'datetime'): string {
+  static formatBermudaTime(
+    utcDate: Date | string,
+    format: 'full' | 'date' | 'time' | 'datetime' = 'datetime',
+    timeZone: string = this.getDisplayTimeZone()
+  ): string {
     const utcTime = typeof utcDate === 'string' ? new Date(utcDate) : utcDate;
     
     const options: Intl.DateTimeFormatOptions = {
-      timeZone: BERMUDA_TIMEZONE
+      timeZone
     };
     
     switch (format) {
@@ -206,31 +225,33 @@ export class BermudaTimeService {
   }
   
   /**
-   * Get UTC offset for Bermuda at a given time (accounting for DST)
+   * Get UTC offset in hours for the observer's timezone at a given time (accounting for DST)
    */
-  static getUTCOffset(utcDate: Date): number {
+  static getUTCOffset(utcDate: Date, timeZone: string = this.getDisplayTimeZone()): number {
     // Use a temporary date to determine the offset
     const tempFormatter = new Intl.DateTimeFormat('en', {
-      timeZone: BERMUDA_TIMEZONE,
+      timeZone,
       timeZoneName: 'longOffset'
     });
     
     const formatted = tempFormatter.format(utcDate);
-    const offsetMatch = formatted.match(/GMT([+-]\d{1,2})/);
+    const offsetMatch = formatted.match(/GMT([+-])(\d{1,2})/);
     
     if (offsetMatch) {
-      return parseInt(offsetMatch[1]);
+      // Half-hour zones such as GMT+05:30 carry minutes
+      const minutesMatch = formatted.match(/:(\d{2})$/);
+      const sign = offsetMatch[1] === '-' ? -1 : 1;
+      return sign * (parseInt(offsetMatch[2]) + parseInt(minutesMatch?.[1] ?? '0') / 60);
     }
     
-    // Fallback: Bermuda is UTC-4 in DST (March-November), UTC-4 standard
-    // Note: Bermuda does not observe DST as of 2024, so it's always UTC-4
-    return -4;
+    // Plain "GMT" means UTC itself; otherwise derive the offset from the local time
+    return formatted.endsWith('GMT') ? 0 : -this.getTimezoneOffset(utcDate, timeZone) / 60;
   }
   
   /**
-   * Check if Daylight Saving Time is active for Bermuda
+   * Check if Daylight Saving Time is active in the observer's timezone
    */
-  static isDaylightSavingTime(utcDate: Date): boolean {
+  static isDaylightSavingTime(utcDate: Date, timeZone: string = this.getDisplayTimeZone()): boolean {
     // As of 2024, Bermuda no longer observes DST
     // They stay on Atlantic Daylight Time (UTC-3) year-round
     // However, this may change, so we use proper detection
@@ -238,10 +259,10 @@ export class BermudaTimeService {
     const january = new Date(utcDate.getFullYear(), 0, 1);
     const july = new Date(utcDate.getFullYear(), 6, 1);
     
-    const janOffset = this.getTimezoneOffset(january);
-    const julyOffset = this.getTimezoneOffset(july);
+    const janOffset = this.getTimezoneOffset(january, timeZone);
+    const julyOffset = this.getTimezoneOffset(july, timeZone);
     
-    const currentOffset = this.getTimezoneOffset(utcDate);
+    const currentOffset = this.getTimezoneOffset(utcDate, timeZone);
     
     // If current offset differs from standard time (January), DST is active
     // Also verify it matches summer time (July) for additional validation
@@ -249,12 +270,12 @@ export class BermudaTimeService {
   }
   
   /**
-   * Get timezone offset in minutes for Bermuda
+   * Get timezone offset in minutes (UTC minus local time)
    */
-  private static getTimezoneOffset(date: Date): number {
-    // Create a date in Bermuda timezone
+  private static getTimezoneOffset(date: Date, timeZone: string): number {
+    // Create a date in the given timezone
     const utcDate = new Date(date.toLocaleString("en-US", { timeZone: "UTC" }));
-    const bermudaDate = new Date(date.toLocaleString("en-US", { timeZone: BERMUDA_TIMEZONE }));
+    const bermudaDate = new Date(date.toLocaleString("en-US", { timeZone }));
     
     return (utcDate.getTime() - bermudaDate.getTime()) / (1000 * 60);
   }
@@ -317,19 +338,21 @@ export class BermudaTimeService {
   }> {
     const targetDate = date || new Date();
     const dateStr = targetDate.toISOString().split('T')[0];
+    const observer = getObserverLocation();
+    const cacheKey = `${getObserverCacheKey(observer)}:${dateStr}`;
     
     // Check cache first to avoid repeated API calls
-    if (sunTimesCache.has(dateStr)) {
+    if (sunTimesCache.has(cacheKey)) {
       console.log(`[BermudaTimeService] Using cached sun times for ${dateStr}`);
-      return sunTimesCache.get(dateStr);
+      return sunTimesCache.get(cacheKey);
     }
     
     try {
       console.log(`[BermudaTimeService] Fetching sun times for ${dateStr}`);
       
-      // Use sunrise-sunset.org API with Bermuda coordinates
+      // Use sunrise-sunset.org API with observer coordinates
       const response = await fetch(
-        `https://api.sunrise-sunset.org/json?lat=${BERMUDA_COORDINATES.latitude}&lng=${BERMUDA_COORDINATES.longitude}&date=${dateStr}&formatted=0`
+        `https://api.sunrise-sunset.org/json?lat=${observer.latitude}&lng=${observer.longitude}&date=${dateStr}&formatted=0`
       );
       
       if (!response.ok) {
@@ -354,7 +377,7 @@ export class BermudaTimeService {
       };
       
       // Cache the result for this session (avoid repeated API calls for same day)
-      sunTimesCache.set(dateStr, result);
+      sunTimesCache.set(cacheKey, result);
       
       // Keep cache size reasonable (max 10 days)
       if (sunTimesCache.size > 10) {
@@ -0,0 +1,267 @@
+/**
+ * Brightness Timeline Service
+ *
+ * Estimates the apparent magnitude of the vehicle and its exhaust plume for every
+ * T+ second of a FlightClub trajectory, as seen by the observer:
+ * - Vehicle: sunlight reflected off the stage (only when sunlit) plus engine flame while burning
+ * - Plume: sunlit exhaust cloud that expands with altitude (the twilight "jellyfish")
+ * - Range falloff from distanceFromBermuda, atmospheric extinction from elevation
+ */
+
+import { Launch, ObserverLocation, VisibilityData } from '../types';
+import { EnhancedTelemetryFrame, ProcessedSimulationData, StageEvent } from './flightClubApiService';
+import { SolarPositionCalculator } from './solarPositionCalculator';
+import { getObserverLocation } from './observerLocationService';
+import { WeatherService } from './weatherService';
+import { calculateExtinction, getLimitingMagnitude } from '../utils/atmosphericOptics';
+
+export interface PlumePreset {
+  id: string;
+  name: string;
+  matches: string[];           // lower-case substrings of the rocket name
+  plumeDiameterKm: number;     // fully expanded sunlit plume diameter
+  bodyMagnitude: number;       // sunlit upper stage at 1000 km (reflected light)
+  engineGlowMagnitude: number; // engine flame at 1000 km while burning
+}
+
+export interface BrightnessSample {
+  time: number;                    // T+ seconds
+  vehicleMagnitude: number | null; // null when neither sunlit nor burning
+  plumeMagnitude: number | null;   // null when the plume is not sunlit
+  combinedMagnitude: number | null;
+  limitingMagnitude: number;       // faintest naked-eye magnitude for the sky at that moment
+  sunlit: boolean;
+  engineBurning: boolean;
+  aboveHorizon: boolean;
+  visible: boolean;                // above horizon and brighter than the limiting magnitude
+}
+
+export interface BrightnessSummary {
+  peakMagnitude: number | null;    // brightest visible combined magnitude
+  peakTime: number | null;         // T+ seconds of peak brightness
+  visibleSeconds: number;
+  likelihood: VisibilityData['likelihood'];
+}
+
+// Likelihood thresholds on peak combined magnitude
+export const MAGNITUDE_THRESHOLDS = {
+  high: 0,   // as bright as Vega or brighter
+  medium: 3  // easy naked-eye object from a dark beach
+};
+
+// Plume starts to balloon above ~50 km and is fully expanded by ~200 km
+const PLUME_EXPANSION_START_M = 50000;
+const PLUME_EXPANSION_FULL_M = 200000;
+
+// Sunlit plume of this diameter seen from 1000 km (scattered sunlight scales with area)
+const REFERENCE_PLUME_DIAMETER_KM = 20;
+const REFERENCE_PLUME_MAGNITUDE = -4.5;
+
+// Typical gap between stage separation and second stage ignition (seconds)
+const SECOND_STAGE_IGNITION_DELAY = 8;
+
+export const PLUME_PRESETS: PlumePreset[] = [
+  { id: 'falcon-heavy', name: 'Falcon Heavy', matches: ['falcon heavy'], plumeDiameterKm: 35, bodyMagnitude: 2.5, engineGlowMagnitude: -1.5 },
+  { id: 'falcon-9', name: 'Falcon 9', matches: ['falcon 9', 'falcon9'], plumeDiameterKm: 25, bodyMagnitude: 3, engineGlowMagnitude: -1 },
+  { id: 'starship', name: 'Starship', matches: ['starship', 'super heavy'], plumeDiameterKm: 60, bodyMagnitude: 0.5, engineGlowMagnitude: -3 },
+  { id: 'new-glenn', name: 'New Glenn', matches: ['new glenn'], plumeDiameterKm: 40, bodyMagnitude: 1.5, engineGlowMagnitude: -1.5 },
+  { id: 'vulcan', name: 'Vulcan', matches: ['vulcan'], plumeDiameterKm: 25, bodyMagnitude: 2.5, engineGlowMagnitude: 0 },
+  { id: 'atlas-v', name: 'Atlas V', matches: ['atlas'], plumeDiameterKm: 20, bodyMagnitude: 3, engineGlowMagnitude: 0 },
+  { id: 'antares', name: 'Antares / MLV', matches: ['antares', 'mlv'], plumeDiameterKm: 15, bodyMagnitude: 3.5, engineGlowMagnitude: 0.5 },
+  { id: 'electron', name: 'Electron', matches: ['electron'], plumeDiameterKm: 6, bodyMagnitude: 6, engineGlowMagnitude: 2 }
+];
+
+export const DEFAULT_PLUME_PRESET: PlumePreset = {
+  id: 'generic',
+  name: 'Medium-lift rocket',
+  matches: [],
+  plumeDiameterKm: 20,
+  bodyMagnitude: 3,
+  engineGlowMagnitude: 0
+};
+
+export class BrightnessTimelineService {
+
+  /**
+   * Find the plume preset for a rocket name (e.g. "Falcon 9 Block 5")
+   */
+  static getPlumePreset(rocketName?: string): PlumePreset {
+    const name = (rocketName || '').toLowerCase();
+    return PLUME_PRESETS.find(preset => preset.matches.some(match => name.includes(match))) || DEFAULT_PLUME_PRESET;
+  }
+
+  /**
+   * Build a per-second brightness timeline from FlightClub telemetry
+   */
+  static buildTimeline(
+    simulationData: ProcessedSimulationData,
+    launch: Pick<Launch, 'net' | 'rocket'>,
+    observer: ObserverLocation = getObserverLocation()
+  ): BrightnessSample[] {
+    const frames = [...(simulationData.enhancedTelemetry || [])].sort((a, b) => a.time - b.time);
+    if (frames.length === 0) {
+      return [];
+    }
+
+    const preset = this.getPlumePreset(launch.rocket?.name);
+    const conditions = WeatherService.getAtmosphericConditions(observer);
+    const sunElevationAt = SolarPositionCalculator.createElevationLookup(
+      new Date(launch.net),
+      observer.latitude,
+      observer.longitude,
+      observer.elevation
+    );
+    const burnIntervals = this.getBurnIntervals(simulationData.stageEvents || [], frames[frames.length - 1].time);
+
+    const samples: BrightnessSample[] = [];
+    let frameIndex = 0;
+    const start = Math.ceil(frames[0].time);
+    const end = Math.floor(frames[frames.length - 1].time);
+
+    for (let t = start; t <= end; t++) {
+      while (frameIndex < frames.length - 2 && frames[frameIndex + 1].time < t) {
+        frameIndex++;
+      }
+      const frame = this.interpolateFrame(frames[frameIndex], frames[Math.min(frameIndex + 1, frames.length - 1)], t);
+
+      const sunElevation = sunElevationAt(t);
+      const sunlit = SolarPositionCalculator.isRocketSunlit(frame.altitude, sunElevation);
+      const engineBurning = burnIntervals.some(([on, off]) => t >= on && t < off);
+      const extinction = frame.extinction ?? calculateExtinction(frame.elevationAngle, conditions);
+      const rangeTerm = 5 * Math.log10(Math.max(frame.distanceFromBermuda, 1) / 1000);
+
+      const vehicleMagnitude = this.combineMagnitudes([
+        sunlit ? preset.bodyMagnitude : null,
+        engineBurning ? preset.engineGlowMagnitude : null
+      ]);
+      const plumeMagnitude = this.calculatePlumeMagnitude(preset, frame.altitude, sunlit, engineBurning);
+
+      const apparentVehicle = vehicleMagnitude !== null ? vehicleMagnitude + rangeTerm + extinction : null;
+      const apparentPlume = plumeMagnitude !== null ? plumeMagnitude + rangeTerm + extinction : null;
+      const combinedMagnitude = this.combineMagnitudes([apparentVehicle, apparentPlume]);
+      const limitingMagnitude = getLimitingMagnitude(sunElevation);
+
+      samples.push({
+        time: t,
+        vehicleMagnitude: apparentVehicle,
+        plumeMagnitude: apparentPlume,
+        combinedMagnitude,
+        limitingMagnitude,
+        sunlit,
+        engineBurning,
+        aboveHorizon: frame.aboveHorizon,
+        visible: frame.aboveHorizon && combinedMagnitude !== null && combinedMagnitude <= limitingMagnitude
+      });
+    }
+
+    return samples;
+  }
+
+  /**
+   * Peak brightness, visible duration and the likelihood label it implies
+   */
+  static summarize(samples: BrightnessSample[]): BrightnessSummary {
+    const visible = samples.filter(sample => sample.visible);
+    if (visible.length === 0) {
+      return { peakMagnitude: null, peakTime: null, visibleSeconds: 0, likelihood: 'none' };
+    }
+
+    const peak = visible.reduce((brightest, sample) =>
+      sample.combinedMagnitude! < brightest.combinedMagnitude! ? sample : brightest
+    );
+
+    return {
+      peakMagnitude: peak.combinedMagnitude,
+      peakTime: peak.time,
+      visibleSeconds: visible.length,
+      likelihood: this.likelihoodFromMagnitude(peak.combinedMagnitude!)
+    };
+  }
+
+  static likelihoodFromMagnitude(peakMagnitude: number): VisibilityData['likelihood'] {
+    if (peakMagnitude <= MAGNITUDE_THRESHOLDS.high) return 'high';
+    if (peakMagnitude <= MAGNITUDE_THRESHOLDS.medium) return 'medium';
+    return 'low';
+  }
+
+  /**
+   * Sunlit plume brightness at 1000 km from its current diameter;
+   * scattered flux grows with area, i.e. diameter squared
+   */
+  private static calculatePlumeMagnitude(
+    preset: PlumePreset,
+    altitudeMeters: number,
+    sunlit: boolean,
+    engineBurning: boolean
+  ): number | null {
+    if (!sunlit || !engineBurning || altitudeMeters <= PLUME_EXPANSION_START_M) {
+      return null;
+    }
+
+    const expansion = Math.min(1,
+      (altitudeMeters - PLUME_EXPANSION_START_M) / (PLUME_EXPANSION_FULL_M - PLUME_EXPANSION_START_M)
+    );
+    const diameterKm = preset.plumeDiameterKm * Math.max(expansion, 0.01);
+    return REFERENCE_PLUME_MAGNITUDE - 5 * Math.log10(diameterKm / REFERENCE_PLUME_DIAMETER_KM);
+  }
+
+  /**
+   * Engine burn intervals (T+ seconds) from stage events: cutoffs end a burn,
+   * ignitions start one. The proxy's detected events have no SES, so separation
+   * stands in for second stage ignition. Without events the engines burn throughout.
+   */
+  private static getBurnIntervals(stageEvents: StageEvent[], lastTime: number): Array<[number, number]> {
+    const events = [...stageEvents].sort((a, b) => a.time - b.time);
+    const hasIgnitionEvents = events.some(({ event }) => /SES|IGNITION/i.test(event));
+    const intervals: Array<[number, number]> = [];
+    let burnStart: number | null = 0;
+
+    events.forEach(({ event, time }) => {
+      const name = event.toUpperCase();
+      const isCutoff = name.includes('MECO') || name.includes('SECO');
+      const isIgnition = hasIgnitionEvents
+        ? name.includes('SES') || name.includes('IGNITION')
+        : name.includes('SEP');
+
+      if (isCutoff && burnStart !== null) {
+        intervals.push([burnStart, time]);
+        burnStart = null;
+      } else if (isIgnition && burnStart === null) {
+        burnStart = hasIgnitionEvents ? time : time + SECOND_STAGE_IGNITION_DELAY;
+      }
+    });
+
+    if (burnStart !== null) {
+      intervals.push([burnStart, lastTime + 1]);
+    }
+    return intervals;
+  }
+
+  private static interpolateFrame(a: EnhancedTelemetryFrame, b: EnhancedTelemetryFrame, time: number): EnhancedTelemetryFrame {
+    const span = b.time - a.time;
+    const f = span > 0 ? Math.min(1, Math.max(0, (time - a.time) / span)) : 0;
+    const lerp = (x: number, y: number) => x + (y - x) * f;
+    const nearest = f < 0.5 ? a : b;
+
+    return {
+      ...nearest,
+      time,
+      altitude: lerp(a.altitude, b.altitude),
+      distanceFromBermuda: lerp(a.distanceFromBermuda, b.distanceFromBermuda),
+      elevationAngle: lerp(a.elevationAngle, b.elevationAngle),
+      extinction: a.extinction !== undefined && b.extinction !== undefined ? lerp(a.extinction, b.extinction) : undefined
+    };
+  }
+
+  /**
+   * Sum the flux of several sources, ignoring missing ones
+   */
+  private static combineMagnitudes(magnitudes: Array<number | null>): number | null {
+    const present = magnitudes.filter((m): m is number => m !== null);
+    if (present.length === 0) {
+      return null;
+    }
+    const flux = present.reduce((sum, m) => sum + Math.pow(10, -0.4 * m), 0);
+    return -2.5 * Math.log10(flux);
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Calendar Feed Service
+ * Links to the server's iCalendar feed (/calendar.ics), which lists launches
+ * visible from Bermuda and follows schedule changes in subscribed calendars.
+ */
+
+import { VisibilityData } from '../types';
+
+export type CalendarThreshold = Exclude<VisibilityData['likelihood'], 'none'>;
+
+const FEED_PATH = '/calendar.ics';
+
+export class CalendarFeedService {
+  /**
+   * Subscribable feed URL; webcal:// opens the calendar app's subscribe dialog
+   */
+  static getFeedUrl(minLikelihood: CalendarThreshold = 'medium', protocol: 'https' | 'webcal' = 'https'): string {
+    const url = new URL(FEED_PATH, window.location.origin);
+    url.searchParams.set('min', minLikelihood);
+    return protocol === 'webcal' ? url.toString().replace(/^https?:/, 'webcal:') : url.toString();
+  }
+}
@@ -18,24 +18,29 @@ import {
   DelayImpactAnalysis, 
   EnhancedVisibilityData,
   ScheduleChangeResult,
+  BackupOpportunity,
   Launch 
 } from '../types';
-import { calculateVisibility } from './visibilityService';
+import { calculateVisibility, isISSMission } from './visibilityService';
 import { SolarPositionCalculator } from './solarPositionCalculator';
 import { VisibilityFormatter } from '../utils/visibilityFormatter';
+import { scheduleConfig } from '../config/environment';
+
+// Second stage altitude when it climbs into view from Bermuda
+const PLUME_ALTITUDE_M = 150000;
 
 export class DelayImpactAnalyzer {
 
   /**
    * Calculate enhanced visibility data using core service + solar conditions
    */
-  private static async calculateEnhancedVisibility(launch: Launch): Promise<EnhancedVisibilityData> {
+  private static async calculateEnhancedVisibility(launch: Launch, useCache: boolean = true): Promise<EnhancedVisibilityData> {
     // Get basic visibility data
-    const basicVisibility = await calculateVisibility(launch);
+    const basicVisibility = await calculateVisibility(launch, undefined, { useCache });
     
     // Calculate solar conditions
     const launchTime = new Date(launch.net);
-    const solarData = SolarPositionCalculator.calculateSolarPosition(launchTime, 32.3078, -64.7505);
+    const solarData = SolarPositionCalculator.calculateSolarPosition(launchTime);
     
     // Determine twilight phase and illumination conditions
     let twilightPhase: 'day' | 'civil' | 'nautical' | 'astronomical' | 'night';
@@ -508,12 +513,65 @@ export class DelayImpactAnalyzer {
   }
 
   /**
-   * Compare two launches for impact testing
+   * Hours between attempts after a scrub. ISS missions wait a day for the
+   * station's orbital plane to pass over the pad again; everything else
+   * uses the configured recycle interval.
+   */
+  static getRecycleIntervalHours(launch: Launch): number {
+    return isISSMission(launch) ? 24 : scheduleConfig.scrubRecycleHours;
+  }
+
+  /**
+   * Project twilight, plume illumination and visibility for the scheduled
+   * attempt and the recycles that follow it, with the whole window shifted
+   * by the recycle interval each time
+   */
+  static async projectBackupOpportunities(launch: Launch, count: number = 5): Promise<BackupOpportunity[]> {
+    const intervalHours = this.getRecycleIntervalHours(launch);
+    const shift = (time: string | undefined, hours: number) =>
+      time ? new Date(new Date(time).getTime() + hours * 60 * 60 * 1000).toISOString() : undefined;
+
+    // Sequential and uncached: projected attempts must not replace the scheduled result
+    const opportunities: BackupOpportunity[] = [];
+    for (let attempt = 0; attempt < count; attempt++) {
+      const recycleHours = attempt * intervalHours;
+      const attemptLaunch: Launch = {
+        ...launch,
+        net: shift(launch.net, recycleHours) ?? launch.net,
+        window_start: shift(launch.window_start, recycleHours),
+        window_end: shift(launch.window_end, recycleHours)
+      };
+      const visibility = await this.calculateEnhancedVisibility(attemptLaunch, false);
+      const { sunElevation, twilightPhase } = visibility.solarConditions;
+
+      opportunities.push({
+        attempt,
+        net: attemptLaunch.net,
+        windowStart: attemptLaunch.window_start,
+        windowEnd: attemptLaunch.window_end,
+        recycleHours,
+        twilightPhase,
+        plumeIllumination: sunElevation > 0
+          ? 'daylight'
+          : SolarPositionCalculator.isRocketSunlit(PLUME_ALTITUDE_M, sunElevation) ? 'sunlit' : 'shadowed',
+        likelihood: visibility.likelihood,
+        visibility
+      });
+    }
+
+    return opportunities;
+  }
+
+  /**
+   * Compare two launches for impact testing. With backupAttempts set, the
+   * result also projects that many attempts starting from the delayed time,
+   * for when the delayed attempt scrubs too.
    */
   static async compareScenarios(
     baseLaunch: LaunchWithDelayTracking,
     delayedTime: string,
-    description: string = 'Scenario comparison'
+    description: string = 'Scenario comparison',
+    options: { backupAttempts?: number } = {}
   ): Promise<DelayImpactAnalysis> {
     
     
@@ -554,7 +612,11 @@ export class DelayImpactAnalyzer {
       currentNet: delayedTime
     };
     
-    return this.analyzeDelayImpact(delayedLaunch, fakeScheduleChange);
+    const analysis = await this.analyzeDelayImpact(delayedLaunch, fakeScheduleChange);
+    if (options.backupAttempts && options.backupAttempts > 0) {
+      analysis.backupOpportunities = await this.projectBackupOpportunities(delayedLaunch, options.backupAttempts);
+    }
+    return analysis;
   }
 
   /**
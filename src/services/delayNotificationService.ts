@@ -13,6 +13,7 @@ import {
   LaunchWithDelayTracking,
   LaunchMonitoringConfig
 } from '../types';
+import { pushSubscriptionService } from './pushSubscriptionService';
 
 // Notification channel interfaces
 interface NotificationChannel {
@@ -52,6 +53,7 @@ export class DelayNotificationService {
     // Register default notification channels
     this.registerChannel('in-app', new InAppNotificationChannel());
     this.registerChannel('browser', new BrowserNotificationChannel());
+    this.registerChannel('web-push', new WebPushNotificationChannel());
     
   }
 
@@ -322,6 +324,18 @@ export class DelayNotificationService {
           console.error(`[DelayNotification] Browser notification failed:`, error);
         }
       }
+
+      // Also relay through the server so other tabs and a sleeping phone hear it
+      const webPushChannel = this.channels.get('web-push');
+      if (webPushChannel?.isAvailable()) {
+        try {
+          if (await webPushChannel.send(notification)) {
+            sent = true;
+          }
+        } catch (error) {
+          console.error(`[DelayNotification] Web push notification failed:`, error);
+        }
+      }
     }
     
     return sent;
@@ -469,4 +483,18 @@ class BrowserNotificationChannel implements NotificationChannel {
       }
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Web Push channel - relays alerts through /api/push/alert so they reach the
+ * device's service worker even if this page is closed before it is read
+ */
+class WebPushNotificationChannel implements NotificationChannel {
+  async send(notification: DelayNotification): Promise<boolean> {
+    return pushSubscriptionService.sendDelayAlert(notification);
+  }
+  
+  isAvailable(): boolean {
+    return pushSubscriptionService.isActive();
+  }
+}
@@ -136,6 +136,9 @@ export class ErrorHandlingService {
             timestamp
           };
       }
+    } else if (error instanceof EnhancedError) {
+      // Already classified, e.g. an HTTP error thrown inside withRetry; keep its retryability
+      errorDetails = { ...error.details, timestamp };
     } else if (error instanceof TypeError && error.message.includes('fetch')) {
       // Network connectivity issues
       errorDetails = {
@@ -5,6 +5,21 @@
  * Provides telemetry-driven visibility calculations
  */
 
+import { MatchPin, ObserverLocation } from '../types';
+import { getObserverLocation } from './observerLocationService';
+import { isAboveHorizonMask } from '../utils/horizonMask';
+import { MatchableLaunch, matchLaunchToMission, MissionMatch } from '../utils/launchMatching';
+import {
+  AtmosphericConditions,
+  STANDARD_ATMOSPHERE,
+  applyRefraction,
+  calculateExtinction,
+  estimateApparentMagnitude,
+  getLimitingMagnitude
+} from '../utils/atmosphericOptics';
+import { WeatherService } from './weatherService';
+import { SolarPositionCalculator } from './solarPositionCalculator';
+
 // Types
 export interface FlightClubMission {
   id: string;
@@ -31,8 +46,12 @@ export interface EnhancedTelemetryFrame {
   distanceFromBermuda: number; // km
   bearingFromBermuda: number; // degrees
   aboveHorizon: boolean;
-  elevationAngle: number; // degrees above horizon
+  elevationAngle: number; // degrees above horizon, including refraction
   stageNumber: number;
+  extinction?: number; // magnitudes of atmospheric dimming along the line of sight
+  apparentMagnitude?: number; // estimated brightness as seen by the observer
+  limitingMagnitude?: number; // faintest naked-eye magnitude for the sky at that moment
+  nakedEyeVisible?: boolean; // above horizon and bright enough to see
   velocityVector?: {
     magnitude: number; // km/s
     direction: number; // degrees
@@ -57,7 +76,7 @@ export interface StageEvent {
   event: string; // 'MECO', 'Stage Sep', 'SECO', etc.
   stageNumber: number;
   description?: string;
-  engineType?: 'Merlin' | 'MVac' | 'Unknown'; // Engine type for specific event tracking
+  engineType?: string; // Engine family from the vehicle catalogue, e.g. 'Merlin', 'MVac', 'RL10'
 }
 
 export interface ProcessedSimulationData {
@@ -149,8 +168,13 @@ export class FlightClubApiService {
   /**
    * Generate sample telemetry data for demo mode
    */
-  private static generateDemoTelemetry(): EnhancedTelemetryFrame[] {
+  private static generateDemoTelemetry(
+    observer: ObserverLocation,
+    conditions: AtmosphericConditions,
+    launchTime?: Date
+  ): EnhancedTelemetryFrame[] {
     const frames: EnhancedTelemetryFrame[] = [];
+    const sunElevationAt = SolarPositionCalculator.createElevationLookup(launchTime, observer.latitude, observer.longitude, observer.elevation);
     const CAPE_LAT = 28.4158;
     const CAPE_LNG = -80.6081;
     
@@ -185,21 +209,13 @@ export class FlightClubApiService {
       const lat = CAPE_LAT + progress * 15; // Move northeast
       const lng = CAPE_LNG + progress * 10;
       
-      // Calculate distance and bearing from Bermuda
-      const distance = this.calculateDistance(32.3078, -64.7505, lat, lng);
-      const bearing = this.calculateBearing(32.3078, -64.7505, lat, lng);
-      const elevation = this.calculateElevationAngle(distance, alt);
-      
       frames.push({
         time: t,
         latitude: lat,
         longitude: lng,
         altitude: alt,
         speed: velocity * 1000, // Convert km/s to m/s
-        distanceFromBermuda: distance,
-        bearingFromBermuda: bearing,
-        aboveHorizon: elevation > 0,
-        elevationAngle: elevation,
+        ...this.observeFrame({ time: t, latitude: lat, longitude: lng, altitude: alt }, observer, conditions, sunElevationAt),
         stageNumber: t < 165 ? 1 : 2, // Stage 1 until separation at T+165s
         velocityVector: {
           magnitude: velocity, // km/s (realistic Falcon 9 velocity)
@@ -235,12 +251,104 @@ export class FlightClubApiService {
     return (bearing + 360) % 360;
   }
   
-  private static calculateElevationAngle(distance: number, altitude: number): number {
+  /**
+   * Observer-relative position and brightness of a telemetry point.
+   * Elevation includes refraction; a frame only counts as naked-eye visible when it clears
+   * the horizon mask and its extinction-dimmed brightness beats the sky's limiting magnitude.
+   */
+  private static observeFrame(
+    frame: { time: number; latitude: number; longitude: number; altitude: number },
+    observer: ObserverLocation,
+    conditions: AtmosphericConditions,
+    sunElevationAt: (time: number) => number
+  ): Pick<EnhancedTelemetryFrame,
+    'distanceFromBermuda' | 'bearingFromBermuda' | 'aboveHorizon' | 'elevationAngle' |
+    'extinction' | 'apparentMagnitude' | 'limitingMagnitude' | 'nakedEyeVisible'> {
+    const distance = this.calculateDistance(observer.latitude, observer.longitude, frame.latitude, frame.longitude);
+    const bearing = this.calculateBearing(observer.latitude, observer.longitude, frame.latitude, frame.longitude);
+    const elevationAngle = this.calculateElevationAngle(distance, frame.altitude - observer.elevation, conditions);
+    const aboveHorizon = elevationAngle > 0 && isAboveHorizonMask(observer.horizonMask, bearing, elevationAngle);
+    const apparentMagnitude = estimateApparentMagnitude(distance, elevationAngle, conditions);
+    const limitingMagnitude = getLimitingMagnitude(sunElevationAt(frame.time));
+
+    return {
+      distanceFromBermuda: distance,
+      bearingFromBermuda: bearing,
+      aboveHorizon,
+      elevationAngle: Math.max(0, elevationAngle),
+      extinction: calculateExtinction(elevationAngle, conditions),
+      apparentMagnitude,
+      limitingMagnitude,
+      nakedEyeVisible: aboveHorizon && apparentMagnitude <= limitingMagnitude
+    };
+  }
+
+  /**
+   * Recompute observer-relative telemetry fields for the given observer location.
+   * The proxy computes them geometrically for Bermuda with a clear sea horizon; this adds
+   * the observer's position, horizon mask, refraction and extinction.
+   */
+  private static projectForObserver(
+    data: ProcessedSimulationData,
+    observer: ObserverLocation,
+    conditions: AtmosphericConditions,
+    launchTime?: Date
+  ): ProcessedSimulationData {
+    if (!data?.enhancedTelemetry?.length) {
+      return data;
+    }
+
+    const sunElevationAt = SolarPositionCalculator.createElevationLookup(launchTime, observer.latitude, observer.longitude, observer.elevation);
+    const enhancedTelemetry = data.enhancedTelemetry.map(frame => ({
+      ...frame,
+      ...this.observeFrame(frame, observer, conditions, sunElevationAt)
+    }));
+
+    return {
+      ...data,
+      enhancedTelemetry,
+      visibilitySummary: this.summarizeVisibility(enhancedTelemetry)
+    };
+  }
+
+  /**
+   * Visibility summary counting only frames bright enough to see
+   */
+  private static summarizeVisibility(frames: EnhancedTelemetryFrame[]): VisibilitySummary {
+    const visibleFrames = frames.filter(frame => frame.nakedEyeVisible);
+    const closestFrame = frames.reduce((closest, frame) =>
+      frame.distanceFromBermuda < closest.distanceFromBermuda ? frame : closest
+    );
+
+    return {
+      firstVisible: visibleFrames.length > 0 ? visibleFrames[0].time : null,
+      lastVisible: visibleFrames.length > 0 ? visibleFrames[visibleFrames.length - 1].time : null,
+      peakVisibility: closestFrame.time,
+      totalDuration: visibleFrames.length > 0 ?
+        visibleFrames[visibleFrames.length - 1].time - visibleFrames[0].time : 0,
+      closestApproach: {
+        distance: closestFrame.distanceFromBermuda,
+        bearing: closestFrame.bearingFromBermuda,
+        time: closestFrame.time
+      },
+      visibleFrameCount: visibleFrames.length
+    };
+  }
+
+  /**
+   * Elevation angle in degrees (altitude in meters above the observer),
+   * corrected for atmospheric refraction
+   */
+  private static calculateElevationAngle(
+    distance: number,
+    altitude: number,
+    conditions: AtmosphericConditions = STANDARD_ATMOSPHERE
+  ): number {
     const R = 6371; // Earth radius in km
     const earthCurvature = (distance * distance) / (2 * R);
     const apparentAltitude = altitude / 1000 - earthCurvature;
     const elevationRadians = Math.atan2(apparentAltitude, distance);
-    return elevationRadians * 180 / Math.PI;
+    return applyRefraction(elevationRadians * 180 / Math.PI, conditions);
   }
   
   /**
@@ -304,12 +412,16 @@ export class FlightClubApiService {
   static async getSimulationData(
     missionId: string,
     launchId?: string,
-    options?: { fallbackMissionId?: string }
+    options?: { fallbackMissionId?: string; observer?: ObserverLocation; launchTime?: string }
   ): Promise<ProcessedSimulationData> {
     if (!missionId) {
       throw new Error('Mission ID is required');
     }
 
+    const observer = options?.observer || getObserverLocation();
+    const conditions = WeatherService.getAtmosphericConditions(observer);
+    const launchTime = options?.launchTime ? new Date(options.launchTime) : undefined;
+
     const missionIdsToTry = [missionId];
     if (options?.fallbackMissionId && !missionIdsToTry.includes(options.fallbackMissionId)) {
       missionIdsToTry.push(options.fallbackMissionId);
@@ -318,27 +430,12 @@ export class FlightClubApiService {
     // Check if in demo mode or if this is the demo mission
     if (this.DEMO_MODE || missionIdsToTry.includes('demo-starlink-mission')) {
       console.log('[FlightClub] Using demo mode - generating sample simulation data');
-      const demoTelemetry = this.generateDemoTelemetry();
-      const visibleFrames = demoTelemetry.filter(f => f.aboveHorizon);
-      const closestFrame = demoTelemetry.reduce((closest, current) => 
-        current.distanceFromBermuda < closest.distanceFromBermuda ? current : closest
-      );
+      const demoTelemetry = this.generateDemoTelemetry(observer, conditions, launchTime);
       
       return {
         missionId,
         enhancedTelemetry: demoTelemetry,
-        visibilitySummary: {
-          firstVisible: visibleFrames[0]?.time || null,
-          lastVisible: visibleFrames[visibleFrames.length - 1]?.time || null,
-          peakVisibility: closestFrame.time,
-          totalDuration: visibleFrames.length * 10, // 10 second intervals
-          closestApproach: {
-            distance: closestFrame.distanceFromBermuda,
-            bearing: closestFrame.bearingFromBermuda,
-            time: closestFrame.time
-          },
-          visibleFrameCount: visibleFrames.length
-        },
+        visibilitySummary: this.summarizeVisibility(demoTelemetry),
         stageEvents: [
           { time: 0, event: 'Liftoff', stageNumber: 1, description: 'Mission start' },
           { time: 180, event: 'MECO-1', stageNumber: 1, engineType: 'Merlin' },
@@ -360,7 +457,7 @@ export class FlightClubApiService {
           const cachedData = await indexedDBCache.getFlightClubData(launchId, id);
           if (cachedData) {
             console.log(`[FlightClub] Using cached simulation data for ${id}`);
-            return cachedData;
+            return this.projectForObserver(cachedData, observer, conditions, launchTime);
           }
         }
       } catch (cacheError) {
@@ -397,7 +494,7 @@ export class FlightClubApiService {
         if (this.DEMO_MODE) {
           this.enableDemoMode(false);
         }
-        return data;
+        return this.projectForObserver(data, observer, conditions, launchTime);
 
       } catch (error) {
         console.error(`[FlightClub] ✗ Failed to fetch simulation for ${id}:`, error);
@@ -409,141 +506,90 @@ export class FlightClubApiService {
   }
   
   /**
-   * Manual mission mappings for common name mismatches
-   */
-  private static MISSION_MAPPINGS: Record<string, string> = {
-    // SpaceX Starlink patterns
-    'starlink group': 'starlink',
-    'starlink mission': 'starlink',
-    'starship ils-1': 'starship ils1',
-    'crew-9': 'crew 9',
-    'crew-10': 'crew 10',
-    // Europa Clipper patterns
-    'europa clipper': 'europa clipper mission',
-    // Add more mappings as needed
-  };
-
-  /**
-   * Normalize mission name for better matching
-   */
-  private static normalizeMissionName(name: string): string {
-    return name
-      .toLowerCase()
-      .replace(/[\s\-_]+/g, ' ')  // Normalize spaces/dashes/underscores
-      .replace(/group\s+\d+[-\s]*\d+/, 'group')  // "Group 10-6" → "Group"
-      .replace(/mission\s*\d*/, '')  // Remove "Mission" suffix
-      .replace(/\s+/g, ' ')  // Normalize multiple spaces
-      .trim();
-  }
-
-  /**
-   * Check if names match using SpaceX-specific patterns
-   */
-  private static isSpaceXMatch(launchName: string, missionName: string): boolean {
-    const launch = this.normalizeMissionName(launchName);
-    const mission = this.normalizeMissionName(missionName);
-    
-    // Check manual mappings first
-    for (const [pattern, replacement] of Object.entries(this.MISSION_MAPPINGS)) {
-      if (launch.includes(pattern)) {
-        return mission.includes(replacement);
-      }
-    }
-    
-    // Starlink group matching
-    if (launch.includes('starlink') && mission.includes('starlink')) {
-      return true; // All Starlink missions are similar enough
-    }
-    
-    // Crew mission matching
-    const crewMatch = launch.match(/crew[-\s]*(\d+)/i);
-    if (crewMatch) {
-      const crewNumber = crewMatch[1];
-      return mission.includes(`crew ${crewNumber}`) || mission.includes(`crew-${crewNumber}`);
-    }
-    
-    return false;
-  }
-
-  /**
-   * Match a Launch Library launch with Flight Club mission
+   * Match a Launch Library launch with its Flight Club mission, with the
+   * confidence and reasons from the shared matching engine
    */
-  static async findMissionForLaunch(launchId: string, launchName: string): Promise<FlightClubMission | null> {
+  static async findMatchForLaunch(launch: MatchableLaunch): Promise<MissionMatch<FlightClubMission> | null> {
     try {
       const missionsResponse = await this.getMissions();
       const missions = missionsResponse.missions;
-      
+
       // In demo mode, always return demo mission for SpaceX launches
-      if (this.DEMO_MODE && launchName.toLowerCase().includes('starlink')) {
-        console.log(`[FlightClub] Demo mode: returning demo mission for ${launchName}`);
-        return this.DEMO_MISSION;
+      if (this.DEMO_MODE && launch.name.toLowerCase().includes('starlink')) {
+        console.log(`[FlightClub] Demo mode: returning demo mission for ${launch.name}`);
+        return { mission: this.DEMO_MISSION, score: 100, confidence: 'high', reasons: ['Demo mode'], warnings: [] };
       }
-      
-      console.log(`[FlightClub] Searching for mission matching: "${launchName}" (ID: ${launchId})`);
+
+      console.log(`[FlightClub] Searching for mission matching: "${launch.name}" (ID: ${launch.id})`);
       console.log(`[FlightClub] Available missions: ${missions.length} ${missionsResponse.cached ? '(cached)' : '(fresh)'}`);
-      
-      // First try to match by Launch Library ID
-      const byId = missions.find(m => m.launchLibraryId === launchId);
-      if (byId) {
-        console.log(`[FlightClub] ✓ Matched ${launchName} by Launch Library ID: ${byId.id} - ${byId.description}`);
-        return byId;
-      }
-      
-      // Then try to match by exact name
-      const launchNameLower = launchName.toLowerCase();
-      const byExactName = missions.find(m => {
-        const missionName = m.description.toLowerCase();
-        return missionName === launchNameLower;
-      });
-      
-      if (byExactName) {
-        console.log(`[FlightClub] ✓ Matched ${launchName} by exact name: ${byExactName.id} - ${byExactName.description}`);
-        return byExactName;
-      }
-      
-      // Try partial name matching (both ways)
-      const byPartialName = missions.find(m => {
-        const missionName = m.description.toLowerCase();
-        return missionName.includes(launchNameLower) || launchNameLower.includes(missionName);
-      });
-      
-      if (byPartialName) {
-        console.log(`[FlightClub] ✓ Matched ${launchName} by partial name: ${byPartialName.id} - ${byPartialName.description}`);
-        return byPartialName;
-      }
-      
-      // Try SpaceX-specific matching patterns
-      const bySpaceXMatch = missions.find(m => this.isSpaceXMatch(launchName, m.description));
-      
-      if (bySpaceXMatch) {
-        console.log(`[FlightClub] ✓ Matched ${launchName} by SpaceX pattern: ${bySpaceXMatch.id} - ${bySpaceXMatch.description}`);
-        return bySpaceXMatch;
-      }
-      
-      // Try word-based matching for complex names (fallback)
-      const launchWords = launchNameLower.split(/[\s\-_]+/).filter(w => w.length > 2);
-      const byWordMatch = missions.find(m => {
-        const missionWords = m.description.toLowerCase().split(/[\s\-_]+/).filter(w => w.length > 2);
-        return launchWords.some(lw => missionWords.some(mw => lw.includes(mw) || mw.includes(lw)));
-      });
-      
-      if (byWordMatch) {
-        console.log(`[FlightClub] ✓ Matched ${launchName} by word similarity: ${byWordMatch.id} - ${byWordMatch.description}`);
-        return byWordMatch;
+
+      const match = matchLaunchToMission(launch, missions);
+      if (match) {
+        console.log(`[FlightClub] ✓ Matched ${launch.name} → ${match.mission.id} - ${match.mission.description} (${match.confidence}, ${match.reasons.join('; ')})`);
+        return match;
       }
-      
+
       // Log some example missions for debugging
       const recentMissions = missions.slice(0, 10).map(m => `${m.id}: ${m.description}`);
-      console.log(`[FlightClub] ✗ No match found for "${launchName}". Recent missions:`, recentMissions);
-      
+      console.log(`[FlightClub] ✗ No match found for "${launch.name}". Recent missions:`, recentMissions);
+
       return null;
-      
+
     } catch (error) {
-      console.error(`[FlightClub] Error matching launch ${launchName}:`, error);
+      console.error(`[FlightClub] Error matching launch ${launch.name}:`, error);
       return null;
     }
   }
+
+  /**
+   * Match a Launch Library launch with Flight Club mission
+   */
+  static async findMissionForLaunch(launch: MatchableLaunch): Promise<FlightClubMission | null> {
+    const match = await this.findMatchForLaunch(launch);
+    return match?.mission ?? null;
+  }
   
+  /**
+   * Match pins users have shared through the server cache
+   */
+  static async getMatchPins(): Promise<MatchPin[]> {
+    const response = await this.fetchThroughProxy('/pins', {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json'
+      }
+    });
+
+    const data = await response.json();
+    return Array.isArray(data?.pins) ? data.pins : [];
+  }
+
+  /**
+   * Suggest a user's match decision for everyone; a null mission rejects every
+   * mission for the launch. Returns null while the suggestion awaits review.
+   */
+  static async saveMatchPin(
+    launch: { id: string; name: string; net: string },
+    missionId: string | null
+  ): Promise<MatchPin | null> {
+    const response = await this.fetchThroughProxy('/pins', {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        launchId: launch.id,
+        missionId,
+        launchName: launch.name,
+        launchTime: launch.net
+      })
+    });
+
+    const data = await response.json();
+    return data.pin ?? null;
+  }
+
   /**
    * Get enhanced visibility data for a launch
    */
@@ -5,6 +5,11 @@
  * that match FlightClub's professional visualization features.
  */
 
+import { getObserverLocation } from './observerLocationService';
+import { WeatherService } from './weatherService';
+import { AtmosphericConditions, STANDARD_ATMOSPHERE, applyRefraction } from '../utils/atmosphericOptics';
+import { getVehicleProfile, VehicleProfile } from '../utils/vehicleCatalogue';
+
 export interface RawTelemetryPoint {
   time: number; // seconds from T-0
   latitude: number;
@@ -52,7 +57,7 @@ export interface StageEvent {
   stageNumber: number;
   description: string;
   telemetryIndex: number; // index in telemetry array
-  engineType?: 'Merlin' | 'MVac' | 'Unknown'; // Engine type for specific event tracking
+  engineType?: string; // Engine family from the vehicle catalogue, e.g. 'Merlin', 'MVac', 'RL10'
 }
 
 export interface FlightProfile {
@@ -97,11 +102,6 @@ export interface VisibilityWindow {
   stage: number;
 }
 
-// Bermuda coordinates
-const BERMUDA_LAT = 32.3078;
-const BERMUDA_LNG = -64.7505;
-const BERMUDA_ELEVATION = 0; // meters above sea level
-
 // Earth constants
 const EARTH_RADIUS = 6371000; // meters
 
@@ -114,16 +114,20 @@ export class FlightClubDataProcessor {
     const stages: StageData[] = [];
     const allEvents: StageEvent[] = [];
     
+    // Pressure/temperature for refraction, from cached weather when available
+    const conditions = WeatherService.getAtmosphericConditions();
+    
     // Process each stage
     for (const rawStage of rawData.stages || []) {
-      const stageData = this.processStageData(rawStage);
+      const stageData = this.processStageData(rawStage, conditions);
       stages.push(stageData);
     }
     
-    // Process events
+    // Process events, naming engines from the vehicle catalogue
+    const vehicle = getVehicleProfile(String(rawData.vehicle?.description ?? rawData.vehicle ?? ''));
     if (rawData.events) {
       for (const event of rawData.events) {
-        const processedEvent = this.processStageEvent(event, stages);
+        const processedEvent = this.processStageEvent(event, stages, vehicle);
         if (processedEvent) {
           allEvents.push(processedEvent);
         }
@@ -160,13 +164,13 @@ export class FlightClubDataProcessor {
   /**
    * Process individual stage telemetry data
    */
-  private static processStageData(rawStage: any): StageData {
+  private static processStageData(rawStage: any, conditions: AtmosphericConditions): StageData {
     const telemetry: ProcessedTelemetryPoint[] = [];
     const rawTelemetry = rawStage.telemetry || [];
     
     for (let i = 0; i < rawTelemetry.length; i++) {
       const point = rawTelemetry[i];
-      const processedPoint = this.processTelemetryPoint(point, rawStage.stageNumber, i, rawTelemetry);
+      const processedPoint = this.processTelemetryPoint(point, rawStage.stageNumber, i, rawTelemetry, conditions);
       telemetry.push(processedPoint);
     }
     
@@ -190,14 +194,16 @@ export class FlightClubDataProcessor {
     point: RawTelemetryPoint, 
     stageNumber: number,
     index: number,
-    allPoints: RawTelemetryPoint[]
+    allPoints: RawTelemetryPoint[],
+    conditions: AtmosphericConditions
   ): ProcessedTelemetryPoint {
     
     // Calculate distance and bearing from Bermuda
     const bermudaData = this.calculateBermudaMetrics(
       point.latitude, 
       point.longitude, 
-      point.altitude
+      point.altitude,
+      conditions
     );
     
     // Calculate flight dynamics
@@ -231,17 +237,19 @@ export class FlightClubDataProcessor {
   /**
    * Calculate Bermuda-specific metrics for a telemetry point
    */
-  private static calculateBermudaMetrics(lat: number, lng: number, alt: number) {
+  private static calculateBermudaMetrics(lat: number, lng: number, alt: number, conditions: AtmosphericConditions) {
+    const observer = getObserverLocation();
+    
     // Calculate distance using great circle formula
     const distance = this.calculateGreatCircleDistance(
-      BERMUDA_LAT, BERMUDA_LNG, lat, lng
+      observer.latitude, observer.longitude, lat, lng
     );
     
-    // Calculate bearing from Bermuda to rocket
-    const bearing = this.calculateBearing(BERMUDA_LAT, BERMUDA_LNG, lat, lng);
+    // Calculate bearing from observer to rocket
+    const bearing = this.calculateBearing(observer.latitude, observer.longitude, lat, lng);
     
-    // Calculate elevation angle (accounting for Earth curvature)
-    const elevation = this.calculateElevationAngle(distance * 1000, alt, BERMUDA_ELEVATION);
+    // Calculate elevation angle (accounting for Earth curvature, observer height and refraction)
+    const elevation = this.calculateElevationAngle(distance * 1000, alt, observer.elevation, conditions);
     
     // Azimuth is the same as bearing for distant objects
     const azimuth = bearing;
@@ -332,17 +340,18 @@ export class FlightClubDataProcessor {
   /**
    * Process stage events from FlightClub data
    */
-  private static processStageEvent(rawEvent: any, stages: StageData[]): StageEvent | null {
+  private static processStageEvent(rawEvent: any, stages: StageData[], vehicle: VehicleProfile): StageEvent | null {
     if (!rawEvent.key || !rawEvent.value) return null;
     
     const time = parseFloat(rawEvent.key);
     const eventCode = rawEvent.value;
     
-    // Decode event type with enhanced MVac/engine-specific detection
+    // Decode event type with engine-specific detection
+    const { firstStage, upperStage } = vehicle;
     let event = 'Unknown Event';
     let description = '';
     let stageNumber = 1;
-    let engineType: 'Merlin' | 'MVac' | 'Unknown' = 'Unknown';
+    let engineType = 'Unknown';
     
     if (eventCode.includes('SEPARATION')) {
       event = 'Stage Separation';
@@ -350,27 +359,27 @@ export class FlightClubDataProcessor {
       stageNumber = 1;
     } else if (eventCode.includes('MECO')) {
       event = 'MECO';
-      description = 'Main Engine Cutoff (Merlin engines)';
+      description = `Main Engine Cutoff (${firstStage.engines})`;
       stageNumber = 1;
-      engineType = 'Merlin';
+      engineType = firstStage.engineType;
     } else if (eventCode.includes('SECO')) {
       // Enhanced SECO detection with engine specificity
       if (eventCode.includes('SECO-1') || time < 600) { // First SECO within 10 minutes
         event = 'SECO-1';
-        description = 'Second Engine Cutoff (MVac engine) - End of visibility window';
-        engineType = 'MVac';
+        description = `Second Engine Cutoff (${upperStage.engines}) - End of visibility window`;
+        engineType = upperStage.engineType;
       } else {
         event = 'SECO-2';  
-        description = 'Second Engine Cutoff - Restart (MVac engine)';
-        engineType = 'MVac';
+        description = `Second Engine Cutoff - Restart (${upperStage.engines})`;
+        engineType = upperStage.engineType;
       }
       stageNumber = 2;
     } else if (eventCode.includes('ENGINE_START') || eventCode.includes('IGNITION')) {
       if (time > 120) { // After typical stage separation time
         event = 'Second Stage Ignition';
-        description = 'MVac engine ignition - Start of 2nd stage burn';
+        description = `${upperStage.engines} ignition - Start of 2nd stage burn`;
         stageNumber = 2;
-        engineType = 'MVac';
+        engineType = upperStage.engineType;
       }
     } else if (eventCode.includes('FAIRING')) {
       event = 'Fairing Separation';
@@ -540,7 +549,12 @@ export class FlightClubDataProcessor {
     return (bearing + 360) % 360;
   }
   
-  private static calculateElevationAngle(horizontalDistance: number, targetAltitude: number, observerAltitude: number): number {
+  private static calculateElevationAngle(
+    horizontalDistance: number,
+    targetAltitude: number,
+    observerAltitude: number,
+    conditions: AtmosphericConditions = STANDARD_ATMOSPHERE
+  ): number {
     const altitudeDifference = targetAltitude - observerAltitude;
     
     // Account for Earth curvature
@@ -548,7 +562,9 @@ export class FlightClubDataProcessor {
     const apparentAltitude = altitudeDifference - earthCurvature;
     
     const elevationRadians = Math.atan2(apparentAltitude, horizontalDistance);
-    return elevationRadians * 180 / Math.PI;
+    
+    // Refraction lifts low targets by up to ~0.5° at the horizon
+    return applyRefraction(elevationRadians * 180 / Math.PI, conditions);
   }
   
   private static findNearestTelemetryIndex(time: number, stages: StageData[]): number {
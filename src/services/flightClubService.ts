@@ -3,9 +3,9 @@
  * Fetches real trajectory data for rocket launches from Flight Club
  */
 
+import { getObserverLocation } from './observerLocationService';
+
 // Constants
-const BERMUDA_LAT = 32.3078;
-const BERMUDA_LON = -64.7505;
 const EARTH_RADIUS_M = 6_371_000; // meters
 
 export interface TelemetryFrame {
@@ -157,11 +157,12 @@ function extractTelemetryFromHtml(html: string): TelemetryFrame[] {
 export function findFirstVisibleFrame(telemetry: TelemetryFrame[]): VisibilityResult | null {
   for (const frame of telemetry) {
     const { lat, lon, alt, time } = frame;
-    const distance = haversineKm(BERMUDA_LAT, BERMUDA_LON, lat, lon);
+    const observer = getObserverLocation();
+    const distance = haversineKm(observer.latitude, observer.longitude, lat, lon);
     const maxVisible = horizonDistanceKm(alt);
     
     if (distance <= maxVisible) {
-      const bearing = computeBearing(BERMUDA_LAT, BERMUDA_LON, lat, lon);
+      const bearing = computeBearing(observer.latitude, observer.longitude, lat, lon);
       return {
         time,
         bearing,
@@ -183,11 +184,12 @@ export function findAllVisibleFrames(telemetry: TelemetryFrame[], maxTime: numbe
     if (frame.time > maxTime) break; // Only check first 10 minutes
     
     const { lat, lon, alt, time } = frame;
-    const distance = haversineKm(BERMUDA_LAT, BERMUDA_LON, lat, lon);
+    const observer = getObserverLocation();
+    const distance = haversineKm(observer.latitude, observer.longitude, lat, lon);
     const maxVisible = horizonDistanceKm(alt);
     
     if (distance <= maxVisible) {
-      const bearing = computeBearing(BERMUDA_LAT, BERMUDA_LON, lat, lon);
+      const bearing = computeBearing(observer.latitude, observer.longitude, lat, lon);
       visibleFrames.push({
         time,
         bearing,
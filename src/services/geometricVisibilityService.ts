@@ -8,12 +8,9 @@
  * - Time-of-day illumination factors
  */
 
-import { Launch, GeometricVisibilityResult, VisibilityFactors, TrajectoryPoint } from '../types';
-
-// Bermuda coordinates
-const BERMUDA_LAT = 32.3078;
-const BERMUDA_LNG = -64.7505;
-const EARTH_RADIUS_KM = 6371;
+import { Launch, GeometricVisibilityResult, VisibilityFactors, TrajectoryPoint, ObserverLocation } from '../types';
+import { getObserverLocation } from './observerLocationService';
+import { AscentSimulator, AscentSimulation } from './ascentSimulator';
 
 // East Coast Launch Facility Coordinates
 const LAUNCH_SITES = {
@@ -51,23 +48,25 @@ export class GeometricVisibilityService {
   
   /**
    * Calculate comprehensive visibility based on physics and geometry
+   * Observer defaults to the active observer location
    */
-  static calculateVisibility(launch: Launch): GeometricVisibilityResult {
+  static calculateVisibility(launch: Launch, observer: ObserverLocation = getObserverLocation()): GeometricVisibilityResult {
     
     // Get trajectory information
     const trajectoryInfo = this.getTrajectoryInfo(launch);
     
-    // Generate trajectory points along the flight path
-    const trajectoryPoints = this.generateTrajectoryPoints(launch, trajectoryInfo);
+    // Simulate the ascent and sample trajectory points along the flight path
+    const ascent = this.simulateAscent(launch, trajectoryInfo, observer);
+    const trajectoryPoints = this.generateTrajectoryPoints(ascent);
     
     // Calculate enhanced 2nd stage visibility window
-    const secondStageWindow = this.calculate2ndStageVisibilityWindow(launch, trajectoryInfo);
+    const secondStageWindow = this.calculate2ndStageVisibilityWindow(ascent);
     
     // Validate trajectory makes geographic sense
     const validation = this.validateTrajectory(trajectoryPoints, trajectoryInfo, launch);
     
     // Analyze visibility factors including 2nd stage window  
-    const factors = this.analyzeVisibilityFactors(trajectoryPoints, launch);
+    const factors = this.analyzeVisibilityFactors(trajectoryPoints, launch, observer);
     
     // Determine final visibility result
     const result = this.determineVisibilityResult(factors);
@@ -201,72 +200,61 @@ export class GeometricVisibilityService {
   }
   
   /**
-   * Generate trajectory points for the flight path
+   * Simulate the ascent for this launch vehicle along the mission azimuth
    */
-  private static generateTrajectoryPoints(launch: Launch, trajectoryInfo: any): TrajectoryPoint[] {
-    const points: TrajectoryPoint[] = [];
-    // const launchTime = new Date(launch.net); // Unused for now
+  private static simulateAscent(launch: Launch, trajectoryInfo: any, observer: ObserverLocation): AscentSimulation {
     const launchSite = this.getLaunchSiteCoords(launch);
-    
-    // Simulate trajectory points every 30 seconds for 15 minutes
-    for (let t = 0; t <= 900; t += 30) {
-      const point = this.calculateTrajectoryPoint(t, trajectoryInfo, launchSite);
-      points.push(point);
-    }
-    
-    return points;
+    return AscentSimulator.simulate({
+      azimuth: trajectoryInfo.azimuth,
+      launchSite: { latitude: launchSite.lat, longitude: launchSite.lng },
+      observer,
+      vehicle: AscentSimulator.getPreset(launch),
+      durationSeconds: 900,
+      sampleSeconds: 15
+    });
+  }
+
+  /**
+   * Generate trajectory points for the flight path
+   */
+  private static generateTrajectoryPoints(ascent: AscentSimulation): TrajectoryPoint[] {
+    // Trajectory points every 30 seconds for 15 minutes
+    return ascent.points.filter(point => point.time % 30 === 0);
   }
   
   /**
    * Enhanced 2nd stage visibility calculation
    * Focus on when 2nd stage becomes visible until SECO
    */
-  private static calculate2ndStageVisibilityWindow(launch: Launch, trajectoryInfo: any): { 
+  private static calculate2ndStageVisibilityWindow(ascent: AscentSimulation): { 
     visibilityStart: number | null;
     visibilityEnd: number | null; 
     stageSeparationTime: number;
     estimatedSecoTime: number;
     reason: string;
   } {
-    const launchSite = this.getLaunchSiteCoords(launch);
-    const missionName = launch.mission?.name?.toLowerCase() || '';
-    const orbitType = launch.mission?.orbit?.name?.toLowerCase() || '';
-    
-    // Estimate stage separation timing based on launch type
-    let stageSeparationTime = 150; // Default ~2.5 minutes for Falcon 9
-    let estimatedSecoTime = 480; // Default ~8 minutes
+    // Stage timings come from the simulated ascent; an upper stage still
+    // burning at the end of the simulation is followed to the last point
+    const lastPoint = ascent.points[ascent.points.length - 1];
+    const stageSeparationTime = ascent.stageEvents.find(event => event.event === 'Stage Sep')?.time ?? lastPoint.time;
+    const estimatedSecoTime = ascent.stageEvents.find(event => event.event === 'SECO-1')?.time ?? lastPoint.time;
     
-    // Adjust timings based on mission profile
-    if (missionName.includes('starlink') || missionName.includes('dragon') || 
-        missionName.includes('crew') || orbitType.includes('iss')) {
-      // ISS missions: shorter second stage burn
-      stageSeparationTime = 160; // Slightly longer first stage for ISS trajectory
-      estimatedSecoTime = 540; // ~9 minutes total
-    } else if (orbitType.includes('gto') || orbitType.includes('geo')) {
-      // GTO missions: much longer second stage coast and relight
-      stageSeparationTime = 140; // Shorter first stage for GTO trajectory  
-      estimatedSecoTime = 1680; // ~28 minutes (SECO-1 at ~8min, SECO-2 at ~28min)
-    } else if (orbitType.includes('sso') || orbitType.includes('polar')) {
-      // SSO missions: standard profile
-      stageSeparationTime = 150;
-      estimatedSecoTime = 450; // ~7.5 minutes
-    }
-    
-    // Calculate detailed trajectory points during 2nd stage window
     let visibilityStart = null;
     let visibilityEnd = null;
     let reason = '';
     
     // Check trajectory points every 15 seconds during 2nd stage window
-    for (let t = stageSeparationTime; t <= estimatedSecoTime; t += 15) {
-      const point = this.calculateTrajectoryPoint(t, trajectoryInfo, launchSite);
+    for (const point of ascent.points) {
+      if (point.time < stageSeparationTime || point.time > estimatedSecoTime) {
+        continue;
+      }
       
       // 2nd stage is visible if above horizon
       if (point.aboveHorizon && point.distance < 1500) { // 1500km visibility limit
         if (visibilityStart === null) {
-          visibilityStart = t;
+          visibilityStart = point.time;
         }
-        visibilityEnd = t;
+        visibilityEnd = point.time;
       }
     }
     
@@ -294,175 +282,15 @@ export class GeometricVisibilityService {
     };
   }
   
-  /**
-   * Calculate a single trajectory point using realistic orbital mechanics
-   */
-  private static calculateTrajectoryPoint(timeSeconds: number, trajectoryInfo: any, launchSite: { lat: number; lng: number }): TrajectoryPoint {
-    const azimuthRad = (trajectoryInfo.azimuth * Math.PI) / 180;
-    const altitude = this.calculateAltitude(timeSeconds);
-    
-    // Realistic ground track velocity calculation
-    // Rocket ground speed varies with altitude and trajectory phase
-    let groundSpeed; // km/s
-    
-    if (timeSeconds < 60) {
-      // First stage: Low speed, mostly vertical
-      groundSpeed = timeSeconds * 0.05; // 0 to 3 km/s over 60s
-    } else if (timeSeconds < 180) {
-      // Second stage acceleration phase
-      const phaseProgress = (timeSeconds - 60) / 120; // 0 to 1 over 2 minutes
-      groundSpeed = 3 + phaseProgress * 4; // 3 to 7 km/s
-    } else {
-      // Orbital velocity phase - account for Earth's rotation
-      groundSpeed = 7.5; // ~7.5 km/s ground track speed
-    }
-    
-    // Calculate ground distance traveled
-    const groundDistance = this.calculateGroundDistance(timeSeconds, groundSpeed);
-    
-    // Account for Earth's curvature in trajectory calculation
-    const earthRotation = timeSeconds * 0.004167; // Earth rotates 0.25°/min = 0.004167°/s
-    const effectiveAzimuth = azimuthRad - (earthRotation * Math.PI / 180);
-    
-    // Calculate position relative to launch site using spherical geometry
-    const angularDistance = groundDistance / EARTH_RADIUS_KM; // radians
-    
-    const lat1Rad = launchSite.lat * Math.PI / 180;
-    const lng1Rad = launchSite.lng * Math.PI / 180;
-    
-    // Great circle navigation formulas
-    const lat2Rad = Math.asin(
-      Math.sin(lat1Rad) * Math.cos(angularDistance) +
-      Math.cos(lat1Rad) * Math.sin(angularDistance) * Math.cos(effectiveAzimuth)
-    );
-    
-    const lng2Rad = lng1Rad + Math.atan2(
-      Math.sin(effectiveAzimuth) * Math.sin(angularDistance) * Math.cos(lat1Rad),
-      Math.cos(angularDistance) - Math.sin(lat1Rad) * Math.sin(lat2Rad)
-    );
-    
-    const latitude = lat2Rad * 180 / Math.PI;
-    const longitude = lng2Rad * 180 / Math.PI;
-    
-    // Calculate distance and bearing from Bermuda
-    const distance = this.calculateDistance(BERMUDA_LAT, BERMUDA_LNG, latitude, longitude);
-    const bearing = this.calculateBearing(BERMUDA_LAT, BERMUDA_LNG, latitude, longitude);
-    
-    // Calculate if above horizon from Bermuda
-    const { aboveHorizon, elevationAngle } = this.calculateHorizonVisibility(distance, altitude);
-    
-    // Determine stage and engine status based on time
-    const stageInfo = this.determineStageInfo(timeSeconds);
-    
-    return {
-      time: timeSeconds,
-      latitude,
-      longitude,
-      altitude,
-      distance,
-      bearing,
-      aboveHorizon,
-      elevationAngle,
-      visible: aboveHorizon, // alias for aboveHorizon
-      stage: stageInfo.stage,
-      engineStatus: stageInfo.engineStatus
-    };
-  }
-  
-  /**
-   * Determine rocket stage and engine status from time
-   */
-  private static determineStageInfo(timeSeconds: number): { stage: TrajectoryPoint['stage'], engineStatus: TrajectoryPoint['engineStatus'] } {
-    // Fallback to typical Falcon 9 flight profile timings
-    const FIRST_STAGE_BURN_END = 162; // ~2:42 - First stage MECO
-    const STAGE_SEPARATION = 165; // ~2:45 - Stage separation
-    const SECOND_STAGE_IGNITION = 168; // ~2:48 - Second stage MVac ignition  
-    const SECOND_STAGE_BURN_END = 540; // ~9:00 - Second stage SECO-1
-    
-    if (timeSeconds <= FIRST_STAGE_BURN_END) {
-      return { stage: 'first', engineStatus: 'burning' };
-    } else if (timeSeconds <= STAGE_SEPARATION) {
-      return { stage: 'first', engineStatus: 'shutdown' };
-    } else if (timeSeconds <= SECOND_STAGE_IGNITION) {
-      return { stage: 'separation', engineStatus: 'separation' };
-    } else if (timeSeconds <= SECOND_STAGE_BURN_END) {
-      return { stage: 'second-burn', engineStatus: 'burning' };
-    } else {
-      return { stage: 'second-coast', engineStatus: 'shutdown' };
-    }
-  }
-
-  /**
-   * Calculate cumulative ground distance with realistic acceleration
-   */
-  private static calculateGroundDistance(timeSeconds: number, currentSpeed: number): number {
-    // Integration of speed over time for more accurate distance
-    let totalDistance = 0;
-    
-    // Calculate distance in 10-second intervals for better accuracy
-    for (let t = 0; t < timeSeconds; t += 10) {
-      let speed;
-      if (t < 60) {
-        speed = t * 0.05;
-      } else if (t < 180) {
-        const phaseProgress = (t - 60) / 120;
-        speed = 3 + phaseProgress * 4;
-      } else {
-        speed = 7.5;
-      }
-      totalDistance += speed * 10; // speed * time_interval
-    }
-    
-    // Handle remainder
-    const remainder = timeSeconds % 10;
-    if (remainder > 0) {
-      totalDistance += currentSpeed * remainder;
-    }
-    
-    return Math.min(totalDistance, 3000); // Cap at 3000km for safety
-  }
-  
-  /**
-   * Calculate realistic altitude profile
-   */
-  private static calculateAltitude(timeSeconds: number): number {
-    if (timeSeconds < 60) {
-      // First stage: 0-60s, 0-100km
-      return (timeSeconds / 60) * 100;
-    } else if (timeSeconds < 300) {
-      // Second stage: 60-300s, 100-400km
-      return 100 + ((timeSeconds - 60) / 240) * 300;
-    } else {
-      // Coasting/deployment: 300+s, maintain ~400km
-      return 400;
-    }
-  }
-  
-  /**
-   * Calculate if rocket is visible above horizon from Bermuda
-   */
-  private static calculateHorizonVisibility(distanceKm: number, altitudeKm: number) {
-    // Calculate theoretical horizon distance for given altitude
-    const horizonDistance = Math.sqrt(2 * EARTH_RADIUS_KM * altitudeKm + altitudeKm * altitudeKm);
-    
-    const aboveHorizon = distanceKm <= horizonDistance;
-    
-    // Calculate elevation angle
-    let elevationAngle = 0;
-    if (aboveHorizon && distanceKm > 0) {
-      // Use spherical geometry to calculate elevation angle
-      const earthCenterAngle = Math.acos(EARTH_RADIUS_KM / (EARTH_RADIUS_KM + altitudeKm));
-      const observerAngle = Math.asin(distanceKm / (EARTH_RADIUS_KM + altitudeKm));
-      elevationAngle = Math.max(0, (earthCenterAngle - observerAngle) * (180 / Math.PI));
-    }
-    
-    return { aboveHorizon, elevationAngle };
-  }
-  
   /**
    * Analyze all visibility factors
    */
-  private static analyzeVisibilityFactors(trajectoryPoints: TrajectoryPoint[], launch: Launch, secondStageWindow?: any): VisibilityFactors {
+  private static analyzeVisibilityFactors(
+    trajectoryPoints: TrajectoryPoint[],
+    launch: Launch,
+    observer: ObserverLocation,
+    secondStageWindow?: any
+  ): VisibilityFactors {
     const visiblePoints = trajectoryPoints.filter(p => p.aboveHorizon);
     const hasVisibility = visiblePoints.length > 0;
     
@@ -493,6 +321,10 @@ export class GeometricVisibilityService {
       visibilityReason = secondStageWindow?.reason || 'Not visible from Bermuda';
     }
     
+    // Summarize what the horizon mask hides
+    const obstructedPoints = trajectoryPoints.filter(p => p.obstructed);
+    const obstructedDirections = Array.from(new Set(obstructedPoints.map(p => this.getDirectionFromBearing(p.bearing))));
+    
     // Determine time of day
     const launchTime = new Date(launch.net);
     const timeOfDay = this.determineTimeOfDay(launchTime);
@@ -519,7 +351,12 @@ export class GeometricVisibilityService {
       initialViewingDirection: viewingInstructions.initialDirection,
       trackingPath: viewingInstructions.trackingPath,
       maxViewingAngle,
-      visibilityReason
+      visibilityReason,
+      horizonObstruction: {
+        maskApplied: !!observer.horizonMask?.length,
+        obstructedPoints: obstructedPoints.length,
+        obstructedDirections
+      }
     };
   }
   
@@ -679,27 +516,6 @@ export class GeometricVisibilityService {
   /**
    * Utility functions
    */
-  private static calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-    const R = EARTH_RADIUS_KM;
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLng = (lng2 - lng1) * Math.PI / 180;
-    const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-              Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-              Math.sin(dLng/2) * Math.sin(dLng/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
-  }
-  
-  private static calculateBearing(lat1: number, lng1: number, lat2: number, lng2: number): number {
-    const dLng = (lng2 - lng1) * Math.PI / 180;
-    const lat1Rad = lat1 * Math.PI / 180;
-    const lat2Rad = lat2 * Math.PI / 180;
-    const y = Math.sin(dLng) * Math.cos(lat2Rad);
-    const x = Math.cos(lat1Rad) * Math.sin(lat2Rad) - Math.sin(lat1Rad) * Math.cos(lat2Rad) * Math.cos(dLng);
-    const bearing = Math.atan2(y, x) * 180 / Math.PI;
-    return (bearing + 360) % 360;
-  }
-  
   private static determineTimeOfDay(launchTime: Date): 'day' | 'twilight' | 'night' {
     const hour = launchTime.getUTCHours();
     if (hour >= 6 && hour < 18) return 'day';
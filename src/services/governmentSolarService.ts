@@ -11,6 +11,7 @@
  */
 
 import { USNOSolarData, SunriseSunsetApiData } from '../types';
+import { getObserverCacheKey, getObserverLocation } from './observerLocationService';
 
 // USNO API response types
 interface USNOSunDataItem {
@@ -18,11 +19,6 @@ interface USNOSunDataItem {
   time: string; // Time in HH:MM format
 }
 
-// Bermuda coordinates
-const BERMUDA_LAT = 32.3078;
-const BERMUDA_LNG = -64.7505;
-const BERMUDA_TIMEZONE_OFFSET = -4; // AST (UTC-4), or -3 during ADT (UTC-3)
-
 // API Configuration
 const USNO_BASE_URL = 'https://aa.usno.navy.mil/api/rstt/oneday';
 const SUNRISE_SUNSET_BASE_URL = 'https://api.sunrise-sunset.org/json';
@@ -38,7 +34,7 @@ export class GovernmentSolarService {
    * Tries government sources first, falls back to calculations
    */
   static async getSolarDataForDate(date: Date): Promise<USNOSolarData> {
-    const dateKey = this.formatDateKey(date);
+    const dateKey = `${getObserverCacheKey()}:${this.formatDateKey(date)}`;
     
     // Check cache first
     const cached = solarDataCache.get(dateKey);
@@ -84,8 +80,9 @@ export class GovernmentSolarService {
    */
   private static async fetchUSNOData(date: Date): Promise<USNOSolarData | null> {
     const dateStr = this.formatDateForAPI(date);
-    const coords = `${BERMUDA_LAT},${BERMUDA_LNG}`;
-    const tz = this.getBermudaTimezoneOffset(date);
+    const observer = getObserverLocation();
+    const coords = `${observer.latitude},${observer.longitude}`;
+    const tz = this.getObserverTimezoneOffset(date);
     
     const url = `${USNO_BASE_URL}?date=${dateStr}&coords=${coords}&tz=${tz}`;
     
@@ -136,7 +133,8 @@ export class GovernmentSolarService {
    */
   private static async fetchSunriseSunsetOrgData(date: Date): Promise<USNOSolarData | null> {
     const dateStr = this.formatDateForAPI(date);
-    const url = `${SUNRISE_SUNSET_BASE_URL}?lat=${BERMUDA_LAT}&lng=${BERMUDA_LNG}&date=${dateStr}&formatted=0`;
+    const observer = getObserverLocation();
+    const url = `${SUNRISE_SUNSET_BASE_URL}?lat=${observer.latitude}&lng=${observer.longitude}&date=${dateStr}&formatted=0`;
     
     
     const response = await fetch(url, {
@@ -156,10 +154,10 @@ export class GovernmentSolarService {
     if (data.status === 'OK' && data.results) {
       const results = data.results;
       
-      // Convert UTC times to Bermuda local time
+      // Convert UTC times to observer local time
       const convertUTCToLocal = (utcTimeStr: string): string => {
         const utcDate = new Date(utcTimeStr);
-        const localDate = new Date(utcDate.getTime() + (this.getBermudaTimezoneOffset(date) * 60 * 60 * 1000));
+        const localDate = new Date(utcDate.getTime() + (this.getObserverTimezoneOffset(date) * 60 * 60 * 1000));
         return localDate.toTimeString().substring(0, 5); // HH:MM format
       };
 
@@ -223,6 +221,29 @@ export class GovernmentSolarService {
     };
   }
 
+  /**
+   * UTC offset in hours for the observer timezone on a given date
+   */
+  private static getObserverTimezoneOffset(date: Date): number {
+    const { timezone } = getObserverLocation();
+    if (timezone === 'Atlantic/Bermuda') {
+      return this.getBermudaTimezoneOffset(date);
+    }
+
+    const formatted = new Intl.DateTimeFormat('en', {
+      timeZone: timezone,
+      timeZoneName: 'longOffset'
+    }).format(date);
+    const offset = formatted.split('GMT')[1];
+    if (!offset) {
+      return 0; // "GMT" with no offset
+    }
+
+    const sign = offset.startsWith('-') ? -1 : 1;
+    const [hours, minutes = '0'] = offset.substring(1).split(':');
+    return sign * (parseInt(hours, 10) + parseInt(minutes, 10) / 60);
+  }
+
   /**
    * Determine if we should use DST offset for Bermuda
    * Bermuda observes Atlantic Daylight Time from second Sunday in March to first Sunday in November
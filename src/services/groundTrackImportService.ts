@@ -0,0 +1,133 @@
+/**
+ * Ground Track Import Service
+ * Turns an imported ground track (GPX, KML or CSV) into a trajectory override.
+ * Hazard-area maps and GPX paths usually carry positions only, so missing times
+ * and altitudes are estimated from the vehicle's simulated ascent: a position's
+ * distance along the track gives its T+ time, and the time gives its altitude.
+ */
+
+import { GroundTrackPoint, Launch, TrajectoryOverride } from '../types';
+import { GroundTrackSample, parseGroundTrackFile } from '../utils/groundTrack';
+import { calculateBearing, calculateDistance, GeoPoint } from '../utils/coordinateUtils';
+import { extractLaunchCoordinates } from '../utils/launchCoordinates';
+import { AscentSimulator } from './ascentSimulator';
+import { trajectoryOverrideService, validateTrajectoryOverride } from './trajectoryOverrideService';
+
+export interface GroundTrackImportResult {
+  override?: TrajectoryOverride; // saved override, absent when the file was rejected
+  errors: string[];
+  estimatedTimes: number;     // points whose T+ time was estimated
+  estimatedAltitudes: number; // points whose altitude was estimated
+}
+
+// The simulated ascent heads for the first position at least this far from the pad
+const MIN_HEADING_DISTANCE_KM = 20;
+
+/**
+ * Linear interpolation in a table sorted by x, holding the end values outside it
+ */
+function interpolate(xs: number[], ys: number[], x: number): number {
+  if (x <= xs[0]) {
+    return ys[0];
+  }
+  for (let i = 1; i < xs.length; i++) {
+    if (x <= xs[i]) {
+      const span = xs[i] - xs[i - 1];
+      return span > 0 ? ys[i - 1] + (ys[i] - ys[i - 1]) * (x - xs[i - 1]) / span : ys[i];
+    }
+  }
+  return ys[ys.length - 1];
+}
+
+export class GroundTrackImportService {
+  /**
+   * Fill in missing times and altitudes from a simulated ascent along the track
+   */
+  static completeGroundTrack(track: GroundTrackSample[], launch: Launch): GroundTrackPoint[] {
+    if (track.length === 0 || track.every(sample => sample.time !== undefined && sample.altitude !== undefined)) {
+      return track as GroundTrackPoint[];
+    }
+
+    const positions: GeoPoint[] = track.map(sample => ({ lat: sample.latitude, lng: sample.longitude }));
+    const pad = launch.pad?.location ? extractLaunchCoordinates(launch) : undefined;
+    const launchSite: GeoPoint = pad?.available ? { lat: pad.latitude, lng: pad.longitude } : positions[0];
+
+    // Hazard areas can start well downrange of the pad, so measure from the pad
+    const downrange: number[] = [];
+    positions.forEach((position, index) => {
+      downrange.push(index === 0
+        ? calculateDistance(launchSite, position)
+        : downrange[index - 1] + calculateDistance(positions[index - 1], position));
+    });
+
+    const headingTarget = positions.find(position => calculateDistance(launchSite, position) >= MIN_HEADING_DISTANCE_KM)
+      ?? positions[positions.length - 1];
+    const ascent = AscentSimulator.simulate({
+      azimuth: calculateBearing(launchSite, headingTarget),
+      launchSite: { latitude: launchSite.lat, longitude: launchSite.lng },
+      vehicle: AscentSimulator.getPreset(launch),
+      sampleSeconds: 10
+    });
+
+    const simTimes = ascent.points.map(point => point.time);
+    const simAltitudes = ascent.points.map(point => point.altitude);
+    const simDownrange = ascent.points.map(point => calculateDistance(launchSite, { lat: point.latitude, lng: point.longitude }));
+    // The downrange distance stays flat during the vertical rise; keep it increasing for lookups
+    for (let i = 1; i < simDownrange.length; i++) {
+      simDownrange[i] = Math.max(simDownrange[i], simDownrange[i - 1]);
+    }
+
+    const last = ascent.points.length - 1;
+    const finalGroundSpeed = (simDownrange[last] - simDownrange[last - 1]) / (simTimes[last] - simTimes[last - 1]); // km/s
+
+    const estimateTime = (distance: number): number => distance <= simDownrange[last]
+      ? interpolate(simDownrange, simTimes, distance)
+      : simTimes[last] + (distance - simDownrange[last]) / finalGroundSpeed;
+
+    const completed: GroundTrackPoint[] = [];
+    track.forEach((sample, index) => {
+      let time = sample.time ?? Math.round(estimateTime(downrange[index]) * 10) / 10;
+      // Positions close together in the vertical rise share a downrange distance
+      if (sample.time === undefined && index > 0 && time <= completed[index - 1].time) {
+        time = completed[index - 1].time + 1;
+      }
+      completed.push({
+        time,
+        latitude: sample.latitude,
+        longitude: sample.longitude,
+        altitude: sample.altitude ?? Math.round(interpolate(simTimes, simAltitudes, time) * 10) / 10
+      });
+    });
+    return completed;
+  }
+
+  /**
+   * Parse a ground track file and save it as the launch's trajectory override.
+   * The track replaces any azimuth or direction override; a note is kept.
+   */
+  static async importGroundTrack(launch: Launch, fileName: string, text: string): Promise<GroundTrackImportResult> {
+    const { format, track, errors } = parseGroundTrackFile(fileName, text);
+    const result: GroundTrackImportResult = {
+      errors,
+      estimatedTimes: track.filter(sample => sample.time === undefined).length,
+      estimatedAltitudes: track.filter(sample => sample.altitude === undefined).length
+    };
+    if (errors.length > 0) {
+      return result;
+    }
+
+    const override = {
+      launchId: launch.id,
+      missionName: launch.mission.name,
+      note: trajectoryOverrideService.getOverride(launch.id)?.note,
+      groundTrack: this.completeGroundTrack(track, launch),
+      groundTrackFile: { name: fileName, format }
+    };
+
+    result.errors = validateTrajectoryOverride(override);
+    if (result.errors.length === 0) {
+      result.override = await trajectoryOverrideService.saveOverride(override);
+    }
+    return result;
+  }
+}
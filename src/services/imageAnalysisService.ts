@@ -7,6 +7,7 @@
 import { isBrowser, hasCanvasSupport, createEnvironmentError } from '../utils/environmentUtils';
 import { getTrajectoryMapping } from './trajectoryMappingService';
 import { Launch } from '../types';
+import { getObserverLocation } from './observerLocationService';
 
 export interface GeoPoint {
   lat: number;
@@ -166,7 +167,8 @@ async function analyzeTrajectoryFromFilename(imageUrl: string, launch?: Launch):
   
   // Generate realistic trajectory points based on direction
   const trajectoryPoints = generateTrajectoryPoints(trajectoryDirection);
-  const bermuda: GeoPoint = { lat: 32.3078, lng: -64.7505 };
+  const observer = getObserverLocation();
+  const bermuda: GeoPoint = { lat: observer.latitude, lng: observer.longitude };
   const closestApproach = findClosestApproach(trajectoryPoints);
   const bearing = calculateBearing(bermuda, closestApproach.point);
   
@@ -223,7 +225,8 @@ async function analyzeBrowserImage(imageUrl: string): Promise<TrajectoryImageAna
   }
   
   // Calculate closest approach to Bermuda
-  const bermuda: GeoPoint = { lat: 32.3078, lng: -64.7505 };
+  const observer = getObserverLocation();
+  const bermuda: GeoPoint = { lat: observer.latitude, lng: observer.longitude };
   const closestApproach = findClosestApproach(trajectoryPoints);
   
   // Calculate bearing from Bermuda to closest point
@@ -426,7 +429,8 @@ function generateTrajectoryPoints(direction: TrajectoryImageAnalysis['trajectory
  * Find closest approach to Bermuda from trajectory points
  */
 function findClosestApproach(trajectoryPoints: GeoPoint[]): { point: GeoPoint; distance: number } {
-  const bermuda: GeoPoint = { lat: 32.3078, lng: -64.7505 };
+  const observer = getObserverLocation();
+  const bermuda: GeoPoint = { lat: observer.latitude, lng: observer.longitude };
   
   let closestPoint = trajectoryPoints[0];
   let minDistance = calculateDistance(bermuda, closestPoint);
@@ -465,7 +469,8 @@ function createFallbackAnalysis(imageUrl: string): TrajectoryImageAnalysis {
   
   const trajectoryPoints = generateTrajectoryPoints('Northeast');
   const closestApproach = findClosestApproach(trajectoryPoints);
-  const bermuda: GeoPoint = { lat: 32.3078, lng: -64.7505 };
+  const observer = getObserverLocation();
+  const bermuda: GeoPoint = { lat: observer.latitude, lng: observer.longitude };
   const bearing = calculateBearing(bermuda, closestApproach.point);
   
   return {
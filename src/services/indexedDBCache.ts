@@ -5,6 +5,7 @@
  */
 
 import { Launch, LaunchWithFlightClub, VisibilityData, LaunchMatch } from '../types';
+import type { OfflineLaunchBundle } from './offlineBundleService';
 
 const INDEXED_DB_SUPPORTED = typeof indexedDB !== 'undefined';
 
@@ -21,12 +22,13 @@ const warnIndexedDBUnavailable = (() => {
 
 // Cache configuration
 const DB_NAME = 'BermudaRocketTrackerCache';
-const DB_VERSION = 2;
+const DB_VERSION = 3;
 const STORES = {
   FLIGHT_CLUB_DATA: 'flightClubData',
   VISIBILITY_CACHE: 'visibilityCache', 
   LAUNCH_MATCHES: 'launchMatches',
   TELEMETRY_DATA: 'telemetryData',
+  OFFLINE_BUNDLES: 'offlineBundles',
   CACHE_METADATA: 'cacheMetadata'
 } as const;
 
@@ -36,6 +38,7 @@ const CACHE_DURATIONS = {
   TELEMETRY_DATA: 7 * 24 * 60 * 60 * 1000,     // 7 days - telemetry rarely changes
   VISIBILITY_CALCULATION: 6 * 60 * 60 * 1000,   // 6 hours - recalculate for accuracy
   LAUNCH_DATA: 2 * 60 * 60 * 1000,              // 2 hours - launch data can change
+  OFFLINE_BUNDLE_GRACE: 24 * 60 * 60 * 1000,    // 24 hours after launch - covers scrubs and late viewing
   METADATA: 30 * 24 * 60 * 60 * 1000            // 30 days - metadata cleanup
 } as const;
 
@@ -57,7 +60,7 @@ interface CachedVisibilityData {
   inputHash: string; // Hash of launch data to detect changes
   cached: number;
   expires: number;
-  dataSource: 'flightclub' | 'calculated' | 'estimated';
+  dataSource: NonNullable<VisibilityData['dataSource']>;
 }
 
 interface CachedLaunchMatch {
@@ -69,6 +72,15 @@ interface CachedLaunchMatch {
   confidence: string;
 }
 
+interface CachedOfflineBundle {
+  key?: string;
+  launchId: string;
+  bundle: OfflineLaunchBundle;
+  launchTime: number;
+  cached: number;
+  expires: number;
+}
+
 interface CacheMetadata {
   key: string;
   store: string;
@@ -151,6 +163,9 @@ class IndexedDBCacheService {
             } else if (storeName === STORES.LAUNCH_MATCHES) {
               store.createIndex('launchId', 'launchId', { unique: true });
               store.createIndex('confidence', 'confidence', { unique: false });
+            } else if (storeName === STORES.OFFLINE_BUNDLES) {
+              store.createIndex('launchId', 'launchId', { unique: true });
+              store.createIndex('expires', 'expires', { unique: false });
             } else if (storeName === STORES.CACHE_METADATA) {
               store.createIndex('store', 'store', { unique: false });
               store.createIndex('created', 'created', { unique: false });
@@ -439,6 +454,79 @@ class IndexedDBCacheService {
     return null;
   }
 
+  /**
+   * Cache a pre-launch offline bundle; kept until a day after launch time
+   */
+  async cacheOfflineBundle(launchId: string, launchTime: string, bundle: OfflineLaunchBundle): Promise<void> {
+    if (!INDEXED_DB_SUPPORTED) {
+      warnIndexedDBUnavailable();
+      return;
+    }
+
+    const launchTimestamp = new Date(launchTime).getTime();
+    const ttl = Math.max(launchTimestamp + CACHE_DURATIONS.OFFLINE_BUNDLE_GRACE - Date.now(), CACHE_DURATIONS.LAUNCH_DATA);
+    const cachedData: CachedOfflineBundle = {
+      launchId,
+      bundle,
+      launchTime: launchTimestamp,
+      cached: Date.now(),
+      expires: Date.now() + ttl
+    };
+
+    await this.put(STORES.OFFLINE_BUNDLES, `bundle-${launchId}`, cachedData, ttl);
+  }
+
+  /**
+   * Get the offline bundle for a launch
+   */
+  async getOfflineBundle(launchId: string): Promise<OfflineLaunchBundle | null> {
+    if (!INDEXED_DB_SUPPORTED) {
+      warnIndexedDBUnavailable();
+      return null;
+    }
+
+    const key = `bundle-${launchId}`;
+    const cached = await this.get<CachedOfflineBundle>(STORES.OFFLINE_BUNDLES, key);
+
+    if (cached && Date.now() < cached.expires) {
+      return cached.bundle;
+    } else if (cached) {
+      console.log(`[IndexedDBCache] Offline bundle expired for ${launchId}`);
+      await this.delete(STORES.OFFLINE_BUNDLES, key);
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the unexpired offline bundle with the earliest launch time
+   */
+  async getNextOfflineBundle(): Promise<OfflineLaunchBundle | null> {
+    if (!INDEXED_DB_SUPPORTED) {
+      warnIndexedDBUnavailable();
+      return null;
+    }
+
+    try {
+      const db = await this.initDB();
+      const transaction = db.transaction([STORES.OFFLINE_BUNDLES], 'readonly');
+      const request = transaction.objectStore(STORES.OFFLINE_BUNDLES).getAll();
+      const entries = await new Promise<CachedOfflineBundle[]>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result || []);
+        request.onerror = () => reject(request.error);
+      });
+
+      const now = Date.now();
+      const next = entries
+        .filter(entry => entry.expires > now)
+        .sort((a, b) => a.launchTime - b.launchTime)[0];
+      return next ? next.bundle : null;
+    } catch (error) {
+      console.error('[IndexedDBCache] Error reading offline bundles:', error);
+      return null;
+    }
+  }
+
   /**
    * Delete an item from cache
    */
@@ -617,4 +705,4 @@ class IndexedDBCacheService {
 export const indexedDBCache = new IndexedDBCacheService();
 
 // Export types for use in other services
-export type { CacheStats, CachedFlightClubData, CachedVisibilityData, CachedLaunchMatch };
+export type { CacheStats, CachedFlightClubData, CachedVisibilityData, CachedLaunchMatch, CachedOfflineBundle };
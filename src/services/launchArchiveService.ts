@@ -0,0 +1,183 @@
+/**
+ * Launch Archive Service
+ * Captures the visibility prediction for each launch up to T-0 and collects
+ * sighting reports afterwards, so predictions can be checked against reality.
+ */
+
+import {
+  ArchivedLaunch,
+  ArchivedPrediction,
+  EnhancedVisibilityData,
+  LaunchWithVisibility,
+  ObserverLocation,
+  SightingReport,
+  VisibilityData
+} from '../types';
+import { BermudaTimeService } from './bermudaTimeService';
+import { DEFAULT_OBSERVER_LOCATION } from './observerLocationService';
+import { getTrajectoryMapping } from './trajectoryMappingService';
+
+export interface SightingReportInput {
+  launchId: string;
+  seen: boolean;
+  firstSeenAt?: string;
+  direction?: string;
+  photoUrl?: string;
+}
+
+const ARCHIVE_ENDPOINT = '/api/archive';
+const PREDICTIONS_ENDPOINT = '/api/archive/predictions';
+const REPORTS_ENDPOINT = '/api/archive/reports';
+const REPORTER_ID_KEY = 'bermuda-rocket-reporter-id';
+
+// Start archiving once the launch is close enough that the prediction is final-ish
+const CAPTURE_LEAD_MS = 6 * 60 * 60 * 1000;
+// Re-send an unchanged prediction this often so the archive holds the T-0 state
+const RECAPTURE_INTERVAL_MS = 10 * 60 * 1000;
+
+export class LaunchArchiveService {
+  private static lastCaptures = new Map<string, { signature: string; at: number }>();
+
+  /**
+   * Predicted T+ seconds of the first sighting, from the visibility window or
+   * the "T+3 to T+8 minutes" estimate
+   */
+  static predictedFirstVisibleSeconds(visibility: VisibilityData | EnhancedVisibilityData): number | null {
+    if ('visibilityWindow' in visibility && visibility.visibilityWindow) {
+      return visibility.visibilityWindow.startTime;
+    }
+    const match = /T\+\s*(\d+)/i.exec(visibility.estimatedTimeVisible ?? '');
+    return match ? Math.round(Number(match[1]) * 60) : null;
+  }
+
+  /**
+   * Turn a Bermuda wall-clock time ("20:07" or "20:07:30") noted on launch
+   * night into an ISO timestamp, rolling past midnight when needed
+   */
+  static bermudaClockToIso(net: string, clock: string): string | null {
+    const parts = clock.trim().split(':');
+    const launchTime = new Date(net);
+    const valid = (parts.length === 2 || parts.length === 3) && parts.every(part => /^\d{1,2}$/.test(part));
+    if (!valid || isNaN(launchTime.getTime())) {
+      return null;
+    }
+
+    // Archived sightings are from Bermuda whichever location the app is set to
+    const local = BermudaTimeService.toBermudaTime(launchTime, DEFAULT_OBSERVER_LOCATION.timezone).bermudaTime;
+    const offsetHours = BermudaTimeService.getUTCOffset(launchTime, DEFAULT_OBSERVER_LOCATION.timezone);
+    let utc = Date.UTC(
+      local.getFullYear(),
+      local.getMonth(),
+      local.getDate(),
+      Number(parts[0]),
+      Number(parts[1]),
+      Number(parts[2] ?? 0)
+    ) - offsetHours * 60 * 60 * 1000;
+
+    if (utc < launchTime.getTime() - 60 * 60 * 1000) {
+      utc += 24 * 60 * 60 * 1000;
+    }
+    return new Date(utc).toISOString();
+  }
+
+  static buildPrediction(launch: LaunchWithVisibility, now: number = Date.now()): ArchivedPrediction {
+    return {
+      capturedAt: now,
+      likelihood: launch.visibility.likelihood,
+      dataSource: launch.visibility.dataSource,
+      trajectorySource: getTrajectoryMapping(launch).source,
+      bearing: launch.visibility.bearing,
+      firstVisibleSeconds: this.predictedFirstVisibleSeconds(launch.visibility),
+      visibility: launch.visibility as EnhancedVisibilityData,
+      flightClubMatch: launch.flightClubMatch ?? null
+    };
+  }
+
+  /**
+   * Send predictions for launches inside the capture window. Only the default
+   * Bermuda location is archived so every prediction is scored for the same spot.
+   */
+  static async capturePredictions(
+    launches: LaunchWithVisibility[],
+    observer: ObserverLocation,
+    now: number = Date.now()
+  ): Promise<number> {
+    if (observer.id !== DEFAULT_OBSERVER_LOCATION.id) {
+      return 0;
+    }
+
+    let captured = 0;
+    for (const launch of launches) {
+      const untilLaunch = new Date(launch.net).getTime() - now;
+      if (untilLaunch <= 0 || untilLaunch > CAPTURE_LEAD_MS) {
+        continue;
+      }
+
+      const prediction = this.buildPrediction(launch, now);
+      const signature = JSON.stringify([
+        launch.net,
+        prediction.likelihood,
+        prediction.dataSource,
+        prediction.bearing,
+        prediction.firstVisibleSeconds,
+        launch.visibility.score
+      ]);
+      const last = this.lastCaptures.get(launch.id);
+      if (last && last.signature === signature && now - last.at < RECAPTURE_INTERVAL_MS) {
+        continue;
+      }
+
+      const response = await fetch(PREDICTIONS_ENDPOINT, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ launchId: launch.id, prediction })
+      });
+      if (response.ok) {
+        this.lastCaptures.set(launch.id, { signature, at: now });
+        captured++;
+      } else {
+        console.warn(`[LaunchArchive] Prediction for ${launch.name} not archived (${response.status})`);
+      }
+    }
+    return captured;
+  }
+
+  /**
+   * Past launches with their frozen predictions and sighting reports, newest first
+   */
+  static async getArchive(limit: number = 50): Promise<ArchivedLaunch[]> {
+    const response = await fetch(`${ARCHIVE_ENDPOINT}?limit=${limit}`);
+    if (!response.ok) {
+      throw new Error(`Archive unavailable (${response.status})`);
+    }
+    const { launches } = await response.json();
+    return launches as ArchivedLaunch[];
+  }
+
+  static async submitReport(input: SightingReportInput): Promise<SightingReport> {
+    const response = await fetch(REPORTS_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...input, reporterId: this.getReporterId() })
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(body.error || `Report not accepted (${response.status})`);
+    }
+    return body.report as SightingReport;
+  }
+
+  /**
+   * Random per-device id so a corrected report replaces the earlier one
+   */
+  private static getReporterId(): string {
+    let id = localStorage.getItem(REPORTER_ID_KEY);
+    if (!id) {
+      const bytes = new Uint8Array(16);
+      crypto.getRandomValues(bytes);
+      id = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+      localStorage.setItem(REPORTER_ID_KEY, id);
+    }
+    return id;
+  }
+}
@@ -3,12 +3,13 @@
  * Handles fetching and caching launch data with automatic refresh scheduling
  */
 
-import { Launch } from '../types';
+import { Launch, LaunchMatch, LaunchWithFlightClub } from '../types';
 import { LaunchUpdateManager, getRefreshInterval, getUrgencyLevel } from './launchUpdateScheduler';
 import { launchDatabase } from './launchDatabase';
 import { fetchAllFloridaLaunches, clearLaunchCache } from './launchService';
 import { launchMatchingService } from './launchMatchingService';
 import { launchDelayDetectionService } from './launchDelayDetectionService';
+import { LaunchFeedService } from './launchFeedService';
 
 interface LaunchCache {
   data: Launch[];
@@ -42,6 +43,7 @@ export class LaunchDataService {
     this.updateManager = new LaunchUpdateManager(this.updateLaunchData.bind(this));
     this.clearStaleDataOnStartup();
     this.startPeriodicUpdates();
+    launchMatchingService.subscribe(this.applyMatchChange.bind(this));
   }
   
   /**
@@ -83,6 +85,25 @@ export class LaunchDataService {
     this.subscribers.forEach(callback => callback(this.cache.data));
   }
   
+  /**
+   * Show a match a user confirmed, rejected or pinned without refetching
+   */
+  private applyMatchChange(launchId: string, match: LaunchMatch | null): void {
+    const index = this.cache.data.findIndex(launch => launch.id === launchId);
+    if (index === -1) {
+      return;
+    }
+
+    const launch: LaunchWithFlightClub = {
+      ...this.cache.data[index],
+      flightClubMatch: match ?? undefined,
+      hasFlightClubData: match !== null
+    };
+    this.cache.data = [...this.cache.data.slice(0, index), launch, ...this.cache.data.slice(index + 1)];
+    launchDatabase.saveLaunch(launch, 'FlightClub Enhanced Service');
+    this.notifySubscribers();
+  }
+
   /**
    * Get current launch data - database first approach
    */
@@ -178,7 +199,7 @@ export class LaunchDataService {
   }
   
   /**
-   * Fetch launches from Launch Library API with fallback to SpaceLaunchSchedule.com
+   * Fetch launches from the server launch feed, falling back to Launch Library API
    */
   private async fetchLaunches(): Promise<void> {
     if (this.isUpdating) return;
@@ -186,11 +207,21 @@ export class LaunchDataService {
     this.isUpdating = true;
     
     try {
-      // Use our enhanced launch service that supports all Florida providers
-      const launches = await fetchAllFloridaLaunches(30);
-      
-      // Enrich launches with FlightClub matching data
-      const enrichedLaunches = await launchMatchingService.enrichLaunchesWithFlightClub(launches);
+      let enrichedLaunches: LaunchWithFlightClub[];
+      try {
+        // The server feed arrives already matched to FlightClub, with visibility precomputed
+        enrichedLaunches = await launchMatchingService.applyLocalPins(
+          LaunchFeedService.toLaunches(await LaunchFeedService.fetchFeed())
+        );
+      } catch (feedError) {
+        console.warn('[LaunchDataService] Launch feed unavailable, fetching from Launch Library:', feedError);
+
+        // Use our enhanced launch service that supports all Florida providers
+        const launches = await fetchAllFloridaLaunches(30);
+
+        // Enrich launches with FlightClub matching data
+        enrichedLaunches = await launchMatchingService.enrichLaunchesWithFlightClub(launches);
+      }
       
       const matchedCount = enrichedLaunches.filter(l => l.hasFlightClubData).length;
       
@@ -329,11 +360,13 @@ export class LaunchDataService {
             name: launchData.mission?.name || launchData.name,
             description: launchData.mission?.description || 'No description available',
             orbit: {
-              name: launchData.mission?.orbit?.name || 'Unknown'
+              name: launchData.mission?.orbit?.name || 'Unknown',
+              inclination: launchData.mission?.orbit?.inclination
             }
           },
           rocket: {
-            name: launchData.rocket?.configuration?.name || 'Unknown Rocket'
+            name: launchData.rocket?.configuration?.name || 'Unknown Rocket',
+            configuration: launchData.rocket?.configuration
           },
           pad: {
             name: launchData.pad?.name || 'Unknown Pad',
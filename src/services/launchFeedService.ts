@@ -0,0 +1,111 @@
+/**
+ * Launch Feed Service
+ * Loads upcoming launches from the server's /api/launches feed, where Flight
+ * Club matching and visibility from the default observer are already done, and
+ * hands the precomputed visibility to the app when it still applies.
+ */
+
+import {
+  EnhancedVisibilityData,
+  Launch,
+  LaunchFeed,
+  LaunchFeedEntry,
+  LaunchMatch,
+  LaunchWithFlightClub,
+  ObserverLocation
+} from '../types';
+import { trajectoryOverrideService } from './trajectoryOverrideService';
+
+const FEED_ENDPOINT = '/api/launches';
+const FEED_TIMEOUT_MS = 15000;
+
+// Precomputed visibility is trusted for this long after the server calculated it
+const MAX_VISIBILITY_AGE_MS = 60 * 60 * 1000;
+
+export class LaunchFeedService {
+  private static feed: LaunchFeed | null = null;
+
+  /**
+   * Fetch the feed, restoring the dates lost in JSON
+   */
+  static async fetchFeed(timeoutMs: number = FEED_TIMEOUT_MS): Promise<LaunchFeed> {
+    const response = await fetch(FEED_ENDPOINT, {
+      headers: { Accept: 'application/json' },
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+    if (!response.ok) {
+      throw new Error(`Launch feed unavailable (${response.status})`);
+    }
+
+    // The development server answers unknown paths with index.html
+    const contentType = response.headers.get('content-type') || '';
+    if (!contentType.includes('application/json')) {
+      throw new Error(`Launch feed returned ${contentType || 'no content type'}`);
+    }
+
+    const body = await response.json();
+    if (!Array.isArray(body?.launches)) {
+      throw new Error('Launch feed response has no launches');
+    }
+
+    const feed: LaunchFeed = {
+      ...body,
+      launches: (body.launches as LaunchFeedEntry[]).map(launch => ({
+        ...launch,
+        visibility: { ...launch.visibility, lastCalculated: new Date(launch.visibility.lastCalculated) }
+      }))
+    };
+    if (feed.warning) {
+      console.warn(`[LaunchFeed] ${feed.warning}`);
+    }
+
+    this.feed = feed;
+    return feed;
+  }
+
+  /**
+   * Feed launches as plain Flight Club-enriched launches for the launch database
+   */
+  static toLaunches(feed: LaunchFeed): LaunchWithFlightClub[] {
+    return feed.launches.map(({ visibility, bermudaTime, ...launch }) => ({
+      ...launch,
+      hasFlightClubData: launch.hasFlightClubData || false
+    }));
+  }
+
+  /**
+   * Visibility the server calculated for this launch, or null when it has to be
+   * calculated locally: another observer or a horizon mask, a trajectory
+   * override on this device, a changed launch time or FlightClub match, or an
+   * old feed
+   */
+  static getPrecomputedVisibility(
+    launch: Launch & { flightClubMatch?: LaunchMatch },
+    observer: ObserverLocation,
+    now: number = Date.now()
+  ): EnhancedVisibilityData | null {
+    const feed = this.feed;
+    if (!feed || observer.id !== feed.observerId || observer.horizonMask?.length) {
+      return null;
+    }
+    if (now - new Date(feed.generatedAt).getTime() > MAX_VISIBILITY_AGE_MS) {
+      return null;
+    }
+    if (trajectoryOverrideService.getOverride(launch.id)) {
+      return null;
+    }
+
+    const entry = feed.launches.find(feedLaunch => feedLaunch.id === launch.id);
+    if (!entry || entry.net !== launch.net || entry.visibility.dataSource === 'estimated') {
+      return null;
+    }
+    if (entry.flightClubMatch?.flightClubMission.id !== launch.flightClubMatch?.flightClubMission.id) {
+      return null;
+    }
+    return entry.visibility;
+  }
+
+  static clear(): void {
+    this.feed = null;
+  }
+}
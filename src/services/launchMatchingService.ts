@@ -1,11 +1,12 @@
 /**
  * Launch Matching Service
- * Matches FlightClub missions with Launch Library 2 data
- * Provides confidence scoring and validation safeguards
+ * Matches FlightClub missions with Launch Library 2 data using the shared
+ * matching engine (utils/launchMatching), and caches the results
  */
 
-import { Launch } from '../types';
+import { Launch, MatchPin } from '../types';
 import { FlightClubMission, FlightClubApiService } from './flightClubApiService';
+import { MissionMatch, rankMissionMatches, scoreMissionMatch } from '../utils/launchMatching';
 
 export type MatchConfidence = 'exact' | 'high' | 'medium' | 'low' | 'none';
 
@@ -15,6 +16,8 @@ export interface LaunchMatch {
   score: number; // 0-100 confidence score
   matchReasons: string[]; // Reasons for the match
   validationWarnings?: string[]; // Any concerns about the match
+  pin?: 'confirmed' | 'pinned' | 'rejected'; // Set when a user confirmed, chose or rejected the mission
+  pinStatus?: 'shared' | 'pending' | 'local'; // Where a user's pin applies, returned by the pin actions
 }
 
 export interface LaunchWithFlightClub extends Launch {
@@ -26,74 +29,61 @@ export interface LaunchWithFlightClub extends Launch {
 const matchCache = new Map<string, LaunchMatch>();
 const MATCH_CACHE_DURATION = 60 * 60 * 1000; // 1 hour
 
+// Pins shared by other users, refreshed from the server at most this often
+const PIN_CACHE_DURATION = 10 * 60 * 1000;
+let serverPins: { pins: Map<string, MatchPin>; fetchedAt: number } | null = null;
+
+function toLaunchMatch(result: MissionMatch<FlightClubMission>): LaunchMatch {
+  return {
+    flightClubMission: result.mission,
+    confidence: result.confidence,
+    score: result.score,
+    matchReasons: result.reasons,
+    validationWarnings: result.warnings.length > 0 ? result.warnings : undefined
+  };
+}
+
 class LaunchMatchingService {
+  private subscribers: Array<(launchId: string, match: LaunchMatch | null) => void> = [];
+
   /**
    * Find the best FlightClub match for a Launch Library 2 launch
    */
   async findBestMatch(launch: Launch): Promise<LaunchMatch | null> {
-    // Check IndexedDB cache first
-    try {
-      const { indexedDBCache } = await import('./indexedDBCache');
-      const cachedMatch = await indexedDBCache.getLaunchMatch(launch.id);
-      if (cachedMatch) {
-        console.log(`[LaunchMatching] Using cached match for ${launch.name}`);
-        return cachedMatch;
-      }
-    } catch (cacheError) {
-      console.warn('[LaunchMatching] Cache read failed:', cacheError);
+    const cachedMatch = await this.getCachedMatch(launch.id);
+
+    // A decision made on this device stands; a rejected mission means no match
+    if (cachedMatch?.pin) {
+      return cachedMatch.pin === 'rejected' ? null : cachedMatch;
+    }
+
+    // Then decisions other users shared through the server
+    const pinnedMatch = await this.findPinnedMatch(launch);
+    if (pinnedMatch !== undefined) {
+      return pinnedMatch;
     }
 
-    // Fall back to memory cache
-    if (matchCache.has(launch.id)) {
-      return matchCache.get(launch.id) || null;
+    if (cachedMatch) {
+      console.log(`[LaunchMatching] Using cached match for ${launch.name}`);
+      return cachedMatch;
     }
 
     try {
-      // Strategy 1: Exact match by Launch Library ID (most reliable)
-      const exactMatch = await this.findExactMatch(launch);
-      if (exactMatch) {
-        const match = this.createMatchResult(exactMatch, 'exact', 100, 
-          ['Exact Launch Library 2 ID match'], launch);
-        
-        // Cache both in memory and IndexedDB
-        matchCache.set(launch.id, match);
-        try {
-          const { indexedDBCache } = await import('./indexedDBCache');
-          await indexedDBCache.cacheLaunchMatch(launch.id, match);
-        } catch (cacheError) {
-          console.warn('[LaunchMatching] Failed to cache exact match:', cacheError);
-        }
-        
-        return match;
-      }
+      const result = await FlightClubApiService.findMatchForLaunch(launch);
+      const match = result ? toLaunchMatch(result) : null;
 
-      // Strategy 2: Fuzzy matching by name, company, and date
-      const fuzzyMatches = await this.findFuzzyMatches(launch);
-      if (fuzzyMatches.length > 0) {
-        const bestMatch = this.selectBestFuzzyMatch(fuzzyMatches, launch);
-        if (bestMatch) {
-          // Cache both in memory and IndexedDB
-          matchCache.set(launch.id, bestMatch);
-          try {
-            const { indexedDBCache } = await import('./indexedDBCache');
-            await indexedDBCache.cacheLaunchMatch(launch.id, bestMatch);
-          } catch (cacheError) {
-            console.warn('[LaunchMatching] Failed to cache fuzzy match:', cacheError);
-          }
-          
-          return bestMatch;
-        }
+      // Cache both in memory and IndexedDB; a null result avoids repeated failed lookups
+      if (match) {
+        matchCache.set(launch.id, match);
       }
-
-      // Cache null result to avoid repeated failed lookups
       try {
         const { indexedDBCache } = await import('./indexedDBCache');
-        await indexedDBCache.cacheLaunchMatch(launch.id, null);
+        await indexedDBCache.cacheLaunchMatch(launch.id, match);
       } catch (cacheError) {
-        console.warn('[LaunchMatching] Failed to cache null match:', cacheError);
+        console.warn('[LaunchMatching] Failed to cache match:', cacheError);
       }
 
-      return null;
+      return match;
 
     } catch (error) {
       console.error(`[LaunchMatching] Error finding match for ${launch.name}:`, error);
@@ -102,295 +92,164 @@ class LaunchMatchingService {
   }
 
   /**
-   * Find exact match using Launch Library 2 ID
+   * Cached match from IndexedDB, falling back to the memory cache
    */
-  private async findExactMatch(launch: Launch): Promise<FlightClubMission | null> {
+  private async getCachedMatch(launchId: string): Promise<LaunchMatch | null> {
     try {
-      const mission = await FlightClubApiService.findMissionForLaunch(launch.id, launch.name);
-      if (mission) {
-        return mission;
+      const { indexedDBCache } = await import('./indexedDBCache');
+      const cachedMatch = await indexedDBCache.getLaunchMatch(launchId);
+      if (cachedMatch) {
+        return cachedMatch;
       }
-    } catch (error) {
-      console.error(`[LaunchMatching] Error in exact match for ${launch.name}:`, error);
+    } catch (cacheError) {
+      console.warn('[LaunchMatching] Cache read failed:', cacheError);
     }
-    return null;
+
+    return matchCache.get(launchId) || null;
   }
 
   /**
-   * Find potential matches using fuzzy logic
+   * Match from a server pin: null when users rejected every mission, undefined
+   * when there is no usable pin
    */
-  private async findFuzzyMatches(launch: Launch): Promise<FlightClubMission[]> {
-    const launchProvider = launch.rocket?.configuration?.launch_service_provider?.name || 
-                          launch.launch_service_provider?.name || '';
-    
-    // Extract mission name from full launch name (remove rocket info)
-    const missionName = this.extractMissionName(launch.name);
-    
+  private async findPinnedMatch(launch: Launch): Promise<LaunchMatch | null | undefined> {
+    const pin = (await this.getServerPins()).get(launch.id);
+    if (!pin) {
+      return undefined;
+    }
+    if (pin.missionId === null) {
+      return null;
+    }
 
     try {
       const { missions } = await FlightClubApiService.getMissions();
-      const candidates = missions.filter(mission => {
-        const missionNameLower = mission.description.toLowerCase();
-        const searchTermLower = missionName.toLowerCase();
-        return missionNameLower.includes(searchTermLower) || searchTermLower.includes(missionNameLower);
-      });
-
-      return candidates;
+      const mission = missions.find(candidate => candidate.id === pin.missionId);
+      if (!mission) {
+        console.warn(`[LaunchMatching] Pinned FlightClub mission ${pin.missionId} not found`);
+        return undefined;
+      }
 
+      const result = scoreMissionMatch(launch, mission);
+      return {
+        flightClubMission: mission,
+        confidence: 'exact',
+        score: result.score,
+        matchReasons: ['Pinned by a user', ...result.reasons],
+        pin: 'pinned'
+      };
     } catch (error) {
-      console.error(`[LaunchMatching] Error in fuzzy search:`, error);
-      return [];
+      console.warn(`[LaunchMatching] Could not apply pin for ${launch.name}:`, error);
+      return undefined;
     }
   }
 
-  /**
-   * Select the best match from fuzzy search results
-   */
-  private selectBestFuzzyMatch(candidates: FlightClubMission[], launch: Launch): LaunchMatch | null {
-    const launchProvider = launch.rocket?.configuration?.launch_service_provider?.name || 
-                          launch.launch_service_provider?.name || '';
-    const missionName = this.extractMissionName(launch.name);
-    const launchDate = new Date(launch.net);
-
-    let bestMatch: FlightClubMission | null = null;
-    let bestScore = 0;
-    let matchReasons: string[] = [];
-    let validationWarnings: string[] = [];
-
-    for (const candidate of candidates) {
-      const score = this.calculateMatchScore(candidate, missionName, launchProvider, launchDate);
-      const reasons = this.getMatchReasons(candidate, missionName, launchProvider, launchDate);
-      const warnings = this.validateMatch(candidate, launch);
-
-
-      if (score > bestScore) {
-        bestScore = score;
-        bestMatch = candidate;
-        matchReasons = reasons;
-        validationWarnings = warnings;
-      }
+  private async getServerPins(): Promise<Map<string, MatchPin>> {
+    if (serverPins && Date.now() - serverPins.fetchedAt < PIN_CACHE_DURATION) {
+      return serverPins.pins;
     }
 
-    if (bestMatch && bestScore >= 50) { // Minimum 50% confidence
-      const confidence = this.scoreToConfidence(bestScore);
-      return this.createMatchResult(bestMatch, confidence, bestScore, matchReasons, launch, validationWarnings);
+    let pins: MatchPin[] = [];
+    try {
+      pins = await FlightClubApiService.getMatchPins();
+    } catch (error) {
+      // Kept empty until the next refresh so an unreachable server is not asked for every launch
+      console.warn('[LaunchMatching] Match pins unavailable:', error);
     }
 
-    return null;
+    serverPins = { pins: new Map(pins.map(pin => [pin.launchId, pin])), fetchedAt: Date.now() };
+    return serverPins.pins;
   }
 
   /**
-   * Calculate match score based on multiple factors
+   * Ranked FlightClub missions a user can choose from for this launch
    */
-  private calculateMatchScore(
-    candidate: FlightClubMission, 
-    missionName: string, 
-    launchProvider: string, 
-    launchDate: Date
-  ): number {
-    let score = 0;
-
-    // Mission name similarity (40% weight)
-    const nameSimilarity = this.calculateStringSimilarity(
-      candidate.description.toLowerCase(), 
-      missionName.toLowerCase()
-    );
-    score += nameSimilarity * 40;
-
-    // Company match (30% weight)
-    const companyMatch = this.calculateStringSimilarity(
-      candidate.company.description.toLowerCase(),
-      launchProvider.toLowerCase()
-    );
-    score += companyMatch * 30;
-
-    // Date proximity (20% weight)
-    const candidateDate = new Date(candidate.startDateTime);
-    const dateDiff = Math.abs(candidateDate.getTime() - launchDate.getTime());
-    const daysDiff = dateDiff / (1000 * 60 * 60 * 24);
-    const dateScore = Math.max(0, 1 - (daysDiff / 30)); // 100% if same day, 0% if 30+ days apart
-    score += dateScore * 20;
-
-    // Vehicle match (10% weight) - bonus if available
-    const vehicleSimilarity = this.calculateVehicleMatch(candidate, missionName);
-    score += vehicleSimilarity * 10;
-
-    return Math.min(100, Math.max(0, score));
+  async getCandidates(launch: Launch, limit: number = 5): Promise<LaunchMatch[]> {
+    const { missions } = await FlightClubApiService.getMissions();
+    return rankMissionMatches(launch, missions, limit).map(toLaunchMatch);
   }
 
   /**
-   * Get human-readable reasons for the match
+   * Confirm the automatic match as the right mission
    */
-  private getMatchReasons(
-    candidate: FlightClubMission, 
-    missionName: string, 
-    launchProvider: string, 
-    launchDate: Date
-  ): string[] {
-    const reasons: string[] = [];
-    
-    const candidateDate = new Date(candidate.startDateTime);
-    const daysDiff = Math.abs(candidateDate.getTime() - launchDate.getTime()) / (1000 * 60 * 60 * 24);
-
-    if (candidate.company.description.toLowerCase().includes(launchProvider.toLowerCase())) {
-      reasons.push(`Launch provider match: ${candidate.company.description}`);
-    }
-
-    if (daysDiff <= 1) {
-      reasons.push('Launch date within 24 hours');
-    } else if (daysDiff <= 7) {
-      reasons.push(`Launch date within ${Math.round(daysDiff)} days`);
-    }
-
-    const nameSim = this.calculateStringSimilarity(candidate.description.toLowerCase(), missionName.toLowerCase());
-    if (nameSim > 0.7) {
-      reasons.push('High mission name similarity');
-    } else if (nameSim > 0.5) {
-      reasons.push('Moderate mission name similarity');
-    }
-
-    if (candidate.vehicle.description.toLowerCase().includes('falcon') && missionName.toLowerCase().includes('falcon')) {
-      reasons.push('Vehicle type match');
-    }
-
-    return reasons;
+  async confirmMatch(launch: Launch, match: LaunchMatch): Promise<LaunchMatch> {
+    return this.savePin(launch, {
+      ...match,
+      confidence: 'exact',
+      matchReasons: ['Confirmed by a user', ...match.matchReasons],
+      validationWarnings: undefined,
+      pin: 'confirmed'
+    });
   }
 
   /**
-   * Validate match quality and detect potential issues
+   * Reject the automatic match; the launch stays without FlightClub data
    */
-  private validateMatch(candidate: FlightClubMission, launch: Launch): string[] {
-    const warnings: string[] = [];
-
-    // Check date difference
-    const candidateDate = new Date(candidate.startDateTime);
-    const launchDate = new Date(launch.net);
-    const daysDiff = Math.abs(candidateDate.getTime() - launchDate.getTime()) / (1000 * 60 * 60 * 24);
-
-    if (daysDiff > 7) {
-      warnings.push(`Launch dates differ by ${Math.round(daysDiff)} days`);
-    }
-
-    // Check company mismatch
-    const launchProvider = launch.rocket?.configuration?.launch_service_provider?.name || 
-                          launch.launch_service_provider?.name || '';
-    if (launchProvider && !candidate.company.description.toLowerCase().includes(launchProvider.toLowerCase())) {
-      warnings.push(`Launch provider mismatch: ${launchProvider} vs ${candidate.company.description}`);
-    }
-
-    // Check if mission name is very different
-    const missionName = this.extractMissionName(launch.name);
-    const nameSim = this.calculateStringSimilarity(candidate.description.toLowerCase(), missionName.toLowerCase());
-    if (nameSim < 0.3) {
-      warnings.push('Mission names are significantly different');
-    }
-
-    return warnings;
+  async rejectMatch(launch: Launch, match: LaunchMatch): Promise<LaunchMatch> {
+    return this.savePin(launch, { ...match, pin: 'rejected' });
   }
 
   /**
-   * Extract mission name from full launch name (remove rocket info)
+   * Keep a user's decision on this device and share it through the server cache;
+   * the returned match says whether it applies for everyone, awaits review or
+   * stayed on this device
    */
-  private extractMissionName(fullName: string): string {
-    // Remove common rocket prefixes
-    const rocketPrefixes = [
-      'Falcon 9 Block 5 |',
-      'Falcon 9 |',
-      'Falcon Heavy |',
-      'Atlas V |',
-      'Delta IV Heavy |',
-      'New Shepard |',
-      'Electron |'
-    ];
-
-    let missionName = fullName;
-    for (const prefix of rocketPrefixes) {
-      if (missionName.includes(prefix)) {
-        missionName = missionName.split(prefix)[1]?.trim() || missionName;
-        break;
-      }
+  private async savePin(launch: Launch, match: LaunchMatch): Promise<LaunchMatch> {
+    matchCache.set(launch.id, match);
+    try {
+      const { indexedDBCache } = await import('./indexedDBCache');
+      await indexedDBCache.cacheLaunchMatch(launch.id, match);
+    } catch (cacheError) {
+      console.warn('[LaunchMatching] Failed to cache pin:', cacheError);
     }
 
-    return missionName;
-  }
-
-  /**
-   * Calculate vehicle matching bonus
-   */
-  private calculateVehicleMatch(candidate: FlightClubMission, missionName: string): number {
-    const candidateVehicle = candidate.vehicle.description.toLowerCase();
-    const mission = missionName.toLowerCase();
-
-    // Simple vehicle matching
-    if (candidateVehicle.includes('falcon') && mission.includes('falcon')) return 1;
-    if (candidateVehicle.includes('atlas') && mission.includes('atlas')) return 1;
-    if (candidateVehicle.includes('delta') && mission.includes('delta')) return 1;
-    if (candidateVehicle.includes('electron') && mission.includes('electron')) return 1;
-
-    return 0;
-  }
-
-  /**
-   * Calculate string similarity using a simple algorithm
-   */
-  private calculateStringSimilarity(str1: string, str2: string): number {
-    if (str1 === str2) return 1;
-    if (str1.length === 0 || str2.length === 0) return 0;
-
-    // Simple substring matching with word overlap
-    const words1 = str1.toLowerCase().split(/\s+/);
-    const words2 = str2.toLowerCase().split(/\s+/);
-    
-    let matchingWords = 0;
-    const totalWords = Math.max(words1.length, words2.length);
-
-    for (const word1 of words1) {
-      if (words2.some(word2 => word1.includes(word2) || word2.includes(word1))) {
-        matchingWords++;
+    let pinStatus: LaunchMatch['pinStatus'] = 'local';
+    try {
+      const pin = await FlightClubApiService.saveMatchPin(
+        launch,
+        match.pin === 'rejected' ? null : match.flightClubMission.id
+      );
+      if (pin) {
+        serverPins?.pins.set(launch.id, pin);
       }
+      pinStatus = pin ? 'shared' : 'pending';
+    } catch (error) {
+      console.warn(`[LaunchMatching] Pin for ${launch.name} kept on this device only:`, error);
     }
 
-    return matchingWords / totalWords;
+    this.notifySubscribers(launch.id, match.pin === 'rejected' ? null : match);
+    return { ...match, pinStatus };
   }
 
   /**
-   * Convert numeric score to confidence level
+   * Subscribe to matches users confirm, reject or pin
    */
-  private scoreToConfidence(score: number): MatchConfidence {
-    if (score >= 95) return 'exact';
-    if (score >= 80) return 'high';
-    if (score >= 60) return 'medium';
-    if (score >= 40) return 'low';
-    return 'none';
-  }
+  subscribe(callback: (launchId: string, match: LaunchMatch | null) => void): () => void {
+    this.subscribers.push(callback);
 
-  /**
-   * Create a match result object
-   */
-  private createMatchResult(
-    mission: FlightClubMission, 
-    confidence: MatchConfidence, 
-    score: number, 
-    reasons: string[], 
-    launch: Launch,
-    warnings?: string[]
-  ): LaunchMatch {
-
-    return {
-      flightClubMission: mission,
-      confidence,
-      score,
-      matchReasons: reasons,
-      validationWarnings: warnings
+    return () => {
+      const index = this.subscribers.indexOf(callback);
+      if (index > -1) {
+        this.subscribers.splice(index, 1);
+      }
     };
   }
 
+  private notifySubscribers(launchId: string, match: LaunchMatch | null): void {
+    this.subscribers.forEach(callback => {
+      try {
+        callback(launchId, match);
+      } catch (error) {
+        console.error('Error in launch match subscriber:', error);
+      }
+    });
+  }
 
   /**
    * Clear match cache
    */
   clearCache(): void {
     matchCache.clear();
+    serverPins = null;
   }
 
   /**
@@ -401,9 +260,9 @@ class LaunchMatchingService {
   }
 
   /**
-   * Validate a specific match manually
+   * Pin a FlightClub mission a user chose for this launch
    */
-  async validateSpecificMatch(launchId: string, flightClubMissionId: string): Promise<LaunchMatch | null> {
+  async validateSpecificMatch(launch: Launch, flightClubMissionId: string): Promise<LaunchMatch | null> {
     try {
       const { missions } = await FlightClubApiService.getMissions();
       const mission = missions.find((m: FlightClubMission) => m.id === flightClubMissionId);
@@ -413,18 +272,14 @@ class LaunchMatchingService {
         return null;
       }
 
-      // Create a high-confidence manual match
-      const match: LaunchMatch = {
+      const result = scoreMissionMatch(launch, mission);
+      return await this.savePin(launch, {
         flightClubMission: mission,
-        confidence: 'high',
-        score: 90,
-        matchReasons: ['Manual validation'],
-        validationWarnings: ['Manually validated match - verify accuracy']
-      };
-
-      matchCache.set(launchId, match);
-      
-      return match;
+        confidence: 'exact',
+        score: result.score,
+        matchReasons: ['Pinned by a user', ...result.reasons],
+        pin: 'pinned'
+      });
 
     } catch (error) {
       console.error(`[LaunchMatching] Error in manual validation:`, error);
@@ -432,6 +287,20 @@ class LaunchMatchingService {
     }
   }
 
+  /**
+   * Apply this device's pins to launches matched elsewhere, such as the server feed
+   */
+  async applyLocalPins(launches: LaunchWithFlightClub[]): Promise<LaunchWithFlightClub[]> {
+    return Promise.all(launches.map(async launch => {
+      const cachedMatch = await this.getCachedMatch(launch.id);
+      if (!cachedMatch?.pin) {
+        return launch;
+      }
+      const match = cachedMatch.pin === 'rejected' ? undefined : cachedMatch;
+      return { ...launch, flightClubMatch: match, hasFlightClubData: Boolean(match) };
+    }));
+  }
+
   /**
    * Enrich an array of launches with FlightClub data
    */
@@ -4,6 +4,7 @@
  */
 
 import { LaunchWithVisibility } from '../types';
+import { pushSubscriptionService } from './pushSubscriptionService';
 
 export interface NotificationSettings {
   enabled: boolean;
@@ -15,6 +16,7 @@ export interface NotificationSettings {
 export interface NotificationStatus {
   permission: NotificationPermission;
   supported: boolean;
+  backgroundPush: boolean; // reminders are also delivered by the server via Web Push
   settings: NotificationSettings;
 }
 
@@ -22,6 +24,7 @@ export class NotificationService {
   private settings: NotificationSettings;
   private scheduledNotifications: Map<string, NodeJS.Timeout[]> = new Map();
   private subscribers: Array<(status: NotificationStatus) => void> = [];
+  private latestLaunches: LaunchWithVisibility[] = [];
 
   constructor() {
     this.settings = this.loadSettings();
@@ -106,6 +109,7 @@ export class NotificationService {
     return {
       permission: this.getPermission(),
       supported: this.isSupported(),
+      backgroundPush: pushSubscriptionService.isActive(),
       settings: { ...this.settings }
     };
   }
@@ -125,6 +129,28 @@ export class NotificationService {
     }
 
     this.saveSettings();
+    await this.syncBackgroundPush();
+  }
+
+  /**
+   * Mirror settings to the Web Push subscription so reminders still arrive
+   * when this tab is closed. In-page timers below remain the fallback.
+   */
+  private async syncBackgroundPush(): Promise<void> {
+    const wasActive = pushSubscriptionService.isActive();
+
+    if (this.settings.enabled && this.getPermission() === 'granted') {
+      await pushSubscriptionService.subscribe({
+        reminderTimes: this.settings.reminderTimes,
+        highVisibilityOnly: this.settings.highVisibilityOnly
+      }, this.latestLaunches);
+    } else if (wasActive) {
+      await pushSubscriptionService.unsubscribe();
+    }
+
+    if (pushSubscriptionService.isActive() !== wasActive) {
+      this.notifySubscribers();
+    }
   }
 
   /**
@@ -133,11 +159,16 @@ export class NotificationService {
   scheduleNotifications(launches: LaunchWithVisibility[]): void {
     // Clear existing notifications
     this.clearAllNotifications();
+    this.latestLaunches = launches;
 
     if (!this.settings.enabled || this.getPermission() !== 'granted') {
       return;
     }
 
+    this.syncBackgroundPush().catch(error => {
+      console.warn('Failed to sync background push:', error);
+    });
+
     const now = new Date().getTime();
 
     launches.forEach(launch => {
@@ -0,0 +1,343 @@
+/**
+ * Observer Location Service for Bermuda Rocket Tracker
+ * Holds the active observer location (lat/lng/elevation/timezone) used by
+ * every visibility, solar, weather and telemetry calculation.
+ */
+
+import { ObserverLocation, HorizonMaskPoint } from '../types';
+import { normalizeHorizonMask, validateHorizonMask } from '../utils/horizonMask';
+
+const STORAGE_KEY = 'bermuda-rocket-observer-location';
+
+export const DEFAULT_OBSERVER_LOCATION: ObserverLocation = {
+  id: 'bermuda-central',
+  name: 'Bermuda (Hamilton)',
+  latitude: 32.3078,
+  longitude: -64.7505,
+  elevation: 0,
+  timezone: 'Atlantic/Bermuda'
+};
+
+export const PRESET_OBSERVER_LOCATIONS: ObserverLocation[] = [
+  DEFAULT_OBSERVER_LOCATION,
+  {
+    id: 'bermuda-st-davids',
+    name: "St. David's Lighthouse",
+    latitude: 32.3614,
+    longitude: -64.6497,
+    elevation: 63,
+    timezone: 'Atlantic/Bermuda'
+  },
+  {
+    id: 'bermuda-gibbs-hill',
+    name: "Gibbs Hill Lighthouse",
+    latitude: 32.2521,
+    longitude: -64.8346,
+    elevation: 107,
+    timezone: 'Atlantic/Bermuda'
+  },
+  {
+    id: 'bermuda-north-rock',
+    name: 'Offshore - North Rock',
+    latitude: 32.4750,
+    longitude: -64.7700,
+    elevation: 0,
+    timezone: 'Atlantic/Bermuda'
+  }
+];
+
+export interface ObserverLocationState {
+  active: ObserverLocation;
+  saved: ObserverLocation[];
+}
+
+interface StoredObserverLocations {
+  activeId: string;
+  custom: ObserverLocation[];
+  horizonMasks?: Record<string, HorizonMaskPoint[]>;
+}
+
+/**
+ * Check that a timezone string is a valid IANA identifier
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate an observer location, returning a list of problems (empty when valid)
+ */
+export function validateObserverLocation(location: Partial<ObserverLocation>): string[] {
+  const errors: string[] = [];
+
+  if (!location.name || !location.name.trim()) {
+    errors.push('Name is required');
+  }
+  if (typeof location.latitude !== 'number' || isNaN(location.latitude) || location.latitude < -90 || location.latitude > 90) {
+    errors.push('Latitude must be between -90 and 90');
+  }
+  if (typeof location.longitude !== 'number' || isNaN(location.longitude) || location.longitude < -180 || location.longitude > 180) {
+    errors.push('Longitude must be between -180 and 180');
+  }
+  if (typeof location.elevation !== 'number' || isNaN(location.elevation) || location.elevation < -500 || location.elevation > 9000) {
+    errors.push('Elevation must be between -500 and 9000 meters');
+  }
+  if (!location.timezone || !isValidTimezone(location.timezone)) {
+    errors.push('Timezone must be a valid IANA timezone (e.g. Atlantic/Bermuda)');
+  }
+
+  return errors;
+}
+
+export class ObserverLocationService {
+  private customLocations: ObserverLocation[] = [];
+  private activeId: string = DEFAULT_OBSERVER_LOCATION.id;
+  private horizonMasks = new Map<string, HorizonMaskPoint[]>();
+  private subscribers: Array<(state: ObserverLocationState) => void> = [];
+
+  constructor() {
+    this.loadState();
+  }
+
+  /**
+   * Load saved locations from localStorage
+   */
+  private loadState(): void {
+    if (typeof localStorage === 'undefined') {
+      return;
+    }
+
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) {
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(saved) as Partial<StoredObserverLocations>;
+      this.customLocations = Array.isArray(parsed.custom)
+        ? parsed.custom.filter(location => validateObserverLocation(location).length === 0)
+        : [];
+      if (parsed.horizonMasks && typeof parsed.horizonMasks === 'object') {
+        Object.entries(parsed.horizonMasks).forEach(([id, mask]) => {
+          if (Array.isArray(mask) && validateHorizonMask(mask).length === 0) {
+            this.horizonMasks.set(id, normalizeHorizonMask(mask));
+          }
+        });
+      }
+      if (parsed.activeId && this.findLocation(parsed.activeId)) {
+        this.activeId = parsed.activeId;
+      }
+    } catch (error) {
+      console.warn('Failed to load observer location:', error);
+    }
+  }
+
+  /**
+   * Save locations to localStorage
+   */
+  private saveState(): void {
+    try {
+      if (typeof localStorage !== 'undefined') {
+        const state: StoredObserverLocations = {
+          activeId: this.activeId,
+          custom: this.customLocations,
+          horizonMasks: Object.fromEntries(this.horizonMasks)
+        };
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+      }
+    } catch (error) {
+      console.error('Failed to save observer location:', error);
+    }
+    this.notifySubscribers();
+  }
+
+  private findLocation(id: string): ObserverLocation | undefined {
+    return this.getSavedLocations().find(location => location.id === id);
+  }
+
+  /**
+   * Get the location all calculations should use
+   */
+  getActiveLocation(): ObserverLocation {
+    return { ...(this.findLocation(this.activeId) || DEFAULT_OBSERVER_LOCATION) };
+  }
+
+  /**
+   * Get presets followed by user-entered locations, with any horizon mask attached
+   */
+  getSavedLocations(): ObserverLocation[] {
+    return [...PRESET_OBSERVER_LOCATIONS, ...this.customLocations].map(location => {
+      const horizonMask = this.horizonMasks.get(location.id);
+      return horizonMask ? { ...location, horizonMask } : location;
+    });
+  }
+
+  /**
+   * Check whether a location was entered by the user (presets cannot be removed)
+   */
+  isCustomLocation(id: string): boolean {
+    return this.customLocations.some(location => location.id === id);
+  }
+
+  getState(): ObserverLocationState {
+    return {
+      active: this.getActiveLocation(),
+      saved: this.getSavedLocations()
+    };
+  }
+
+  /**
+   * Switch the active location to a saved one
+   */
+  setActiveLocation(id: string): void {
+    if (!this.findLocation(id)) {
+      throw new Error(`Unknown observer location: ${id}`);
+    }
+    this.activeId = id;
+    this.saveState();
+  }
+
+  /**
+   * Add or update a user-entered location. Returns the stored location.
+   */
+  saveLocation(location: Omit<ObserverLocation, 'id'> & { id?: string }, makeActive = true): ObserverLocation {
+    const errors = validateObserverLocation(location);
+    if (errors.length > 0) {
+      throw new Error(`Invalid observer location: ${errors.join('; ')}`);
+    }
+
+    if (location.id && PRESET_OBSERVER_LOCATIONS.some(preset => preset.id === location.id)) {
+      throw new Error('Preset locations cannot be modified');
+    }
+
+    const horizonMask = location.horizonMask ? this.checkHorizonMask(location.horizonMask) : undefined;
+
+    const stored: ObserverLocation = {
+      id: location.id || `custom-${Date.now()}`,
+      name: location.name.trim(),
+      latitude: location.latitude,
+      longitude: location.longitude,
+      elevation: location.elevation,
+      timezone: location.timezone
+    };
+
+    const index = this.customLocations.findIndex(existing => existing.id === stored.id);
+    if (index > -1) {
+      this.customLocations[index] = stored;
+    } else {
+      this.customLocations.push(stored);
+    }
+
+    if (horizonMask) {
+      this.horizonMasks.set(stored.id, horizonMask);
+    }
+
+    if (makeActive) {
+      this.activeId = stored.id;
+    }
+
+    this.saveState();
+    return this.findLocation(stored.id) as ObserverLocation;
+  }
+
+  /**
+   * Remove a user-entered location, falling back to the default if it was active
+   */
+  removeLocation(id: string): void {
+    if (!this.isCustomLocation(id)) {
+      return;
+    }
+    this.customLocations = this.customLocations.filter(location => location.id !== id);
+    this.horizonMasks.delete(id);
+    if (this.activeId === id) {
+      this.activeId = DEFAULT_OBSERVER_LOCATION.id;
+    }
+    this.saveState();
+  }
+
+  /**
+   * Set the horizon mask for any saved location (presets included).
+   * An empty mask means a clear sea horizon.
+   */
+  setHorizonMask(id: string, mask: HorizonMaskPoint[]): void {
+    if (!this.findLocation(id)) {
+      throw new Error(`Unknown observer location: ${id}`);
+    }
+
+    if (mask.length === 0) {
+      this.horizonMasks.delete(id);
+    } else {
+      this.horizonMasks.set(id, this.checkHorizonMask(mask));
+    }
+    this.saveState();
+  }
+
+  private checkHorizonMask(mask: HorizonMaskPoint[]): HorizonMaskPoint[] {
+    const errors = validateHorizonMask(mask);
+    if (errors.length > 0) {
+      throw new Error(`Invalid horizon mask: ${errors.join('; ')}`);
+    }
+    return normalizeHorizonMask(mask);
+  }
+
+  /**
+   * Restore the default Bermuda location and drop user-entered locations
+   */
+  reset(): void {
+    this.customLocations = [];
+    this.horizonMasks.clear();
+    this.activeId = DEFAULT_OBSERVER_LOCATION.id;
+    this.saveState();
+  }
+
+  /**
+   * Subscribe to location changes
+   */
+  subscribe(callback: (state: ObserverLocationState) => void): () => void {
+    this.subscribers.push(callback);
+
+    return () => {
+      const index = this.subscribers.indexOf(callback);
+      if (index > -1) {
+        this.subscribers.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Notify subscribers of location changes
+   */
+  private notifySubscribers(): void {
+    const state = this.getState();
+    this.subscribers.forEach(callback => {
+      try {
+        callback(state);
+      } catch (error) {
+        console.error('Error in observer location subscriber:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const observerLocationService = new ObserverLocationService();
+
+/**
+ * Shorthand for the active observer location
+ */
+export function getObserverLocation(): ObserverLocation {
+  return observerLocationService.getActiveLocation();
+}
+
+/**
+ * Key for caches of per-observer results. Includes the coordinates so that
+ * editing a custom location in place does not serve results for the old spot.
+ */
+export function getObserverCacheKey(observer: ObserverLocation = getObserverLocation()): string {
+  return `${observer.id}@${observer.latitude.toFixed(4)},${observer.longitude.toFixed(4)},${Math.round(observer.elevation)}`;
+}
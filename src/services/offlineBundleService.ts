@@ -0,0 +1,156 @@
+/**
+ * Offline Bundle Service
+ * Snapshots everything the live viewing tools need for the next visible launch
+ * (launch, FlightClub telemetry, solar times, weather) into IndexedDB so they
+ * keep working on a beach with no signal.
+ */
+
+import { EnhancedVisibilityData, LaunchWithVisibility, USNOSolarData } from '../types';
+import { indexedDBCache } from './indexedDBCache';
+import { FlightClubApiService, ProcessedSimulationData } from './flightClubApiService';
+import { GovernmentSolarService } from './governmentSolarService';
+import { WeatherService, WeatherData, LaunchWeatherAssessment } from './weatherService';
+
+export interface OfflineLaunchBundle {
+  launchId: string;
+  launch: LaunchWithVisibility;
+  simulationData: ProcessedSimulationData | null;
+  solarData: USNOSolarData | null;
+  currentWeather: WeatherData | null;
+  weatherForecast: LaunchWeatherAssessment | null;
+  capturedAt: number;
+}
+
+// Re-snapshot at most this often while the launch stays next
+const SNAPSHOT_REFRESH_INTERVAL = 30 * 60 * 1000; // 30 minutes
+
+// Launches this far in the past still count as "next" (holds and late viewing)
+const RECENT_LAUNCH_WINDOW = 60 * 60 * 1000; // 1 hour
+
+export class OfflineBundleService {
+  private static inFlight: Promise<OfflineLaunchBundle | null> | null = null;
+  private static lastSnapshot: { launchId: string; net: string; capturedAt: number } | null = null;
+
+  /**
+   * True when the browser reports no connectivity
+   */
+  static isOffline(): boolean {
+    return typeof navigator !== 'undefined' && navigator.onLine === false;
+  }
+
+  /**
+   * The earliest upcoming launch with any chance of being seen
+   */
+  static selectNextVisibleLaunch(
+    launches: LaunchWithVisibility[],
+    now: number = Date.now()
+  ): LaunchWithVisibility | null {
+    return launches
+      .filter(launch => launch.visibility?.likelihood && launch.visibility.likelihood !== 'none')
+      .filter(launch => new Date(launch.net).getTime() > now - RECENT_LAUNCH_WINDOW)
+      .sort((a, b) => new Date(a.net).getTime() - new Date(b.net).getTime())[0] || null;
+  }
+
+  /**
+   * Snapshot the next visible launch if it changed or the last snapshot is stale
+   */
+  static async snapshotNextVisibleLaunch(launches: LaunchWithVisibility[]): Promise<OfflineLaunchBundle | null> {
+    if (this.isOffline()) {
+      return null;
+    }
+
+    const next = this.selectNextVisibleLaunch(launches);
+    if (!next) {
+      return null;
+    }
+
+    const last = this.lastSnapshot;
+    if (last && last.launchId === next.id && last.net === next.net &&
+        Date.now() - last.capturedAt < SNAPSHOT_REFRESH_INTERVAL) {
+      return null;
+    }
+
+    if (this.inFlight) {
+      return this.inFlight;
+    }
+
+    this.inFlight = this.captureBundle(next).finally(() => {
+      this.inFlight = null;
+    });
+    return this.inFlight;
+  }
+
+  /**
+   * Fetch and store every piece of data for one launch. Individual sources may
+   * fail; the bundle keeps whatever was available.
+   */
+  static async captureBundle(launch: LaunchWithVisibility): Promise<OfflineLaunchBundle | null> {
+    console.log(`[OfflineBundle] Capturing offline data for ${launch.name}`);
+    const launchDate = new Date(launch.net);
+    const visibleWindow = (launch.visibility as EnhancedVisibilityData).visibilityWindow;
+
+    const [simulationData, solarData, currentWeather, weatherForecast] = await Promise.allSettled([
+      this.fetchSimulationData(launch),
+      GovernmentSolarService.getSolarDataForDate(launchDate),
+      WeatherService.getCurrentWeather(),
+      WeatherService.getWeatherForLaunch(launchDate, visibleWindow)
+    ]);
+
+    const bundle: OfflineLaunchBundle = {
+      launchId: launch.id,
+      launch,
+      simulationData: simulationData.status === 'fulfilled' ? simulationData.value : null,
+      solarData: solarData.status === 'fulfilled' ? solarData.value : null,
+      currentWeather: currentWeather.status === 'fulfilled' ? currentWeather.value : null,
+      weatherForecast: weatherForecast.status === 'fulfilled' ? weatherForecast.value : null,
+      capturedAt: Date.now()
+    };
+
+    try {
+      await indexedDBCache.cacheOfflineBundle(launch.id, launch.net, bundle);
+      this.lastSnapshot = { launchId: launch.id, net: launch.net, capturedAt: bundle.capturedAt };
+      console.log(`[OfflineBundle] Stored offline data for ${launch.name} (telemetry: ${bundle.simulationData ? 'yes' : 'no'})`);
+      return bundle;
+    } catch (error) {
+      console.warn('[OfflineBundle] Failed to store offline data:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Stored bundle for a launch, if any
+   */
+  static async getBundle(launchId: string): Promise<OfflineLaunchBundle | null> {
+    try {
+      return await indexedDBCache.getOfflineBundle(launchId);
+    } catch (error) {
+      console.warn('[OfflineBundle] Failed to read offline data:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Stored bundle for the soonest launch, used when the launch list cannot load
+   */
+  static async getNextBundle(): Promise<OfflineLaunchBundle | null> {
+    try {
+      return await indexedDBCache.getNextOfflineBundle();
+    } catch (error) {
+      console.warn('[OfflineBundle] Failed to read offline data:', error);
+      return null;
+    }
+  }
+
+  private static async fetchSimulationData(launch: LaunchWithVisibility): Promise<ProcessedSimulationData | null> {
+    const mission = await FlightClubApiService.findMissionForLaunch(launch);
+    if (!mission) {
+      return null;
+    }
+
+    const missionId = mission.flightClubSimId || mission.id;
+    return FlightClubApiService.getSimulationData(missionId, launch.id, {
+      fallbackMissionId: missionId !== mission.id ? mission.id : undefined,
+      launchTime: launch.net
+    });
+  }
+}
@@ -13,6 +13,7 @@
 
 import { LaunchWithVisibility } from '../types';
 import { GovernmentSolarService } from './governmentSolarService';
+import { getVehicleProfile, getVehicleTimeline, PlumeBrightnessClass, VehicleProfile } from '../utils/vehicleCatalogue';
 
 export interface PlumeIlluminationPrediction {
   launchTime: Date;
@@ -70,14 +71,18 @@ export interface PhotographyTips {
   equipment: string[];
 }
 
-// Bermuda coordinates for calculations
-const BERMUDA_LAT = 32.3078;
-const BERMUDA_LNG = -64.7505;
-
 // Physical constants
 const EARTH_RADIUS_KM = 6371;
 const ATMOSPHERE_SCALE_HEIGHT = 8.5; // km, atmospheric density scale height
 
+// Brightness score shift for the vehicle's exhaust: heavy lifters leave far larger plumes
+const PLUME_CLASS_ADJUSTMENT: Record<PlumeBrightnessClass, number> = {
+  faint: -0.2,
+  moderate: -0.1,
+  bright: 0,
+  brilliant: 0.1
+};
+
 export class PlumeIlluminationService {
 
   /**
@@ -215,9 +220,10 @@ export class PlumeIlluminationService {
     solarData: any
   ): IlluminationPeriod[] {
     const periods: IlluminationPeriod[] = [];
+    const vehicle = getVehicleProfile(launch);
     
     // Estimate rocket altitude profile (simplified model)
-    const altitudeProfile = this.generateAltitudeProfile(launchTime);
+    const altitudeProfile = this.generateAltitudeProfile(launchTime, vehicle);
     
     // Calculate Earth's shadow height at launch time
     const sunAngle = this.calculateSunAngle(launchTime, solarData);
@@ -272,24 +278,26 @@ export class PlumeIlluminationService {
   }
 
   /**
-   * Generate simplified rocket altitude profile
+   * Generate simplified rocket altitude profile from the vehicle's typical MECO and SECO
    */
-  private static generateAltitudeProfile(launchTime: Date) {
+  private static generateAltitudeProfile(launchTime: Date, vehicle: VehicleProfile) {
     const profile = [];
     const timeStep = 10; // seconds
-    const maxTime = 600; // 10 minutes
+    const { meco, seco } = getVehicleTimeline(vehicle);
+    const maxTime = Math.max(600, seco); // at least 10 minutes
 
     for (let t = 0; t <= maxTime; t += timeStep) {
       const time = new Date(launchTime.getTime() + t * 1000);
       
       // Simplified altitude model: rapid initial climb, then more gradual
       let altitude = 0;
-      if (t <= 120) {
-        // First 2 minutes: rapid climb to ~100km
-        altitude = (t / 120) * (t / 120) * 100; // km
+      if (t <= meco) {
+        // First stage: rapid climb to the MECO altitude
+        altitude = (t / meco) * (t / meco) * vehicle.mecoAltitudeKm; // km
       } else {
-        // After 2 minutes: continued climb but slower
-        altitude = 100 + Math.sqrt(t - 120) * 10; // km
+        // Upper stage: continued climb but slower, levelling off at SECO
+        const progress = Math.min(1, (t - meco) / (seco - meco));
+        altitude = vehicle.mecoAltitudeKm + Math.sqrt(progress) * (vehicle.secoAltitudeKm - vehicle.mecoAltitudeKm); // km
       }
 
       profile.push({ time, altitude });
@@ -347,7 +355,11 @@ export class PlumeIlluminationService {
     const plumeSize = this.calculatePlumeSize(avgAltitude);
     
     // Determine intensity based on sun angle and altitude
-    const intensity = this.calculatePlumeIntensity(avgAltitude, Math.abs((startSunAngle + endSunAngle) / 2));
+    const intensity = this.calculatePlumeIntensity(
+      avgAltitude,
+      Math.abs((startSunAngle + endSunAngle) / 2),
+      getVehicleProfile(launch).plumeClass
+    );
     
     // Calculate viewing angle from Bermuda
     const viewingAngle = this.calculateViewingAngle(launch, avgAltitude);
@@ -386,12 +398,16 @@ export class PlumeIlluminationService {
   /**
    * Calculate plume brightness intensity
    */
-  private static calculatePlumeIntensity(altitudeKm: number, sunAngleDegrees: number): 'faint' | 'moderate' | 'bright' | 'brilliant' {
+  private static calculatePlumeIntensity(
+    altitudeKm: number,
+    sunAngleDegrees: number,
+    plumeClass: PlumeBrightnessClass = 'bright'
+  ): 'faint' | 'moderate' | 'bright' | 'brilliant' {
     // Higher altitude and optimal sun angles give brighter plumes
     const altitudeScore = Math.min(altitudeKm / 200, 1); // Normalize to 200km max
     const sunAngleScore = 1 - Math.min(sunAngleDegrees / 18, 1); // Best at small angles
     
-    const combinedScore = (altitudeScore + sunAngleScore) / 2;
+    const combinedScore = (altitudeScore + sunAngleScore) / 2 + PLUME_CLASS_ADJUSTMENT[plumeClass];
     
     if (combinedScore > 0.8) return 'brilliant';
     if (combinedScore > 0.6) return 'bright';
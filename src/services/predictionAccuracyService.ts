@@ -0,0 +1,161 @@
+/**
+ * Prediction Accuracy Service
+ * Scores archived T-0 predictions against sighting reports so the visibility
+ * thresholds can be checked against what observers actually saw.
+ */
+
+import { ArchivedLaunch, VisibilityData } from '../types';
+
+type Likelihood = VisibilityData['likelihood'];
+
+export interface CalibrationBucket {
+  key: string;
+  launches: number;          // archived launches with at least one report
+  reports: number;
+  sighted: number;           // launches at least half the observers saw
+  sightedRate: number | null;
+  correct: number;           // predicted visible/not visible matched the outcome
+  accuracy: number | null;
+  timingSamples: number;
+  meanAbsTimingErrorSeconds: number | null;
+}
+
+export interface TimingErrorStats {
+  samples: number;
+  meanErrorSeconds: number | null;      // positive = seen later than predicted
+  medianAbsErrorSeconds: number | null;
+  withinOneMinuteRate: number | null;
+}
+
+export interface CalibrationStats {
+  archivedLaunches: number;
+  scoredLaunches: number;
+  totalReports: number;
+  overallAccuracy: number | null;
+  byLikelihood: Record<Likelihood, CalibrationBucket>;
+  timing: TimingErrorStats;
+  byDataSource: CalibrationBucket[];
+  byTrajectorySource: CalibrationBucket[];
+  byVehicle: CalibrationBucket[];
+}
+
+interface ScoredLaunch {
+  launch: ArchivedLaunch;
+  sighted: boolean;
+  correct: boolean;
+  timingErrors: number[];
+}
+
+const LIKELIHOODS: Likelihood[] = ['high', 'medium', 'low', 'none'];
+
+export class PredictionAccuracyService {
+  /**
+   * 'high' and 'medium' count as a visible prediction, 'low' and 'none' as not visible
+   */
+  static predictsVisible(likelihood: Likelihood): boolean {
+    return likelihood === 'high' || likelihood === 'medium';
+  }
+
+  /**
+   * Reported minus predicted first-visible time, in seconds, for each report
+   * that gave a first-seen time
+   */
+  static timingErrors(launch: ArchivedLaunch): number[] {
+    const predicted = launch.prediction.firstVisibleSeconds;
+    if (predicted == null) {
+      return [];
+    }
+    const launchTime = new Date(launch.net).getTime();
+    return launch.reports
+      .filter(report => report.seen && report.firstSeenAt)
+      .map(report => (new Date(report.firstSeenAt as string).getTime() - launchTime) / 1000 - predicted)
+      .filter(error => Number.isFinite(error));
+  }
+
+  static calibrate(archive: ArchivedLaunch[]): CalibrationStats {
+    const scored: ScoredLaunch[] = archive
+      .filter(launch => launch.reports.length > 0)
+      .map(launch => {
+        const seenCount = launch.reports.filter(report => report.seen).length;
+        const sighted = seenCount * 2 >= launch.reports.length;
+        return {
+          launch,
+          sighted,
+          correct: this.predictsVisible(launch.prediction.likelihood) === sighted,
+          timingErrors: this.timingErrors(launch)
+        };
+      });
+
+    const byLikelihood = {} as Record<Likelihood, CalibrationBucket>;
+    LIKELIHOODS.forEach(likelihood => {
+      byLikelihood[likelihood] = this.buildBucket(
+        likelihood,
+        scored.filter(entry => entry.launch.prediction.likelihood === likelihood)
+      );
+    });
+
+    const allErrors = scored.flatMap(entry => entry.timingErrors);
+    const correct = scored.filter(entry => entry.correct).length;
+
+    return {
+      archivedLaunches: archive.length,
+      scoredLaunches: scored.length,
+      totalReports: scored.reduce((sum, entry) => sum + entry.launch.reports.length, 0),
+      overallAccuracy: scored.length > 0 ? correct / scored.length : null,
+      byLikelihood,
+      timing: this.timingStats(allErrors),
+      byDataSource: this.groupBy(scored, entry => entry.launch.prediction.dataSource ?? 'unknown'),
+      byTrajectorySource: this.groupBy(scored, entry => entry.launch.prediction.trajectorySource ?? 'unknown'),
+      byVehicle: this.groupBy(scored, entry => entry.launch.vehicle ?? 'Unknown')
+    };
+  }
+
+  private static timingStats(errors: number[]): TimingErrorStats {
+    if (errors.length === 0) {
+      return { samples: 0, meanErrorSeconds: null, medianAbsErrorSeconds: null, withinOneMinuteRate: null };
+    }
+    const absolute = errors.map(Math.abs).sort((a, b) => a - b);
+    const middle = Math.floor(absolute.length / 2);
+    return {
+      samples: errors.length,
+      meanErrorSeconds: errors.reduce((sum, error) => sum + error, 0) / errors.length,
+      medianAbsErrorSeconds: absolute.length % 2 === 0
+        ? (absolute[middle - 1] + absolute[middle]) / 2
+        : absolute[middle],
+      withinOneMinuteRate: absolute.filter(error => error <= 60).length / absolute.length
+    };
+  }
+
+  private static buildBucket(key: string, entries: ScoredLaunch[]): CalibrationBucket {
+    const sighted = entries.filter(entry => entry.sighted).length;
+    const correct = entries.filter(entry => entry.correct).length;
+    const errors = entries.flatMap(entry => entry.timingErrors);
+    return {
+      key,
+      launches: entries.length,
+      reports: entries.reduce((sum, entry) => sum + entry.launch.reports.length, 0),
+      sighted,
+      sightedRate: entries.length > 0 ? sighted / entries.length : null,
+      correct,
+      accuracy: entries.length > 0 ? correct / entries.length : null,
+      timingSamples: errors.length,
+      meanAbsTimingErrorSeconds: errors.length > 0
+        ? errors.reduce((sum, error) => sum + Math.abs(error), 0) / errors.length
+        : null
+    };
+  }
+
+  /**
+   * Buckets sorted by number of scored launches, largest first
+   */
+  private static groupBy(entries: ScoredLaunch[], keyOf: (entry: ScoredLaunch) => string): CalibrationBucket[] {
+    const groups = new Map<string, ScoredLaunch[]>();
+    entries.forEach(entry => {
+      const key = keyOf(entry);
+      groups.set(key, [...(groups.get(key) ?? []), entry]);
+    });
+    return Array.from(groups.entries())
+      .map(([key, group]) => this.buildBucket(key, group))
+      .sort((a, b) => b.launches - a.launches || a.key.localeCompare(b.key));
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Push Subscription Service
+ * Registers this device for Web Push so launch reminders and delay alerts
+ * arrive from the server even when the tab is closed or the phone sleeps.
+ */
+
+import { DelayNotification, LaunchWithVisibility } from '../types';
+import { getObserverLocation } from './observerLocationService';
+
+interface PushPreferences {
+  reminderTimes: number[];
+  highVisibilityOnly: boolean;
+}
+
+const SUBSCRIBE_ENDPOINT = '/api/push/subscribe';
+const ALERT_ENDPOINT = '/api/push/alert';
+
+// Only launches in the next two weeks are worth watching server-side
+const WATCH_HORIZON_MS = 14 * 24 * 60 * 60 * 1000;
+
+function urlBase64ToUint8Array(base64String: string): Uint8Array {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(base64);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+}
+
+export class PushSubscriptionService {
+  private active = false;
+  private launches: LaunchWithVisibility[] = [];
+  private lastPayload: string | null = null;
+
+  /**
+   * Web Push needs a service worker and the Push API (not available in dev builds)
+   */
+  isSupported(): boolean {
+    return typeof navigator !== 'undefined' &&
+      'serviceWorker' in navigator &&
+      typeof window !== 'undefined' &&
+      'PushManager' in window;
+  }
+
+  /**
+   * True once the server has accepted this device's subscription
+   */
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Subscribe this device (or reuse the existing subscription) and sync
+   * settings plus the launches the server should watch
+   */
+  async subscribe(preferences: PushPreferences, launches?: LaunchWithVisibility[]): Promise<boolean> {
+    if (launches) {
+      this.launches = launches;
+    }
+    if (!this.isSupported()) {
+      return false;
+    }
+
+    try {
+      const registration = await navigator.serviceWorker.ready;
+      let subscription = await registration.pushManager.getSubscription();
+
+      if (!subscription) {
+        const response = await fetch(SUBSCRIBE_ENDPOINT);
+        if (!response.ok) {
+          throw new Error(`Push key unavailable (${response.status})`);
+        }
+        const { publicKey } = await response.json();
+        subscription = await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(publicKey)
+        });
+      }
+
+      return await this.postSubscription(subscription, preferences);
+    } catch (error) {
+      console.warn('[PushSubscription] Subscribe failed, reminders will only fire while the page is open:', error);
+      this.active = false;
+      return false;
+    }
+  }
+
+  /**
+   * Remove this device from the server and the browser
+   */
+  async unsubscribe(): Promise<void> {
+    this.active = false;
+    this.lastPayload = null;
+    if (!this.isSupported()) {
+      return;
+    }
+
+    try {
+      const registration = await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.getSubscription();
+      if (!subscription) {
+        return;
+      }
+      await fetch(SUBSCRIBE_ENDPOINT, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ subscription: subscription.toJSON() })
+      });
+      await subscription.unsubscribe();
+    } catch (error) {
+      console.warn('[PushSubscription] Unsubscribe failed:', error);
+    }
+  }
+
+  /**
+   * Relay a delay or scrub alert through Web Push to this device
+   */
+  async sendDelayAlert(notification: DelayNotification): Promise<boolean> {
+    if (!this.active) {
+      return false;
+    }
+
+    const registration = await navigator.serviceWorker.ready;
+    const subscription = await registration.pushManager.getSubscription();
+    if (!subscription) {
+      return false;
+    }
+
+    const response = await fetch(ALERT_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        endpoint: subscription.endpoint,
+        alert: {
+          launchId: notification.launch.id,
+          launchName: notification.launch.name,
+          type: notification.type,
+          net: notification.launch.net,
+          message: notification.message,
+          priority: notification.priority
+        }
+      })
+    });
+    return response.ok;
+  }
+
+  private async postSubscription(subscription: PushSubscription, preferences: PushPreferences): Promise<boolean> {
+    const now = Date.now();
+    const launches = this.launches
+      .filter(launch => {
+        const launchTime = new Date(launch.net).getTime();
+        return launchTime > now && launchTime - now < WATCH_HORIZON_MS;
+      })
+      .map(launch => ({
+        launchId: launch.id,
+        name: launch.name,
+        net: launch.net,
+        likelihood: launch.visibility.likelihood,
+        bearing: launch.visibility.bearing
+      }));
+
+    const payload = JSON.stringify({
+      subscription: subscription.toJSON(),
+      reminderTimes: preferences.reminderTimes,
+      highVisibilityOnly: preferences.highVisibilityOnly,
+      timeZone: getObserverLocation().timezone,
+      launches
+    });
+
+    // Launch lists refresh often; only hit the server when something changed
+    if (this.active && payload === this.lastPayload) {
+      return true;
+    }
+
+    const response = await fetch(SUBSCRIBE_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: payload
+    });
+
+    this.active = response.ok;
+    this.lastPayload = response.ok ? payload : null;
+    return response.ok;
+  }
+}
+
+// Export singleton instance
+export const pushSubscriptionService = new PushSubscriptionService();
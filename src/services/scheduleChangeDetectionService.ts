@@ -11,7 +11,7 @@ import { calculateVisibility } from './visibilityService';
 import { formatLaunchTime } from '../utils/timeUtils';
 
 // Cache for tracking previous launch data
-interface LaunchSnapshot {
+export interface LaunchSnapshot {
   id: string;
   net: string;
   window_start?: string;
@@ -106,6 +106,14 @@ export class ScheduleChangeDetectionService {
     return this.analyzeChanges(snapshot, currentLaunch);
   }
 
+  /**
+   * Compare a launch against a snapshot kept outside this service (the server
+   * webhook job stores them in Redis); the in-memory snapshots are untouched
+   */
+  static compareWithSnapshot(snapshot: LaunchSnapshot, currentLaunch: Launch): ScheduleChangeResult {
+    return this.analyzeChanges(snapshot, currentLaunch);
+  }
+
   /**
    * Analyze specific changes between snapshot and current data
    */
@@ -367,7 +375,7 @@ export class ScheduleChangeDetectionService {
   /**
    * Create snapshot from launch data
    */
-  private static createSnapshotFromLaunch(launch: Launch): LaunchSnapshot {
+  static createSnapshotFromLaunch(launch: Launch): LaunchSnapshot {
     return {
       id: launch.id,
       net: launch.net,
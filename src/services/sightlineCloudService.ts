@@ -0,0 +1,251 @@
+/**
+ * Sightline Cloud Service
+ * Cloud cover along the line of sight from the observer toward the rocket.
+ * A launch low in the west-southwest is hidden by a cloud bank tens of
+ * kilometres away even when the sky overhead is clear, so the forecast is
+ * sampled where each sightline actually passes through the cloud layers.
+ */
+
+import type { EnhancedTelemetryFrame } from './flightClubApiService';
+import { ObserverLocation } from '../types';
+import { getObserverCacheKey, getObserverLocation } from './observerLocationService';
+import { HourlyForecast, WeatherService } from './weatherService';
+
+export type CloudLayer = 'low' | 'mid' | 'high';
+
+export type SightlineFrame = Pick<EnhancedTelemetryFrame,
+  'time' | 'altitude' | 'bearingFromBermuda' | 'elevationAngle' | 'aboveHorizon'>;
+
+export interface SightlineLayerCrossing {
+  layer: CloudLayer;
+  distanceKm: number; // ground distance from the observer where the sightline reaches the layer
+  latitude: number;
+  longitude: number;
+  cloudCover: number; // forecast % cover of that layer at the crossing point
+}
+
+export interface SightlineSample {
+  time: number; // T+ seconds
+  bearing: number;
+  elevation: number;
+  clearProbability: number; // 0-1 chance the sightline passes every layer through a gap
+  layers: SightlineLayerCrossing[];
+}
+
+export interface SightlineClarity {
+  rating: 'excellent' | 'good' | 'fair' | 'poor';
+  clarity: number; // % average chance of a clear sightline across the samples
+  worst: SightlineSample;
+  samples: SightlineSample[];
+  source: 'telemetry' | 'bearing';
+}
+
+type ForecastLookup = (latitude: number, longitude: number) => HourlyForecast[];
+
+const EARTH_RADIUS_KM = 6371;
+// Representative heights of Open-Meteo's low (<3 km), mid (3-8 km) and high (>8 km) layers
+const LAYER_ALTITUDE_KM: Record<CloudLayer, number> = { low: 1.5, mid: 5, high: 9 };
+const LAYER_COVER_FIELD: Record<CloudLayer, keyof HourlyForecast> = {
+  low: 'cloudCoverLow',
+  mid: 'cloudCoverMid',
+  high: 'cloudCoverHigh'
+};
+const MAX_SAMPLES = 6;
+// Forecast grid is ~10 km, so crossing points are merged at 0.1°
+const GRID_STEP = 0.1;
+const CACHE_DURATION = 10 * 60 * 1000;
+// Cloud forecasts further out than this are not worth sampling
+const FORECAST_HORIZON_MS = 48 * 60 * 60 * 1000;
+
+export class SightlineCloudService {
+  private static cache = new Map<string, { result: SightlineClarity | null; timestamp: number }>();
+
+  /**
+   * Ground distance at which a sightline at the given elevation climbs to the
+   * given height, allowing for the curvature of the Earth
+   */
+  static crossingDistanceKm(elevationDeg: number, heightKm: number): number {
+    const tanE = Math.tan(elevationDeg * Math.PI / 180);
+    return EARTH_RADIUS_KM * (Math.sqrt(tanE * tanE + 2 * heightKm / EARTH_RADIUS_KM) - tanE);
+  }
+
+  static destinationPoint(
+    latitude: number,
+    longitude: number,
+    bearingDeg: number,
+    distanceKm: number
+  ): { latitude: number; longitude: number } {
+    const toRad = Math.PI / 180;
+    const angular = distanceKm / EARTH_RADIUS_KM;
+    const lat1 = latitude * toRad;
+    const bearing = bearingDeg * toRad;
+    const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing));
+    const lon2 = longitude * toRad + Math.atan2(
+      Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1),
+      Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+    );
+    return { latitude: lat2 / toRad, longitude: ((lon2 / toRad + 540) % 360) - 180 };
+  }
+
+  /**
+   * Stand-in sightline when no telemetry is available: the predicted bearing,
+   * climbing from just above the horizon across the usual viewing window
+   */
+  static nominalFrames(bearing: number): SightlineFrame[] {
+    return [
+      { time: 150, elevationAngle: 2 },
+      { time: 240, elevationAngle: 5 },
+      { time: 360, elevationAngle: 10 },
+      { time: 480, elevationAngle: 18 }
+    ].map(frame => ({ ...frame, altitude: 150000, bearingFromBermuda: bearing, aboveHorizon: true }));
+  }
+
+  /**
+   * Evenly spaced frames from the part of the flight that is above the horizon
+   */
+  static selectFrames(frames: SightlineFrame[]): SightlineFrame[] {
+    const visible = frames.filter(frame => frame.aboveHorizon && frame.elevationAngle > 0);
+    if (visible.length <= MAX_SAMPLES) {
+      return visible;
+    }
+    const step = (visible.length - 1) / (MAX_SAMPLES - 1);
+    return Array.from({ length: MAX_SAMPLES }, (_, index) => visible[Math.round(index * step)]);
+  }
+
+  /**
+   * Layer crossings for one frame. A layer is only crossed when the rocket is above it.
+   */
+  static layerCrossings(frame: SightlineFrame, observer: ObserverLocation): Omit<SightlineLayerCrossing, 'cloudCover'>[] {
+    const observerHeightKm = observer.elevation / 1000;
+    return (Object.keys(LAYER_ALTITUDE_KM) as CloudLayer[])
+      .filter(layer => frame.altitude / 1000 > LAYER_ALTITUDE_KM[layer])
+      .map(layer => {
+        const distanceKm = this.crossingDistanceKm(
+          frame.elevationAngle,
+          Math.max(0, LAYER_ALTITUDE_KM[layer] - observerHeightKm)
+        );
+        return {
+          layer,
+          distanceKm,
+          ...this.destinationPoint(observer.latitude, observer.longitude, frame.bearingFromBermuda, distanceKm)
+        };
+      });
+  }
+
+  /**
+   * Score the sightlines against forecasts looked up for each crossing point
+   */
+  static evaluate(
+    frames: SightlineFrame[],
+    launchTime: Date,
+    observer: ObserverLocation,
+    forecastAt: ForecastLookup,
+    source: SightlineClarity['source'] = 'telemetry'
+  ): SightlineClarity | null {
+    const samples: SightlineSample[] = [];
+
+    for (const frame of this.selectFrames(frames)) {
+      const frameTime = new Date(launchTime.getTime() + frame.time * 1000);
+      const layers: SightlineLayerCrossing[] = [];
+
+      for (const crossing of this.layerCrossings(frame, observer)) {
+        const forecast = WeatherService.interpolateForecast(forecastAt(crossing.latitude, crossing.longitude), frameTime);
+        if (forecast) {
+          layers.push({ ...crossing, cloudCover: forecast[LAYER_COVER_FIELD[crossing.layer]] as number });
+        }
+      }
+      if (layers.length === 0) {
+        continue;
+      }
+
+      samples.push({
+        time: frame.time,
+        bearing: frame.bearingFromBermuda,
+        elevation: frame.elevationAngle,
+        clearProbability: layers.reduce((clear, layer) => clear * (1 - layer.cloudCover / 100), 1),
+        layers
+      });
+    }
+
+    if (samples.length === 0) {
+      return null;
+    }
+
+    const clarity = samples.reduce((sum, sample) => sum + sample.clearProbability, 0) / samples.length * 100;
+    const worst = samples.reduce((most, sample) => sample.clearProbability < most.clearProbability ? sample : most);
+
+    return {
+      rating: clarity >= 80 ? 'excellent' : clarity >= 60 ? 'good' : clarity >= 35 ? 'fair' : 'poor',
+      clarity,
+      worst,
+      samples,
+      source
+    };
+  }
+
+  /**
+   * Fetch forecasts for every crossing point and rate the sightline. Uses the
+   * telemetry when given, otherwise the predicted bearing. Null when the launch
+   * is beyond the forecast or nothing could be sampled.
+   */
+  static async assess(
+    launchTime: Date,
+    options: { frames?: SightlineFrame[]; bearing?: number; observer?: ObserverLocation }
+  ): Promise<SightlineClarity | null> {
+    const untilLaunch = launchTime.getTime() - Date.now();
+    if (untilLaunch > FORECAST_HORIZON_MS || untilLaunch < -60 * 60 * 1000) {
+      return null;
+    }
+
+    const observer = options.observer ?? getObserverLocation();
+    const source: SightlineClarity['source'] = options.frames?.length ? 'telemetry' : 'bearing';
+    const frames = options.frames?.length
+      ? options.frames
+      : options.bearing !== undefined ? this.nominalFrames(options.bearing) : [];
+
+    const selected = this.selectFrames(frames);
+    if (selected.length === 0) {
+      return null;
+    }
+
+    const cacheKey = [
+      getObserverCacheKey(observer),
+      launchTime.toISOString(),
+      ...selected.map(frame => `${frame.time}:${Math.round(frame.bearingFromBermuda)}:${Math.round(frame.elevationAngle)}`)
+    ].join('|');
+    const cached = this.cache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
+      return cached.result;
+    }
+
+    const snap = (value: number) => Math.round(value / GRID_STEP) * GRID_STEP;
+    const gridKey = (latitude: number, longitude: number) => `${snap(latitude).toFixed(1)},${snap(longitude).toFixed(1)}`;
+
+    const points = new Map<string, { latitude: number; longitude: number }>();
+    selected.forEach(frame => {
+      this.layerCrossings(frame, observer).forEach(crossing => {
+        points.set(gridKey(crossing.latitude, crossing.longitude), {
+          latitude: snap(crossing.latitude),
+          longitude: snap(crossing.longitude)
+        });
+      });
+    });
+    if (points.size === 0) {
+      return null;
+    }
+
+    const keys = Array.from(points.keys());
+    const forecasts = await WeatherService.fetchHourlyForecastAt(keys.map(key => points.get(key)!));
+    const byPoint = new Map(keys.map((key, index) => [key, forecasts[index] ?? []]));
+
+    const result = this.evaluate(
+      selected,
+      launchTime,
+      observer,
+      (latitude, longitude) => byPoint.get(gridKey(latitude, longitude)) ?? [],
+      source
+    );
+    this.cache.set(cacheKey, { result, timestamp: Date.now() });
+    return result;
+  }
+}
@@ -10,28 +10,25 @@
  */
 
 import { SolarPosition } from '../types';
+import { getObserverLocation } from './observerLocationService';
 
 // Constants for SPA calculations
 const EARTH_MEAN_RADIUS = 6371.01; // km
 const ASTRONOMICAL_UNIT = 149597870.7; // km
 const SUN_RADIUS = 695700; // km
 
-// Bermuda coordinates (default location)
-const DEFAULT_LAT = 32.3078;
-const DEFAULT_LNG = -64.7505;
-const DEFAULT_ELEVATION = 0.0; // meters above sea level
-
 export class SolarPositionCalculator {
 
   /**
    * Calculate precise solar position for a given date, time, and location
    * Uses NREL Solar Position Algorithm for maximum accuracy
+   * Location defaults to the active observer location
    */
   static calculateSolarPosition(
     dateTime: Date,
-    latitude: number = DEFAULT_LAT,
-    longitude: number = DEFAULT_LNG,
-    elevation: number = DEFAULT_ELEVATION
+    latitude: number = getObserverLocation().latitude,
+    longitude: number = getObserverLocation().longitude,
+    elevation: number = getObserverLocation().elevation
   ): SolarPosition {
 
     // Convert to Julian Day Number
@@ -110,8 +107,8 @@ export class SolarPositionCalculator {
     const minute = date.getUTCMinutes();
     const second = date.getUTCSeconds();
 
-    // Convert time to decimal day
-    const decimalDay = day + (hour + minute / 60.0 + second / 3600.0) / 24.0;
+    // Convert time to decimal day (Julian days start at noon)
+    const decimalDay = day + (hour - 12 + minute / 60.0 + second / 3600.0) / 24.0;
 
     // Calculate Julian Day
     let a = Math.floor((14 - month) / 12);
@@ -396,6 +393,38 @@ export class SolarPositionCalculator {
     return 'night';
   }
 
+  /**
+   * Sun elevation lookup for T+ seconds after a start time, memoized per minute
+   * so long telemetry tracks stay cheap. Without a start time the sky is assumed
+   * astronomically dark (-18°).
+   */
+  static createElevationLookup(
+    startTime: Date | undefined,
+    latitude: number = getObserverLocation().latitude,
+    longitude: number = getObserverLocation().longitude,
+    elevation: number = getObserverLocation().elevation
+  ): (secondsAfterStart: number) => number {
+    const byMinute = new Map<number, number>();
+
+    return (secondsAfterStart: number) => {
+      if (!startTime || isNaN(startTime.getTime())) {
+        return -18;
+      }
+      const minute = Math.floor(secondsAfterStart / 60);
+      let sunElevation = byMinute.get(minute);
+      if (sunElevation === undefined) {
+        sunElevation = this.calculateSolarPosition(
+          new Date(startTime.getTime() + minute * 60000),
+          latitude,
+          longitude,
+          elevation
+        ).elevation;
+        byMinute.set(minute, sunElevation);
+      }
+      return sunElevation;
+    };
+  }
+
   /**
    * Determine if rocket would be sunlit at given altitude and solar position
    */
@@ -4,7 +4,11 @@
  * Based on real launch data and orbital mechanics
  */
 
-import { Launch } from '../types';
+import { Launch, TrajectoryOverride } from '../types';
+import { LaunchAzimuthSolutions, solveLaunchAzimuth } from '../utils/launchAzimuth';
+import { extractLaunchCoordinates } from '../utils/launchCoordinates';
+import { calculateBearing } from '../utils/coordinateUtils';
+import { trajectoryOverrideService } from './trajectoryOverrideService';
 
 export interface OrbitParameters {
   inclination: number; // degrees
@@ -13,12 +17,18 @@ export interface OrbitParameters {
   orbitType: 'LEO' | 'MEO' | 'GTO' | 'GEO' | 'Polar' | 'SSO' | 'Unknown';
 }
 
+// Where a trajectory came from; also validated by the launch archive API
+export const TRAJECTORY_SOURCES = ['database', 'orbital-mechanics', 'mission-type', 'fallback', 'manual'] as const;
+
+export type TrajectorySource = typeof TRAJECTORY_SOURCES[number];
+
 export interface TrajectoryMapping {
   azimuth: number; // launch azimuth in degrees
   direction: 'Northeast' | 'East-Northeast' | 'East' | 'East-Southeast' | 'Southeast' | 'North' | 'South';
   confidence: 'high' | 'medium' | 'low';
-  source: 'database' | 'orbital-mechanics' | 'mission-type' | 'fallback';
+  source: TrajectorySource;
   orbitParameters?: OrbitParameters;
+  azimuthSolution?: LaunchAzimuthSolutions;
 }
 
 /**
@@ -99,35 +109,43 @@ const MISSION_TRAJECTORY_DATABASE: Record<string, TrajectoryMapping> = {
   'sirius-xm': { azimuth: 130, direction: 'Southeast', confidence: 'high', source: 'database' }
 };
 
+// Inclination quoted in mission descriptions, e.g. "a 53.2° inclination orbit" or "an inclination of 43 degrees"
+const DESCRIPTION_INCLINATION_PATTERNS = [
+  /(\d{1,3}\.\d{1,2}|\d{1,3})\s?(?:°|-degree|degree)s?\s(?:orbital\s)?inclination/i,
+  /inclination\s(?:of\s)?(\d{1,3}\.\d{1,2}|\d{1,3})\s?(?:°|degree)/i
+];
+
 /**
- * Orbital inclination to launch azimuth mapping for Cape Canaveral
- * Based on orbital mechanics with proper handling for retrograde orbits
+ * Target inclination published by Launch Library, from the orbit data or the mission description
  */
-function calculateLaunchAzimuthFromInclination(inclination: number, launchLatitude: number = 28.5): number {
-  const incRad = inclination * Math.PI / 180;
-  const latRad = launchLatitude * Math.PI / 180;
-  
-  // Handle retrograde orbits (inclination > 90°)
-  // SSO satellites from Cape Canaveral must launch southeast for safety and efficiency
-  if (inclination >= 90) {
-    // For retrograde SSO orbits, Cape Canaveral launches southeast over water
-    // Typical azimuth range: 135-150°
-    return 140; // Southeast trajectory for SSO missions
+function getPublishedInclination(launch: Launch): number | undefined {
+  const orbitInclination = launch.mission.orbit?.inclination;
+  if (typeof orbitInclination === 'number' && orbitInclination >= 0 && orbitInclination <= 180) {
+    return orbitInclination;
   }
-  
-  // Standard formula for prograde orbits
-  const cosAzimuth = Math.cos(incRad) / Math.cos(latRad);
-  
-  // Handle impossible orbits (inclination < launch latitude for prograde)
-  if (Math.abs(cosAzimuth) > 1) {
-    // Use minimum energy transfer azimuth
-    return inclination < launchLatitude ? 90 : 45;
+
+  const description = launch.mission.description || '';
+  for (const pattern of DESCRIPTION_INCLINATION_PATTERNS) {
+    const match = description.match(pattern);
+    const inclination = match ? parseFloat(match[1]) : NaN;
+    if (inclination >= 0 && inclination <= 180) {
+      return inclination;
+    }
   }
-  
-  let azimuth = Math.acos(cosAzimuth) * 180 / Math.PI;
-  
-  // Most prograde missions use ascending node (eastward launch)
-  return Math.round(azimuth);
+  return undefined;
+}
+
+/**
+ * Solve the launch azimuth for an inclination from the launch's pad, Cape Canaveral when unknown
+ */
+function solveAzimuthForLaunch(launch: Launch, inclination: number): LaunchAzimuthSolutions {
+  // Some feeds omit the pad entirely
+  const pad = launch.pad?.location ? extractLaunchCoordinates(launch) : undefined;
+  const text = `${launch.mission.name} ${launch.mission.description || ''}`.toLowerCase();
+  const southbound = text.includes('southbound') || text.includes('southeast');
+  return solveLaunchAzimuth(inclination, pad?.available ? pad.latitude : 28.5, {
+    heading: southbound ? 'southbound' : undefined
+  });
 }
 
 /**
@@ -197,12 +215,12 @@ function analyzeOrbitParameters(launch: Launch): OrbitParameters {
     };
   }
   
-  // Default LEO parameters
+  // Default LEO parameters when nothing identifies the orbit
   return {
     inclination: 45,
     apogee: 400,
     perigee: 400,
-    orbitType: 'LEO'
+    orbitType: 'Unknown'
   };
 }
 
@@ -220,12 +238,47 @@ function azimuthToDirection(azimuth: number): TrajectoryMapping['direction'] {
     return 'East-Southeast';
   } else if (azimuth >= 135 && azimuth <= 165) {
     return 'Southeast';
+  } else if (azimuth > 165 && azimuth <= 195) {
+    return 'South';
+  } else if (azimuth >= 345 || azimuth < 15) {
+    return 'North';
   } else {
     // Default to northeast for unusual azimuths
     return 'Northeast';
   }
 }
 
+// Representative launch azimuth for each direction
+const DIRECTION_AZIMUTHS: Record<TrajectoryMapping['direction'], number> = {
+  'North': 0,
+  'Northeast': 45,
+  'East-Northeast': 67,
+  'East': 90,
+  'East-Southeast': 112,
+  'Southeast': 135,
+  'South': 180
+};
+
+/**
+ * Mapping from a user override: explicit azimuth, then the ground track's first leg, then the direction
+ */
+function getManualMapping(override: TrajectoryOverride): TrajectoryMapping {
+  const track = override.groundTrack;
+  const azimuth = override.azimuth ?? (track && track.length >= 2
+    ? Math.round(calculateBearing(
+      { lat: track[0].latitude, lng: track[0].longitude },
+      { lat: track[1].latitude, lng: track[1].longitude }
+    ))
+    : DIRECTION_AZIMUTHS[override.direction ?? 'Northeast']);
+
+  return {
+    azimuth,
+    direction: override.direction ?? azimuthToDirection(azimuth),
+    confidence: 'high',
+    source: 'manual'
+  };
+}
+
 /**
  * Main function to get accurate trajectory mapping for a launch
  */
@@ -234,6 +287,26 @@ export function getTrajectoryMapping(launch: Launch): TrajectoryMapping {
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const orbitName = launch.mission.orbit?.name?.toLowerCase() || '';
   
+  // A user override beats every automated source
+  const override = trajectoryOverrideService.getOverride(launch.id);
+  if (override) {
+    return getManualMapping(override);
+  }
+  
+  // Step 0: A published target inclination beats any name matching
+  const publishedInclination = getPublishedInclination(launch);
+  if (publishedInclination !== undefined) {
+    const solution = solveAzimuthForLaunch(launch, publishedInclination);
+    const azimuth = Math.round(solution.preferred.azimuth);
+    return {
+      azimuth,
+      direction: azimuthToDirection(azimuth),
+      confidence: 'high',
+      source: 'orbital-mechanics',
+      orbitParameters: { ...analyzeOrbitParameters(launch), inclination: publishedInclination },
+      azimuthSolution: solution
+    };
+  }
   
   // Step 1: Check mission trajectory database first (highest confidence)
   const missionKey = missionName
@@ -366,18 +439,20 @@ export function getTrajectoryMapping(launch: Launch): TrajectoryMapping {
     }
   }
   
-  // Step 3: Use orbital mechanics calculation
+  // Step 3: Solve for the inclination typical of the orbit or mission type
   const orbitParams = analyzeOrbitParameters(launch);
-  const calculatedAzimuth = calculateLaunchAzimuthFromInclination(orbitParams.inclination);
+  const solution = solveAzimuthForLaunch(launch, orbitParams.inclination);
+  const calculatedAzimuth = Math.round(solution.preferred.azimuth);
   const direction = azimuthToDirection(calculatedAzimuth);
-  
+  const isGuess = orbitParams.orbitType === 'Unknown';
   
   return {
     azimuth: calculatedAzimuth,
     direction,
-    confidence: 'medium',
-    source: 'orbital-mechanics',
-    orbitParameters: orbitParams
+    confidence: isGuess ? 'low' : 'medium',
+    source: isGuess ? 'fallback' : 'mission-type',
+    orbitParameters: orbitParams,
+    azimuthSolution: solution
   };
 }
 
@@ -0,0 +1,272 @@
+/**
+ * Trajectory Override Service
+ * Per-launch corrections to the automated trajectory mapping: a launch
+ * azimuth, a direction or a hand-entered ground track. Overrides live in
+ * IndexedDB (separate from the cache so clearing the cache keeps them) and
+ * are held in memory so trajectory lookups stay synchronous.
+ */
+
+import { GroundTrackPoint, TrajectoryOverride } from '../types';
+
+const DB_NAME = 'BermudaRocketTrackerOverrides';
+const DB_VERSION = 1;
+const STORE_NAME = 'trajectoryOverrides';
+const EXPORT_VERSION = 1;
+
+export const OVERRIDE_DIRECTIONS: NonNullable<TrajectoryOverride['direction']>[] = [
+  'North', 'Northeast', 'East-Northeast', 'East', 'East-Southeast', 'Southeast', 'South'
+];
+
+export interface TrajectoryOverrideExport {
+  version: number;
+  exportedAt: string;
+  overrides: TrajectoryOverride[];
+}
+
+export interface TrajectoryOverrideImportResult {
+  imported: number;
+  skipped: string[]; // reasons for entries that were not imported
+}
+
+/**
+ * Validate an override, returning a list of problems (empty when valid)
+ */
+export function validateTrajectoryOverride(override: Partial<TrajectoryOverride>): string[] {
+  const errors: string[] = [];
+
+  if (!override.launchId || !override.launchId.trim()) {
+    errors.push('Launch id is required');
+  }
+  if (override.azimuth === undefined && !override.direction && !override.groundTrack?.length) {
+    errors.push('Set an azimuth, a direction or a ground track');
+  }
+  if (override.azimuth !== undefined &&
+      (typeof override.azimuth !== 'number' || isNaN(override.azimuth) || override.azimuth < 0 || override.azimuth >= 360)) {
+    errors.push('Azimuth must be between 0 and 360 degrees');
+  }
+  if (override.direction && !OVERRIDE_DIRECTIONS.includes(override.direction)) {
+    errors.push(`Direction must be one of ${OVERRIDE_DIRECTIONS.join(', ')}`);
+  }
+  if (override.groundTrack) {
+    errors.push(...validateGroundTrack(override.groundTrack));
+  }
+
+  return errors;
+}
+
+function validateGroundTrack(track: GroundTrackPoint[]): string[] {
+  if (!Array.isArray(track) || track.length < 2) {
+    return ['Ground track needs at least two points'];
+  }
+
+  const errors: string[] = [];
+  track.forEach((point, index) => {
+    const valid = typeof point.time === 'number' && point.time >= 0 &&
+      typeof point.latitude === 'number' && point.latitude >= -90 && point.latitude <= 90 &&
+      typeof point.longitude === 'number' && point.longitude >= -180 && point.longitude <= 180 &&
+      typeof point.altitude === 'number' && point.altitude >= 0;
+    if (!valid) {
+      errors.push(`Ground track point ${index + 1} needs time >= 0, latitude, longitude and altitude >= 0 km`);
+    } else if (index > 0 && point.time <= track[index - 1].time) {
+      errors.push(`Ground track point ${index + 1} must be later than the point before it`);
+    }
+  });
+  return errors;
+}
+
+export class TrajectoryOverrideService {
+  private overrides = new Map<string, TrajectoryOverride>();
+  private subscribers: Array<(overrides: TrajectoryOverride[]) => void> = [];
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.loadOverrides();
+  }
+
+  private openDB(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'launchId' });
+          }
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Load stored overrides into memory
+   */
+  private async loadOverrides(): Promise<void> {
+    if (typeof indexedDB === 'undefined') {
+      return;
+    }
+
+    try {
+      const db = await this.openDB();
+      const request = db.transaction([STORE_NAME], 'readonly').objectStore(STORE_NAME).getAll();
+      const stored = await new Promise<TrajectoryOverride[]>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result || []);
+        request.onerror = () => reject(request.error);
+      });
+      stored
+        .filter(override => validateTrajectoryOverride(override).length === 0)
+        .forEach(override => this.overrides.set(override.launchId, override));
+      if (stored.length > 0) {
+        this.notifySubscribers();
+      }
+    } catch (error) {
+      console.warn('[TrajectoryOverrides] Failed to load overrides:', error);
+    }
+  }
+
+  /**
+   * Write one override (or its removal) to IndexedDB; memory is already up to date
+   */
+  private async persist(launchId: string): Promise<void> {
+    if (typeof indexedDB === 'undefined') {
+      return;
+    }
+
+    try {
+      const db = await this.openDB();
+      const store = db.transaction([STORE_NAME], 'readwrite').objectStore(STORE_NAME);
+      const override = this.overrides.get(launchId);
+      const request = override ? store.put(override) : store.delete(launchId);
+      await new Promise<void>((resolve, reject) => {
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+    } catch (error) {
+      console.error(`[TrajectoryOverrides] Failed to save override for ${launchId}:`, error);
+    }
+  }
+
+  /**
+   * Resolves once stored overrides have been loaded
+   */
+  whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  getOverride(launchId: string): TrajectoryOverride | undefined {
+    return this.overrides.get(launchId);
+  }
+
+  getOverrides(): TrajectoryOverride[] {
+    return Array.from(this.overrides.values()).sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Add or replace the override for a launch. Returns the stored override.
+   */
+  async saveOverride(override: Omit<TrajectoryOverride, 'updatedAt'> & { updatedAt?: number }): Promise<TrajectoryOverride> {
+    const errors = validateTrajectoryOverride(override);
+    if (errors.length > 0) {
+      throw new Error(`Invalid trajectory override: ${errors.join('; ')}`);
+    }
+
+    const stored: TrajectoryOverride = {
+      launchId: override.launchId.trim(),
+      missionName: override.missionName,
+      azimuth: override.azimuth,
+      direction: override.direction,
+      groundTrack: override.groundTrack?.length ? override.groundTrack : undefined,
+      groundTrackFile: override.groundTrack?.length ? override.groundTrackFile : undefined,
+      note: override.note?.trim() || undefined,
+      updatedAt: override.updatedAt ?? Date.now()
+    };
+
+    this.overrides.set(stored.launchId, stored);
+    this.notifySubscribers();
+    await this.persist(stored.launchId);
+    return stored;
+  }
+
+  async removeOverride(launchId: string): Promise<void> {
+    if (!this.overrides.delete(launchId)) {
+      return;
+    }
+    this.notifySubscribers();
+    await this.persist(launchId);
+  }
+
+  /**
+   * Serialize every override for sharing
+   */
+  exportOverrides(): string {
+    const data: TrajectoryOverrideExport = {
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      overrides: this.getOverrides()
+    };
+    return JSON.stringify(data, null, 2);
+  }
+
+  /**
+   * Import overrides exported by another user. Newer local edits are kept.
+   */
+  async importOverrides(json: string): Promise<TrajectoryOverrideImportResult> {
+    let parsed: Partial<TrajectoryOverrideExport>;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new Error('Override file is not valid JSON');
+    }
+    if (!parsed || !Array.isArray(parsed.overrides)) {
+      throw new Error('Override file has no overrides list');
+    }
+
+    const result: TrajectoryOverrideImportResult = { imported: 0, skipped: [] };
+    for (const entry of parsed.overrides) {
+      const label = entry?.launchId || 'entry without launch id';
+      const errors = validateTrajectoryOverride(entry ?? {});
+      if (errors.length > 0) {
+        result.skipped.push(`${label}: ${errors.join('; ')}`);
+        continue;
+      }
+      const existing = this.overrides.get(entry.launchId);
+      if (existing && existing.updatedAt > (entry.updatedAt ?? 0)) {
+        result.skipped.push(`${label}: local override is newer`);
+        continue;
+      }
+      await this.saveOverride(entry);
+      result.imported++;
+    }
+    return result;
+  }
+
+  /**
+   * Subscribe to override changes
+   */
+  subscribe(callback: (overrides: TrajectoryOverride[]) => void): () => void {
+    this.subscribers.push(callback);
+
+    return () => {
+      const index = this.subscribers.indexOf(callback);
+      if (index > -1) {
+        this.subscribers.splice(index, 1);
+      }
+    };
+  }
+
+  private notifySubscribers(): void {
+    const overrides = this.getOverrides();
+    this.subscribers.forEach(callback => {
+      try {
+        callback(overrides);
+      } catch (error) {
+        console.error('Error in trajectory override subscriber:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const trajectoryOverrideService = new TrajectoryOverrideService();
@@ -1,14 +1,15 @@
-import { Launch, TrajectoryPoint } from '../types';
+import { Launch, TrajectoryOverride, TrajectoryPoint } from '../types';
+import { getObserverLocation } from './observerLocationService';
+import { AscentSimulator } from './ascentSimulator';
+import { trajectoryOverrideService } from './trajectoryOverrideService';
+import { getVehicleProfile, getVehicleTimeline, VehicleProfile } from '../utils/vehicleCatalogue';
 
-// Bermuda coordinates for distance calculations
-const BERMUDA_LAT = 32.3078;
-const BERMUDA_LNG = -64.7505;
 const EARTH_RADIUS_KM = 6371;
 
 
 export interface TrajectoryData {
   launchId: string;
-  source: 'flightclub' | 'spacelaunchschedule' | 'celestrak' | 'none';
+  source: 'flightclub' | 'spacelaunchschedule' | 'celestrak' | 'manual' | 'ground-track' | 'none';
   points: TrajectoryPoint[];
   imageUrl?: string;
   trajectoryDirection?: 'Northeast' | 'East-Northeast' | 'East' | 'East-Southeast' | 'Southeast' | 'North' | 'South' | 'Unknown';
@@ -78,7 +79,7 @@ function calculateElevationAngle(distance: number, altitude: number): number {
  * Determine rocket stage and engine status from Flight Club telemetry data
  * This will be enhanced to use actual Flight Club stage events when available
  */
-function determineStageInfoFromTelemetry(timeSeconds: number, stageNumber?: number, events?: Array<{time: number, event: string, engineType?: string}>): { stage: TrajectoryPoint['stage'], engineStatus: TrajectoryPoint['engineStatus'] } {
+function determineStageInfoFromTelemetry(timeSeconds: number, stageNumber?: number, events?: Array<{time: number, event: string, engineType?: string}>, vehicle?: VehicleProfile): { stage: TrajectoryPoint['stage'], engineStatus: TrajectoryPoint['engineStatus'] } {
   // If we have Flight Club stage number, use it
   if (stageNumber !== undefined) {
     if (stageNumber === 1) {
@@ -98,19 +99,16 @@ function determineStageInfoFromTelemetry(timeSeconds: number, stageNumber?: numb
     }
   }
   
-  // Fallback to typical Falcon 9 flight profile timings when Flight Club data unavailable
-  const FIRST_STAGE_BURN_END = 162; // ~2:42 - First stage MECO
-  const STAGE_SEPARATION = 165; // ~2:45 - Stage separation
-  const SECOND_STAGE_IGNITION = 168; // ~2:48 - Second stage MVac ignition  
-  const SECOND_STAGE_BURN_END = 540; // ~9:00 - Second stage SECO-1
+  // Fallback to the vehicle's typical flight profile timings when Flight Club data unavailable
+  const timeline = getVehicleTimeline(vehicle ?? getVehicleProfile());
   
-  if (timeSeconds <= FIRST_STAGE_BURN_END) {
+  if (timeSeconds <= timeline.meco) {
     return { stage: 'first', engineStatus: 'burning' };
-  } else if (timeSeconds <= STAGE_SEPARATION) {
+  } else if (timeSeconds <= timeline.stageSeparation) {
     return { stage: 'first', engineStatus: 'shutdown' };
-  } else if (timeSeconds <= SECOND_STAGE_IGNITION) {
+  } else if (timeSeconds <= timeline.upperStageIgnition) {
     return { stage: 'separation', engineStatus: 'separation' };
-  } else if (timeSeconds <= SECOND_STAGE_BURN_END) {
+  } else if (timeSeconds <= timeline.seco) {
     return { stage: 'second-burn', engineStatus: 'burning' };
   } else {
     return { stage: 'second-coast', engineStatus: 'shutdown' };
@@ -120,11 +118,11 @@ function determineStageInfoFromTelemetry(timeSeconds: number, stageNumber?: numb
 /**
  * Process trajectory points and determine visibility from Bermuda
  */
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
 function processTrajectoryPoints(points: Array<{time: number, lat: number, lng: number, alt: number}>): TrajectoryPoint[] {
   return points.map(point => {
-    const distance = calculateDistance(BERMUDA_LAT, BERMUDA_LNG, point.lat, point.lng);
-    const bearing = calculateBearing(BERMUDA_LAT, BERMUDA_LNG, point.lat, point.lng);
+    const observer = getObserverLocation();
+    const distance = calculateDistance(observer.latitude, observer.longitude, point.lat, point.lng);
+    const bearing = calculateBearing(observer.latitude, observer.longitude, point.lat, point.lng);
     const elevationAngle = calculateElevationAngle(distance, point.alt);
     const visible = elevationAngle > 0; // Above horizon check
     const stageInfo = determineStageInfoFromTelemetry(point.time);
@@ -223,7 +221,8 @@ async function fetchFlightClubTrajectory(launchLibraryId: string, launch: Launch
 
     // Get enhanced simulation data with stage information
     const simulationData = await FlightClubApiService.getSimulationData(primarySimId, launchLibraryId, {
-      fallbackMissionId: fallbackSimId
+      fallbackMissionId: fallbackSimId,
+      launchTime: launch.net
     });
     
     if (!simulationData.enhancedTelemetry || simulationData.enhancedTelemetry.length === 0) {
@@ -246,14 +245,16 @@ async function fetchFlightClubTrajectory(launchLibraryId: string, launch: Launch
     }
     
     // Convert enhanced telemetry to our trajectory format with stage information
+    const vehicle = getVehicleProfile(launch);
     const points: TrajectoryPoint[] = telemetry.map((frame: any) => {
       // Enhanced telemetry already has calculated values
       const distance = frame.distanceFromBermuda;
       const bearing = frame.bearingFromBermuda;
-      const visible = frame.aboveHorizon;
+      // Visible means above the horizon and bright enough after extinction
+      const visible = frame.nakedEyeVisible ?? frame.aboveHorizon;
       
       // Use Flight Club stage data if available, otherwise fallback to time-based estimation
-      const stageInfo = determineStageInfoFromTelemetry(frame.time, frame.stageNumber);
+      const stageInfo = determineStageInfoFromTelemetry(frame.time, frame.stageNumber, undefined, vehicle);
       
       return {
         time: frame.time,
@@ -262,7 +263,7 @@ async function fetchFlightClubTrajectory(launchLibraryId: string, launch: Launch
         altitude: frame.altitude,
         distance,
         bearing,
-        aboveHorizon: visible,
+        aboveHorizon: frame.aboveHorizon,
         elevationAngle: frame.elevationAngle || calculateElevationAngle(distance, frame.altitude),
         visible,
         stage: stageInfo.stage,
@@ -445,6 +446,12 @@ async function fetchSpaceLaunchScheduleImage(launchLibraryId: string, launch?: L
 export async function getTrajectoryData(launch: Launch): Promise<TrajectoryData> {
   const launchId = launch.id;
   
+  // A user override beats every automated source and is never cached, so edits apply at once
+  const override = trajectoryOverrideService.getOverride(launchId);
+  if (override) {
+    return getManualTrajectory(launch, override);
+  }
+  
   // Check cache first with proximity-based expiration
   const cached = trajectoryCache.get(launchId);
   const cacheExpiry = getCacheExpiryForLaunch(launch.net);
@@ -499,12 +506,13 @@ export async function getTrajectoryData(launch: Launch): Promise<TrajectoryData>
           
           if (analysis.success && analysis.trajectoryPoints.length > 0) {
             const points: TrajectoryPoint[] = analysis.trajectoryPoints.map((point, index) => {
-              const distance = calculateDistance(BERMUDA_LAT, BERMUDA_LNG, point.lat, point.lng);
-              const bearing = calculateBearing(BERMUDA_LAT, BERMUDA_LNG, point.lat, point.lng);
+              const observer = getObserverLocation();
+              const distance = calculateDistance(observer.latitude, observer.longitude, point.lat, point.lng);
+              const bearing = calculateBearing(observer.latitude, observer.longitude, point.lat, point.lng);
               const elevationAngle = calculateElevationAngle(distance, 150000);
               
               // Determine stage for this trajectory point
-              const stageInfo = determineStageInfoFromTelemetry(index * 30);
+              const stageInfo = determineStageInfoFromTelemetry(index * 30, undefined, undefined, getVehicleProfile(launch));
               
               return {
                 time: index * 30,
@@ -712,6 +720,41 @@ function validateTrajectoryDirection(launch: Launch, externalDirection: string |
   return externalDirection as TrajectoryData['trajectoryDirection'];
 }
 
+/**
+ * Trajectory from a user override: the entered or imported ground track, or the simulated ascent along the override azimuth
+ */
+function getManualTrajectory(launch: Launch, override: TrajectoryOverride): TrajectoryData {
+  const { getTrajectoryMapping } = require('./trajectoryMappingService');
+  const trajectoryDirection = getTrajectoryMapping(launch).direction;
+  
+  if (!override.groundTrack?.length) {
+    return {
+      ...generateRealisticTrajectory(launch),
+      source: 'manual',
+      confidence: 'projected',
+      lastUpdated: new Date(override.updatedAt)
+    };
+  }
+  
+  const points = processTrajectoryPoints(override.groundTrack.map(point => ({
+    time: point.time,
+    lat: point.latitude,
+    lng: point.longitude,
+    alt: point.altitude * 1000 // meters
+  })));
+  
+  return {
+    launchId: launch.id,
+    source: override.groundTrackFile ? 'ground-track' : 'manual',
+    points,
+    trajectoryDirection,
+    visibilityWindow: calculateVisibilityWindow(points),
+    realTelemetry: false,
+    confidence: 'confirmed',
+    lastUpdated: new Date(override.updatedAt)
+  };
+}
+
 /**
  * Generate trajectory from known direction
  */
@@ -766,93 +809,37 @@ function generateRealisticTrajectory(launch: Launch): TrajectoryData {
   const azimuth = trajectoryMapping.azimuth;
   const trajectoryDirection = trajectoryMapping.direction;
   
-  // Generate trajectory points over 10 minutes (600 seconds)
-  const points: TrajectoryPoint[] = [];
-  const startLat = coordinates.latitude;
-  const startLng = coordinates.longitude;
+  // Simulate the ascent for this vehicle and sample it over 10 minutes (600 seconds)
+  const ascent = AscentSimulator.simulate({
+    azimuth,
+    launchSite: { latitude: coordinates.latitude, longitude: coordinates.longitude },
+    observer: getObserverLocation(),
+    vehicle: AscentSimulator.getPreset(launch),
+    durationSeconds: 600,
+    sampleSeconds: 30 // Every 30 seconds
+  });
   
-  for (let t = 0; t <= 600; t += 30) { // Every 30 seconds
-    // Realistic velocity model for Falcon 9
-    let velocity; // km/s
-    let altitude; // meters
-    
-    if (t <= 162) {
-      // First stage burn: 0 to ~2.4 km/s, 0 to ~80km altitude
-      velocity = (t / 162) * 2.4;
-      altitude = Math.pow(t / 162, 1.8) * 80000; // Non-linear altitude gain
-    } else if (t <= 165) {
-      // Stage separation: maintain velocity, slight altitude gain
-      velocity = 2.4;
-      altitude = 80000 + (t - 162) * 1000; // +3km during separation
-    } else if (t <= 540) {
-      // Second stage burn: 2.4 to ~7.8 km/s, 80km to ~200km
-      const secondStageProgress = (t - 165) / (540 - 165);
-      velocity = 2.4 + secondStageProgress * 5.4; // Reach orbital velocity
-      altitude = 80000 + Math.pow(secondStageProgress, 1.2) * 120000; // Reach ~200km
-    } else {
-      // Coasting: maintain orbital velocity and altitude
-      velocity = 7.8;
-      altitude = 200000 + (t - 540) * 100; // Slight altitude increase
-    }
-    
-    // Calculate distance traveled (integral of velocity over time)
-    const distanceKm = t <= 30 ? t * 0.3 : // Start slow
-                      t <= 162 ? Math.pow(t / 162, 2) * 2.4 * 162 : // First stage acceleration
-                      t <= 165 ? 194 + (t - 162) * 2.4 : // Separation
-                      194 + 7.2 + ((t - 165) / (540 - 165)) * 1800; // Second stage
-    
-    const azimuthRad = azimuth * Math.PI / 180;
-    
-    // Project position using great circle math
-    const angularDistance = distanceKm / EARTH_RADIUS_KM;
-    const lat1Rad = startLat * Math.PI / 180;
-    const lng1Rad = startLng * Math.PI / 180;
-    
-    const lat2Rad = Math.asin(
-      Math.sin(lat1Rad) * Math.cos(angularDistance) +
-      Math.cos(lat1Rad) * Math.sin(angularDistance) * Math.cos(azimuthRad)
-    );
-    
-    const lng2Rad = lng1Rad + Math.atan2(
-      Math.sin(azimuthRad) * Math.sin(angularDistance) * Math.cos(lat1Rad),
-      Math.cos(angularDistance) - Math.sin(lat1Rad) * Math.sin(lat2Rad)
-    );
-    
-    const lat = lat2Rad * 180 / Math.PI;
-    const lng = lng2Rad * 180 / Math.PI;
-    
-    // Calculate distance and bearing from Bermuda
-    const distance = calculateDistance(BERMUDA_LAT, BERMUDA_LNG, lat, lng);
-    const bearing = calculateBearing(BERMUDA_LAT, BERMUDA_LNG, lat, lng);
-    const elevationAngle = calculateElevationAngle(distance, altitude);
+  const points: TrajectoryPoint[] = ascent.points.map(point => {
+    const altitude = point.altitude * 1000; // meters
+    const elevationAngle = calculateElevationAngle(point.distance, altitude);
     
     // Enhanced visibility logic: ISS missions are visible at high altitudes
     // Second stage visibility starts when rocket is above atmosphere and lit by sun
-    const isSecondStage = t > 165; // After stage separation
+    const isSecondStage = point.stage !== 'first'; // After stage separation
     const isHighAltitude = altitude > 80000; // Above 80km (above atmosphere)
     const hasReasonableElevation = elevationAngle > -2; // Allow slightly below horizon due to refraction
-    const withinVisibilityRange = distance < 1500; // Within 1500km visibility range
+    const withinVisibilityRange = point.distance < 1500; // Within 1500km visibility range
     
     const visible = isSecondStage && isHighAltitude && hasReasonableElevation && withinVisibilityRange;
     
-    // Determine stage for this trajectory point
-    const stageInfo = determineStageInfoFromTelemetry(t);
-    
-    points.push({
-      time: t,
-      latitude: lat,
-      longitude: lng,
+    return {
+      ...point,
       altitude,
-      distance,
-      bearing,
       aboveHorizon: visible,
       elevationAngle,
-      visible,
-      stage: stageInfo.stage,
-      engineStatus: stageInfo.engineStatus,
-      velocity: velocity * 1000 // Convert km/s to m/s for consistency
-    });
-  }
+      visible
+    };
+  });
   
   const visibilityWindow = calculateVisibilityWindow(points);
   
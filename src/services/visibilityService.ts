@@ -1,7 +1,14 @@
-import { Launch, VisibilityData, EnhancedVisibilityData, LaunchPad, LaunchWithFlightClub } from '../types';
+import { GroundTrackPoint, Launch, VisibilityData, EnhancedVisibilityData, LaunchPad, LaunchWithFlightClub, ObserverLocation, ObserverVisibilityComparison, VisibilityWindow, LaunchWindowSweep } from '../types';
 import { extractLaunchCoordinates } from '../utils/launchCoordinates';
 import { BermudaTimeService } from './bermudaTimeService';
 import { FlightClubApiService } from './flightClubApiService';
+import { SolarPositionCalculator } from './solarPositionCalculator';
+import { DEFAULT_OBSERVER_LOCATION, getObserverLocation, observerLocationService } from './observerLocationService';
+import { isAboveHorizonMask } from '../utils/horizonMask';
+import { BrightnessTimelineService } from './brightnessTimelineService';
+import { WeatherService } from './weatherService';
+import { applyHazeToFrames, assessHaze } from '../utils/hazeModel';
+import { trajectoryOverrideService } from './trajectoryOverrideService';
 
 // ROCKET VISIBILITY FROM BERMUDA - PHYSICS-BASED CALCULATIONS
 //
@@ -18,10 +25,6 @@ import { FlightClubApiService } from './flightClubApiService';
 // - Southeast launches (110-135° azimuth): visible 135-165° bearing (southeast)
 // - Plume appears low on horizon, climbs and fades by T+9 min
 
-// Bermuda coordinates
-const BERMUDA_LAT = 32.3078;
-const BERMUDA_LNG = -64.7505;
-
 const SCORE_BY_LIKELIHOOD: Record<VisibilityData['likelihood'], number> = {
   high: 0.9,
   medium: 0.6,
@@ -100,8 +103,8 @@ function classifyOrbit(launch: Launch | LaunchWithFlightClub): OrbitClassificati
   return classification;
 }
 
-function normalizeVisibilityOutput(launch: Launch | LaunchWithFlightClub, baseData: VisibilityData): VisibilityData {
-  const normalized: VisibilityData = {
+function normalizeVisibilityOutput<T extends VisibilityData>(launch: Launch | LaunchWithFlightClub, baseData: T): T {
+  const normalized: T = {
     ...baseData,
     dataSource: baseData.dataSource ?? 'calculated'
   };
@@ -138,6 +141,8 @@ function normalizeVisibilityOutput(launch: Launch | LaunchWithFlightClub, baseDa
   }
 
   const orbitClass = classifyOrbit(launch);
+  // Telemetry brightness estimates are physical; orbit heuristics must not override them
+  const hasBrightnessEstimate = normalized.peakMagnitude !== undefined;
 
   switch (orbitClass) {
     case 'polar': {
@@ -148,7 +153,7 @@ function normalizeVisibilityOutput(launch: Launch | LaunchWithFlightClub, baseDa
     }
     case 'leo': {
       ensureFactor(factors, 'LEO trajectory has limited visibility from Bermuda');
-      if (normalized.likelihood === 'high' || normalized.likelihood === 'medium') {
+      if (!hasBrightnessEstimate && (normalized.likelihood === 'high' || normalized.likelihood === 'medium')) {
         normalized.likelihood = 'low';
       }
       if (!normalized.reason) {
@@ -158,6 +163,9 @@ function normalizeVisibilityOutput(launch: Launch | LaunchWithFlightClub, baseDa
     }
     case 'gto': {
       ensureFactor(factors, 'High-energy GTO trajectory favors Bermuda visibility');
+      if (hasBrightnessEstimate) {
+        break;
+      }
       if (lightingStatus === 'day') {
         normalized.likelihood = 'medium';
       } else if (normalized.likelihood === 'low') {
@@ -167,13 +175,16 @@ function normalizeVisibilityOutput(launch: Launch | LaunchWithFlightClub, baseDa
     }
     case 'interplanetary': {
       ensureFactor(factors, 'High-energy interplanetary trajectory provides good visibility');
-      if (normalized.likelihood === 'low') {
+      if (!hasBrightnessEstimate && normalized.likelihood === 'low') {
         normalized.likelihood = lightingStatus === 'day' ? 'medium' : 'high';
       }
       break;
     }
     case 'unknown': {
       ensureFactor(factors, 'Unknown orbit type');
+      if (hasBrightnessEstimate) {
+        break;
+      }
       normalized.likelihood = 'none';
       normalized.reason = 'Unknown orbit type - defaulting to not visible from Bermuda';
       break;
@@ -250,9 +261,9 @@ function calculateBearing(lat1: number, lng1: number, lat2: number, lng2: number
   return (bearing + 360) % 360;
 }
 
-// Helper function to calculate bearing from Bermuda to a point
-function calculateBearingFromBermuda(lat: number, lng: number): number {
-  return calculateBearing(BERMUDA_LAT, BERMUDA_LNG, lat, lng);
+// Helper function to calculate bearing from the observer to a point
+function calculateBearingFromBermuda(lat: number, lng: number, observer: ObserverLocation = getObserverLocation()): number {
+  return calculateBearing(observer.latitude, observer.longitude, lat, lng);
 }
 
 
@@ -264,8 +275,9 @@ function isTrajectoryVisible(padLocation: { latitude: number; longitude: number
   // Falcon 9 second stage: 150-210km altitude at T+5-8min → 1,400-1,600km visibility ring
   // 
   // Current implementation: Simple distance check (to be enhanced with real trajectory data)
+  const observer = getObserverLocation();
   const distance = calculateDistance(
-    BERMUDA_LAT, BERMUDA_LNG,
+    observer.latitude, observer.longitude,
     padLocation.latitude, padLocation.longitude
   );
   
@@ -434,7 +446,7 @@ function calculateElevationAngle(distance: number, altitude: number): number {
 }
 
 // Helper function to calculate visibility duration for second stage
-function calculateVisibilityDuration(trajectoryPoints: any[]): { 
+function calculateVisibilityDuration(trajectoryPoints: any[], observer: ObserverLocation = getObserverLocation()): { 
   startTime: number; 
   endTime: number; 
   durationSeconds: number; 
@@ -447,11 +459,14 @@ function calculateVisibilityDuration(trajectoryPoints: any[]): {
   
   // Find when rocket rises above and sets below horizon
   for (const point of trajectoryPoints) {
-    const distance = calculateDistance(BERMUDA_LAT, BERMUDA_LNG, point.latitude, point.longitude);
+    const distance = calculateDistance(observer.latitude, observer.longitude, point.latitude, point.longitude);
     const altitude = point.altitude / 1000; // Convert to km
     const elevation = calculateElevationAngle(distance, altitude);
+    const bearing = calculateBearingFromBermuda(point.latitude, point.longitude, observer);
+    // FlightClub frames carry a refraction/extinction-aware visibility flag
+    const isVisible = point.nakedEyeVisible ?? (elevation > 0 && isAboveHorizonMask(observer.horizonMask, bearing, elevation));
     
-    if (elevation > 0) {
+    if (isVisible) {
       visiblePointCount++;
       if (visibilityStart === null) {
         visibilityStart = point.time;
@@ -482,7 +497,7 @@ function calculateVisibilityDuration(trajectoryPoints: any[]): {
 
 // Process Flight Club telemetry data for visibility calculation
 // Helper function to detect ISS/Cygnus missions
-function isISSMission(launch: Launch | LaunchWithFlightClub): boolean {
+export function isISSMission(launch: Launch | LaunchWithFlightClub): boolean {
   const missionName = launch.mission?.name?.toLowerCase() || '';
   const launchName = launch.name?.toLowerCase() || '';
   
@@ -496,7 +511,10 @@ function isISSMission(launch: Launch | LaunchWithFlightClub): boolean {
          launchName.includes('crs-');
 }
 
-async function calculateVisibilityFromFlightClub(launch: LaunchWithFlightClub): Promise<VisibilityData | null> {
+async function calculateVisibilityFromFlightClub(
+  launch: LaunchWithFlightClub,
+  observer: ObserverLocation
+): Promise<(VisibilityData & { visibilityWindow?: VisibilityWindow }) | null> {
   if (!launch.flightClubMatch || !launch.hasFlightClubData) {
     return null;
   }
@@ -547,7 +565,7 @@ async function calculateVisibilityFromFlightClub(launch: LaunchWithFlightClub):
     const trajectoryData = await FlightClubApiService.getSimulationData(
       primarySimId,
       launch.id, // Pass launchId for caching
-      { fallbackMissionId: fallbackSimId }
+      { fallbackMissionId: fallbackSimId, observer, launchTime: launch.net }
     );
     
     if (!trajectoryData || !trajectoryData.enhancedTelemetry || trajectoryData.enhancedTelemetry.length === 0) {
@@ -558,7 +576,7 @@ async function calculateVisibilityFromFlightClub(launch: LaunchWithFlightClub):
     // Find stage events to determine 2nd stage visibility window
     const stageEvents = trajectoryData.stageEvents || [];
     const stageSeparationEvent = stageEvents.find(e => e.event === 'Stage Separation');
-    const secoEvent = stageEvents.find(e => e.event.includes('SECO') && e.engineType === 'MVac');
+    const secoEvent = stageEvents.find(e => e.event.includes('SECO') && e.stageNumber === 2);
     
     // Use the enhanced telemetry directly
     const allTelemetry = trajectoryData.enhancedTelemetry.sort((a, b) => a.time - b.time);
@@ -584,10 +602,10 @@ async function calculateVisibilityFromFlightClub(launch: LaunchWithFlightClub):
     let visibilityEnd = null;
 
     for (const point of secondStageTelemetry) {
-      const distance = calculateDistance(BERMUDA_LAT, BERMUDA_LNG, point.latitude, point.longitude);
+      const distance = calculateDistance(observer.latitude, observer.longitude, point.latitude, point.longitude);
       const altitude = point.altitude / 1000; // Convert to km
       const elevation = calculateElevationAngle(distance, altitude);
-      const bearing = calculateBearingFromBermuda(point.latitude, point.longitude);
+      const bearing = calculateBearingFromBermuda(point.latitude, point.longitude, observer);
 
       // Track closest approach
       if (distance < minDistance) {
@@ -600,8 +618,9 @@ async function calculateVisibilityFromFlightClub(launch: LaunchWithFlightClub):
         maxElevation = elevation;
       }
 
-      // 2nd stage is visible if above horizon and within reasonable distance
-      if (elevation > 0 && distance < 1500) { // 1500km visibility limit
+      // 2nd stage is visible if above horizon (and horizon mask), bright enough and within reasonable distance
+      const isVisible = point.nakedEyeVisible ?? (elevation > 0 && isAboveHorizonMask(observer.horizonMask, bearing, elevation));
+      if (isVisible && distance < 1500) { // 1500km visibility limit
         visiblePoints.push({
           time: point.time,
           distance,
@@ -615,6 +634,22 @@ async function calculateVisibilityFromFlightClub(launch: LaunchWithFlightClub):
       }
     }
 
+    // Humid haze hides the low-elevation part of the pass
+    const hazeConditions = WeatherService.getHazeConditions(new Date(launch.net), observer);
+    const haze = hazeConditions ? assessHaze(hazeConditions) : null;
+    const hazedWindow = haze ? applyHazeToFrames(visiblePoints, haze) : null;
+    const clearAirSeconds = visibilityStart !== null && visibilityEnd !== null ? visibilityEnd - visibilityStart : 0;
+    const hazeFactors: string[] = [];
+    if (haze && hazedWindow && haze.level !== 'none') {
+      hazeFactors.push(haze.description);
+      if (hazedWindow.lostSeconds > 0) {
+        hazeFactors.push(`Haze shortens visible time from ${(clearAirSeconds / 60).toFixed(1)} to ${(hazedWindow.visibleSeconds / 60).toFixed(1)} minutes`);
+      }
+      visibilityStart = hazedWindow.startTime;
+      visibilityEnd = hazedWindow.endTime;
+    }
+    const hazedPoints = haze ? visiblePoints.filter(point => point.elevation >= haze.hazeElevation) : visiblePoints;
+
     // Determine visibility likelihood based on real data
     let likelihood: VisibilityData['likelihood'];
     let reason: string;
@@ -624,8 +659,15 @@ async function calculateVisibilityFromFlightClub(launch: LaunchWithFlightClub):
     const lightingStatus = getLightingStatusSync(launch.net);
     
     // Calculate visibility duration using our enhanced function
-    const visibilityDurationInfo = calculateVisibilityDuration(secondStageTelemetry);
-    const visibleDuration = visibilityDurationInfo.durationMinutes;
+    const visibilityDurationInfo = calculateVisibilityDuration(secondStageTelemetry, observer);
+    const visibleDuration = hazeFactors.length > 0 && hazedWindow
+      ? hazedWindow.visibleSeconds / 60
+      : visibilityDurationInfo.durationMinutes;
+
+    // Apparent magnitude of vehicle and sunlit plume for each T+ second
+    const brightness = BrightnessTimelineService.summarize(
+      BrightnessTimelineService.buildTimeline(trajectoryData, launch, observer)
+    );
 
     if (visiblePoints.length === 0) {
       likelihood = 'none';
@@ -635,25 +677,21 @@ async function calculateVisibilityFromFlightClub(launch: LaunchWithFlightClub):
       // Calculate average elevation for potential future use
       // const avgElevation = visiblePoints.reduce((sum, p) => sum + p.elevation, 0) / visiblePoints.length;
       
-      // New three-tier visibility system based on real-world observations
-      if (lightingStatus === 'twilight' && maxElevation > 5 && minDistance < 1200) {
-        likelihood = 'high';
-        reason = `Optimal viewing conditions - twilight launch with exhaust plume illuminated by sun against dark sky. Rocket passes ${Math.round(minDistance)}km from Bermuda at max ${Math.round(maxElevation)}° elevation. Visible for ${Math.round(visibleDuration * 10) / 10} minutes`;
-      } else if (lightingStatus === 'night' && maxElevation > 5 && minDistance < 1200) {
-        likelihood = 'high';
-        reason = `Good viewing conditions - night launch with exhaust plume glow clearly visible against dark sky. Rocket passes ${Math.round(minDistance)}km from Bermuda at max ${Math.round(maxElevation)}° elevation. Visible for ${Math.round(visibleDuration * 10) / 10} minutes`;
-      } else if (lightingStatus === 'night' && maxElevation > 0 && minDistance < 1500) {
-        likelihood = 'medium';
-        reason = `Good viewing conditions - night launch with visible exhaust plume. Rocket passes ${Math.round(minDistance)}km from Bermuda at max ${Math.round(maxElevation)}° elevation. Visible for ${Math.round(visibleDuration * 10) / 10} minutes`;
-      } else if (lightingStatus === 'day' && maxElevation > 15 && minDistance < 600) {
-        likelihood = 'low';
-        reason = `Challenging viewing conditions - daytime launch. Look for bright dot or contrail. Rocket passes ${Math.round(minDistance)}km away at ${Math.round(maxElevation)}° elevation. Visible for ${Math.round(visibleDuration * 10) / 10} minutes`;
-      } else if (maxElevation > 0) {
-        likelihood = 'low';
-        reason = `Marginal visibility conditions. Rocket passes ${Math.round(minDistance)}km away at ${Math.round(maxElevation)}° elevation. Visible for ${Math.round(visibleDuration * 10) / 10} minutes. ${lightingStatus === 'day' ? 'Daylight makes viewing challenging' : 'Low viewing angle'}`;
+      ({ likelihood, reason } = ratePass(lightingStatus, minDistance, maxElevation, visibleDuration));
+
+      // Physical brightness drives the high/medium/low label
+      if (brightness.peakMagnitude !== null) {
+        likelihood = brightness.likelihood;
+        reason += `. Peak brightness about magnitude ${brightness.peakMagnitude.toFixed(1)} at T+${Math.floor(brightness.peakTime! / 60)}:${String(brightness.peakTime! % 60).padStart(2, '0')}`;
       } else {
         likelihood = 'none';
-        reason = 'Rocket remains below horizon from Bermuda';
+        reason = `Rocket rises above the horizon but stays fainter than the naked-eye limit. Passes ${Math.round(minDistance)}km from Bermuda at max ${Math.round(maxElevation)}° elevation`;
+      }
+
+      // Everything above the horizon sits inside the haze
+      if (haze && hazedPoints.length === 0 && (likelihood === 'high' || likelihood === 'medium')) {
+        likelihood = 'low';
+        reason += `. ${haze.marineLayer ? 'Marine layer' : 'Haze'} near the horizon is likely to hide the whole pass`;
       }
 
       if (visibilityStart !== null && visibilityEnd !== null) {
@@ -666,6 +704,17 @@ async function calculateVisibilityFromFlightClub(launch: LaunchWithFlightClub):
     // Determine trajectory direction based on telemetry
     const trajectoryDirection = getTrajectoryDirectionFromTelemetry(allTelemetry);
 
+    const visibilityWindow: VisibilityWindow | undefined = hazedPoints.length > 0 ? {
+      startTime: hazedPoints[0].time,
+      endTime: hazedPoints[hazedPoints.length - 1].time,
+      startBearing: hazedPoints[0].bearing,
+      endBearing: hazedPoints[hazedPoints.length - 1].bearing,
+      closestApproach: minDistance,
+      totalVisibleTime: hazedWindow ? hazedWindow.visibleSeconds : clearAirSeconds,
+      peakVisibilityTime: hazedPoints.reduce((peak, point) => point.elevation > peak.elevation ? point : peak).time,
+      quality: likelihood === 'high' ? 'excellent' : likelihood === 'medium' ? 'good' : likelihood === 'low' ? 'fair' : 'poor'
+    } : undefined;
+
     return {
       likelihood,
       reason,
@@ -674,14 +723,18 @@ async function calculateVisibilityFromFlightClub(launch: LaunchWithFlightClub):
       trajectoryDirection,
       dataSource: 'flightclub' as const,
       score: likelihood === 'high' ? 0.9 : likelihood === 'medium' ? 0.6 : likelihood === 'low' ? 0.3 : 0,
+      peakMagnitude: brightness.peakMagnitude,
       factors: [
         `Flight Club telemetry data used`,
+        ...(brightness.peakMagnitude !== null ? [`Peak brightness: magnitude ${brightness.peakMagnitude.toFixed(1)}`] : []),
         `Closest approach: ${Math.round(minDistance)}km`,
         `Maximum elevation: ${Math.round(maxElevation)}°`,
         `Visible duration: ${Math.round(visibleDuration)} minutes`,
+        ...hazeFactors,
         `Time of day: ${lightingStatus}`,
         `Data confidence: ${launch.flightClubMatch.confidence}`
-      ]
+      ],
+      visibilityWindow
     };
 
   } catch (error) {
@@ -690,6 +743,98 @@ async function calculateVisibilityFromFlightClub(launch: LaunchWithFlightClub):
   }
 }
 
+/**
+ * Three-tier likelihood for a pass from its geometry and the lighting at launch,
+ * based on real-world observations
+ */
+function ratePass(
+  lightingStatus: 'twilight' | 'night' | 'day',
+  minDistance: number,
+  maxElevation: number,
+  visibleMinutes: number
+): Pick<VisibilityData, 'likelihood' | 'reason'> {
+  const pass = `Rocket passes ${Math.round(minDistance)}km from Bermuda at max ${Math.round(maxElevation)}° elevation. Visible for ${Math.round(visibleMinutes * 10) / 10} minutes`;
+  const passAway = `Rocket passes ${Math.round(minDistance)}km away at ${Math.round(maxElevation)}° elevation. Visible for ${Math.round(visibleMinutes * 10) / 10} minutes`;
+
+  if (lightingStatus === 'twilight' && maxElevation > 5 && minDistance < 1200) {
+    return { likelihood: 'high', reason: `Optimal viewing conditions - twilight launch with exhaust plume illuminated by sun against dark sky. ${pass}` };
+  } else if (lightingStatus === 'night' && maxElevation > 5 && minDistance < 1200) {
+    return { likelihood: 'high', reason: `Good viewing conditions - night launch with exhaust plume glow clearly visible against dark sky. ${pass}` };
+  } else if (lightingStatus === 'night' && maxElevation > 0 && minDistance < 1500) {
+    return { likelihood: 'medium', reason: `Good viewing conditions - night launch with visible exhaust plume. ${pass}` };
+  } else if (lightingStatus === 'day' && maxElevation > 15 && minDistance < 600) {
+    return { likelihood: 'low', reason: `Challenging viewing conditions - daytime launch. Look for bright dot or contrail. ${passAway}` };
+  } else if (maxElevation > 0) {
+    return { likelihood: 'low', reason: `Marginal visibility conditions. ${passAway}. ${lightingStatus === 'day' ? 'Daylight makes viewing challenging' : 'Low viewing angle'}` };
+  }
+  return { likelihood: 'none', reason: 'Rocket remains below horizon from Bermuda' };
+}
+
+/**
+ * Visibility along a ground track entered or imported for the launch. Without
+ * telemetry there is no brightness estimate, so the pass is rated on geometry,
+ * lighting and haze alone.
+ */
+function calculateVisibilityFromGroundTrack(
+  launch: Launch | LaunchWithFlightClub,
+  groundTrack: GroundTrackPoint[],
+  observer: ObserverLocation
+): VisibilityData & { visibilityWindow?: VisibilityWindow } {
+  const frames = groundTrack.map(point => {
+    const distance = calculateDistance(observer.latitude, observer.longitude, point.latitude, point.longitude);
+    const bearing = calculateBearingFromBermuda(point.latitude, point.longitude, observer);
+    return { time: point.time, distance, bearing, elevation: calculateElevationAngle(distance, point.altitude) };
+  });
+  const closestPoint = frames.reduce((closest, frame) => frame.distance < closest.distance ? frame : closest);
+  const maxElevation = Math.max(0, ...frames.map(frame => frame.elevation));
+  const visiblePoints = frames.filter(frame =>
+    frame.elevation > 0 && frame.distance < 1500 && isAboveHorizonMask(observer.horizonMask, frame.bearing, frame.elevation));
+
+  const hazeConditions = WeatherService.getHazeConditions(new Date(launch.net), observer);
+  const haze = hazeConditions ? assessHaze(hazeConditions) : null;
+  const hazedPoints = haze ? visiblePoints.filter(point => point.elevation >= haze.hazeElevation) : visiblePoints;
+  const visibleSeconds = hazedPoints.length > 1 ? hazedPoints[hazedPoints.length - 1].time - hazedPoints[0].time : 0;
+  const lightingStatus = getLightingStatusSync(launch.net);
+
+  let { likelihood, reason } = visiblePoints.length > 0
+    ? ratePass(lightingStatus, closestPoint.distance, maxElevation, visibleSeconds / 60)
+    : { likelihood: 'none' as const, reason: 'Ground track does not pass within visible range of Bermuda' };
+  if (haze && hazedPoints.length === 0 && (likelihood === 'high' || likelihood === 'medium')) {
+    likelihood = 'low';
+    reason += `. ${haze.marineLayer ? 'Marine layer' : 'Haze'} near the horizon is likely to hide the whole pass`;
+  }
+
+  const direction = getTrajectoryDirectionFromTelemetry(groundTrack);
+  return {
+    likelihood,
+    reason,
+    bearing: Math.round(closestPoint.bearing),
+    estimatedTimeVisible: hazedPoints.length > 0
+      ? `Visible from T+${Math.round(hazedPoints[0].time / 60)} to T+${Math.round(hazedPoints[hazedPoints.length - 1].time / 60)} minutes. Look ${getBearingDirection(closestPoint.bearing)} for best view.`
+      : 'Not visible from Bermuda',
+    trajectoryDirection: direction,
+    dataSource: 'ground-track',
+    score: SCORE_BY_LIKELIHOOD[likelihood],
+    factors: [
+      `Ground track used (${groundTrack.length} points)`,
+      `Closest approach: ${Math.round(closestPoint.distance)}km`,
+      `Maximum elevation: ${Math.round(maxElevation)}°`,
+      ...(haze && haze.level !== 'none' ? [haze.description] : []),
+      `Time of day: ${lightingStatus}`
+    ],
+    visibilityWindow: hazedPoints.length > 0 ? {
+      startTime: hazedPoints[0].time,
+      endTime: hazedPoints[hazedPoints.length - 1].time,
+      startBearing: hazedPoints[0].bearing,
+      endBearing: hazedPoints[hazedPoints.length - 1].bearing,
+      closestApproach: closestPoint.distance,
+      totalVisibleTime: visibleSeconds,
+      peakVisibilityTime: hazedPoints.reduce((peak, point) => point.elevation > peak.elevation ? point : peak).time,
+      quality: likelihood === 'high' ? 'excellent' : likelihood === 'medium' ? 'good' : likelihood === 'low' ? 'fair' : 'poor'
+    } : undefined
+  };
+}
+
 // Helper to determine trajectory direction from telemetry
 function getTrajectoryDirectionFromTelemetry(telemetry: any[]): VisibilityData['trajectoryDirection'] {
   if (telemetry.length < 2) return 'Unknown';
@@ -716,19 +861,49 @@ function getTrajectoryDirectionFromTelemetry(telemetry: any[]): VisibilityData['
 
 /**
  * Helper function to convert VisibilityData to EnhancedVisibilityData
+ * Solar conditions are calculated at NET for the observer location
  */
-function enhanceVisibilityData(baseData: VisibilityData): EnhancedVisibilityData {
+function enhanceVisibilityData(
+  baseData: VisibilityData & { visibilityWindow?: VisibilityWindow },
+  launchNet?: string,
+  observer: ObserverLocation = getObserverLocation()
+): EnhancedVisibilityData {
   const now = new Date();
+  const launchTime = launchNet ? new Date(launchNet) : null;
+
+  let solarConditions: EnhancedVisibilityData['solarConditions'] = {
+    sunElevation: 0,
+    sunAzimuth: 0,
+    twilightPhase: 'day',
+    illuminationConditions: 'fair',
+    rocketSunlit: true,
+    groundDarkness: false
+  };
+
+  if (launchTime && !isNaN(launchTime.getTime())) {
+    const solarData = SolarPositionCalculator.calculateSolarPosition(
+      launchTime,
+      observer.latitude,
+      observer.longitude,
+      observer.elevation
+    );
+    const twilightPhase = SolarPositionCalculator.getTwilightPhase(solarData.elevation);
+    const illuminationConditions: EnhancedVisibilityData['solarConditions']['illuminationConditions'] =
+      twilightPhase === 'day' ? 'poor' : twilightPhase === 'civil' ? 'good' : 'optimal';
+
+    solarConditions = {
+      sunElevation: solarData.elevation,
+      sunAzimuth: solarData.azimuth,
+      twilightPhase,
+      illuminationConditions,
+      rocketSunlit: solarData.elevation > -6, // Rocket visible if sun not too far below horizon
+      groundDarkness: solarData.elevation < 0
+    };
+  }
+
   return {
     ...baseData,
-    solarConditions: {
-      sunElevation: 0, // Placeholder - would need actual solar calculation
-      sunAzimuth: 0,   // Placeholder - would need actual solar calculation
-      twilightPhase: 'day',
-      illuminationConditions: 'fair',
-      rocketSunlit: true,
-      groundDarkness: false
-    },
+    solarConditions,
     governmentDataUsed: false,
     lastCalculated: now,
     validationStatus: {
@@ -739,77 +914,144 @@ function enhanceVisibilityData(baseData: VisibilityData): EnhancedVisibilityData
   };
 }
 
-export async function calculateVisibility(launch: Launch | LaunchWithFlightClub): Promise<EnhancedVisibilityData> {
+/**
+ * Haze level expected at launch, so cached results are recomputed when the forecast changes
+ */
+function getHazeCacheKey(launch: Launch | LaunchWithFlightClub, observer: ObserverLocation): string | null {
+  const conditions = WeatherService.getHazeConditions(new Date(launch.net), observer);
+  return conditions ? assessHaze(conditions).level : null;
+}
+
+/**
+ * Cache entries for the default observer keep the plain launch id so existing entries stay valid
+ */
+function getVisibilityCacheId(launchId: string, observer: ObserverLocation): string {
+  return observer.id === DEFAULT_OBSERVER_LOCATION.id ? launchId : `${launchId}@${observer.id}`;
+}
+
+export async function calculateVisibility(
+  launch: Launch | LaunchWithFlightClub,
+  observer: ObserverLocation = getObserverLocation(),
+  options: { useCache?: boolean } = {}
+): Promise<EnhancedVisibilityData> {
+  const cacheId = getVisibilityCacheId(launch.id, observer);
+  const useCache = options.useCache !== false;
+
+  // A ground track entered or imported for the launch beats every other source and is never cached
+  const override = trajectoryOverrideService.getOverride(launch.id);
+  if (override?.groundTrack) {
+    const groundTrackResult = calculateVisibilityFromGroundTrack(launch, override.groundTrack, observer);
+    return enhanceVisibilityData(normalizeVisibilityOutput(launch, groundTrackResult), launch.net, observer);
+  }
+
   // Check cache first
-  try {
-    const { indexedDBCache } = await import('./indexedDBCache');
-    const inputHash = indexedDBCache.createHash({
-      id: launch.id,
-      net: launch.net,
-      pad: launch.pad,
-      hasFlightClubData: ('hasFlightClubData' in launch) ? launch.hasFlightClubData : false,
-      missionId: ('flightClubMatch' in launch) ? launch.flightClubMatch?.flightClubMission.id : null
-    });
+  if (useCache) {
+    try {
+      const { indexedDBCache } = await import('./indexedDBCache');
+      const inputHash = indexedDBCache.createHash({
+        id: launch.id,
+        net: launch.net,
+        pad: launch.pad,
+        hasFlightClubData: ('hasFlightClubData' in launch) ? launch.hasFlightClubData : false,
+        missionId: ('flightClubMatch' in launch) ? launch.flightClubMatch?.flightClubMission.id : null,
+        observer,
+        haze: getHazeCacheKey(launch, observer),
+        override: override?.updatedAt ?? null
+      });
     
-    const cachedVisibility = await indexedDBCache.getVisibilityData(launch.id, inputHash);
-    if (cachedVisibility) {
-      console.log(`[VisibilityService] Using cached visibility for ${launch.name} (${cachedVisibility.dataSource})`);
-      const normalizedCached = normalizeVisibilityOutput(launch, cachedVisibility);
-      return enhanceVisibilityData(normalizedCached);
+      const cachedVisibility = await indexedDBCache.getVisibilityData(cacheId, inputHash);
+      if (cachedVisibility) {
+        console.log(`[VisibilityService] Using cached visibility for ${launch.name} (${cachedVisibility.dataSource})`);
+        const normalizedCached = normalizeVisibilityOutput(launch, cachedVisibility);
+        return enhanceVisibilityData(normalizedCached, launch.net, observer);
+      }
+    } catch (cacheError) {
+      console.warn('[VisibilityService] Cache read failed:', cacheError);
     }
-  } catch (cacheError) {
-    console.warn('[VisibilityService] Cache read failed:', cacheError);
   }
 
   try {
     // First priority: Try to use Flight Club telemetry data if available
     if ('hasFlightClubData' in launch && launch.hasFlightClubData && launch.flightClubMatch) {
       console.log(`[VisibilityService] Attempting Flight Club calculation for ${launch.name}`);
-      const flightClubResult = await calculateVisibilityFromFlightClub(launch as LaunchWithFlightClub);
+      const flightClubResult = await calculateVisibilityFromFlightClub(launch as LaunchWithFlightClub, observer);
       if (flightClubResult) {
         console.log(`[VisibilityService] ✅ Using Flight Club data for ${launch.name} (${flightClubResult.likelihood} visibility)`);
         const normalizedFlightClub = normalizeVisibilityOutput(launch, flightClubResult);
         
         // Cache the result
-        try {
-          const { indexedDBCache } = await import('./indexedDBCache');
-          const inputHash = indexedDBCache.createHash({
-            id: launch.id,
-            net: launch.net,
-            pad: launch.pad,
-            hasFlightClubData: true,
-            missionId: launch.flightClubMatch.flightClubMission.id
-          });
-          await indexedDBCache.cacheVisibilityData(launch.id, normalizedFlightClub, inputHash);
-        } catch (cacheError) {
-          console.warn('[VisibilityService] Failed to cache Flight Club result:', cacheError);
+        if (useCache) {
+          try {
+            const { indexedDBCache } = await import('./indexedDBCache');
+            const inputHash = indexedDBCache.createHash({
+              id: launch.id,
+              net: launch.net,
+              pad: launch.pad,
+              hasFlightClubData: true,
+              missionId: launch.flightClubMatch.flightClubMission.id,
+              observer,
+              haze: getHazeCacheKey(launch, observer),
+              override: override?.updatedAt ?? null
+            });
+            await indexedDBCache.cacheVisibilityData(cacheId, normalizedFlightClub, inputHash);
+          } catch (cacheError) {
+            console.warn('[VisibilityService] Failed to cache Flight Club result:', cacheError);
+          }
         }
         
-        return enhanceVisibilityData(normalizedFlightClub);
+        return enhanceVisibilityData(normalizedFlightClub, launch.net, observer);
       }
       console.log(`[VisibilityService] ⚠️ Flight Club calculation failed for ${launch.name}, falling back to geometric`);
     }
 
     // Second priority: Use physics-based geometric visibility calculations
     const { GeometricVisibilityService } = await import('./geometricVisibilityService');
-    const geometricResult = GeometricVisibilityService.calculateVisibility(launch);
+    const geometricResult = GeometricVisibilityService.calculateVisibility(launch, observer);
     
     // Convert geometric result to standard VisibilityData format
     // Use viewing bearing from trajectory mapping instead of bearing to closest point
     const { getTrajectoryMapping, getViewingBearingFromBermuda } = require('./trajectoryMappingService');
     const trajectoryMapping = getTrajectoryMapping(launch);
     const bearing = getViewingBearingFromBermuda(trajectoryMapping);
+
+    let likelihood = geometricResult.likelihood;
+    let reason = geometricResult.reason;
+    let estimatedTimeVisible = geometricResult.factors.visibilityReason 
+      ? `${geometricResult.factors.visibilityReason}. Look ${geometricResult.factors.initialViewingDirection} and track ${geometricResult.factors.trackingPath}.`
+      : geometricResult.factors.visibilityWindow.duration > 0 
+        ? `Track from ${geometricResult.factors.initialViewingDirection} following path: ${geometricResult.factors.trackingPath}. Visible T+${Math.round(geometricResult.factors.visibilityWindow.start)} to T+${Math.round(geometricResult.factors.visibilityWindow.end)} minutes.`
+        : 'Not visible - rocket travels away from Bermuda';
+
+    // Humid haze hides the low-elevation part of the simulated pass
+    const visibleFrames = (geometricResult.trajectoryPoints ?? [])
+      .filter(point => point.aboveHorizon)
+      .map(point => ({ time: point.time, elevation: point.elevationAngle }));
+    const hazeConditions = WeatherService.getHazeConditions(new Date(launch.net), observer);
+    const haze = hazeConditions ? assessHaze(hazeConditions) : null;
+    const hazeFactors: string[] = [];
+    if (haze && haze.level !== 'none' && visibleFrames.length > 0) {
+      const hazedWindow = applyHazeToFrames(visibleFrames, haze);
+      const clearAirSeconds = hazedWindow.visibleSeconds + hazedWindow.lostSeconds;
+      hazeFactors.push(haze.description);
+
+      if (hazedWindow.startTime === null || hazedWindow.endTime === null) {
+        if (likelihood === 'high' || likelihood === 'medium') {
+          likelihood = 'low';
+          reason += ` ${haze.marineLayer ? 'Marine layer' : 'Haze'} near the horizon is likely to hide the whole pass.`;
+        }
+        estimatedTimeVisible = `Hidden in haze near the horizon. Look ${geometricResult.factors.initialViewingDirection} in case it clears.`;
+      } else if (hazedWindow.lostSeconds > 0) {
+        hazeFactors.push(`Haze shortens visible time from ${(clearAirSeconds / 60).toFixed(1)} to ${(hazedWindow.visibleSeconds / 60).toFixed(1)} minutes`);
+        estimatedTimeVisible = `Visible above the haze from T+${Math.round(hazedWindow.startTime / 60)} to T+${Math.round(hazedWindow.endTime / 60)} minutes. Look ${geometricResult.factors.initialViewingDirection} and track ${geometricResult.factors.trackingPath}.`;
+      }
+    }
       
     const visibilityResult = {
-      likelihood: geometricResult.likelihood,
-      reason: geometricResult.reason,
+      likelihood,
+      reason,
       bearing: Math.round(bearing),
       trajectoryDirection: geometricResult.factors.trajectoryDirection as VisibilityData['trajectoryDirection'],
-      estimatedTimeVisible: geometricResult.factors.visibilityReason 
-        ? `${geometricResult.factors.visibilityReason}. Look ${geometricResult.factors.initialViewingDirection} and track ${geometricResult.factors.trackingPath}.`
-        : geometricResult.factors.visibilityWindow.duration > 0 
-          ? `Track from ${geometricResult.factors.initialViewingDirection} following path: ${geometricResult.factors.trackingPath}. Visible T+${Math.round(geometricResult.factors.visibilityWindow.start)} to T+${Math.round(geometricResult.factors.visibilityWindow.end)} minutes.`
-          : 'Not visible - rocket travels away from Bermuda',
+      estimatedTimeVisible,
       dataSource: 'calculated' as const,
       factors: [
         `Rocket travels: ${geometricResult.factors.trajectoryDirection}`,
@@ -819,27 +1061,36 @@ export async function calculateVisibility(launch: Launch | LaunchWithFlightClub)
         `Closest approach: ${Math.round(geometricResult.factors.closestApproach)}km`,
         `Max viewing angle: ${Math.round(geometricResult.factors.maxViewingAngle)}°`,
         `Time of day: ${geometricResult.factors.timeOfDay}`,
-        ...(geometricResult.factors.visibilityReason ? [`2nd stage timing: ${geometricResult.factors.visibilityReason}`] : [])
+        ...(geometricResult.factors.visibilityReason ? [`2nd stage timing: ${geometricResult.factors.visibilityReason}`] : []),
+        ...(geometricResult.factors.horizonObstruction?.obstructedPoints
+          ? [`Horizon obstructions: hidden toward ${geometricResult.factors.horizonObstruction.obstructedDirections.join(', ')}`]
+          : []),
+        ...hazeFactors
       ]
     };
     const normalizedVisibility = normalizeVisibilityOutput(launch, visibilityResult);
     
     // Cache the geometric result
-    try {
-      const { indexedDBCache } = await import('./indexedDBCache');
-      const inputHash = indexedDBCache.createHash({
-        id: launch.id,
-        net: launch.net,
-        pad: launch.pad,
-        hasFlightClubData: ('hasFlightClubData' in launch) ? launch.hasFlightClubData : false,
-        missionId: ('flightClubMatch' in launch) ? launch.flightClubMatch?.flightClubMission.id : null
-      });
-      await indexedDBCache.cacheVisibilityData(launch.id, normalizedVisibility, inputHash);
-    } catch (cacheError) {
-      console.warn('[VisibilityService] Failed to cache geometric result:', cacheError);
+    if (useCache) {
+      try {
+        const { indexedDBCache } = await import('./indexedDBCache');
+        const inputHash = indexedDBCache.createHash({
+          id: launch.id,
+          net: launch.net,
+          pad: launch.pad,
+          hasFlightClubData: ('hasFlightClubData' in launch) ? launch.hasFlightClubData : false,
+          missionId: ('flightClubMatch' in launch) ? launch.flightClubMatch?.flightClubMission.id : null,
+          observer,
+          haze: getHazeCacheKey(launch, observer),
+          override: override?.updatedAt ?? null
+        });
+        await indexedDBCache.cacheVisibilityData(cacheId, normalizedVisibility, inputHash);
+      } catch (cacheError) {
+        console.warn('[VisibilityService] Failed to cache geometric result:', cacheError);
+      }
     }
     
-    return enhanceVisibilityData(normalizedVisibility);
+    return enhanceVisibilityData(normalizedVisibility, launch.net, observer);
     
   } catch (error) {
     console.error('[VisibilityService] Geometric calculation failed, using fallback:', error);
@@ -884,7 +1135,7 @@ export async function calculateVisibility(launch: Launch | LaunchWithFlightClub)
       };
 
       const normalizedFallback = normalizeVisibilityOutput(launch, fallbackVisibility);
-      return enhanceVisibilityData(normalizedFallback);
+      return enhanceVisibilityData(normalizedFallback, launch.net, observer);
     }
     
     // Use viewing bearing from trajectory mapping for accurate directions
@@ -934,10 +1185,83 @@ export async function calculateVisibility(launch: Launch | LaunchWithFlightClub)
     };
 
     const normalizedFallback = normalizeVisibilityOutput(launch, fallbackVisibility);
-    return enhanceVisibilityData(normalizedFallback);
+    return enhanceVisibilityData(normalizedFallback, launch.net, observer);
   }
 }
 
+/**
+ * Calculate visibility for one launch from each saved observer location,
+ * so viewing spots can be compared side by side
+ */
+export async function calculateVisibilityComparison(
+  launch: Launch | LaunchWithFlightClub,
+  observers: ObserverLocation[] = observerLocationService.getSavedLocations()
+): Promise<ObserverVisibilityComparison[]> {
+  return Promise.all(
+    observers.map(async observer => ({
+      observer,
+      visibility: await calculateVisibility(launch, observer)
+    }))
+  );
+}
+
+const WINDOW_SWEEP_STEP_MINUTES = 15;
+const WINDOW_SWEEP_MAX_STEPS = 17;
+
+/**
+ * Calculate visibility at regular liftoff times across the launch window, so
+ * a slip toward or away from twilight can be seen before it happens.
+ * Long windows get a coarser step to stay within WINDOW_SWEEP_MAX_STEPS.
+ * Null when the launch has no window or an instantaneous one.
+ */
+export async function calculateWindowSweep(
+  launch: Launch | LaunchWithFlightClub,
+  observer: ObserverLocation = getObserverLocation(),
+  stepMinutes: number = WINDOW_SWEEP_STEP_MINUTES
+): Promise<LaunchWindowSweep | null> {
+  if (!launch.window_start || !launch.window_end) {
+    return null;
+  }
+
+  const start = new Date(launch.window_start).getTime();
+  const end = new Date(launch.window_end).getTime();
+  if (isNaN(start) || isNaN(end) || end <= start) {
+    return null;
+  }
+
+  const durationMinutes = (end - start) / 60000;
+  const step = Math.max(stepMinutes, Math.ceil(durationMinutes / (WINDOW_SWEEP_MAX_STEPS - 1) / 5) * 5);
+  const offsets: number[] = [];
+  for (let offset = 0; offset < durationMinutes; offset += step) {
+    offsets.push(offset);
+  }
+  offsets.push(durationMinutes);
+
+  const net = new Date(launch.net).getTime();
+  const netOffset = isNaN(net) ? 0 : (net - start) / 60000;
+  const netIndex = offsets.reduce((closest, offset, index) =>
+    Math.abs(offset - netOffset) < Math.abs(offsets[closest] - netOffset) ? index : closest, 0);
+
+  // Sequential, and uncached so the sweep never replaces the NET result in IndexedDB
+  const steps: LaunchWindowSweep['steps'] = [];
+  for (const [index, offsetMinutes] of offsets.entries()) {
+    const time = new Date(start + offsetMinutes * 60000).toISOString();
+    steps.push({
+      time,
+      offsetMinutes,
+      isNet: index === netIndex,
+      visibility: await calculateVisibility({ ...launch, net: time }, observer, { useCache: false })
+    });
+  }
+
+  return {
+    windowStart: launch.window_start,
+    windowEnd: launch.window_end,
+    stepMinutes: step,
+    steps
+  };
+}
+
 // Legacy synchronous version for backward compatibility
 export function calculateVisibilitySync(launch: Launch): VisibilityData {
   
@@ -5,6 +5,12 @@
  * Uses OpenWeatherMap API for real-time conditions and forecasts
  */
 
+import { ObserverLocation, VisibilityWindow } from '../types';
+import { getObserverCacheKey, getObserverLocation } from './observerLocationService';
+import { AtmosphericConditions, STANDARD_ATMOSPHERE, standardPressureAtElevation } from '../utils/atmosphericOptics';
+import type { SightlineClarity } from './sightlineCloudService';
+import type { HazeConditions } from '../utils/hazeModel';
+
 export interface WeatherData {
   current: {
     temperature: number;
@@ -13,17 +19,50 @@ export interface WeatherData {
     visibility: number; // in kilometers
     windSpeed: number;
     windDirection: number;
+    pressure?: number; // surface pressure in hPa (real observations only)
     condition: string;
     icon: string;
   };
-  forecast?: {
-    datetime: string;
-    temperature: number;
-    cloudCover: number;
-    visibility: number;
-    condition: string;
-    precipitationProbability: number;
-  }[];
+  forecast?: HourlyForecast[];
+}
+
+export interface HourlyForecast {
+  datetime: string; // ISO time of the forecast hour
+  temperature: number;
+  humidity: number;
+  cloudCover: number;
+  cloudCoverLow: number;  // below ~2 km
+  cloudCoverMid: number;  // ~2-6 km
+  cloudCoverHigh: number; // above ~6 km
+  visibility: number; // in kilometers
+  condition: string;
+  precipitationProbability: number;
+}
+
+export interface LaunchForecastConditions {
+  atLaunch: HourlyForecast;
+  // Averaged cloud cover, lowest visibility and highest rain chance across the visible window
+  window: HourlyForecast;
+}
+
+type VisibleWindow = Pick<VisibilityWindow, 'startTime' | 'endTime'>;
+
+// Open-Meteo hourly block for timeformat=unixtime; missing hours come back as null
+interface OpenMeteoHourly {
+  time: number[];
+  temperature_2m?: (number | null)[];
+  relative_humidity_2m?: (number | null)[];
+  cloud_cover?: (number | null)[];
+  cloud_cover_low?: (number | null)[];
+  cloud_cover_mid?: (number | null)[];
+  cloud_cover_high?: (number | null)[];
+  visibility?: (number | null)[]; // meters
+  weather_code?: (number | null)[];
+  precipitation_probability?: (number | null)[];
+}
+
+interface OpenMeteoForecastLocation {
+  hourly?: OpenMeteoHourly;
 }
 
 export interface LaunchWeatherAssessment {
@@ -32,6 +71,7 @@ export interface LaunchWeatherAssessment {
     cloudCover: {
       rating: 'excellent' | 'good' | 'fair' | 'poor';
       value: number;
+      layers?: { low: number; mid: number; high: number };
       impact: string;
     };
     visibility: {
@@ -44,18 +84,32 @@ export interface LaunchWeatherAssessment {
       probability: number;
       impact: string;
     };
+    sightline?: {
+      rating: 'excellent' | 'good' | 'fair' | 'poor';
+      clarity: number; // % chance the line of sight toward the rocket is cloud-free
+      bearing: number; // direction of the most obscured part of the sightline
+      impact: string;
+    };
   };
   recommendation: string;
   detailedForecast: string;
+  source?: 'forecast' | 'estimated'; // 'forecast' when built from the hourly forecast at launch time
 }
 
 export class WeatherService {
-  private static readonly BERMUDA_LAT = 32.3078;
-  private static readonly BERMUDA_LNG = -64.7505;
   private static readonly CACHE_DURATION = 10 * 60 * 1000; // 10 minutes
   
   // Open-Meteo API configuration (Free, no API key required)
   private static readonly OPEN_METEO_BASE_URL = 'https://api.open-meteo.com/v1';
+  private static readonly FORECAST_DAYS = 3;
+  private static readonly HOURLY_FIELDS = 'temperature_2m,relative_humidity_2m,weather_code,cloud_cover,cloud_cover_low,cloud_cover_mid,cloud_cover_high,visibility,precipitation_probability';
+  // Used when the launch has no computed visibility window
+  private static readonly DEFAULT_VISIBLE_WINDOW: VisibleWindow = { startTime: 120, endTime: 600 };
+
+  private static getBaseUrl(): string {
+    const configured = (process.env.REACT_APP_OPEN_METEO_BASE_URL || '').trim();
+    return configured ? configured.replace(/\/$/, '') : this.OPEN_METEO_BASE_URL;
+  }
 
   static async getCurrentWeather(): Promise<WeatherData> {
     const cached = this.getCachedWeather();
@@ -75,6 +129,63 @@ export class WeatherService {
     return weatherData;
   }
 
+  /**
+   * Pressure and temperature for refraction/extinction calculations.
+   * Uses cached observations when available so it can be called synchronously,
+   * otherwise the standard atmosphere at the observer's elevation.
+   */
+  static getAtmosphericConditions(observer: ObserverLocation = getObserverLocation()): AtmosphericConditions {
+    // Cached weather is for the active observer only
+    const cached = getObserverCacheKey(observer) === getObserverCacheKey() ? this.getCachedWeather() : null;
+    if (cached?.current.pressure) {
+      return {
+        pressure: cached.current.pressure,
+        temperature: cached.current.temperature,
+        source: 'weather'
+      };
+    }
+
+    return {
+      ...STANDARD_ATMOSPHERE,
+      pressure: standardPressureAtElevation(observer.elevation)
+    };
+  }
+
+  /**
+   * Humidity, temperature and wind for the haze model, from cached weather so it
+   * can be called synchronously: the hourly forecast at launch time when it covers
+   * the launch, current observations for launches in the next few hours, else null.
+   */
+  static getHazeConditions(
+    launchTime: Date,
+    observer: ObserverLocation = getObserverLocation()
+  ): HazeConditions | null {
+    const cached = getObserverCacheKey(observer) === getObserverCacheKey() ? this.getCachedWeather() : null;
+    // Only real observations carry pressure; simulated weather must not downgrade predictions
+    if (!cached?.current.pressure) {
+      return null;
+    }
+
+    const atLaunch = this.interpolateForecast(cached.forecast ?? [], launchTime);
+    if (atLaunch) {
+      return {
+        temperature: atLaunch.temperature,
+        humidity: atLaunch.humidity,
+        windSpeed: cached.current.windSpeed
+      };
+    }
+
+    const hoursUntilLaunch = (launchTime.getTime() - Date.now()) / (1000 * 60 * 60);
+    if (hoursUntilLaunch > 6) {
+      return null;
+    }
+    return {
+      temperature: cached.current.temperature,
+      humidity: cached.current.humidity,
+      windSpeed: cached.current.windSpeed
+    };
+  }
+
   /**
    * Map WMO Weather Code to condition string
    * @see https://open-meteo.com/en/docs
@@ -99,14 +210,18 @@ export class WeatherService {
   }
 
   private static async fetchRealWeatherData(): Promise<WeatherData> {
+    const observer = getObserverLocation();
     const params = new URLSearchParams({
-      latitude: this.BERMUDA_LAT.toString(),
-      longitude: this.BERMUDA_LNG.toString(),
-      current: 'temperature_2m,relative_humidity_2m,weather_code,cloud_cover,wind_speed_10m,wind_direction_10m,visibility',
-      timezone: 'Atlantic/Bermuda'
+      latitude: observer.latitude.toString(),
+      longitude: observer.longitude.toString(),
+      current: 'temperature_2m,relative_humidity_2m,weather_code,cloud_cover,wind_speed_10m,wind_direction_10m,visibility,surface_pressure',
+      hourly: this.HOURLY_FIELDS,
+      forecast_days: this.FORECAST_DAYS.toString(),
+      timeformat: 'unixtime',
+      timezone: observer.timezone
     });
 
-    const url = `${this.OPEN_METEO_BASE_URL}/forecast?${params.toString()}`;
+    const url = `${this.getBaseUrl()}/forecast?${params.toString()}`;
 
     const response = await fetch(url);
     if (!response.ok) {
@@ -125,18 +240,176 @@ export class WeatherService {
         visibility: Math.round((current.visibility || 10000) / 1000), // Convert meters to km
         windSpeed: Math.round(current.wind_speed_10m), // Already in km/h
         windDirection: current.wind_direction_10m || 0,
+        pressure: current.surface_pressure,
         condition: weatherInfo.condition,
         icon: weatherInfo.icon
       },
-      forecast: [] // Extended forecast available but not currently implemented
+      forecast: this.parseHourlyForecast(data.hourly)
+    };
+  }
+
+  /**
+   * Hourly forecasts for several points in one request, in the order given
+   */
+  static async fetchHourlyForecastAt(points: { latitude: number; longitude: number }[]): Promise<HourlyForecast[][]> {
+    if (points.length === 0) {
+      return [];
+    }
+
+    const params = new URLSearchParams({
+      latitude: points.map(point => point.latitude.toFixed(3)).join(','),
+      longitude: points.map(point => point.longitude.toFixed(3)).join(','),
+      hourly: this.HOURLY_FIELDS,
+      forecast_days: this.FORECAST_DAYS.toString(),
+      timeformat: 'unixtime'
+    });
+
+    const response = await fetch(`${this.getBaseUrl()}/forecast?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error(`Open-Meteo API error: ${response.status} ${response.statusText}`);
+    }
+
+    // A single location comes back as an object, several as an array
+    const data = await response.json();
+    const locations: OpenMeteoForecastLocation[] = Array.isArray(data) ? data : [data];
+    return locations.map(location => this.parseHourlyForecast(location.hourly));
+  }
+
+  /**
+   * Hours with a missing value are left out rather than read as zero;
+   * interpolateForecast bridges the gap from the neighbouring hours
+   */
+  private static parseHourlyForecast(hourly: OpenMeteoHourly | undefined): HourlyForecast[] {
+    if (!hourly || !Array.isArray(hourly.time)) {
+      return [];
+    }
+
+    return hourly.time.flatMap((time, index) => {
+      const at = (values: (number | null)[] | undefined) => values?.[index] ?? null;
+      const temperature = at(hourly.temperature_2m);
+      const humidity = at(hourly.relative_humidity_2m);
+      const cloudCover = at(hourly.cloud_cover);
+      const cloudCoverLow = at(hourly.cloud_cover_low);
+      const cloudCoverMid = at(hourly.cloud_cover_mid);
+      const cloudCoverHigh = at(hourly.cloud_cover_high);
+      const visibility = at(hourly.visibility);
+      const precipitationProbability = at(hourly.precipitation_probability);
+
+      if (
+        temperature === null || humidity === null || cloudCover === null || cloudCoverLow === null ||
+        cloudCoverMid === null || cloudCoverHigh === null || visibility === null || precipitationProbability === null
+      ) {
+        return [];
+      }
+
+      return [{
+        datetime: new Date(time * 1000).toISOString(),
+        temperature,
+        humidity,
+        cloudCover,
+        cloudCoverLow,
+        cloudCoverMid,
+        cloudCoverHigh,
+        visibility: visibility / 1000, // Convert meters to km
+        condition: this.mapWMOCode(at(hourly.weather_code) ?? -1).condition,
+        precipitationProbability
+      }];
+    });
+  }
+
+  /**
+   * Forecast at an arbitrary time, linearly interpolated between the two
+   * surrounding forecast hours. Null when the time is outside the forecast.
+   */
+  static interpolateForecast(forecast: HourlyForecast[], time: Date): HourlyForecast | null {
+    const target = time.getTime();
+    for (let i = 0; i < forecast.length - 1; i++) {
+      const before = forecast[i];
+      const after = forecast[i + 1];
+      const start = new Date(before.datetime).getTime();
+      const end = new Date(after.datetime).getTime();
+      if (target < start || target > end) {
+        continue;
+      }
+
+      const fraction = end > start ? (target - start) / (end - start) : 0;
+      const lerp = (a: number, b: number) => a + (b - a) * fraction;
+      return {
+        datetime: time.toISOString(),
+        temperature: lerp(before.temperature, after.temperature),
+        humidity: lerp(before.humidity, after.humidity),
+        cloudCover: lerp(before.cloudCover, after.cloudCover),
+        cloudCoverLow: lerp(before.cloudCoverLow, after.cloudCoverLow),
+        cloudCoverMid: lerp(before.cloudCoverMid, after.cloudCoverMid),
+        cloudCoverHigh: lerp(before.cloudCoverHigh, after.cloudCoverHigh),
+        visibility: lerp(before.visibility, after.visibility),
+        condition: fraction < 0.5 ? before.condition : after.condition,
+        precipitationProbability: lerp(before.precipitationProbability, after.precipitationProbability)
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Forecast at liftoff and across the visible window (sampled at its start,
+   * middle and end). Null when the forecast does not cover the launch.
+   */
+  static forecastForLaunch(
+    forecast: HourlyForecast[],
+    launchTime: Date,
+    visibleWindow: VisibleWindow = this.DEFAULT_VISIBLE_WINDOW
+  ): LaunchForecastConditions | null {
+    const atLaunch = this.interpolateForecast(forecast, launchTime);
+    if (!atLaunch) {
+      return null;
+    }
+
+    const offsets = [
+      visibleWindow.startTime,
+      (visibleWindow.startTime + visibleWindow.endTime) / 2,
+      visibleWindow.endTime
+    ];
+    const samples = offsets
+      .map(offset => this.interpolateForecast(forecast, new Date(launchTime.getTime() + offset * 1000)))
+      .filter((sample): sample is HourlyForecast => sample !== null);
+    if (samples.length === 0) {
+      return { atLaunch, window: atLaunch };
+    }
+
+    const average = (pick: (sample: HourlyForecast) => number) =>
+      samples.reduce((sum, sample) => sum + pick(sample), 0) / samples.length;
+
+    return {
+      atLaunch,
+      window: {
+        ...samples[0],
+        temperature: average(sample => sample.temperature),
+        humidity: average(sample => sample.humidity),
+        cloudCover: average(sample => sample.cloudCover),
+        cloudCoverLow: average(sample => sample.cloudCoverLow),
+        cloudCoverMid: average(sample => sample.cloudCoverMid),
+        cloudCoverHigh: average(sample => sample.cloudCoverHigh),
+        visibility: Math.min(...samples.map(sample => sample.visibility)),
+        precipitationProbability: Math.max(...samples.map(sample => sample.precipitationProbability))
+      }
     };
   }
 
-  static async getWeatherForLaunch(launchTime: Date): Promise<LaunchWeatherAssessment> {
+  static async getWeatherForLaunch(
+    launchTime: Date,
+    visibleWindow?: VisibleWindow,
+    sightline?: SightlineClarity | null
+  ): Promise<LaunchWeatherAssessment> {
     const weather = await this.getCurrentWeather();
     const hoursUntilLaunch = (launchTime.getTime() - Date.now()) / (1000 * 60 * 60);
-    
-    // For launches within 48 hours, use current conditions with some variation
+
+    // Use the hourly forecast when it covers the launch
+    const launchForecast = this.forecastForLaunch(weather.forecast ?? [], launchTime, visibleWindow);
+    if (launchForecast) {
+      return this.assessLaunchConditions(weather, launchTime, launchForecast, sightline ?? undefined);
+    }
+
+    // Without a forecast: for launches within 48 hours, use current conditions with some variation
     // For further launches, generate forecast
     const forecastWeather = hoursUntilLaunch <= 48 
       ? this.adjustWeatherForTime(weather, hoursUntilLaunch)
@@ -193,21 +466,31 @@ export class WeatherService {
     return this.generateRealisticWeatherData();
   }
 
-  private static assessLaunchConditions(weather: WeatherData, launchTime: Date): LaunchWeatherAssessment {
-    const { current } = weather;
-    
+  private static assessLaunchConditions(
+    weather: WeatherData,
+    launchTime: Date,
+    launchForecast?: LaunchForecastConditions,
+    sightline?: SightlineClarity
+  ): LaunchWeatherAssessment {
+    // Forecast across the visible window when available, otherwise current conditions
+    const conditions = launchForecast?.window;
+    const cloudCover = conditions ? conditions.cloudCover : weather.current.cloudCover;
+    const visibility = conditions ? conditions.visibility : weather.current.visibility;
+
     // Assess cloud cover impact
-    const cloudRating = current.cloudCover <= 20 ? 'excellent' :
-                       current.cloudCover <= 40 ? 'good' :
-                       current.cloudCover <= 70 ? 'fair' : 'poor';
+    const cloudRating = cloudCover <= 20 ? 'excellent' :
+                       cloudCover <= 40 ? 'good' :
+                       cloudCover <= 70 ? 'fair' : 'poor';
     
     // Assess visibility impact
-    const visibilityRating = current.visibility >= 30 ? 'excellent' :
-                            current.visibility >= 20 ? 'good' :
-                            current.visibility >= 10 ? 'fair' : 'poor';
+    const visibilityRating = visibility >= 30 ? 'excellent' :
+                            visibility >= 20 ? 'good' :
+                            visibility >= 10 ? 'fair' : 'poor';
     
-    // Assess precipitation (simulated)
-    const precipProb = this.getPrecipitationProbability(current.cloudCover, current.humidity);
+    // Assess precipitation (simulated without a forecast)
+    const precipProb = conditions
+      ? Math.round(conditions.precipitationProbability)
+      : this.getPrecipitationProbability(weather.current.cloudCover, weather.current.humidity);
     const precipRating = precipProb <= 10 ? 'excellent' :
                         precipProb <= 30 ? 'good' :
                         precipProb <= 60 ? 'fair' : 'poor';
@@ -224,27 +507,45 @@ export class WeatherService {
     else if (poorCount >= 2) overallRating = 'poor';
     else overallRating = 'fair';
 
+    // Clouds toward the trajectory hide the launch however clear the sky overhead is
+    if (sightline?.rating === 'poor') overallRating = 'poor';
+    else if (sightline?.rating === 'fair' && (overallRating === 'excellent' || overallRating === 'good')) overallRating = 'fair';
+
     return {
       overallRating,
       factors: {
         cloudCover: {
           rating: cloudRating,
-          value: current.cloudCover,
-          impact: this.getCloudImpact(current.cloudCover)
+          value: cloudCover,
+          layers: conditions
+            ? { low: conditions.cloudCoverLow, mid: conditions.cloudCoverMid, high: conditions.cloudCoverHigh }
+            : undefined,
+          impact: this.getCloudImpact(cloudCover)
         },
         visibility: {
           rating: visibilityRating,
-          value: current.visibility,
-          impact: this.getVisibilityImpact(current.visibility)
+          value: visibility,
+          impact: this.getVisibilityImpact(visibility)
         },
         precipitation: {
           rating: precipRating,
           probability: precipProb,
           impact: this.getPrecipitationImpact(precipProb)
-        }
+        },
+        sightline: sightline
+          ? {
+            rating: sightline.rating,
+            clarity: sightline.clarity,
+            bearing: sightline.worst.bearing,
+            impact: this.getSightlineImpact(sightline)
+          }
+          : undefined
       },
       recommendation: this.generateRecommendation(overallRating, launchTime),
-      detailedForecast: this.generateDetailedForecast(weather, launchTime)
+      detailedForecast: launchForecast
+        ? this.generateHourlyForecastSummary(launchForecast)
+        : this.generateDetailedForecast(weather, launchTime),
+      source: launchForecast ? 'forecast' : 'estimated'
     };
   }
 
@@ -300,6 +601,20 @@ export class WeatherService {
     return 'High precipitation probability - poor viewing conditions likely';
   }
 
+  private static getSightlineImpact(sightline: SightlineClarity): string {
+    const toward = `${this.getWindDirection(sightline.worst.bearing)} at ${Math.round(sightline.worst.elevation)}°`;
+    const densest = sightline.worst.layers.reduce<SightlineClarity['worst']['layers'][number] | null>(
+      (most, layer) => (!most || layer.cloudCover > most.cloudCover ? layer : most),
+      null
+    );
+    const cloud = densest ? `${Math.round(densest.cloudCover)}% ${densest.layer} cloud ${Math.round(densest.distanceKm)}km out` : 'cloud';
+
+    if (sightline.rating === 'excellent') return `Clear line of sight toward the trajectory (${toward})`;
+    if (sightline.rating === 'good') return `Mostly clear toward the trajectory - some ${cloud} looking ${toward}`;
+    if (sightline.rating === 'fair') return `Patchy cloud along the sightline - ${cloud} looking ${toward}`;
+    return `Cloud bank blocks the view ${toward} - ${cloud}`;
+  }
+
   private static generateRecommendation(rating: string, launchTime: Date): string {
     const timeUntil = Math.round((launchTime.getTime() - Date.now()) / (1000 * 60 * 60));
     
@@ -326,6 +641,14 @@ export class WeatherService {
            `Temperature around ${Math.round(current.temperature)}°C with ${Math.round(current.humidity)}% humidity.`;
   }
 
+  private static generateHourlyForecastSummary({ atLaunch, window }: LaunchForecastConditions): string {
+    return `Forecast at launch: ${atLaunch.condition} with ${Math.round(atLaunch.cloudCover)}% cloud cover. ` +
+           `During the viewing window: ${Math.round(window.cloudCoverLow)}% low, ${Math.round(window.cloudCoverMid)}% mid and ` +
+           `${Math.round(window.cloudCoverHigh)}% high cloud, visibility ${Math.round(window.visibility)}km, ` +
+           `${Math.round(window.precipitationProbability)}% chance of rain. ` +
+           `Temperature around ${Math.round(atLaunch.temperature)}°C with ${Math.round(atLaunch.humidity)}% humidity.`;
+  }
+
   private static getWindDirection(degrees: number): string {
     const directions = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
     return directions[Math.round(degrees / 22.5) % 16];
@@ -336,8 +659,8 @@ export class WeatherService {
       const cached = localStorage.getItem('bermuda-weather-cache');
       if (!cached) return null;
       
-      const { data, timestamp } = JSON.parse(cached);
-      if (Date.now() - timestamp > this.CACHE_DURATION) {
+      const { data, timestamp, locationId } = JSON.parse(cached);
+      if (locationId !== getObserverCacheKey() || Date.now() - timestamp > this.CACHE_DURATION) {
         localStorage.removeItem('bermuda-weather-cache');
         return null;
       }
@@ -352,7 +675,8 @@ export class WeatherService {
     try {
       localStorage.setItem('bermuda-weather-cache', JSON.stringify({
         data,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        locationId: getObserverCacheKey()
       }));
     } catch {
       // Cache failed, continue without caching
@@ -0,0 +1,120 @@
+/**
+ * In-memory stand-in for the Upstash Redis client
+ *
+ * Covers the commands the api/ stores use plus the sliding window scripts
+ * @upstash/ratelimit runs, so rate limits and caches can be tested through
+ * their Redis paths. Values are stored as JSON like the REST client does,
+ * so Dates come back as strings.
+ */
+
+interface StoredValue {
+  value: string;
+  expiresAt: number | null;
+}
+
+export class MemoryRedis {
+  private readonly data = new Map<string, StoredValue>();
+
+  private read(key: string): StoredValue | null {
+    const stored = this.data.get(key);
+    if (stored && stored.expiresAt !== null && Date.now() >= stored.expiresAt) {
+      this.data.delete(key);
+      return null;
+    }
+    return stored ?? null;
+  }
+
+  private rawGet(key: string): string | null {
+    return this.read(key)?.value ?? null;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const value = this.rawGet(key);
+    return value === null ? null : JSON.parse(value) as T;
+  }
+
+  async set(key: string, value: unknown, options: { ex?: number; px?: number } = {}): Promise<'OK'> {
+    const ttl = options.px ?? (options.ex !== undefined ? options.ex * 1000 : null);
+    this.data.set(key, { value: JSON.stringify(value), expiresAt: ttl === null ? null : Date.now() + ttl });
+    return 'OK';
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    return keys.filter(key => this.data.delete(key)).length;
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    const matches = (key: string) => pattern.endsWith('*') ? key.startsWith(pattern.slice(0, -1)) : key === pattern;
+    return Array.from(this.data.keys()).filter(key => matches(key) && this.read(key) !== null);
+  }
+
+  async mget<T extends unknown[]>(...keys: string[]): Promise<T> {
+    return keys.map(key => {
+      const value = this.rawGet(key);
+      return value === null ? null : JSON.parse(value);
+    }) as T;
+  }
+
+  async incrby(key: string, increment: number): Promise<number> {
+    return this.increment(key, increment);
+  }
+
+  async pexpire(key: string, milliseconds: number): Promise<number> {
+    return this.expire(key, milliseconds);
+  }
+
+  // Scripts are never cached, so callers fall back to EVAL as they would after a Redis restart
+  async evalsha(): Promise<never> {
+    throw new Error('NOSCRIPT No matching script. Please use EVAL.');
+  }
+
+  async eval(script: string, keys: string[], args: unknown[]): Promise<number> {
+    if (script.includes('requestsInPreviousWindow') && script.includes('INCRBY')) {
+      return this.slidingWindowLimit(keys, args.map(Number));
+    }
+    if (script.includes('requestsInPreviousWindow')) {
+      return this.slidingWindowUsed(keys, args.map(Number));
+    }
+    throw new Error('ERR script not supported by MemoryRedis');
+  }
+
+  private increment(key: string, increment: number): number {
+    const stored = this.read(key);
+    const value = Number(stored?.value ?? 0) + increment;
+    this.data.set(key, { value: String(value), expiresAt: stored?.expiresAt ?? null });
+    return value;
+  }
+
+  private expire(key: string, milliseconds: number): number {
+    const stored = this.read(key);
+    if (!stored) {
+      return 0;
+    }
+    stored.expiresAt = Date.now() + milliseconds;
+    return 1;
+  }
+
+  private weightedPrevious(previousKey: string, now: number, window: number): number {
+    const percentageInCurrent = (now % window) / window;
+    return Math.floor((1 - percentageInCurrent) * Number(this.rawGet(previousKey) ?? 0));
+  }
+
+  // Same steps as the ratelimit sliding window limit script
+  private slidingWindowLimit([currentKey, previousKey]: string[], [tokens, now, window, incrementBy]: number[]): number {
+    const current = Number(this.rawGet(currentKey) ?? 0);
+    const previous = this.weightedPrevious(previousKey, now, window);
+    if (previous + current >= tokens) {
+      return -1;
+    }
+
+    const updated = this.increment(currentKey, incrementBy);
+    if (updated === incrementBy) {
+      this.expire(currentKey, window * 2 + 1000);
+    }
+    return tokens - (updated + previous);
+  }
+
+  private slidingWindowUsed([currentKey, previousKey]: string[], [now, window]: number[]): number {
+    return this.weightedPrevious(previousKey, now, window) + Number(this.rawGet(currentKey) ?? 0);
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Minimal VercelResponse stand-in for calling API handlers in tests
+ */
+export const mockResponse = () => {
+  const res = {
+    statusCode: 0,
+    body: undefined as any,
+    headers: new Map<string, string>(),
+    setHeader(name: string, value: string) {
+      res.headers.set(name.toLowerCase(), value);
+      return res;
+    },
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+    send(body: unknown) {
+      res.body = body;
+      return res;
+    },
+    end() {
+      return res;
+    }
+  };
+  return res;
+};
+
+export type MockResponse = ReturnType<typeof mockResponse>;
@@ -4,6 +4,8 @@ export interface Launch {
   rocket: {
     name: string;
     configuration?: {
+      name?: string;      // e.g. 'Falcon 9'
+      full_name?: string; // e.g. 'Falcon 9 Block 5'
       launch_service_provider?: {
         name: string;
       };
@@ -27,6 +29,7 @@ export interface Launch {
     name: string;
     orbit?: {
       name: string;
+      inclination?: number; // degrees, when the provider publishes it
     };
     description?: string;
   };
@@ -50,7 +53,8 @@ export interface VisibilityData {
   trajectoryDirection?: 'Northeast' | 'East-Northeast' | 'East' | 'East-Southeast' | 'Southeast' | 'North' | 'South' | 'Unknown';
   score?: number; // visibility score (0-1)
   factors?: string[]; // array of factors affecting visibility
-  dataSource?: 'flightclub' | 'calculated' | 'estimated'; // Source of trajectory data
+  dataSource?: 'flightclub' | 'ground-track' | 'calculated' | 'estimated'; // Source of trajectory data
+  peakMagnitude?: number | null; // brightest naked-eye magnitude from telemetry (null = too faint); drives likelihood when set
 }
 
 // FlightClub API Types
@@ -102,6 +106,15 @@ export interface LaunchMatch {
   score: number; // 0-100 confidence score
   matchReasons: string[];
   validationWarnings?: string[];
+  pin?: 'confirmed' | 'pinned' | 'rejected'; // set when a user confirmed, chose or rejected the mission
+  pinStatus?: 'shared' | 'pending' | 'local'; // where a user's pin applies, returned by the pin actions
+}
+
+// A user's decision on a launch's FlightClub mission, shared through the server cache
+export interface MatchPin {
+  launchId: string;
+  missionId: string | null; // null when the launch has no FlightClub mission
+  pinnedAt: number;
 }
 
 export interface LaunchWithFlightClub extends Launch {
@@ -244,6 +257,20 @@ export interface DelayImpactAnalysis {
     timingChanged: boolean;
     qualityChanged: boolean;
   };
+  backupOpportunities?: BackupOpportunity[]; // projected attempts if this one scrubs
+}
+
+// One launch attempt after a scrub: the scheduled try or a later recycle
+export interface BackupOpportunity {
+  attempt: number;      // 0 = as scheduled, 1 = first recycle, ...
+  net: string;
+  windowStart?: string;
+  windowEnd?: string;
+  recycleHours: number; // offset from the scheduled attempt
+  twilightPhase: EnhancedVisibilityData['solarConditions']['twilightPhase'];
+  plumeIllumination: 'daylight' | 'sunlit' | 'shadowed'; // second stage against a dark sky is 'sunlit'
+  likelihood: VisibilityData['likelihood'];
+  visibility: EnhancedVisibilityData;
 }
 
 export interface LaunchWithDelayTracking extends Launch {
@@ -377,6 +404,11 @@ export interface VisibilityFactors {
   trackingPath: string;         // How rocket moves across sky (e.g., "SW → W → NW → N")
   maxViewingAngle: number;       // degrees above horizon at best visibility
   visibilityReason?: string;     // Enhanced explanation of 2nd stage visibility window
+  horizonObstruction?: {
+    maskApplied: boolean;        // Observer has a horizon mask
+    obstructedPoints: number;    // Trajectory points above the sea horizon but behind the mask
+    obstructedDirections: string[]; // Compass directions where the rocket is hidden
+  };
 }
 
 export interface TrajectoryPoint {
@@ -386,8 +418,9 @@ export interface TrajectoryPoint {
   altitude: number;  // km above sea level (or meters when specified)
   distance: number;  // km from Bermuda
   bearing: number;   // degrees from Bermuda
-  aboveHorizon: boolean; // visible above horizon from Bermuda
+  aboveHorizon: boolean; // visible above horizon (and horizon mask) from Bermuda
   elevationAngle: number; // degrees above horizon
+  obstructed?: boolean; // above the sea horizon but hidden by the horizon mask
   visible: boolean;  // within line-of-sight (alias for aboveHorizon)
   stage: 'first' | 'second-burn' | 'second-coast' | 'separation'; // rocket stage/phase
   engineStatus: 'burning' | 'shutdown' | 'separation'; // engine status
@@ -400,4 +433,107 @@ export interface GeometricVisibilityResult {
   reason: string;
   factors: VisibilityFactors;
   trajectoryPoints?: TrajectoryPoint[];
-}
\ No newline at end of file
+}
+// Observer location used for every visibility, solar, weather and telemetry calculation
+export interface ObserverLocation {
+  id: string;
+  name: string;
+  latitude: number;   // degrees
+  longitude: number;  // degrees
+  elevation: number;  // meters above sea level
+  timezone: string;   // IANA timezone, e.g. "Atlantic/Bermuda"
+  horizonMask?: HorizonMaskPoint[]; // terrain/building obstructions, sorted by azimuth
+}
+
+// Minimum visible elevation in a given direction (hills, buildings, trees)
+export interface HorizonMaskPoint {
+  azimuth: number;   // degrees from north, 0-360
+  elevation: number; // degrees above the sea horizon
+}
+
+export interface ObserverVisibilityComparison {
+  observer: ObserverLocation;
+  visibility: EnhancedVisibilityData;
+}
+
+// Visibility recomputed at regular liftoff times from window open to window close
+export interface LaunchWindowSweepStep {
+  time: string; // ISO liftoff time for this step
+  offsetMinutes: number; // minutes after window open
+  isNet: boolean; // step closest to the published NET
+  visibility: EnhancedVisibilityData;
+}
+
+export interface LaunchWindowSweep {
+  windowStart: string;
+  windowEnd: string;
+  stepMinutes: number;
+  steps: LaunchWindowSweepStep[];
+}
+
+// Launch archive: the prediction frozen at T-0 and what observers actually saw
+export interface ArchivedPrediction {
+  capturedAt: number; // ms epoch of the last capture before liftoff
+  likelihood: VisibilityData['likelihood'];
+  dataSource?: VisibilityData['dataSource'];
+  trajectorySource?: 'database' | 'orbital-mechanics' | 'mission-type' | 'fallback' | 'manual';
+  bearing?: number;
+  firstVisibleSeconds?: number | null; // predicted T+ seconds of first sighting
+  visibility: EnhancedVisibilityData;
+  flightClubMatch?: LaunchMatch | null;
+}
+
+export interface SightingReport {
+  launchId: string;
+  seen: boolean;
+  firstSeenAt?: string; // ISO time the vehicle was first spotted
+  direction?: string;   // 16-point compass abbreviation, e.g. "WSW"
+  photoUrl?: string;
+  submittedAt: number;
+}
+
+export interface ArchivedLaunch {
+  launchId: string;
+  name: string;
+  net: string;
+  vehicle?: string;
+  provider?: string;
+  prediction: ArchivedPrediction;
+  reports: SightingReport[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// User correction to the automated trajectory for one launch, shared as JSON
+export interface GroundTrackPoint {
+  time: number;      // T+ seconds
+  latitude: number;  // degrees
+  longitude: number; // degrees
+  altitude: number;  // km
+}
+
+export type GroundTrackFormat = 'gpx' | 'kml' | 'csv';
+
+export interface TrajectoryOverride {
+  launchId: string;
+  missionName?: string; // for listing overrides after the launch has left the schedule
+  azimuth?: number;     // launch azimuth, degrees from north
+  direction?: 'Northeast' | 'East-Northeast' | 'East' | 'East-Southeast' | 'Southeast' | 'North' | 'South';
+  groundTrack?: GroundTrackPoint[]; // replaces the simulated trajectory when set
+  groundTrackFile?: { name: string; format: GroundTrackFormat }; // set when the ground track was imported from a file
+  note?: string;
+  updatedAt: number;
+}
+
+// Upcoming launches with visibility precomputed for the default observer, served by /api/launches
+export interface LaunchFeedEntry extends LaunchWithVisibility {
+  visibility: EnhancedVisibilityData;
+}
+
+export interface LaunchFeed {
+  launches: LaunchFeedEntry[];
+  observerId: string;  // ObserverLocation.id the visibility was calculated for
+  generatedAt: string; // ISO time the visibility was calculated
+  cached: boolean;
+  warning?: string;
+}
@@ -3,9 +3,8 @@
  * Calculates sunrise, sunset, and twilight times based on date
  */
 
-// Bermuda coordinates
-const BERMUDA_LAT = 32.3078;
-const BERMUDA_LNG = -64.7505;
+import { getObserverLocation } from '../services/observerLocationService';
+import { BermudaTimeService } from '../services/bermudaTimeService';
 
 export interface SunTimes {
   sunrise: Date;
@@ -117,19 +116,20 @@ export function getSunTimes(date: Date): SunTimes {
     astronomical: -18       // Astronomical twilight
   };
   
-  const sunrise = calculateSunTime(calcDate, BERMUDA_LAT, BERMUDA_LNG, SUN_ANGLES.sunrise, true);
-  const sunset = calculateSunTime(calcDate, BERMUDA_LAT, BERMUDA_LNG, SUN_ANGLES.sunrise, false);
+  const observer = getObserverLocation();
+  const sunrise = calculateSunTime(calcDate, observer.latitude, observer.longitude, SUN_ANGLES.sunrise, true);
+  const sunset = calculateSunTime(calcDate, observer.latitude, observer.longitude, SUN_ANGLES.sunrise, false);
   
   return {
     sunrise,
     sunset,
-    civilTwilightBegin: calculateSunTime(calcDate, BERMUDA_LAT, BERMUDA_LNG, SUN_ANGLES.civil, true),
-    civilTwilightEnd: calculateSunTime(calcDate, BERMUDA_LAT, BERMUDA_LNG, SUN_ANGLES.civil, false),
-    nauticalTwilightBegin: calculateSunTime(calcDate, BERMUDA_LAT, BERMUDA_LNG, SUN_ANGLES.nautical, true),
-    nauticalTwilightEnd: calculateSunTime(calcDate, BERMUDA_LAT, BERMUDA_LNG, SUN_ANGLES.nautical, false),
-    astronomicalTwilightBegin: calculateSunTime(calcDate, BERMUDA_LAT, BERMUDA_LNG, SUN_ANGLES.astronomical, true),
-    astronomicalTwilightEnd: calculateSunTime(calcDate, BERMUDA_LAT, BERMUDA_LNG, SUN_ANGLES.astronomical, false),
-    solarNoon: calculateSunTime(calcDate, BERMUDA_LAT, BERMUDA_LNG, 0, true) // Solar noon is when sun is highest
+    civilTwilightBegin: calculateSunTime(calcDate, observer.latitude, observer.longitude, SUN_ANGLES.civil, true),
+    civilTwilightEnd: calculateSunTime(calcDate, observer.latitude, observer.longitude, SUN_ANGLES.civil, false),
+    nauticalTwilightBegin: calculateSunTime(calcDate, observer.latitude, observer.longitude, SUN_ANGLES.nautical, true),
+    nauticalTwilightEnd: calculateSunTime(calcDate, observer.latitude, observer.longitude, SUN_ANGLES.nautical, false),
+    astronomicalTwilightBegin: calculateSunTime(calcDate, observer.latitude, observer.longitude, SUN_ANGLES.astronomical, true),
+    astronomicalTwilightEnd: calculateSunTime(calcDate, observer.latitude, observer.longitude, SUN_ANGLES.astronomical, false),
+    solarNoon: calculateSunTime(calcDate, observer.latitude, observer.longitude, 0, true) // Solar noon is when sun is highest
   };
 }
 
@@ -205,7 +205,7 @@ export function formatTimeForDisplay(date: Date): string {
     hour: 'numeric',
     minute: '2-digit',
     hour12: true,
-    timeZone: 'Atlantic/Bermuda'
+    timeZone: BermudaTimeService.getDisplayTimeZone()
   });
 }
 
@@ -0,0 +1,115 @@
+/**
+ * Atmospheric Optics for low-elevation rocket sightings
+ * Refraction lifts objects near the horizon; airmass extinction dims them.
+ * Both matter at the 1-5° elevations where Florida launches appear from Bermuda.
+ */
+
+export interface AtmosphericConditions {
+  pressure: number;    // hPa at the observer
+  temperature: number; // °C at the observer
+  source: 'weather' | 'standard';
+}
+
+export const STANDARD_ATMOSPHERE: AtmosphericConditions = {
+  pressure: 1013.25,
+  temperature: 15,
+  source: 'standard'
+};
+
+// Typical sea-level extinction for a humid maritime site (magnitudes per airmass)
+export const EXTINCTION_COEFFICIENT = 0.25;
+
+// Apparent magnitude of a burning upper-stage plume seen from 1000 km at the zenith
+export const PLUME_REFERENCE_MAGNITUDE = -3;
+
+// Airmass at the horizon (Kasten-Young formula limit)
+const HORIZON_AIRMASS = 38;
+
+/**
+ * Standard-atmosphere pressure at an elevation, used when no weather reading is available
+ */
+export function standardPressureAtElevation(elevationMeters: number): number {
+  return STANDARD_ATMOSPHERE.pressure * Math.pow(1 - 2.25577e-5 * elevationMeters, 5.25588);
+}
+
+/**
+ * Atmospheric refraction in degrees for a geometric (true) elevation.
+ * Sæmundsson's formula scaled for pressure and temperature.
+ */
+export function calculateRefraction(
+  geometricElevation: number,
+  conditions: AtmosphericConditions = STANDARD_ATMOSPHERE
+): number {
+  // Below about -2° the object is hidden by the Earth regardless of refraction
+  if (geometricElevation < -2) {
+    return 0;
+  }
+
+  const h = Math.max(geometricElevation, -1);
+  const refractionArcmin = 1.02 / Math.tan((h + 10.3 / (h + 5.11)) * Math.PI / 180);
+  const scale = (conditions.pressure / 1010) * (283 / (273 + conditions.temperature));
+
+  return Math.max(0, refractionArcmin * scale / 60);
+}
+
+/**
+ * Apparent elevation after refraction
+ */
+export function applyRefraction(
+  geometricElevation: number,
+  conditions: AtmosphericConditions = STANDARD_ATMOSPHERE
+): number {
+  return geometricElevation + calculateRefraction(geometricElevation, conditions);
+}
+
+/**
+ * Relative airmass along the line of sight (Kasten-Young)
+ */
+export function calculateAirmass(apparentElevation: number): number {
+  if (apparentElevation <= 0) {
+    return HORIZON_AIRMASS;
+  }
+
+  const h = Math.min(apparentElevation, 90);
+  const airmass = 1 / (Math.sin(h * Math.PI / 180) + 0.50572 * Math.pow(h + 6.07995, -1.6364));
+  return Math.min(airmass, HORIZON_AIRMASS);
+}
+
+/**
+ * Dimming in magnitudes from airmass extinction, scaled by station pressure
+ */
+export function calculateExtinction(
+  apparentElevation: number,
+  conditions: AtmosphericConditions = STANDARD_ATMOSPHERE,
+  coefficient: number = EXTINCTION_COEFFICIENT
+): number {
+  return coefficient * calculateAirmass(apparentElevation) * (conditions.pressure / STANDARD_ATMOSPHERE.pressure);
+}
+
+/**
+ * Apparent magnitude of a light source given its brightness at 1000 km,
+ * its distance and apparent elevation (inverse-square falloff plus extinction)
+ */
+export function estimateApparentMagnitude(
+  distanceKm: number,
+  apparentElevation: number,
+  conditions: AtmosphericConditions = STANDARD_ATMOSPHERE,
+  referenceMagnitude: number = PLUME_REFERENCE_MAGNITUDE
+): number {
+  const distanceTerm = 5 * Math.log10(Math.max(distanceKm, 1) / 1000);
+  return referenceMagnitude + distanceTerm + calculateExtinction(apparentElevation, conditions);
+}
+
+/**
+ * Faintest magnitude visible to the naked eye for a given sun elevation
+ */
+export function getLimitingMagnitude(sunElevation: number): number {
+  if (sunElevation >= 0) return -4;     // Daylight: only very bright objects
+  if (sunElevation <= -18) return 6;    // Astronomical night
+  if (sunElevation >= -6) {
+    // Civil twilight: -4 at sunset to 2 at -6°
+    return -4 + (-sunElevation / 6) * 6;
+  }
+  // Nautical/astronomical twilight: 2 at -6° to 6 at -18°
+  return 2 + ((-sunElevation - 6) / 12) * 4;
+}
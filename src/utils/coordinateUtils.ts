@@ -3,6 +3,8 @@
  * Handles conversion between image pixels and geographic coordinates
  */
 
+import { getObserverLocation } from '../services/observerLocationService';
+
 export interface MapBounds {
   north: number;
   south: number;
@@ -131,7 +133,8 @@ export function findClosestApproach(trajectoryPoints: GeoPoint[]): {
   distance: number;
   index: number;
 } {
-  const bermuda: GeoPoint = { lat: 32.3078, lng: -64.7505 };
+  const observer = getObserverLocation();
+  const bermuda: GeoPoint = { lat: observer.latitude, lng: observer.longitude };
   
   let closestDistance = Infinity;
   let closestPoint = trajectoryPoints[0];
@@ -0,0 +1,278 @@
+/**
+ * Ground track utilities
+ * A ground track is a list of trajectory positions used to correct an automated
+ * trajectory: typed in by hand, or imported from a GPX track, a KML path or
+ * hazard areas traced from a NOTAM/NAVAREA map, or a CSV export. Time and
+ * altitude are optional; missing values are estimated when the track is saved.
+ */
+
+import { GroundTrackFormat, GroundTrackPoint } from '../types';
+
+export interface GroundTrackSample {
+  latitude: number;  // degrees
+  longitude: number; // degrees
+  altitude?: number; // km
+  time?: number;     // T+ seconds
+}
+
+export interface GroundTrackParseResult {
+  track: GroundTrackSample[];
+  errors: string[];
+}
+
+export interface GroundTrackFileParseResult extends GroundTrackParseResult {
+  format: GroundTrackFormat;
+}
+
+type CsvColumn = 'time' | 'latitude' | 'longitude' | 'altitudeKm' | 'altitudeM';
+
+const CSV_HEADER_ALIASES: Record<string, CsvColumn> = {
+  time: 'time', t: 'time', seconds: 'time', time_s: 'time', t_plus: 'time',
+  lat: 'latitude', latitude: 'latitude',
+  lon: 'longitude', lng: 'longitude', long: 'longitude', longitude: 'longitude',
+  alt: 'altitudeKm', altitude: 'altitudeKm', alt_km: 'altitudeKm', altitude_km: 'altitudeKm',
+  ele: 'altitudeM', elevation: 'altitudeM', alt_m: 'altitudeM', altitude_m: 'altitudeM'
+};
+
+// Column order for files without a header row, by number of columns
+const CSV_DEFAULT_COLUMNS: Record<number, CsvColumn[]> = {
+  2: ['latitude', 'longitude'],
+  3: ['latitude', 'longitude', 'altitudeKm'],
+  4: ['time', 'latitude', 'longitude', 'altitudeKm']
+};
+
+const splitCsvLine = (line: string): string[] =>
+  (/[,;\t]/.test(line) ? line.split(/[,;\t]/) : line.split(/\s+/)).map(field => field.trim());
+
+const isValidPosition = (latitude: number, longitude: number): boolean =>
+  !isNaN(latitude) && !isNaN(longitude) && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+
+/**
+ * Parse CSV ground track lines. A header row names the columns (latitude and
+ * longitude are required, time and altitude optional); without one, two, three
+ * or four columns are read as "lat,lng", "lat,lng,alt_km" or "time,lat,lng,alt_km".
+ * Blank lines and "#" comments are ignored.
+ */
+export function parseGroundTrackCsv(text: string): GroundTrackParseResult {
+  const track: GroundTrackSample[] = [];
+  const errors: string[] = [];
+  let columns: Array<CsvColumn | undefined> | null = null;
+  let expected = 'time,latitude,longitude,altitude_km';
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) {
+      return;
+    }
+
+    const fields = splitCsvLine(line);
+
+    // Header row such as "time,latitude,longitude,altitude_km"
+    if (track.length === 0 && errors.length === 0 && !columns && isNaN(parseFloat(fields[0]))) {
+      columns = fields.map(field => CSV_HEADER_ALIASES[field.toLowerCase().replace(/[^a-z_]/g, '')]);
+      expected = fields.join(',');
+      if (!columns.includes('latitude') || !columns.includes('longitude')) {
+        errors.push(`Line ${index + 1}: header needs latitude and longitude columns`);
+      }
+      return;
+    }
+
+    const lineColumns: Array<CsvColumn | undefined> | undefined = columns ?? CSV_DEFAULT_COLUMNS[fields.length];
+    if (!lineColumns) {
+      errors.push(`Line ${index + 1}: expected "time,latitude,longitude,altitude_km"`);
+      return;
+    }
+
+    // Optional columns may be left empty, but anything present has to be a number
+    const values: Partial<Record<CsvColumn, number>> = {};
+    let complete = true;
+    lineColumns.forEach((column, fieldIndex) => {
+      const field = fields[fieldIndex] ?? '';
+      const value = parseFloat(field);
+      if (!column) {
+        return;
+      }
+      if (!isNaN(value)) {
+        values[column] = value;
+      } else if (field || !columns) {
+        complete = false;
+      }
+    });
+
+    const { latitude, longitude, time, altitudeKm, altitudeM } = values;
+    if (!complete || latitude === undefined || longitude === undefined || !isValidPosition(latitude, longitude)) {
+      errors.push(`Line ${index + 1}: expected "${expected}"`);
+      return;
+    }
+
+    track.push({
+      latitude,
+      longitude,
+      altitude: altitudeKm ?? (altitudeM !== undefined ? altitudeM / 1000 : undefined),
+      time
+    });
+  });
+
+  return { track, errors };
+}
+
+/**
+ * Child elements by local name, whatever namespace prefix the file uses
+ */
+function elementsByName(root: Document | Element, localName: string): Element[] {
+  return Array.from(root.getElementsByTagNameNS('*', localName));
+}
+
+function childText(element: Element, localName: string): string | undefined {
+  return elementsByName(element, localName)[0]?.textContent?.trim() || undefined;
+}
+
+function parseXml(text: string, format: string): Document | string {
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    return `File is not valid ${format}`;
+  }
+  return xml;
+}
+
+/**
+ * Parse a GPX track (or route, or waypoints when there is neither). Elevations
+ * are metres; point times become seconds after the first point.
+ */
+export function parseGroundTrackGpx(text: string): GroundTrackParseResult {
+  const xml = parseXml(text, 'GPX');
+  if (typeof xml === 'string') {
+    return { track: [], errors: [xml] };
+  }
+
+  const points = ['trkpt', 'rtept', 'wpt']
+    .map(name => elementsByName(xml, name))
+    .find(elements => elements.length > 0) ?? [];
+
+  const errors: string[] = [];
+  const samples: Array<GroundTrackSample & { timestamp?: number }> = [];
+  points.forEach((point, index) => {
+    const latitude = parseFloat(point.getAttribute('lat') ?? '');
+    const longitude = parseFloat(point.getAttribute('lon') ?? '');
+    if (!isValidPosition(latitude, longitude)) {
+      errors.push(`Point ${index + 1}: missing or invalid lat/lon`);
+      return;
+    }
+
+    const elevation = parseFloat(childText(point, 'ele') ?? '');
+    const timestamp = Date.parse(childText(point, 'time') ?? '');
+    samples.push({
+      latitude,
+      longitude,
+      altitude: isNaN(elevation) ? undefined : elevation / 1000,
+      timestamp: isNaN(timestamp) ? undefined : timestamp
+    });
+  });
+
+  // Times are only meaningful when every point has one
+  const timed = samples.length > 0 && samples.every(sample => sample.timestamp !== undefined);
+  const track = samples.map(({ timestamp, ...sample }) => ({
+    ...sample,
+    time: timed ? (timestamp! - samples[0].timestamp!) / 1000 : undefined
+  }));
+
+  return { track, errors };
+}
+
+/**
+ * Parse "lon,lat[,alt]" KML coordinate tuples
+ */
+function parseKmlCoordinates(text: string): GroundTrackSample[] {
+  return text.trim().split(/\s+/).map(tuple => {
+    const [longitude, latitude, altitude] = tuple.split(',').map(value => parseFloat(value));
+    return { latitude, longitude, altitude: isNaN(altitude) ? undefined : altitude / 1000 };
+  }).filter(sample => isValidPosition(sample.latitude, sample.longitude));
+}
+
+/**
+ * Parse a KML ground track: a gx:Track with timestamps, LineString paths, or
+ * hazard-area polygons (each reduced to its centre, in document order).
+ * Altitudes are metres; all-zero altitudes are treated as clamped to the ground.
+ */
+export function parseGroundTrackKml(text: string): GroundTrackParseResult {
+  const xml = parseXml(text, 'KML');
+  if (typeof xml === 'string') {
+    return { track: [], errors: [xml] };
+  }
+
+  let track: GroundTrackSample[] = [];
+  const gxTrack = elementsByName(xml, 'Track')[0];
+  if (gxTrack) {
+    const times = elementsByName(gxTrack, 'when').map(element => Date.parse(element.textContent ?? ''));
+    const coords = elementsByName(gxTrack, 'coord').map(element => {
+      const [longitude, latitude, altitude] = (element.textContent ?? '').trim().split(/\s+/).map(value => parseFloat(value));
+      return { latitude, longitude, altitude: isNaN(altitude) ? undefined : altitude / 1000 };
+    });
+    const timed = times.length === coords.length && times.every(time => !isNaN(time));
+    track = coords
+      .map((sample, index) => ({ ...sample, time: timed ? (times[index] - times[0]) / 1000 : undefined }))
+      .filter(sample => isValidPosition(sample.latitude, sample.longitude));
+  }
+
+  if (track.length === 0) {
+    track = elementsByName(xml, 'LineString')
+      .flatMap(line => parseKmlCoordinates(childText(line, 'coordinates') ?? ''));
+  }
+
+  if (track.length === 0) {
+    track = elementsByName(xml, 'Polygon').map(polygon => {
+      const outer = elementsByName(polygon, 'outerBoundaryIs')[0] ?? polygon;
+      const ring = parseKmlCoordinates(childText(outer, 'coordinates') ?? '');
+      // The closing vertex repeats the first one
+      const vertices = ring.length > 1 ? ring.slice(0, -1) : ring;
+      return {
+        latitude: vertices.reduce((sum, vertex) => sum + vertex.latitude, 0) / vertices.length,
+        longitude: vertices.reduce((sum, vertex) => sum + vertex.longitude, 0) / vertices.length
+      };
+    }).filter(sample => isValidPosition(sample.latitude, sample.longitude));
+  }
+
+  if (track.length === 0) {
+    track = elementsByName(xml, 'Point')
+      .flatMap(point => parseKmlCoordinates(childText(point, 'coordinates') ?? ''));
+  }
+
+  if (track.every(sample => !sample.altitude)) {
+    track = track.map(sample => ({ ...sample, altitude: undefined }));
+  }
+
+  return { track, errors: [] };
+}
+
+/**
+ * Detect the file format from its name (or content) and parse it
+ */
+export function parseGroundTrackFile(fileName: string, text: string): GroundTrackFileParseResult {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'kmz') {
+    return { format: 'kml', track: [], errors: ['KMZ files are zipped; extract the .kml inside and import that'] };
+  }
+
+  const format: GroundTrackFormat = extension === 'gpx' || extension === 'kml'
+    ? extension
+    : /<gpx[\s>]/.test(text) ? 'gpx' : /<kml[\s>]/.test(text) ? 'kml' : 'csv';
+
+  const result = format === 'gpx'
+    ? parseGroundTrackGpx(text)
+    : format === 'kml' ? parseGroundTrackKml(text) : parseGroundTrackCsv(text);
+
+  if (result.errors.length === 0 && result.track.length < 2) {
+    result.errors.push(`No ground track found in ${fileName}; it needs at least two positions`);
+  }
+  return { format, ...result };
+}
+
+/**
+ * Serialize a ground track back to CSV text
+ */
+export function groundTrackToCsv(track: GroundTrackPoint[]): string {
+  return [
+    'time,latitude,longitude,altitude_km',
+    ...track.map(point => `${point.time},${point.latitude},${point.longitude},${point.altitude}`)
+  ].join('\n');
+}
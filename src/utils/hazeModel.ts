@@ -0,0 +1,99 @@
+/**
+ * Marine haze model for low-elevation sightings
+ * Humid Atlantic air scatters light along the long near-horizon path, so a
+ * plume that is bright enough on paper is lost in the murk below a few
+ * degrees. Severity comes from relative humidity, the dew point spread and
+ * wind: calm, near-saturated air lets a marine layer build.
+ */
+
+import { visibilityConfig } from '../config/environment';
+
+export interface HazeConditions {
+  temperature: number; // °C
+  humidity: number;    // % relative humidity
+  windSpeed: number;   // km/h at 10 m
+  dewPoint?: number;   // °C; derived from temperature and humidity when missing
+}
+
+export interface HazeAssessment {
+  severity: number; // 0 (clear air) to 1 (thick marine layer)
+  level: 'none' | 'light' | 'moderate' | 'heavy';
+  dewPointSpread: number; // °C
+  marineLayer: boolean;
+  hazeElevation: number; // degrees; sightings below this are lost in haze
+  description: string;
+}
+
+export interface HazedWindow {
+  startTime: number | null;
+  endTime: number | null;
+  visibleSeconds: number;
+  lostSeconds: number; // visible time removed by haze
+}
+
+/**
+ * Dew point from temperature and relative humidity (Magnus formula)
+ */
+export function calculateDewPoint(temperature: number, humidity: number): number {
+  const a = 17.62;
+  const b = 243.12;
+  const gamma = Math.log(Math.max(humidity, 1) / 100) + (a * temperature) / (b + temperature);
+  return (b * gamma) / (a - gamma);
+}
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+export function assessHaze(
+  conditions: HazeConditions,
+  elevationLimit: number = visibilityConfig.hazeElevationLimit
+): HazeAssessment {
+  const dewPoint = conditions.dewPoint ?? calculateDewPoint(conditions.temperature, conditions.humidity);
+  const dewPointSpread = Math.max(0, conditions.temperature - dewPoint);
+
+  // Spread under 1°C is near saturation; above 8°C the air is dry enough to stay clear
+  const spreadFactor = clamp01((8 - dewPointSpread) / 7);
+  const humidityFactor = clamp01((conditions.humidity - 60) / 35);
+  // Light winds let haze pool over the water; a fresh breeze mixes it out
+  const windFactor = conditions.windSpeed < 10 ? 1.2 : conditions.windSpeed > 35 ? 0.7 : 1;
+
+  const severity = clamp01((0.6 * spreadFactor + 0.4 * humidityFactor) * windFactor);
+  const level: HazeAssessment['level'] = severity < 0.2 ? 'none' : severity < 0.45 ? 'light' : severity < 0.7 ? 'moderate' : 'heavy';
+  const marineLayer = dewPointSpread <= 2 && conditions.windSpeed < 15;
+  const hazeElevation = level === 'none' ? 0 : elevationLimit * severity;
+
+  const description = level === 'none'
+    ? 'Dry air - no horizon haze expected'
+    : `${marineLayer ? 'Marine layer' : `${level.charAt(0).toUpperCase()}${level.slice(1)} haze`} ` +
+      `(${Math.round(conditions.humidity)}% humidity, dew point spread ${dewPointSpread.toFixed(1)}°C, ` +
+      `wind ${Math.round(conditions.windSpeed)} km/h) hides the rocket below ${hazeElevation.toFixed(1)}°`;
+
+  return { severity, level, dewPointSpread, marineLayer, hazeElevation, description };
+}
+
+/**
+ * Visible time left once frames below the haze elevation are dropped.
+ * Frames must be in time order; each visible frame counts until the next one.
+ */
+export function applyHazeToFrames(
+  frames: { time: number; elevation: number }[],
+  haze: Pick<HazeAssessment, 'hazeElevation'>
+): HazedWindow {
+  let visibleSeconds = 0;
+  let lostSeconds = 0;
+  let startTime: number | null = null;
+  let endTime: number | null = null;
+
+  frames.forEach((frame, index) => {
+    const next = frames[index + 1];
+    const interval = next ? next.time - frame.time : 0;
+    if (frame.elevation >= haze.hazeElevation) {
+      visibleSeconds += interval;
+      if (startTime === null) startTime = frame.time;
+      endTime = frame.time;
+    } else {
+      lostSeconds += interval;
+    }
+  });
+
+  return { startTime, endTime, visibleSeconds, lostSeconds };
+}
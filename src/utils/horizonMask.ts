@@ -0,0 +1,126 @@
+/**
+ * Horizon mask utilities
+ * A horizon mask lists the minimum visible elevation by azimuth for an observer,
+ * so hills and buildings that block the low western sky can be taken into account.
+ */
+
+import { HorizonMaskPoint } from '../types';
+
+export interface HorizonMaskParseResult {
+  mask: HorizonMaskPoint[];
+  errors: string[];
+}
+
+const normalizeAzimuth = (azimuth: number): number => ((azimuth % 360) + 360) % 360;
+
+/**
+ * Sort points by azimuth and collapse duplicates (the highest elevation wins)
+ */
+export function normalizeHorizonMask(points: HorizonMaskPoint[]): HorizonMaskPoint[] {
+  const byAzimuth = new Map<number, number>();
+
+  points.forEach(point => {
+    const azimuth = normalizeAzimuth(point.azimuth);
+    byAzimuth.set(azimuth, Math.max(byAzimuth.get(azimuth) ?? -Infinity, point.elevation));
+  });
+
+  return Array.from(byAzimuth.entries())
+    .map(([azimuth, elevation]) => ({ azimuth, elevation }))
+    .sort((a, b) => a.azimuth - b.azimuth);
+}
+
+/**
+ * Validate a horizon mask, returning a list of problems (empty when valid)
+ */
+export function validateHorizonMask(points: HorizonMaskPoint[]): string[] {
+  const errors: string[] = [];
+
+  points.forEach((point, index) => {
+    if (typeof point.azimuth !== 'number' || isNaN(point.azimuth) || point.azimuth < 0 || point.azimuth > 360) {
+      errors.push(`Point ${index + 1}: azimuth must be between 0 and 360`);
+    }
+    if (typeof point.elevation !== 'number' || isNaN(point.elevation) || point.elevation < -5 || point.elevation > 90) {
+      errors.push(`Point ${index + 1}: elevation must be between -5 and 90`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Parse az/el pairs from CSV text. Accepts comma, semicolon, tab or space separators,
+ * an optional header row and '#' comment lines.
+ */
+export function parseHorizonMaskCsv(text: string): HorizonMaskParseResult {
+  const points: HorizonMaskPoint[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) {
+      return;
+    }
+
+    const fields = line.split(/[,;\t ]+/).filter(Boolean);
+    const azimuth = parseFloat(fields[0]);
+    const elevation = parseFloat(fields[1]);
+
+    if (fields.length < 2 || isNaN(azimuth) || isNaN(elevation)) {
+      // Skip a header row such as "azimuth,elevation"
+      if (points.length === 0 && errors.length === 0 && isNaN(azimuth)) {
+        return;
+      }
+      errors.push(`Line ${index + 1}: expected "azimuth,elevation"`);
+      return;
+    }
+
+    points.push({ azimuth, elevation });
+  });
+
+  errors.push(...validateHorizonMask(points));
+
+  return {
+    mask: errors.length === 0 ? normalizeHorizonMask(points) : [],
+    errors
+  };
+}
+
+/**
+ * Serialize a horizon mask back to CSV text
+ */
+export function horizonMaskToCsv(mask: HorizonMaskPoint[]): string {
+  return ['azimuth,elevation', ...mask.map(point => `${point.azimuth},${point.elevation}`)].join('\n');
+}
+
+/**
+ * Minimum visible elevation at an azimuth, linearly interpolated between mask points
+ * (wrapping through north). Returns 0 when there is no mask.
+ */
+export function getHorizonMaskElevation(mask: HorizonMaskPoint[] | undefined, azimuth: number): number {
+  if (!mask || mask.length === 0) {
+    return 0;
+  }
+  if (mask.length === 1) {
+    return mask[0].elevation;
+  }
+
+  const az = normalizeAzimuth(azimuth);
+  const nextIndex = mask.findIndex(point => point.azimuth >= az);
+  const after = mask[nextIndex === -1 ? 0 : nextIndex];
+  const before = mask[nextIndex <= 0 ? mask.length - 1 : nextIndex - 1];
+
+  if (after.azimuth === az) {
+    return after.elevation;
+  }
+
+  const span = normalizeAzimuth(after.azimuth - before.azimuth) || 360;
+  const offset = normalizeAzimuth(az - before.azimuth);
+  return before.elevation + (after.elevation - before.elevation) * (offset / span);
+}
+
+/**
+ * Check whether a direction in the sky is above the observer's horizon mask
+ */
+export function isAboveHorizonMask(mask: HorizonMaskPoint[] | undefined, azimuth: number, elevation: number): boolean {
+  return elevation > getHorizonMaskElevation(mask, azimuth);
+}
@@ -0,0 +1,118 @@
+/**
+ * Launch Azimuth Solver
+ * Derives the launch azimuth for a target orbital inclination from the pad
+ * latitude. The inertial azimuth comes from spherical trigonometry
+ * (sin β = cos i / cos φ), then Earth's eastward surface speed is removed so
+ * the result is the heading flown over the ground.
+ *
+ * Every reachable inclination has a northbound and a southbound solution.
+ * Inclinations below the pad latitude cannot be reached directly, and range
+ * safety keeps Florida launches inside an offshore corridor; either case is
+ * flown with a dogleg (a yaw steer after liftoff) and flagged.
+ */
+
+export interface RangeCorridor {
+  minAzimuth: number; // degrees from north
+  maxAzimuth: number;
+}
+
+export interface AzimuthSolution {
+  heading: 'northbound' | 'southbound';
+  azimuth: number;         // ground heading at liftoff, degrees from north
+  inertialAzimuth: number; // heading in the non-rotating frame
+  dogleg: boolean;         // the flight yaws after liftoff to reach the target plane
+}
+
+export interface LaunchAzimuthSolutions {
+  inclination: number; // degrees
+  padLatitude: number; // degrees
+  directInsertion: boolean; // false when the inclination is below the pad latitude
+  northbound: AzimuthSolution;
+  southbound: AzimuthSolution;
+  preferred: AzimuthSolution;
+}
+
+export interface LaunchAzimuthOptions {
+  altitudeKm?: number; // insertion altitude for the orbital speed, default 200
+  corridor?: RangeCorridor;
+  heading?: AzimuthSolution['heading']; // preferred solution, default northbound for prograde orbits
+}
+
+// Eastern Range limits for the Florida pads; steeper polar flights dogleg south once clear of the coast
+export const EASTERN_RANGE_CORRIDOR: RangeCorridor = { minAzimuth: 35, maxAzimuth: 140 };
+
+const MU_KM = 398600.4418;          // km^3/s^2
+const EARTH_RADIUS_KM = 6371;
+const EQUATORIAL_SURFACE_SPEED = 0.4651; // km/s
+
+const toRad = (degrees: number) => degrees * Math.PI / 180;
+const toDeg = (radians: number) => radians * 180 / Math.PI;
+const normalize = (degrees: number) => ((degrees % 360) + 360) % 360;
+const round = (degrees: number) => Math.round(degrees * 10) / 10;
+const angularGap = (a: number, b: number) => Math.min(normalize(a - b), normalize(b - a));
+
+/**
+ * Nearest corridor limit for an azimuth outside the corridor
+ */
+function clampToCorridor(azimuth: number, corridor: RangeCorridor): number {
+  if (azimuth >= corridor.minAzimuth && azimuth <= corridor.maxAzimuth) {
+    return azimuth;
+  }
+  return angularGap(azimuth, corridor.minAzimuth) <= angularGap(azimuth, corridor.maxAzimuth)
+    ? corridor.minAzimuth
+    : corridor.maxAzimuth;
+}
+
+/**
+ * Solve the launch azimuth for a target inclination from a pad latitude
+ */
+export function solveLaunchAzimuth(
+  inclination: number,
+  padLatitude: number,
+  options: LaunchAzimuthOptions = {}
+): LaunchAzimuthSolutions {
+  const corridor = options.corridor ?? EASTERN_RANGE_CORRIDOR;
+  const latitudeRad = toRad(padLatitude);
+  const orbitalSpeed = Math.sqrt(MU_KM / (EARTH_RADIUS_KM + (options.altitudeKm ?? 200)));
+  const surfaceSpeed = EQUATORIAL_SURFACE_SPEED * Math.cos(latitudeRad);
+
+  // Below the pad latitude (or its retrograde mirror) the plane is out of reach:
+  // launch due east or west and steer into the plane later
+  const sinAzimuth = Math.cos(toRad(inclination)) / Math.cos(latitudeRad);
+  const directInsertion = Math.abs(sinAzimuth) <= 1;
+  const northboundInertial = normalize(toDeg(Math.asin(Math.max(-1, Math.min(1, sinAzimuth)))));
+
+  const solve = (heading: AzimuthSolution['heading']): AzimuthSolution => {
+    const inertialAzimuth = heading === 'northbound' ? northboundInertial : normalize(180 - northboundInertial);
+    const eastSpeed = orbitalSpeed * Math.sin(toRad(inertialAzimuth)) - surfaceSpeed;
+    const northSpeed = orbitalSpeed * Math.cos(toRad(inertialAzimuth));
+    const groundAzimuth = normalize(toDeg(Math.atan2(eastSpeed, northSpeed)));
+    const azimuth = clampToCorridor(groundAzimuth, corridor);
+
+    return {
+      heading,
+      azimuth: round(azimuth),
+      inertialAzimuth: round(inertialAzimuth),
+      dogleg: !directInsertion || azimuth !== groundAzimuth
+    };
+  };
+
+  const northbound = solve('northbound');
+  const southbound = solve('southbound');
+
+  // Prefer the requested heading when it needs no dogleg; Florida flies retrograde orbits southbound
+  const wanted = options.heading ?? (inclination > 90 ? 'southbound' : 'northbound');
+  const flyable = [northbound, southbound].filter(solution => !solution.dogleg);
+  const preferred = flyable.find(solution => solution.heading === wanted)
+    ?? flyable[0]
+    ?? (wanted === 'southbound' ? southbound : northbound);
+
+  return {
+    inclination,
+    padLatitude,
+    directInsertion,
+    northbound,
+    southbound,
+    preferred
+  };
+}
@@ -0,0 +1,253 @@
+/**
+ * Launch matching engine
+ * Pairs a Launch Library launch with its Flight Club mission. Shared by the
+ * browser and the serverless cache job so both pick the same simulation.
+ *
+ * A Launch Library ID recorded on the mission is an exact match. Otherwise
+ * candidates are scored out of 100: mission name 60, launch date 25, provider
+ * 10, vehicle 5. Series numbers ("Group 10-6", "Crew-9", "SV-07") have to
+ * agree, so neighbouring Starlink groups or crew rotations never match.
+ */
+
+import { MatchConfidence } from '../types';
+import { VEHICLE_CATALOGUE } from './vehicleCatalogue';
+
+// Structural types so Launch Library and Flight Club payloads from either side fit
+export interface MatchableLaunch {
+  id: string;
+  name: string;
+  net?: string;
+  rocket?: { name?: string; configuration?: { name?: string; launch_service_provider?: { name?: string } } };
+  launch_service_provider?: { name?: string };
+}
+
+export interface MatchableMission {
+  id: string;
+  description: string;
+  startDateTime?: string;
+  launchLibraryId?: string;
+  company?: { description?: string };
+  vehicle?: { description?: string };
+}
+
+export interface MissionScore {
+  score: number; // 0-100
+  confidence: MatchConfidence;
+  reasons: string[];
+  warnings: string[];
+}
+
+export interface MissionMatch<M extends MatchableMission = MatchableMission> extends MissionScore {
+  mission: M;
+}
+
+// Candidates below this score are not matched
+export const MIN_MATCH_SCORE = 50;
+
+const NAME_WEIGHT = 60;
+const DATE_WEIGHT = 25;
+const PROVIDER_WEIGHT = 10;
+const VEHICLE_WEIGHT = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Words that carry no identity in Launch Library or Flight Club mission names
+const FILLER_WORDS = new Set(['mission', 'group', 'launch', 'project', 'the', 'of', 'and', 'flight']);
+
+const PROVIDER_ALIASES: Record<string, string> = {
+  'united launch alliance': 'ula',
+  'space exploration technologies corp': 'spacex',
+  'rocket lab usa': 'rocket lab',
+  'northrop grumman space systems': 'northrop grumman'
+};
+
+/**
+ * Mission part of a Launch Library name: "Falcon 9 Block 5 | Starlink Group 10-6" → "Starlink Group 10-6"
+ */
+export function extractMissionName(name: string): string {
+  const parts = name.split('|');
+  return parts[parts.length - 1].trim();
+}
+
+/**
+ * Lower-case mission name tokens without the vehicle ("Falcon 9", "Block 5");
+ * letters and digits are split ("ILS1" → "ils 1") and numbers lose leading
+ * zeros ("SV-07" → "sv 7")
+ */
+export function tokenizeMissionName(name: string): string[] {
+  let lower = extractMissionName(name).toLowerCase().replace(/\bblock \d+/g, ' ');
+  VEHICLE_CATALOGUE.forEach(profile => profile.matches.forEach(fragment => {
+    lower = lower.split(fragment).join(' ');
+  }));
+
+  return lower
+    .replace(/([a-z])(\d)/g, '$1 $2')
+    .replace(/(\d)([a-z])/g, '$1 $2')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token && !FILLER_WORDS.has(token))
+    .map(token => /^\d+$/.test(token) ? String(parseInt(token, 10)) : token);
+}
+
+function designator(tokens: string[]): string[] {
+  return tokens.filter(token => /^\d+$/.test(token));
+}
+
+/**
+ * Designators agree when the shorter one appears in order within the longer:
+ * "SV-07" fits "SV-07 (RRT-1)" and "CRS-31" fits "CRS-2 SpX-31", but "10-6"
+ * never fits "10-7"
+ */
+function designatorsAgree(a: string[], b: string[]): boolean {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  let position = 0;
+  for (const number of longer) {
+    if (number === shorter[position]) {
+      position++;
+    }
+  }
+  return position === shorter.length;
+}
+
+function normalizeProvider(name?: string): string {
+  const normalized = (name ?? '').toLowerCase().replace(/[^a-z0-9 ]+/g, '').replace(/\s+/g, ' ').trim();
+  return PROVIDER_ALIASES[normalized] ?? normalized;
+}
+
+function vehicleFamily(name?: string): string | undefined {
+  const lower = (name ?? '').toLowerCase();
+  return lower ? VEHICLE_CATALOGUE.find(profile => profile.matches.some(fragment => lower.includes(fragment)))?.name : undefined;
+}
+
+function launchVehicleName(launch: MatchableLaunch): string {
+  const parts = launch.name.split('|');
+  return launch.rocket?.configuration?.name || launch.rocket?.name || (parts.length > 1 ? parts[0] : '');
+}
+
+function launchProvider(launch: MatchableLaunch): string {
+  return launch.launch_service_provider?.name || launch.rocket?.configuration?.launch_service_provider?.name || '';
+}
+
+export function scoreToConfidence(score: number): MatchConfidence {
+  if (score >= 95) return 'exact';
+  if (score >= 80) return 'high';
+  if (score >= 60) return 'medium';
+  if (score >= 40) return 'low';
+  return 'none';
+}
+
+/**
+ * Score one Flight Club mission against a launch, with the reasons behind the
+ * score and any doubts about it
+ */
+export function scoreMissionMatch(launch: MatchableLaunch, mission: MatchableMission): MissionScore {
+  if (mission.launchLibraryId && mission.launchLibraryId === launch.id) {
+    return { score: 100, confidence: 'exact', reasons: ['Launch Library ID match'], warnings: [] };
+  }
+
+  const reasons: string[] = [];
+  const warnings: string[] = [];
+  let score = 0;
+
+  // Mission name
+  const launchTokens = tokenizeMissionName(launch.name);
+  const missionTokens = tokenizeMissionName(mission.description);
+  const launchDesignator = designator(launchTokens);
+  const missionDesignator = designator(missionTokens);
+  if (launchDesignator.length > 0 && missionDesignator.length > 0 && !designatorsAgree(launchDesignator, missionDesignator)) {
+    warnings.push(`Mission designators differ (${launchDesignator.join('-')} vs ${missionDesignator.join('-')})`);
+  } else if (launchTokens.length > 0 && missionTokens.length > 0) {
+    const shared = launchTokens.filter(token => missionTokens.includes(token)).length;
+    const similarity = shared / Math.max(launchTokens.length, missionTokens.length);
+    score += similarity * NAME_WEIGHT;
+    if (similarity === 1) {
+      reasons.push('Mission name match');
+    } else if (similarity >= 0.5) {
+      reasons.push(`Mission name ${Math.round(similarity * 100)}% similar`);
+    } else {
+      warnings.push('Mission names are significantly different');
+    }
+  }
+
+  // Launch date
+  const launchTime = Date.parse(launch.net ?? '');
+  const missionTime = Date.parse(mission.startDateTime ?? '');
+  if (!isNaN(launchTime) && !isNaN(missionTime)) {
+    const difference = Math.abs(launchTime - missionTime);
+    const days = Math.round(difference / DAY_MS);
+    if (difference <= DAY_MS) {
+      score += DATE_WEIGHT;
+      reasons.push('Launch date within 24 hours');
+    } else if (difference <= 3 * DAY_MS) {
+      score += DATE_WEIGHT * 0.6;
+      reasons.push(`Launch date within ${days} days`);
+    } else if (difference <= 7 * DAY_MS) {
+      score += DATE_WEIGHT * 0.2;
+      reasons.push(`Launch date within ${days} days`);
+    } else {
+      warnings.push(`Launch dates differ by ${days} days`);
+    }
+  }
+
+  // Launch provider
+  const provider = normalizeProvider(launchProvider(launch));
+  const company = normalizeProvider(mission.company?.description);
+  if (provider && company) {
+    if (provider.includes(company) || company.includes(provider)) {
+      score += PROVIDER_WEIGHT;
+      reasons.push(`Launch provider match: ${mission.company?.description}`);
+    } else {
+      warnings.push(`Launch provider mismatch: ${launchProvider(launch)} vs ${mission.company?.description}`);
+    }
+  }
+
+  // Vehicle
+  const launchVehicle = vehicleFamily(launchVehicleName(launch));
+  const missionVehicle = vehicleFamily(mission.vehicle?.description);
+  if (launchVehicle && missionVehicle) {
+    if (launchVehicle === missionVehicle) {
+      score += VEHICLE_WEIGHT;
+      reasons.push(`Vehicle match: ${launchVehicle}`);
+    } else {
+      warnings.push(`Vehicle mismatch: ${launchVehicle} vs ${missionVehicle}`);
+    }
+  }
+
+  score = Math.round(score);
+  // Only a recorded Launch Library ID is exact
+  const confidence = score >= 95 ? 'high' : scoreToConfidence(score);
+  return { score, confidence, reasons, warnings };
+}
+
+/**
+ * Best Flight Club mission for a launch, or null when no candidate reaches
+ * MIN_MATCH_SCORE. Ties go to the mission listed first.
+ */
+export function matchLaunchToMission<M extends MatchableMission>(launch: MatchableLaunch, missions: M[]): MissionMatch<M> | null {
+  let best: MissionMatch<M> | null = null;
+  for (const mission of missions) {
+    const result = scoreMissionMatch(launch, mission);
+    if (!best || result.score > best.score) {
+      best = { ...result, mission };
+    }
+    if (result.confidence === 'exact') {
+      break;
+    }
+  }
+  return best && best.score >= MIN_MATCH_SCORE ? best : null;
+}
+
+/**
+ * Flight Club missions most likely to be this launch, best first, for a user
+ * to choose between when the automatic match is in doubt
+ */
+export function rankMissionMatches<M extends MatchableMission>(
+  launch: MatchableLaunch,
+  missions: M[],
+  limit: number = 5
+): Array<MissionMatch<M>> {
+  return missions
+    .map(mission => ({ ...scoreMissionMatch(launch, mission), mission }))
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
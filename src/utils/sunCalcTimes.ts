@@ -5,10 +5,7 @@
  */
 
 import SunCalc from 'suncalc';
-
-// Bermuda coordinates
-const BERMUDA_LAT = 32.3078;
-const BERMUDA_LNG = -64.7505;
+import { getObserverLocation } from '../services/observerLocationService';
 
 export interface SunCalcTimes {
   sunrise: Date;
@@ -30,7 +27,8 @@ export interface SunCalcTimes {
  */
 export function getSunCalcTimes(date: Date): SunCalcTimes {
   // SunCalc returns times in UTC, which is perfect for our needs
-  const times = SunCalc.getTimes(date, BERMUDA_LAT, BERMUDA_LNG);
+  const observer = getObserverLocation();
+  const times = SunCalc.getTimes(date, observer.latitude, observer.longitude, observer.elevation);
   
   return {
     sunrise: times.sunrise,
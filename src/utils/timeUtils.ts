@@ -58,7 +58,7 @@ export function formatLaunchWindow(windowStart?: string, windowEnd?: string, net
     return {
       hasWindow: false,
       windowText: 'TBD',
-      timeZone: 'ADT'
+      timeZone: BermudaTimeService.getCurrentBermudaTime().timeZoneName
     };
   }
   
@@ -78,16 +78,17 @@ export function formatLaunchWindow(windowStart?: string, windowEnd?: string, net
     };
   }
   
-  // Format both times in Bermuda timezone
+  // Format both times in the observer's timezone (Bermuda by default)
+  const displayTimeZone = BermudaTimeService.getDisplayTimeZone();
   const startTime = startDate.toLocaleTimeString('en-US', {
-    timeZone: 'Atlantic/Bermuda',
+    timeZone: displayTimeZone,
     hour: '2-digit',
     minute: '2-digit',
     hour12: true
   });
   
   const endTime = endDate.toLocaleTimeString('en-US', {
-    timeZone: 'Atlantic/Bermuda',
+    timeZone: displayTimeZone,
     hour: '2-digit',
     minute: '2-digit',
     hour12: true
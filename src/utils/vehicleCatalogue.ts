@@ -0,0 +1,178 @@
+/**
+ * Launch vehicle catalogue
+ * Typical ascent milestones, engines and plume brightness for the rockets
+ * flown from the US east coast. Timings and altitudes are rounded from public
+ * flight timelines; individual missions vary with payload and target orbit.
+ */
+
+import { Launch } from '../types';
+
+export type PlumeBrightnessClass = 'faint' | 'moderate' | 'bright' | 'brilliant';
+
+export interface VehicleStageProfile {
+  engines: string;      // e.g. '9 × Merlin 1D'
+  engineType: string;   // engine family tagged on stage events, e.g. 'Merlin'
+  burnSeconds: number;  // typical burn to cutoff
+}
+
+export interface VehicleProfile {
+  id: string;
+  name: string;
+  matches: string[];    // lower-case fragments of the rocket configuration name
+  firstStage: VehicleStageProfile;
+  boosters?: VehicleStageProfile; // strap-on boosters, jettisoned during the first stage burn
+  upperStage: VehicleStageProfile;
+  stageSeparationSeconds: number;    // MECO to stage separation
+  upperStageIgnitionSeconds: number; // MECO to upper stage ignition
+  mecoAltitudeKm: number;
+  secoAltitudeKm: number;
+  plumeClass: PlumeBrightnessClass;
+}
+
+export interface VehicleTimeline {
+  meco: number;
+  stageSeparation: number;
+  upperStageIgnition: number;
+  seco: number;
+}
+
+export const VEHICLE_CATALOGUE: VehicleProfile[] = [
+  {
+    id: 'falcon-9',
+    name: 'Falcon 9',
+    matches: ['falcon 9', 'falcon9'],
+    firstStage: { engines: '9 × Merlin 1D', engineType: 'Merlin', burnSeconds: 150 },
+    upperStage: { engines: 'Merlin 1D Vacuum', engineType: 'MVac', burnSeconds: 360 },
+    stageSeparationSeconds: 3,
+    upperStageIgnitionSeconds: 8,
+    mecoAltitudeKm: 68,
+    secoAltitudeKm: 210,
+    plumeClass: 'bright'
+  },
+  {
+    id: 'falcon-heavy',
+    name: 'Falcon Heavy',
+    matches: ['falcon heavy'],
+    firstStage: { engines: '9 × Merlin 1D (center core)', engineType: 'Merlin', burnSeconds: 185 },
+    boosters: { engines: '2 × 9 Merlin 1D side boosters', engineType: 'Merlin', burnSeconds: 150 },
+    upperStage: { engines: 'Merlin 1D Vacuum', engineType: 'MVac', burnSeconds: 330 },
+    stageSeparationSeconds: 3,
+    upperStageIgnitionSeconds: 8,
+    mecoAltitudeKm: 95,
+    secoAltitudeKm: 200,
+    plumeClass: 'brilliant'
+  },
+  {
+    id: 'vulcan',
+    name: 'Vulcan Centaur',
+    matches: ['vulcan'],
+    firstStage: { engines: '2 × BE-4', engineType: 'BE-4', burnSeconds: 300 },
+    boosters: { engines: 'GEM 63XL solid rocket boosters', engineType: 'GEM 63XL', burnSeconds: 90 },
+    upperStage: { engines: '2 × RL10C-X', engineType: 'RL10', burnSeconds: 500 },
+    stageSeparationSeconds: 6,
+    upperStageIgnitionSeconds: 16,
+    mecoAltitudeKm: 125,
+    secoAltitudeKm: 190,
+    plumeClass: 'bright'
+  },
+  {
+    id: 'atlas-v',
+    name: 'Atlas V',
+    matches: ['atlas v', 'atlas 5'],
+    firstStage: { engines: 'RD-180', engineType: 'RD-180', burnSeconds: 245 },
+    upperStage: { engines: 'RL10C-1', engineType: 'RL10', burnSeconds: 700 },
+    stageSeparationSeconds: 6,
+    upperStageIgnitionSeconds: 16,
+    mecoAltitudeKm: 110,
+    secoAltitudeKm: 180,
+    plumeClass: 'bright'
+  },
+  {
+    id: 'new-glenn',
+    name: 'New Glenn',
+    matches: ['new glenn'],
+    firstStage: { engines: '7 × BE-4', engineType: 'BE-4', burnSeconds: 190 },
+    upperStage: { engines: '2 × BE-3U', engineType: 'BE-3U', burnSeconds: 560 },
+    stageSeparationSeconds: 3,
+    upperStageIgnitionSeconds: 10,
+    mecoAltitudeKm: 80,
+    secoAltitudeKm: 200,
+    plumeClass: 'brilliant'
+  },
+  {
+    id: 'electron',
+    name: 'Electron',
+    matches: ['electron'],
+    firstStage: { engines: '9 × Rutherford', engineType: 'Rutherford', burnSeconds: 150 },
+    upperStage: { engines: 'Rutherford Vacuum', engineType: 'Rutherford', burnSeconds: 370 },
+    stageSeparationSeconds: 3,
+    upperStageIgnitionSeconds: 6,
+    mecoAltitudeKm: 75,
+    secoAltitudeKm: 230,
+    plumeClass: 'faint'
+  },
+  {
+    id: 'antares',
+    name: 'Antares 330 / MLV',
+    matches: ['antares', 'mlv', 'eclipse'],
+    firstStage: { engines: '7 × Miranda', engineType: 'Miranda', burnSeconds: 210 },
+    upperStage: { engines: 'Castor 30XL', engineType: 'Castor 30XL', burnSeconds: 155 },
+    stageSeparationSeconds: 5,
+    upperStageIgnitionSeconds: 120,
+    mecoAltitudeKm: 105,
+    secoAltitudeKm: 200,
+    plumeClass: 'moderate'
+  },
+  {
+    id: 'starship',
+    name: 'Starship',
+    matches: ['starship', 'super heavy'],
+    firstStage: { engines: '33 × Raptor', engineType: 'Raptor', burnSeconds: 160 },
+    upperStage: { engines: '3 × Raptor + 3 × Raptor Vacuum', engineType: 'Raptor', burnSeconds: 360 },
+    stageSeparationSeconds: 1,
+    upperStageIgnitionSeconds: 1, // hot staging: the ship lights its engines as it separates
+    mecoAltitudeKm: 70,
+    secoAltitudeKm: 150,
+    plumeClass: 'brilliant'
+  }
+];
+
+const DEFAULT_VEHICLE_ID = 'falcon-9';
+
+/**
+ * Rocket configuration name, preferring Launch Library's configuration over the display name
+ */
+export function getLaunchVehicleName(launch: Pick<Launch, 'rocket'>): string {
+  return launch.rocket?.configuration?.full_name
+    || launch.rocket?.configuration?.name
+    || launch.rocket?.name
+    || '';
+}
+
+/**
+ * Catalogue entry for a launch or rocket name, falling back to Falcon 9 (most east coast launches)
+ */
+export function getVehicleProfile(launchOrName?: Pick<Launch, 'rocket'> | string): VehicleProfile {
+  const name = (typeof launchOrName === 'string' ? launchOrName : launchOrName ? getLaunchVehicleName(launchOrName) : '').toLowerCase();
+  return VEHICLE_CATALOGUE.find(profile => profile.matches.some(fragment => name.includes(fragment)))
+    ?? getVehicleProfileById(DEFAULT_VEHICLE_ID);
+}
+
+export function getVehicleProfileById(id: string): VehicleProfile {
+  return VEHICLE_CATALOGUE.find(profile => profile.id === id)
+    ?? VEHICLE_CATALOGUE.find(profile => profile.id === DEFAULT_VEHICLE_ID)!;
+}
+
+/**
+ * Typical T+ seconds of the main ascent events
+ */
+export function getVehicleTimeline(profile: VehicleProfile): VehicleTimeline {
+  const meco = profile.firstStage.burnSeconds;
+  const upperStageIgnition = meco + profile.upperStageIgnitionSeconds;
+  return {
+    meco,
+    stageSeparation: meco + profile.stageSeparationSeconds,
+    upperStageIgnition,
+    seco: upperStageIgnition + profile.upperStage.burnSeconds
+  };
+}
@@ -6,7 +6,7 @@
  */
 
 import { EnhancedVisibilityData } from '../types';
-import { getBermudaTimeZone } from './bermudaTimeZone';
+import { BermudaTimeService } from '../services/bermudaTimeService';
 
 export interface FormattedVisibilityOutput {
   visible: boolean;
@@ -234,6 +234,8 @@ export class VisibilityFormatter {
 
     if (enhancedData.dataSource === 'flightclub') {
       sources.push('FlightClub trajectory data');
+    } else if (enhancedData.dataSource === 'ground-track') {
+      sources.push('Imported ground track');
     } else if (enhancedData.dataSource === 'calculated') {
       sources.push('Calculated trajectory');
     } else {
@@ -301,8 +303,8 @@ export class VisibilityFormatter {
       hour: 'numeric',
       minute: '2-digit',
       hour12: true,
-      timeZone: 'Atlantic/Bermuda'
-    }) + ' ' + getBermudaTimeZone(date);
+      timeZone: BermudaTimeService.getDisplayTimeZone()
+    }) + ' ' + BermudaTimeService.toBermudaTime(date).timeZoneName;
   }
 
   /**